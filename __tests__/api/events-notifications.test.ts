@@ -7,7 +7,8 @@
 import { NextRequest } from 'next/server'
 import { POST } from '@/app/api/events/route'
 import { prisma } from '@/lib/prisma'
-import { dispatchEventNotifications } from '@/lib/notifications'
+import { dispatchEventNotifications, dispatchEventWebhooks } from '@/lib/notifications'
+import { recordDeviceActivity } from '@/lib/devices'
 import { EventType } from '@prisma/client'
 
 jest.mock('@/lib/prisma', () => ({
@@ -29,10 +30,18 @@ jest.mock('@/lib/auth-middleware', () => ({
   hasPermission: jest.fn().mockReturnValue(true),
 }))
 
+// The device registry is covered by its own unit tests; keep it out of the
+// route under test.
+jest.mock('@/lib/devices', () => ({
+  deviceMetadataFromHeaders: jest.fn().mockReturnValue({}),
+  recordDeviceActivity: jest.fn().mockResolvedValue(undefined),
+}))
+
 jest.mock('@/lib/notifications', () => ({
   dispatchEventNotifications: jest
     .fn()
     .mockResolvedValue({ attempted: 1, succeeded: 1, failed: 0, results: [] }),
+  dispatchEventWebhooks: jest.fn().mockResolvedValue([]),
 }))
 
 const mockPrisma = prisma as unknown as {
@@ -87,6 +96,11 @@ describe('/api/events POST notification trigger', () => {
     const response = await POST(req(baseEvent))
     expect(response.status).toBe(200)
     expect(mockDispatch).not.toHaveBeenCalled()
+    // Webhooks do hear about the new readings.
+    expect(dispatchEventWebhooks).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'evt-existing' }),
+      'updated'
+    )
   })
 
   it('does NOT dispatch when an event is resolved (active:false)', async () => {
@@ -98,6 +112,36 @@ describe('/api/events POST notification trigger', () => {
     expect(mockDispatch).not.toHaveBeenCalled()
   })
 
+  it('only matches and creates channel-1 events, leaving channel 2 to the server', async () => {
+    mockPrisma.event.findFirst.mockResolvedValue(null)
+    mockPrisma.event.create.mockResolvedValue({ id: 'evt-3' })
+
+    await POST(req({ ...baseEvent, type: 1 })) // HIGH_CURRENT
+
+    expect(mockPrisma.event.findFirst).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({ type: EventType.HIGH_CURRENT, channel: 1 }),
+      })
+    )
+    expect(mockPrisma.event.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ channel: 1 }),
+    })
+  })
+
+  it('registers the device without counting the event as sensor data', async () => {
+    mockPrisma.event.findFirst.mockResolvedValue(null)
+    mockPrisma.event.create.mockResolvedValue({ id: 'evt-4' })
+
+    await POST(req(baseEvent))
+
+    expect(recordDeviceActivity).toHaveBeenCalledWith(
+      [expect.objectContaining({ device: baseEvent.device })],
+      {},
+      expect.any(Date),
+      { sensorData: false }
+    )
+  })
+
   it('still returns 201 even if notification dispatch throws', async () => {
     mockPrisma.event.findFirst.mockResolvedValue(null)
     mockPrisma.event.create.mockResolvedValue({ id: 'evt-2' })
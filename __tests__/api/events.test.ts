@@ -8,6 +8,7 @@ import { NextRequest } from 'next/server'
 import { POST, GET, PATCH } from '@/app/api/events/route'
 import { prisma } from '@/lib/prisma'
 import { EventType } from '@prisma/client'
+import { dispatchEventWebhooks } from '@/lib/notifications'
 
 // Mock Prisma
 jest.mock('@/lib/prisma', () => ({
@@ -31,6 +32,13 @@ jest.mock('@/lib/auth-middleware', () => ({
   hasPermission: jest.fn().mockReturnValue(true),
 }))
 
+// The device registry is covered by its own unit tests; keep it out of the
+// route under test.
+jest.mock('@/lib/devices', () => ({
+  deviceMetadataFromHeaders: jest.fn().mockReturnValue({}),
+  recordDeviceActivity: jest.fn().mockResolvedValue(undefined),
+}))
+
 // A new active event triggers a notification dispatch; stub it so the route
 // under test stays isolated from the notification subsystem.
 jest.mock('@/lib/notifications', () => ({
@@ -41,6 +49,7 @@ jest.mock('@/lib/notifications', () => ({
     failed: 0,
     results: [],
   }),
+  dispatchEventWebhooks: jest.fn().mockResolvedValue([]),
 }))
 
 const mockPrisma = prisma as unknown as DeepMocked<typeof prisma>
@@ -179,6 +188,12 @@ describe('/api/events', () => {
         orderBy: { timestamp: 'desc' },
         take: 100,
         skip: 0,
+        include: {
+          escalations: {
+            select: { step: true, priority: true, createdAt: true },
+            orderBy: { createdAt: 'asc' },
+          },
+        },
       })
     })
 
@@ -195,6 +210,12 @@ describe('/api/events', () => {
         orderBy: { timestamp: 'desc' },
         take: 100,
         skip: 0,
+        include: {
+          escalations: {
+            select: { step: true, priority: true, createdAt: true },
+            orderBy: { createdAt: 'asc' },
+          },
+        },
       })
     })
   })
@@ -225,6 +246,10 @@ describe('/api/events', () => {
           acknowledgedAt: expect.any(Date),
         },
       })
+      expect(dispatchEventWebhooks).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'test-event-id' }),
+        'acknowledged'
+      )
     })
 
     it('should return 400 for missing event ID', async () => {
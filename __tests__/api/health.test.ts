@@ -6,6 +6,7 @@
  */
 import { GET } from '@/app/api/health/route'
 import { prisma } from '@/lib/prisma'
+import { getDeviceStatuses, type DeviceStatus } from '@/lib/devices'
 
 // Mock Prisma
 jest.mock('@/lib/prisma', () => ({
@@ -24,7 +25,19 @@ jest.mock('@/lib/prisma', () => ({
   },
 }))
 
+// Registry lookups are unit-tested in lib/devices; here only the roll-up.
+jest.mock('@/lib/devices', () => ({
+  getDeviceStatuses: jest.fn(),
+}))
+
 const mockPrisma = prisma as unknown as DeepMocked<typeof prisma>
+const mockGetDeviceStatuses = getDeviceStatuses as jest.MockedFunction<
+  typeof getDeviceStatuses
+>
+
+/** The latest sensor row; the route only reads its timestamp. */
+const latestRow = (timestamp: Date) =>
+  ({ id: '1', timestamp }) as Awaited<ReturnType<typeof prisma.sensorData.findFirst>>
 
 describe('/api/health', () => {
   beforeEach(() => {
@@ -34,6 +47,7 @@ describe('/api/health', () => {
     // The health route includes a total sensor-record count in its stats; give it
     // a numeric default so every test does not have to stub it explicitly.
     mockPrisma.sensorData.count.mockResolvedValue(0)
+    mockGetDeviceStatuses.mockResolvedValue([])
   })
 
   afterEach(() => {
@@ -168,4 +182,76 @@ describe('/api/health', () => {
       users: 3,
     })
   })
-})
\ No newline at end of file
+
+  describe('per-device status', () => {
+    const device = (overrides: Partial<DeviceStatus>): DeviceStatus => ({
+      id: 'dev-1',
+      device: 'well-pump-monitor',
+      displayName: 'Main Well',
+      location: 'Pump House',
+      firmwareVersion: '1.4.2',
+      lastIp: '192.168.1.50',
+      firstSeenAt: new Date('2022-12-01T00:00:00.000Z'),
+      lastSeenAt: new Date('2023-01-01T11:59:00.000Z'),
+      createdAt: new Date('2022-12-01T00:00:00.000Z'),
+      updatedAt: new Date('2023-01-01T11:59:00.000Z'),
+      online: true,
+      ...overrides,
+    })
+
+    beforeEach(() => {
+      mockPrisma.$queryRaw.mockResolvedValue([{ test: 1 }])
+      mockPrisma.sensorData.findFirst.mockResolvedValue(
+        latestRow(new Date('2023-01-01T11:59:00.000Z'))
+      )
+      mockPrisma.event.count.mockResolvedValue(0)
+      mockPrisma.user.count.mockResolvedValue(1)
+    })
+
+    it('counts online devices without exposing their details', async () => {
+      mockGetDeviceStatuses.mockResolvedValue([device({})])
+
+      const response = await GET()
+      const data = await response.json()
+
+      expect(data.status).toBe('healthy')
+      expect(data.devicesOnline).toBe(1)
+      expect(data.devicesOffline).toBe(0)
+      expect(data.devices).toBeUndefined()
+      expect(JSON.stringify(data)).not.toContain('Main Well')
+    })
+
+    it('ignores pre-registered devices that have never reported', async () => {
+      mockGetDeviceStatuses.mockResolvedValue([
+        device({}),
+        device({ id: 'dev-2', device: 'spare', lastSeenAt: null, online: false }),
+      ])
+
+      const response = await GET()
+      const data = await response.json()
+
+      expect(data.status).toBe('healthy')
+      expect(data.devicesOffline).toBe(0)
+    })
+
+    it('is degraded when one device is offline even if another reports', async () => {
+      mockGetDeviceStatuses.mockResolvedValue([
+        device({}),
+        device({
+          id: 'dev-2',
+          device: 'cistern-monitor',
+          lastSeenAt: new Date('2023-01-01T10:00:00.000Z'),
+          online: false,
+        }),
+      ])
+
+      const response = await GET()
+      const data = await response.json()
+
+      expect(data.dataIngestion).toBe('active')
+      expect(data.status).toBe('degraded')
+      expect(data.devicesOnline).toBe(1)
+      expect(data.devicesOffline).toBe(1)
+    })
+  })
+})
@@ -0,0 +1,59 @@
+/**
+ * @jest-environment node
+ */
+import { NextRequest } from 'next/server'
+import { GET } from '@/app/api/metrics/route'
+import { getAuthContext, hasPermission } from '@/lib/auth-middleware'
+import { renderMetrics } from '@/lib/metrics'
+
+jest.mock('@/lib/auth-middleware', () => ({
+  getAuthContext: jest.fn().mockResolvedValue({ isAuthenticated: false, authMethod: 'none' }),
+  hasPermission: jest.fn(),
+}))
+
+jest.mock('@/lib/metrics', () => ({
+  renderMetrics: jest.fn(),
+  metricsContentType: () => 'text/plain; version=0.0.4; charset=utf-8',
+}))
+
+const mockHasPermission = hasPermission as jest.Mock
+const mockRenderMetrics = renderMetrics as jest.Mock
+
+const request = () => new NextRequest('http://localhost:3000/api/metrics')
+
+describe('GET /api/metrics', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it('requires the metrics permission', async () => {
+    mockHasPermission.mockReturnValueOnce(false)
+
+    const response = await GET(request())
+
+    expect(response.status).toBe(401)
+    expect(mockHasPermission).toHaveBeenCalledWith(expect.anything(), 'metrics')
+    expect(getAuthContext).toHaveBeenCalled()
+    expect(mockRenderMetrics).not.toHaveBeenCalled()
+  })
+
+  it('returns the Prometheus text format', async () => {
+    mockHasPermission.mockReturnValueOnce(true)
+    mockRenderMetrics.mockResolvedValueOnce('wellpump_events_total{type="LOW_PRESSURE"} 1\n')
+
+    const response = await GET(request())
+
+    expect(response.status).toBe(200)
+    expect(response.headers.get('content-type')).toMatch(/^text\/plain; version=0\.0\.4/)
+    expect(await response.text()).toBe('wellpump_events_total{type="LOW_PRESSURE"} 1\n')
+  })
+
+  it('returns 500 when the database is unavailable', async () => {
+    mockHasPermission.mockReturnValueOnce(true)
+    mockRenderMetrics.mockRejectedValueOnce(new Error('db down'))
+
+    const response = await GET(request())
+
+    expect(response.status).toBe(500)
+  })
+})
@@ -7,13 +7,23 @@
 import { NextRequest } from 'next/server'
 import { POST, GET } from '@/app/api/sensors/route'
 import { prisma } from '@/lib/prisma'
+import { checkSensorThresholdWindow } from '@/lib/threshold-detection'
+import { checkAndRecordLongRun } from '@/lib/long-run-detection'
+import { checkAndRecordPressureDrop } from '@/lib/leak-detection'
+import { checkAndRecordShortCycling } from '@/lib/short-cycle-detection'
+import { checkAndRecordDryRun } from '@/lib/dry-run-detection'
+import { checkAndRecordFreezeRisk } from '@/lib/freeze-risk'
+import { checkAndRecordSensorFaults } from '@/lib/sensor-sanity'
+import { publishSensorReadings } from '@/lib/mqtt'
 
 // Mock Prisma (raw query + model delegates)
 jest.mock('@/lib/prisma', () => ({
   prisma: {
     sensorData: {
       create: jest.fn(),
+      findFirst: jest.fn(),
       findMany: jest.fn(),
+      findUnique: jest.fn(),
       count: jest.fn(),
     },
     $queryRaw: jest.fn(),
@@ -30,10 +40,58 @@ jest.mock('@/lib/auth-middleware', () => ({
   hasPermission: jest.fn().mockReturnValue(true),
 }))
 
+// The device registry is covered by its own unit tests; keep it out of the
+// route under test.
+jest.mock('@/lib/devices', () => ({
+  deviceMetadataFromHeaders: jest.fn().mockReturnValue({}),
+  recordDeviceActivity: jest.fn().mockResolvedValue(undefined),
+}))
+
+// Detectors are unit-tested on their own; here we only care how often and
+// with what window the ingestion route invokes them.
+jest.mock('@/lib/threshold-detection', () => ({
+  checkSensorThresholdWindow: jest.fn().mockResolvedValue(undefined),
+}))
+jest.mock('@/lib/long-run-detection', () => ({
+  checkAndRecordLongRun: jest.fn().mockResolvedValue(undefined),
+}))
+jest.mock('@/lib/leak-detection', () => ({
+  checkAndRecordPressureDrop: jest.fn().mockResolvedValue(undefined),
+}))
+jest.mock('@/lib/short-cycle-detection', () => ({
+  checkAndRecordShortCycling: jest.fn().mockResolvedValue(undefined),
+}))
+jest.mock('@/lib/dry-run-detection', () => ({
+  checkAndRecordDryRun: jest.fn().mockResolvedValue(undefined),
+}))
+jest.mock('@/lib/freeze-risk', () => ({
+  checkAndRecordFreezeRisk: jest.fn().mockResolvedValue(undefined),
+}))
+jest.mock('@/lib/sensor-sanity', () => ({
+  checkAndRecordSensorFaults: jest.fn().mockResolvedValue(new Set()),
+}))
+jest.mock('@/lib/mqtt', () => ({
+  publishSensorReadings: jest.fn().mockResolvedValue(undefined),
+}))
+jest.mock('@/lib/pump-channels', () => ({
+  getChannelNames: jest.fn().mockResolvedValue({ 1: 'Well pump', 2: 'Booster' }),
+}))
+
+const mockThresholdWindow = checkSensorThresholdWindow as jest.Mock
+const mockLongRun = checkAndRecordLongRun as jest.Mock
+const mockPressureDrop = checkAndRecordPressureDrop as jest.Mock
+const mockShortCycling = checkAndRecordShortCycling as jest.Mock
+const mockDryRun = checkAndRecordDryRun as jest.Mock
+const mockFreezeRisk = checkAndRecordFreezeRisk as jest.Mock
+const mockSensorFaults = checkAndRecordSensorFaults as jest.Mock
+const mockPublishSensorReadings = publishSensorReadings as jest.Mock
+
 const mockPrisma = prisma as unknown as {
   sensorData: {
     create: jest.Mock
+    findFirst: jest.Mock
     findMany: jest.Mock
+    findUnique: jest.Mock
     count: jest.Mock
   }
   $queryRaw: jest.Mock
@@ -108,6 +166,9 @@ describe('/api/sensors', () => {
           endTime: new Date(parseInt(validSensorData.endTime)),
         },
       })
+      expect(mockPublishSensorReadings).toHaveBeenCalledWith([
+        expect.objectContaining({ device: 'well-pump-monitor', pressAvg: 40.3 }),
+      ])
     })
 
     it('should return 400 for missing required fields', async () => {
@@ -123,6 +184,36 @@ describe('/api/sensors', () => {
       expect(data.error).toContain('Missing required field')
     })
 
+    it('returns the original id instead of inserting a retried window twice', async () => {
+      mockPrisma.sensorData.create.mockRejectedValue(
+        Object.assign(new Error('Unique constraint failed'), { code: 'P2002' })
+      )
+      mockPrisma.sensorData.findUnique.mockResolvedValue({ id: 'original-id' })
+
+      const request = new NextRequest(url(), {
+        method: 'POST',
+        body: JSON.stringify(validSensorData),
+      })
+
+      const response = await POST(request)
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data).toMatchObject({ success: true, id: 'original-id', duplicate: true })
+      expect(mockPrisma.sensorData.findUnique).toHaveBeenCalledWith({
+        where: {
+          device_startTime: {
+            device: validSensorData.device,
+            startTime: new Date(parseInt(validSensorData.startTime)),
+          },
+        },
+        select: { id: true },
+      })
+      // A duplicate is not new data, so detection must not re-run.
+      expect(mockThresholdWindow).not.toHaveBeenCalled()
+      expect(mockPublishSensorReadings).not.toHaveBeenCalled()
+    })
+
     it('should handle database errors', async () => {
       mockPrisma.sensorData.create.mockRejectedValue(new Error('Database error'))
 
@@ -139,6 +230,168 @@ describe('/api/sensors', () => {
     })
   })
 
+  describe('POST — batch replay', () => {
+    const MINUTE = 60_000
+    // Fixed "now" so the future-timestamp guard is deterministic.
+    const NOW = Date.parse('2026-01-01T12:00:00.000Z')
+
+    const rowAt = (minute: number, overrides: Record<string, unknown> = {}) => ({
+      device: 'well-pump-monitor',
+      location: 'Pump House',
+      timestamp: String(NOW - (60 - minute) * MINUTE),
+      startTime: String(NOW - (61 - minute) * MINUTE),
+      endTime: String(NOW - (60 - minute) * MINUTE),
+      sampleCount: 60,
+      tempMin: 50, tempMax: 51, tempAvg: 50.5,
+      humMin: 60, humMax: 61, humAvg: 60.5,
+      pressMin: 40, pressMax: 50, pressAvg: 45,
+      current1Min: 0, current1Max: 0.2, current1Avg: 0.1, current1RMS: 0.1, dutyCycle1: 0,
+      current2Min: 0, current2Max: 0, current2Avg: 0, current2RMS: 0, dutyCycle2: 0,
+      ...overrides,
+    })
+
+    const postBatch = (rows: unknown[]) =>
+      POST(new NextRequest(url(), { method: 'POST', body: JSON.stringify(rows) }))
+
+    beforeEach(() => {
+      jest.useFakeTimers()
+      jest.setSystemTime(NOW)
+      mockPrisma.sensorData.findMany.mockResolvedValue([])
+      let n = 0
+      mockPrisma.sensorData.create.mockImplementation(async () => ({ id: `row-${++n}` }))
+    })
+
+    afterEach(() => {
+      jest.useRealTimers()
+    })
+
+    it('stores every row and reports per-row success in request order', async () => {
+      const response = await postBatch([rowAt(0), rowAt(1), rowAt(2)])
+      const data = await response.json()
+
+      expect(response.status).toBe(201)
+      expect(data).toMatchObject({ success: true, created: 3, duplicates: 0, failed: 0 })
+      expect(data.results).toEqual([
+        { index: 0, success: true, id: 'row-1' },
+        { index: 1, success: true, id: 'row-2' },
+        { index: 2, success: true, id: 'row-3' },
+      ])
+      expect(mockPrisma.sensorData.create).toHaveBeenCalledTimes(3)
+      expect(mockPublishSensorReadings).toHaveBeenCalledTimes(1)
+      expect(mockPublishSensorReadings.mock.calls[0][0]).toHaveLength(3)
+    })
+
+    it('runs each detector once over the window, ordered chronologically', async () => {
+      // Deliberately out of order: the device may flush its buffer unsorted.
+      await postBatch([rowAt(2), rowAt(0), rowAt(1)])
+
+      expect(mockThresholdWindow).toHaveBeenCalledTimes(1)
+      const [, , windowRows] = mockThresholdWindow.mock.calls[0]
+      expect(windowRows.map((r: { timestamp: Date }) => r.timestamp.getTime())).toEqual([
+        NOW - 60 * MINUTE,
+        NOW - 59 * MINUTE,
+        NOW - 58 * MINUTE,
+      ])
+
+      expect(mockLongRun).toHaveBeenCalledTimes(1)
+      expect(mockLongRun).toHaveBeenCalledWith(
+        'well-pump-monitor',
+        'Pump House',
+        new Date(NOW - 58 * MINUTE),
+        new Set(),
+      )
+      expect(mockSensorFaults).toHaveBeenCalledTimes(1)
+      expect(mockPressureDrop).toHaveBeenCalledTimes(1)
+      expect(mockShortCycling).toHaveBeenCalledTimes(1)
+      expect(mockDryRun).toHaveBeenCalledTimes(1)
+      expect(mockFreezeRisk).toHaveBeenCalledTimes(1)
+    })
+
+    it('skips detectors that read from a faulty sensor', async () => {
+      mockSensorFaults.mockResolvedValueOnce(new Set(['pressure']))
+
+      await postBatch([rowAt(0), rowAt(1)])
+
+      expect(mockPressureDrop).not.toHaveBeenCalled()
+      expect(mockDryRun).not.toHaveBeenCalled()
+      expect(mockShortCycling).toHaveBeenCalledTimes(1)
+      expect(mockFreezeRisk).toHaveBeenCalledTimes(1)
+      const [, , , faulty] = mockThresholdWindow.mock.calls[0]
+      expect(faulty).toEqual(new Set(['pressure']))
+    })
+
+    it('skips detection for a backlog older than rows already stored', async () => {
+      mockPrisma.sensorData.findFirst.mockResolvedValueOnce({ id: 'live-row' })
+
+      const response = await postBatch([rowAt(0), rowAt(1)])
+
+      expect(response.status).toBe(201)
+      expect(mockPrisma.sensorData.findFirst).toHaveBeenCalledWith({
+        where: {
+          device: 'well-pump-monitor',
+          timestamp: { gt: new Date(NOW - 59 * MINUTE) },
+        },
+        select: { id: true },
+      })
+      expect(mockSensorFaults).not.toHaveBeenCalled()
+      expect(mockThresholdWindow).not.toHaveBeenCalled()
+      expect(mockLongRun).not.toHaveBeenCalled()
+      expect(mockDryRun).not.toHaveBeenCalled()
+    })
+
+    it('validates rows independently and returns 207 on partial failure', async () => {
+      const missingField: Record<string, unknown> = rowAt(1)
+      delete missingField.pressMin
+      const future = rowAt(2, { timestamp: String(NOW + 10 * MINUTE) })
+
+      const response = await postBatch([rowAt(0), missingField, future])
+      const data = await response.json()
+
+      expect(response.status).toBe(207)
+      expect(data).toMatchObject({ success: false, created: 1, failed: 2 })
+      expect(data.results[1]).toMatchObject({ index: 1, success: false })
+      expect(data.results[1].error).toContain('Missing required field: pressMin')
+      expect(data.results[2].error).toContain('too far in the future')
+      expect(mockPrisma.sensorData.create).toHaveBeenCalledTimes(1)
+    })
+
+    it('rejects already-stored and repeated windows idempotently', async () => {
+      mockPrisma.sensorData.findMany.mockResolvedValue([
+        {
+          id: 'stored-1',
+          device: 'well-pump-monitor',
+          startTime: new Date(NOW - 61 * MINUTE),
+        },
+      ])
+
+      const response = await postBatch([rowAt(0), rowAt(1), rowAt(1)])
+      const data = await response.json()
+
+      expect(response.status).toBe(201)
+      expect(data).toMatchObject({ success: true, created: 1, duplicates: 2, failed: 0 })
+      expect(data.results[0]).toEqual({ index: 0, success: true, id: 'stored-1', duplicate: true })
+      expect(data.results[2]).toEqual({ index: 2, success: true, id: 'row-1', duplicate: true })
+      expect(mockPrisma.sensorData.create).toHaveBeenCalledTimes(1)
+    })
+
+    it('returns 200 and skips detection when every row was already stored', async () => {
+      mockPrisma.sensorData.findMany.mockResolvedValue([
+        { id: 'stored-1', device: 'well-pump-monitor', startTime: new Date(NOW - 61 * MINUTE) },
+      ])
+
+      const response = await postBatch([rowAt(0)])
+
+      expect(response.status).toBe(200)
+      expect(mockPrisma.sensorData.create).not.toHaveBeenCalled()
+      expect(mockThresholdWindow).not.toHaveBeenCalled()
+    })
+
+    it('rejects an empty batch', async () => {
+      const response = await postBatch([])
+      expect(response.status).toBe(400)
+    })
+  })
+
   describe('GET — unbounded listings', () => {
     it('applies the default page size and computes hasMore when more rows exist', async () => {
       mockPrisma.sensorData.findMany.mockResolvedValue(
@@ -163,6 +416,7 @@ describe('/api/sensors', () => {
         returned: DEFAULT_UNBOUNDED_LIMIT,
         hasMore: true,
       })
+      expect(data.channelNames).toEqual({ 1: 'Well pump', 2: 'Booster' })
     })
 
     it('reports hasMore=false once the final page is reached', async () => {
@@ -0,0 +1,89 @@
+/**
+ * @jest-environment node
+ *
+ * Tests for GET /api/stats/current. The medians themselves come from
+ * `@/lib/current-drift`, which is mocked here; this covers auth, device
+ * selection and the trend toggle.
+ */
+import { NextRequest } from 'next/server'
+import { GET } from '@/app/api/stats/current/route'
+import { prisma } from '@/lib/prisma'
+import { hasPermission } from '@/lib/auth-middleware'
+import { getCurrentBaselineReport } from '@/lib/current-drift'
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    device: {
+      findMany: jest.fn(),
+    },
+  },
+}))
+
+jest.mock('@/lib/auth-middleware', () => ({
+  getAuthContext: jest.fn().mockResolvedValue({
+    isAuthenticated: true,
+    user: { id: '1', username: 'tester', role: 'VIEWER' },
+    authMethod: 'session',
+  }),
+  hasPermission: jest.fn().mockReturnValue(true),
+}))
+
+jest.mock('@/lib/current-drift', () => ({
+  getCurrentBaselineReport: jest.fn(async (device: string) => ({ device })),
+}))
+
+const mockFindMany = prisma.device.findMany as unknown as jest.Mock
+const mockHasPermission = hasPermission as jest.Mock
+const mockReport = getCurrentBaselineReport as jest.Mock
+
+const url = (qs = '') => `http://localhost:3000/api/stats/current${qs}`
+
+describe('GET /api/stats/current', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockHasPermission.mockReturnValue(true)
+  })
+
+  it('returns 401 when the caller lacks the sensors permission', async () => {
+    mockHasPermission.mockReturnValue(false)
+
+    const response = await GET(new NextRequest(url()))
+
+    expect(response.status).toBe(401)
+    expect(mockReport).not.toHaveBeenCalled()
+  })
+
+  it('reports every registered device with its trend by default', async () => {
+    mockFindMany.mockResolvedValue([{ device: 'barn-pump' }, { device: 'house-pump' }])
+
+    const response = await GET(new NextRequest(url()))
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.devices).toEqual([{ device: 'barn-pump' }, { device: 'house-pump' }])
+    expect(mockReport).toHaveBeenCalledWith('barn-pump', expect.any(Date), {
+      includeTrend: true,
+    })
+  })
+
+  it('restricts to one device and can skip the trend', async () => {
+    const response = await GET(new NextRequest(url('?device=barn-pump&trend=false')))
+    const data = await response.json()
+
+    expect(data.devices).toEqual([{ device: 'barn-pump' }])
+    expect(mockFindMany).not.toHaveBeenCalled()
+    expect(mockReport).toHaveBeenCalledWith('barn-pump', expect.any(Date), {
+      includeTrend: false,
+    })
+  })
+
+  it('returns 500 when the report fails', async () => {
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {})
+    mockReport.mockRejectedValueOnce(new Error('db down'))
+
+    const response = await GET(new NextRequest(url('?device=barn-pump')))
+
+    expect(response.status).toBe(500)
+    errorSpy.mockRestore()
+  })
+})
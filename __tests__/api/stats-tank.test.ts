@@ -0,0 +1,90 @@
+/**
+ * @jest-environment node
+ *
+ * Tests for GET /api/stats/tank. The score itself comes from
+ * `@/lib/tank-health`, which is mocked here; this covers auth, device
+ * selection and the end of the lookback.
+ */
+import { NextRequest } from 'next/server'
+import { GET } from '@/app/api/stats/tank/route'
+import { prisma } from '@/lib/prisma'
+import { hasPermission } from '@/lib/auth-middleware'
+import { getTankHealth } from '@/lib/tank-health'
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    device: {
+      findMany: jest.fn(),
+    },
+  },
+}))
+
+jest.mock('@/lib/auth-middleware', () => ({
+  getAuthContext: jest.fn().mockResolvedValue({
+    isAuthenticated: true,
+    user: { id: '1', username: 'tester', role: 'VIEWER' },
+    authMethod: 'session',
+  }),
+  hasPermission: jest.fn().mockReturnValue(true),
+}))
+
+jest.mock('@/lib/tank-health', () => ({
+  getTankHealth: jest.fn().mockResolvedValue({ score: 90, weeks: [] }),
+}))
+
+const mockFindMany = prisma.device.findMany as unknown as jest.Mock
+const mockHasPermission = hasPermission as jest.Mock
+const mockTankHealth = getTankHealth as jest.Mock
+
+const url = (qs = '') => `http://localhost:3000/api/stats/tank${qs}`
+
+describe('GET /api/stats/tank', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockHasPermission.mockReturnValue(true)
+  })
+
+  it('returns 401 when the caller lacks the sensors permission', async () => {
+    mockHasPermission.mockReturnValue(false)
+
+    const response = await GET(new NextRequest(url()))
+
+    expect(response.status).toBe(401)
+    expect(mockTankHealth).not.toHaveBeenCalled()
+  })
+
+  it('scores every registered device separately', async () => {
+    mockFindMany.mockResolvedValue([{ device: 'barn-pump' }, { device: 'house-pump' }])
+
+    const response = await GET(new NextRequest(url()))
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.devices).toEqual([
+      { device: 'barn-pump', score: 90, weeks: [] },
+      { device: 'house-pump', score: 90, weeks: [] },
+    ])
+    expect(mockTankHealth).toHaveBeenCalledWith('barn-pump', expect.any(Date))
+    expect(mockTankHealth).toHaveBeenCalledWith('house-pump', expect.any(Date))
+  })
+
+  it('restricts to one device and ends the lookback at endDate', async () => {
+    const response = await GET(
+      new NextRequest(url('?device=barn-pump&endDate=2026-06-01T00:00:00.000Z'))
+    )
+
+    expect(response.status).toBe(200)
+    expect(mockFindMany).not.toHaveBeenCalled()
+    expect(mockTankHealth).toHaveBeenCalledWith(
+      'barn-pump',
+      new Date('2026-06-01T00:00:00.000Z')
+    )
+  })
+
+  it('rejects an invalid endDate', async () => {
+    const response = await GET(new NextRequest(url('?endDate=nope')))
+
+    expect(response.status).toBe(400)
+    expect(mockTankHealth).not.toHaveBeenCalled()
+  })
+})
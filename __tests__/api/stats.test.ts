@@ -10,13 +10,26 @@ import { NextRequest } from 'next/server'
 import { GET } from '@/app/api/stats/route'
 import { prisma } from '@/lib/prisma'
 import { hasPermission } from '@/lib/auth-middleware'
+import { getFlowModel, getFlowModels } from '@/lib/water-usage'
 
 jest.mock('@/lib/prisma', () => ({
   prisma: {
     $queryRaw: jest.fn(),
+    device: { findMany: jest.fn().mockResolvedValue([]) },
   },
 }))
 
+jest.mock('@/lib/pump-channels', () => ({
+  ...jest.requireActual('@/lib/pump-channels'),
+  getChannelNames: jest.fn().mockResolvedValue({ 1: 'Well pump', 2: 'Booster' }),
+}))
+
+// No pump flow configured unless a test says otherwise.
+jest.mock('@/lib/water-usage', () => ({
+  getFlowModel: jest.fn().mockResolvedValue(null),
+  getFlowModels: jest.fn().mockResolvedValue(new Map()),
+}))
+
 jest.mock('@/lib/auth-middleware', () => ({
   getAuthContext: jest.fn().mockResolvedValue({
     isAuthenticated: true,
@@ -26,8 +39,13 @@ jest.mock('@/lib/auth-middleware', () => ({
   hasPermission: jest.fn().mockReturnValue(true),
 }))
 
-const mockPrisma = prisma as unknown as { $queryRaw: jest.Mock }
+const mockPrisma = prisma as unknown as {
+  $queryRaw: jest.Mock
+  device: { findMany: jest.Mock }
+}
 const mockHasPermission = hasPermission as jest.Mock
+const mockGetFlowModel = getFlowModel as jest.Mock
+const mockGetFlowModels = getFlowModels as jest.Mock
 
 const url = (qs = '') => `http://localhost:3000/api/stats${qs}`
 
@@ -86,7 +104,13 @@ describe('GET /api/stats', () => {
       sampleCount: 1440,
       averagePumpRunSeconds: 300, // 3600 / 12
       averageLowPressureSeconds: 300, // 600 / 2
+      estimatedGallons: null,
+      averageGallonsPerRun: null,
+      gallonsPerHour: null,
+      gallonsPerDay: null,
+      gallonsPerWeek: null,
     })
+    expect(data).not.toHaveProperty('tankHealth')
   })
 
   it('coerces Decimal-as-string sums returned by some drivers', async () => {
@@ -178,7 +202,121 @@ describe('GET /api/stats', () => {
     expect(boundValues()).toEqual([0, 30, 120])
   })
 
+  it('estimates gallons from runtime with a fixed flow rate', async () => {
+    mockGetFlowModel.mockResolvedValueOnce({ type: 'fixed', gpm: 10 })
+    mockPrisma.$queryRaw.mockResolvedValue(aggregateRow())
+
+    const response = await GET(
+      new NextRequest(
+        url('?startDate=2026-01-01T00:00:00.000Z&endDate=2026-01-03T00:00:00.000Z&device=barn')
+      )
+    )
+    const data = await response.json()
+
+    expect(mockGetFlowModel).toHaveBeenCalledWith('barn')
+    // 3600 s at 10 GPM over a 2-day range; no extra query for a fixed rate.
+    expect(mockPrisma.$queryRaw).toHaveBeenCalledTimes(1)
+    expect(data.stats.estimatedGallons).toBe(600)
+    expect(data.stats.averageGallonsPerRun).toBe(50)
+    expect(data.stats.gallonsPerDay).toBe(300)
+    expect(data.stats.gallonsPerWeek).toBe(2100)
+  })
+
+  it('sums runtime per pressure for a flow curve, over the data span', async () => {
+    mockGetFlowModel.mockResolvedValueOnce({
+      type: 'curve',
+      points: [
+        { psi: 30, gpm: 12 },
+        { psi: 50, gpm: 8 },
+      ],
+    })
+    mockPrisma.$queryRaw
+      .mockResolvedValueOnce(
+        aggregateRow({
+          first_start_time: new Date('2026-01-01T00:00:00.000Z'),
+          last_end_time: new Date('2026-01-01T12:00:00.000Z'),
+        })
+      )
+      .mockResolvedValueOnce([
+        { psi: 40, on_seconds: 1800 },
+        { psi: 50, on_seconds: '1800' },
+      ])
+
+    const response = await GET(new NextRequest(url('?device=barn')))
+    const data = await response.json()
+
+    // 30 min at 10 GPM + 30 min at 8 GPM, over 12 hours.
+    expect(data.stats.estimatedGallons).toBe(540)
+    expect(data.stats.gallonsPerHour).toBe(45)
+    expect(data.stats.gallonsPerDay).toBe(1080)
+  })
+
+  it('counts each device at its own flow model across all devices', async () => {
+    mockPrisma.device.findMany.mockResolvedValueOnce([
+      { device: 'barn' },
+      { device: 'house' },
+      { device: 'shed' },
+    ])
+    mockGetFlowModels.mockResolvedValueOnce(
+      new Map([
+        ['barn', { type: 'fixed', gpm: 10 }],
+        ['house', { type: 'fixed', gpm: 5 }],
+        ['shed', null],
+      ])
+    )
+    mockPrisma.$queryRaw
+      .mockResolvedValueOnce(aggregateRow())
+      .mockResolvedValueOnce([
+        { device: 'barn', psi: 40, on_seconds: 600 },
+        { device: 'house', psi: 40, on_seconds: 1200 },
+        { device: 'shed', psi: 40, on_seconds: 1800 },
+      ])
+
+    const response = await GET(
+      new NextRequest(url('?startDate=2026-01-01T00:00:00.000Z&endDate=2026-01-02T00:00:00.000Z'))
+    )
+    const data = await response.json()
+
+    expect(mockGetFlowModels).toHaveBeenCalledWith(['barn', 'house', 'shed'])
+    // 10 min at 10 GPM + 20 min at 5 GPM; the shed has no flow model.
+    expect(data.stats.estimatedGallons).toBe(200)
+    expect(data.stats.gallonsPerDay).toBe(200)
+  })
+
+  it('skips the per-device query when no device has a flow model', async () => {
+    mockPrisma.$queryRaw.mockResolvedValue(aggregateRow())
+
+    const response = await GET(new NextRequest(url()))
+    const data = await response.json()
+
+    expect(mockPrisma.$queryRaw).toHaveBeenCalledTimes(1)
+    expect(data.stats.estimatedGallons).toBeNull()
+  })
+
+  it('counts runs from dutyCycle2 for channel 2 and skips water usage', async () => {
+    mockGetFlowModel.mockResolvedValueOnce({ type: 'fixed', gpm: 10 })
+    mockPrisma.$queryRaw.mockResolvedValue(aggregateRow())
+
+    const response = await GET(new NextRequest(url('?channel=2')))
+    const data = await response.json()
+
+    const sql = (mockPrisma.$queryRaw.mock.calls[0][0] as { strings: string[] }).strings.join('?')
+    expect(sql).toContain('"dutyCycle2" AS duty_cycle')
+    expect(sql).not.toContain('"dutyCycle1"')
+    expect(mockGetFlowModel).not.toHaveBeenCalled()
+    expect(mockGetFlowModels).not.toHaveBeenCalled()
+    expect(data.stats.estimatedGallons).toBeNull()
+    expect(data.channel).toBe(2)
+    expect(data.channelNames).toEqual({ 1: 'Well pump', 2: 'Booster' })
+  })
+
   describe('validation', () => {
+    it('rejects an unknown channel', async () => {
+      const response = await GET(new NextRequest(url('?channel=3')))
+      expect(response.status).toBe(400)
+      expect(mockPrisma.$queryRaw).not.toHaveBeenCalled()
+    })
+
     it('rejects an invalid startDate', async () => {
       const response = await GET(new NextRequest(url('?startDate=not-a-date')))
       const data = await response.json()
@@ -0,0 +1,70 @@
+/**
+ * @jest-environment node
+ */
+import { NextRequest } from 'next/server'
+import { GET } from '@/app/api/stream/route'
+import { hasPermission } from '@/lib/auth-middleware'
+import { publishLiveEvent } from '@/lib/live-stream'
+
+jest.mock('@/lib/auth-middleware', () => ({
+  getAuthContext: jest.fn().mockResolvedValue({ isAuthenticated: false, authMethod: 'none' }),
+  hasPermission: jest.fn(),
+}))
+
+const mockHasPermission = hasPermission as jest.Mock
+
+const body = {
+  transition: 'resolved' as const,
+  event: {
+    id: 'evt-1',
+    type: 'LOW_PRESSURE',
+    device: 'well-pump-monitor',
+    location: 'Pump House',
+    value: 18.2,
+    threshold: 20,
+    description: 'cleared',
+    resolved: true,
+  },
+}
+
+describe('GET /api/stream', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it('requires a signed-in user', async () => {
+    mockHasPermission.mockReturnValueOnce(false)
+
+    const response = await GET(new NextRequest('http://localhost:3000/api/stream'))
+
+    expect(response.status).toBe(401)
+    expect(mockHasPermission).toHaveBeenCalledWith(expect.anything(), 'sensors')
+  })
+
+  it('streams published messages until the browser disconnects', async () => {
+    mockHasPermission.mockReturnValueOnce(true)
+    const controller = new AbortController()
+
+    const response = await GET(
+      new NextRequest('http://localhost:3000/api/stream', { signal: controller.signal })
+    )
+    expect(response.status).toBe(200)
+    expect(response.headers.get('content-type')).toMatch(/^text\/event-stream/)
+    expect(response.headers.get('cache-control')).toContain('no-transform')
+
+    const reader = response.body!.getReader()
+    const decoder = new TextDecoder()
+    expect(decoder.decode((await reader.read()).value)).toBe(': connected\n\n')
+
+    publishLiveEvent(body, new Date('2026-03-01T12:00:00.000Z'))
+    const message = decoder.decode((await reader.read()).value)
+    expect(message).toMatch(/^event: event\ndata: /)
+    expect(JSON.parse(message.split('data: ')[1])).toEqual({
+      ...body,
+      timestamp: '2026-03-01T12:00:00.000Z',
+    })
+
+    controller.abort()
+    expect((await reader.read()).done).toBe(true)
+  })
+})
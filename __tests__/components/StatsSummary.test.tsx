@@ -15,15 +15,27 @@ const stats = {
   sampleCount: 1440,
   averagePumpRunSeconds: 305, // 5m 5s
   averageLowPressureSeconds: 300, // 5m
+  estimatedGallons: null,
+  averageGallonsPerRun: null,
+  gallonsPerHour: null,
+  gallonsPerDay: null,
+  gallonsPerWeek: null,
 }
 
 function jsonResponse(body: unknown, ok = true, status = 200) {
   return { ok, status, json: () => Promise.resolve(body) }
 }
 
-/** Last fetched URL (string). */
+/** Calls to `/api/stats` itself; the tank health request is separate. */
+function statsCalls(): unknown[][] {
+  return mockFetch.mock.calls.filter(
+    ([url]) => new URL(String(url), 'http://localhost').pathname === '/api/stats'
+  )
+}
+
+/** Last fetched stats URL (string). */
 function lastUrl(): string {
-  const calls = mockFetch.mock.calls
+  const calls = statsCalls()
   return String(calls[calls.length - 1][0])
 }
 
@@ -83,11 +95,86 @@ describe('StatsSummary', () => {
     ).toHaveTextContent('avg 5m / event')
   })
 
+  it('shows estimated water use only when a flow rate is configured', async () => {
+    const { unmount } = render(<StatsSummary />)
+    await waitFor(() => {
+      expect(screen.getByTestId('stat-pump-runs-value')).toHaveTextContent('12')
+    })
+    expect(screen.queryByTestId('stat-water-used')).not.toBeInTheDocument()
+    unmount()
+
+    mockFetch.mockResolvedValue(
+      jsonResponse({ stats: { ...stats, estimatedGallons: 1234.5, gallonsPerDay: 411.5 } })
+    )
+    render(<StatsSummary />)
+
+    await waitFor(() => {
+      expect(screen.getByTestId('stat-water-used-value')).toHaveTextContent('1,235 gal')
+    })
+    expect(screen.getByTestId('stat-water-used-detail')).toHaveTextContent('~412 gal / day')
+  })
+
+  it('shows a tank health card for each scored device, loaded once', async () => {
+    mockFetch.mockImplementation((url: string) =>
+      Promise.resolve(
+        url.startsWith('/api/stats/tank')
+          ? jsonResponse({
+              devices: [
+                {
+                  device: 'barn-pump',
+                  score: 72,
+                  referenceRisePsiPerMinute: 10,
+                  currentRisePsiPerMinute: 14.2,
+                  weeks: [],
+                },
+                { device: 'house-pump', score: null, weeks: [] },
+              ],
+            })
+          : jsonResponse({ stats })
+      )
+    )
+    render(<StatsSummary />)
+
+    await waitFor(() => {
+      expect(screen.getByTestId('stat-tank-health-barn-pump-value')).toHaveTextContent('72/100')
+    })
+    expect(screen.getByTestId('stat-tank-health-barn-pump-detail')).toHaveTextContent(
+      '14.2 PSI/min (best 10.0)'
+    )
+    expect(screen.queryByTestId('stat-tank-health-house-pump')).not.toBeInTheDocument()
+
+    await userEvent.setup().selectOptions(screen.getByLabelText('Stats time range'), '7d')
+    await waitFor(() => {
+      expect(statsCalls()).toHaveLength(2)
+    })
+    expect(mockFetch.mock.calls.filter(([url]) => url.startsWith('/api/stats/tank'))).toHaveLength(1)
+  })
+
+  it('switches the pump channel using the names the endpoint returns', async () => {
+    const user = userEvent.setup()
+    mockFetch.mockResolvedValue(
+      jsonResponse({ stats, channelNames: { 1: 'Well pump', 2: 'Booster' } })
+    )
+    render(<StatsSummary />)
+
+    await waitFor(() => {
+      expect(screen.getByRole('option', { name: 'Booster' })).toBeInTheDocument()
+    })
+    expect(new URL(lastUrl(), 'http://localhost').searchParams.get('channel')).toBe('1')
+
+    await user.selectOptions(screen.getByLabelText('Pump channel'), 'Booster')
+
+    await waitFor(() => {
+      expect(statsCalls()).toHaveLength(2)
+    })
+    expect(new URL(lastUrl(), 'http://localhost').searchParams.get('channel')).toBe('2')
+  })
+
   it('defaults to a 24-hour range on first load', async () => {
     render(<StatsSummary />)
 
     await waitFor(() => {
-      expect(mockFetch).toHaveBeenCalled()
+      expect(statsCalls()).toHaveLength(1)
     })
     const url = new URL(lastUrl(), 'http://localhost')
     expect(url.searchParams.has('startDate')).toBe(true)
@@ -98,7 +185,7 @@ describe('StatsSummary', () => {
     render(<StatsSummary device="well-pump-monitor" />)
 
     await waitFor(() => {
-      expect(mockFetch).toHaveBeenCalled()
+      expect(statsCalls()).toHaveLength(1)
     })
     const url = new URL(lastUrl(), 'http://localhost')
     expect(url.searchParams.get('device')).toBe('well-pump-monitor')
@@ -109,13 +196,13 @@ describe('StatsSummary', () => {
     render(<StatsSummary />)
 
     await waitFor(() => {
-      expect(mockFetch).toHaveBeenCalledTimes(1)
+      expect(statsCalls()).toHaveLength(1)
     })
 
     await user.selectOptions(screen.getByLabelText('Stats time range'), 'all')
 
     await waitFor(() => {
-      expect(mockFetch).toHaveBeenCalledTimes(2)
+      expect(statsCalls()).toHaveLength(2)
     })
     const url = new URL(lastUrl(), 'http://localhost')
     expect(url.searchParams.has('startDate')).toBe(false)
@@ -127,13 +214,13 @@ describe('StatsSummary', () => {
     render(<StatsSummary />)
 
     await waitFor(() => {
-      expect(mockFetch).toHaveBeenCalledTimes(1)
+      expect(statsCalls()).toHaveLength(1)
     })
 
     await user.click(screen.getByRole('button', { name: /refresh stats/i }))
 
     await waitFor(() => {
-      expect(mockFetch).toHaveBeenCalledTimes(2)
+      expect(statsCalls()).toHaveLength(2)
     })
   })
 
@@ -143,19 +230,19 @@ describe('StatsSummary', () => {
       render(<StatsSummary />)
 
       await waitFor(() => {
-        expect(mockFetch).toHaveBeenCalledTimes(1)
+        expect(statsCalls()).toHaveLength(1)
       })
 
       await act(async () => {
         jest.advanceTimersByTime(30_000)
       })
-      expect(mockFetch).toHaveBeenCalledTimes(1)
+      expect(statsCalls()).toHaveLength(1)
 
       await act(async () => {
         jest.advanceTimersByTime(30_000)
       })
       await waitFor(() => {
-        expect(mockFetch).toHaveBeenCalledTimes(2)
+        expect(statsCalls()).toHaveLength(2)
       })
     } finally {
       jest.useRealTimers()
@@ -0,0 +1,153 @@
+import { act, renderHook } from '@testing-library/react'
+import { useLiveStream, type LiveStreamHandlers } from '@/hooks/useLiveStream'
+
+/** Just enough of EventSource to open, drop and deliver messages by hand. */
+class FakeEventSource {
+  static readonly CONNECTING = 0
+  static readonly OPEN = 1
+  static readonly CLOSED = 2
+  static instances: FakeEventSource[] = []
+
+  readyState = FakeEventSource.CONNECTING
+  onopen: (() => void) | null = null
+  onerror: (() => void) | null = null
+  close = jest.fn(() => {
+    this.readyState = FakeEventSource.CLOSED
+  })
+  private listeners: Record<string, ((message: { data: string }) => void)[]> = {}
+
+  constructor(public url: string) {
+    FakeEventSource.instances.push(this)
+  }
+
+  addEventListener(type: string, listener: (message: { data: string }) => void) {
+    ;(this.listeners[type] ??= []).push(listener)
+  }
+
+  open() {
+    this.readyState = FakeEventSource.OPEN
+    this.onopen?.()
+  }
+
+  fail(readyState: number) {
+    this.readyState = readyState
+    this.onerror?.()
+  }
+
+  emit(type: string, data: unknown) {
+    for (const listener of this.listeners[type] ?? []) listener({ data: JSON.stringify(data) })
+  }
+}
+
+async function setup(
+  cb: jest.Mock,
+  handlers: LiveStreamHandlers<unknown, unknown> = {},
+  reconnectMs?: number
+) {
+  let hook!: ReturnType<typeof renderHook<ReturnType<typeof useLiveStream>, unknown>>
+  await act(async () => {
+    hook = renderHook(() => useLiveStream(cb, handlers, { intervalMs: 1000, reconnectMs }))
+  })
+  return hook
+}
+
+/** Advance fake time inside act so the refreshes it fires settle. */
+async function advance(ms: number) {
+  await act(async () => {
+    jest.advanceTimersByTime(ms)
+  })
+}
+
+describe('useLiveStream', () => {
+  beforeEach(() => {
+    jest.useFakeTimers()
+    FakeEventSource.instances = []
+    Object.defineProperty(globalThis, 'EventSource', {
+      configurable: true,
+      writable: true,
+      value: FakeEventSource,
+    })
+  })
+
+  afterEach(() => {
+    jest.clearAllTimers()
+    jest.useRealTimers()
+    delete (globalThis as { EventSource?: unknown }).EventSource
+  })
+
+  it('polls as before when the browser has no EventSource', async () => {
+    delete (globalThis as { EventSource?: unknown }).EventSource
+    const cb = jest.fn().mockResolvedValue(undefined)
+    const { result } = await setup(cb)
+
+    await advance(1000)
+
+    expect(cb).toHaveBeenCalledTimes(2)
+    expect(result.current.live).toBe(false)
+  })
+
+  it('stops polling while the stream is open and hands messages to the handlers', async () => {
+    const cb = jest.fn().mockResolvedValue(undefined)
+    const onSensor = jest.fn()
+    const onEvent = jest.fn()
+    const { result } = await setup(cb, { onSensor, onEvent })
+    const source = FakeEventSource.instances[0]
+    expect(source.url).toBe('/api/stream')
+
+    await act(async () => source.open())
+    await advance(5000)
+    act(() => {
+      source.emit('sensor', { id: 'r1', pressAvg: 40.3 })
+      source.emit('event', { transition: 'created', event: { id: 'evt-1' } })
+    })
+
+    expect(result.current.live).toBe(true)
+    expect(cb).toHaveBeenCalledTimes(1)
+    expect(onSensor).toHaveBeenCalledWith({ id: 'r1', pressAvg: 40.3 })
+    expect(onEvent).toHaveBeenCalledWith({ transition: 'created', event: { id: 'evt-1' } })
+    expect(result.current.lastUpdated!.getTime()).toBe(Date.now())
+  })
+
+  it('polls while the connection is down and catches up when it is back', async () => {
+    const cb = jest.fn().mockResolvedValue(undefined)
+    const { result } = await setup(cb)
+    const source = FakeEventSource.instances[0]
+    await act(async () => source.open())
+
+    // The browser reconnects on its own; meanwhile polling takes over.
+    await act(async () => source.fail(FakeEventSource.CONNECTING))
+    expect(result.current.live).toBe(false)
+    expect(cb).toHaveBeenCalledTimes(2)
+    await advance(1000)
+    expect(cb).toHaveBeenCalledTimes(3)
+
+    await act(async () => source.open())
+    expect(result.current.live).toBe(true)
+    expect(cb).toHaveBeenCalledTimes(4)
+    await advance(5000)
+    expect(cb).toHaveBeenCalledTimes(4)
+  })
+
+  it('reopens a stream the server closed after the reconnect delay', async () => {
+    const cb = jest.fn().mockResolvedValue(undefined)
+    await setup(cb, {}, 10_000)
+    const source = FakeEventSource.instances[0]
+
+    await act(async () => source.fail(FakeEventSource.CLOSED))
+    expect(source.close).toHaveBeenCalled()
+    await advance(9000)
+    expect(FakeEventSource.instances).toHaveLength(1)
+    await advance(1000)
+
+    expect(FakeEventSource.instances).toHaveLength(2)
+  })
+
+  it('closes the stream on unmount', async () => {
+    const cb = jest.fn().mockResolvedValue(undefined)
+    const { unmount } = await setup(cb)
+
+    unmount()
+
+    expect(FakeEventSource.instances[0].close).toHaveBeenCalled()
+  })
+})
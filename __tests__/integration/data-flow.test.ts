@@ -39,6 +39,19 @@ jest.mock('@/lib/auth-middleware', () => ({
   hasPermission: jest.fn().mockReturnValue(true),
 }))
 
+// The device registry is covered by its own unit tests; keep it out of the
+// route under test.
+jest.mock('@/lib/devices', () => ({
+  deviceMetadataFromHeaders: jest.fn().mockReturnValue({}),
+  recordDeviceActivity: jest.fn().mockResolvedValue(undefined),
+  getDeviceStatuses: jest.fn().mockResolvedValue([]),
+}))
+
+// No broker in tests; publishing is covered by its own unit tests.
+jest.mock('@/lib/mqtt', () => ({
+  publishSensorReadings: jest.fn().mockResolvedValue(undefined),
+}))
+
 // Isolate the flow from the notification subsystem (a new event dispatches one).
 jest.mock('@/lib/notifications', () => ({
   dispatchEventNotifications: jest.fn().mockResolvedValue({
@@ -157,6 +170,7 @@ describe('Data Flow Integration Tests', () => {
       data: {
         ...eventData,
         type: 'HIGH_CURRENT',
+        channel: 1,
         timestamp: new Date(parseInt(eventData.timestamp)),
         startTime: new Date(parseInt(eventData.startTime)),
         duration: BigInt(eventData.duration),
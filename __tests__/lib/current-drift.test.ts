@@ -0,0 +1,139 @@
+/**
+ * @jest-environment node
+ *
+ * Current drift: the pure comparison decides drift and conclusiveness; the
+ * reconcile path is driven through mocked median queries so create, resolve
+ * and the "too little data changes nothing" rule are locked in.
+ */
+import {
+  checkAndRecordCurrentDrift,
+  evaluateCurrentDrift,
+  getCachedLoadedCurrentBaseline,
+} from '@/lib/current-drift'
+import { prisma } from '@/lib/prisma'
+import { dispatchEventNotifications } from '@/lib/notifications'
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    $queryRaw: jest.fn(),
+    event: {
+      findFirst: jest.fn(),
+      create: jest.fn().mockResolvedValue({ id: 'evt-new' }),
+      update: jest.fn(),
+    },
+    systemSettings: {
+      findMany: jest.fn().mockResolvedValue([]),
+    },
+  },
+}))
+
+jest.mock('@/lib/notifications', () => ({
+  dispatchEventNotifications: jest.fn().mockResolvedValue(undefined),
+}))
+
+const mockPrisma = prisma as unknown as {
+  $queryRaw: jest.Mock
+  event: { findFirst: jest.Mock; create: jest.Mock; update: jest.Mock }
+  systemSettings: { findMany: jest.Mock }
+}
+
+const NOW = new Date('2026-01-31T12:00:00.000Z')
+
+/** Serve the baseline median, then the recent median. */
+function withMedians(baselineAmps: number, recentAmps: number, recentCount = 120) {
+  mockPrisma.$queryRaw
+    .mockResolvedValueOnce([{ median_amps: baselineAmps, sample_count: BigInt(2000) }])
+    .mockResolvedValueOnce([{ median_amps: recentAmps, sample_count: BigInt(recentCount) }])
+}
+
+describe('evaluateCurrentDrift', () => {
+  const baseline = { medianAmps: 8, sampleCount: 2000 }
+
+  it('flags a deviation beyond the threshold in either direction', () => {
+    const high = evaluateCurrentDrift(baseline, { medianAmps: 9.6, sampleCount: 100 }, 15)
+    expect(high.deviationPercent).toBeCloseTo(20, 5)
+    expect(high).toMatchObject({ drifted: true, conclusive: true })
+    expect(
+      evaluateCurrentDrift(baseline, { medianAmps: 6.4, sampleCount: 100 }, 15).drifted,
+    ).toBe(true)
+  })
+
+  it('does not flag a deviation within the threshold', () => {
+    expect(
+      evaluateCurrentDrift(baseline, { medianAmps: 8.8, sampleCount: 100 }, 15).drifted,
+    ).toBe(false)
+  })
+
+  it('is inconclusive without enough loaded rows', () => {
+    const result = evaluateCurrentDrift(baseline, { medianAmps: 12, sampleCount: 3 }, 15)
+    expect(result.conclusive).toBe(false)
+    expect(result.drifted).toBe(false)
+    expect(
+      evaluateCurrentDrift({ medianAmps: null, sampleCount: 0 }, { medianAmps: 12, sampleCount: 100 }, 15)
+        .deviationPercent,
+    ).toBeNull()
+  })
+})
+
+describe('checkAndRecordCurrentDrift', () => {
+  beforeEach(() => jest.clearAllMocks())
+
+  it('creates and notifies on first drift', async () => {
+    withMedians(8, 10)
+    mockPrisma.event.findFirst.mockResolvedValue(null)
+
+    await checkAndRecordCurrentDrift('well-pump-monitor', 'Pump House', NOW)
+
+    expect(mockPrisma.event.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        type: 'CURRENT_DRIFT',
+        value: 25,
+        threshold: 15,
+        active: true,
+      }),
+    })
+    expect(dispatchEventNotifications).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'CURRENT_DRIFT', value: 25 }),
+    )
+  })
+
+  it('resolves an active event once the draw is back within the band', async () => {
+    withMedians(8, 8.2)
+    mockPrisma.event.findFirst.mockResolvedValue({ id: 'evt-1', startTime: NOW })
+
+    await checkAndRecordCurrentDrift('well-pump-monitor', 'Pump House', NOW)
+
+    expect(mockPrisma.event.update).toHaveBeenCalledWith({
+      where: { id: 'evt-1' },
+      data: { active: false, timestamp: NOW, duration: BigInt(0) },
+    })
+  })
+
+  it('leaves events alone when the recent window has too few loaded rows', async () => {
+    withMedians(8, 8.2, 2)
+
+    await checkAndRecordCurrentDrift('well-pump-monitor', 'Pump House', NOW)
+
+    expect(mockPrisma.event.findFirst).not.toHaveBeenCalled()
+    expect(mockPrisma.event.update).not.toHaveBeenCalled()
+  })
+
+  it('caches a trusted baseline for ingest-time lookups, even with the alert off', async () => {
+    mockPrisma.systemSettings.findMany.mockResolvedValueOnce([
+      { key: 'currentDriftPercent', value: '0' },
+    ])
+    withMedians(8, 8.2)
+
+    await checkAndRecordCurrentDrift('barn-pump', 'Barn', NOW)
+
+    expect(getCachedLoadedCurrentBaseline('barn-pump')).toBe(8)
+    expect(mockPrisma.event.findFirst).not.toHaveBeenCalled()
+
+    // Too few loaded rows: the cached figure is dropped, not kept stale.
+    mockPrisma.$queryRaw
+      .mockResolvedValueOnce([{ median_amps: 8, sample_count: BigInt(5) }])
+      .mockResolvedValueOnce([{ median_amps: 8, sample_count: BigInt(5) }])
+    await checkAndRecordCurrentDrift('barn-pump', 'Barn', NOW)
+    expect(getCachedLoadedCurrentBaseline('barn-pump')).toBeNull()
+  })
+})
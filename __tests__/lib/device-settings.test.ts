@@ -0,0 +1,178 @@
+/**
+ * @jest-environment node
+ *
+ * Per-device threshold overrides: the scoped loader splits global values from
+ * a device's `<key>@<device>` rows, and each detector's loader resolves
+ * override → global → default so a bad override can never disable a check.
+ */
+import {
+  deleteDeviceSettings,
+  deviceSettingKey,
+  getScopedSettings,
+  overrideDevice,
+  resolveNumericSetting,
+} from '@/lib/device-settings'
+import { DEFAULT_THRESHOLDS, getThresholds } from '@/lib/threshold-detection'
+import { getLongRunThresholdMinutes } from '@/lib/long-run-detection'
+import { getPressureDropThresholds } from '@/lib/leak-detection'
+import { getChannelNames, parseChannel } from '@/lib/pump-channels'
+import { prisma } from '@/lib/prisma'
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    systemSettings: {
+      findMany: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+  },
+}))
+
+const mockFindMany = prisma.systemSettings.findMany as unknown as jest.Mock
+const mockDeleteMany = prisma.systemSettings.deleteMany as unknown as jest.Mock
+
+/** Serve only the requested keys from an in-memory settings table. */
+function withSettings(table: Record<string, string>) {
+  mockFindMany.mockImplementation(
+    async ({ where }: { where: { key: { in: string[] } } }) =>
+      where.key.in
+        .filter((key) => key in table)
+        .map((key) => ({ key, value: table[key] })),
+  )
+}
+
+describe('getScopedSettings', () => {
+  beforeEach(() => jest.clearAllMocks())
+
+  it('splits global values from the device override rows', async () => {
+    withSettings({
+      lowPressureThresholdPsi: '30',
+      [deviceSettingKey('lowPressureThresholdPsi', 'barn-pump')]: '20',
+      [deviceSettingKey('lowPressureThresholdPsi', 'house-pump')]: '40',
+    })
+
+    const scoped = await getScopedSettings(['lowPressureThresholdPsi'], 'barn-pump')
+
+    expect(scoped.global.get('lowPressureThresholdPsi')).toBe('30')
+    expect(scoped.override.get('lowPressureThresholdPsi')).toBe('20')
+  })
+
+  it('reads only global keys without a device', async () => {
+    withSettings({ lowPressureThresholdPsi: '30' })
+
+    const scoped = await getScopedSettings(['lowPressureThresholdPsi'])
+
+    expect(mockFindMany).toHaveBeenCalledWith({
+      where: { key: { in: ['lowPressureThresholdPsi'] } },
+    })
+    expect(scoped.override.size).toBe(0)
+  })
+})
+
+describe('effective thresholds per device', () => {
+  beforeEach(() => jest.clearAllMocks())
+
+  it('prefers the override, then the global value, then the default', async () => {
+    withSettings({
+      highCurrentThresholdAmps: '9',
+      lowPressureThresholdPsi: '35',
+      [deviceSettingKey('lowPressureThresholdPsi', 'barn-pump')]: '20',
+    })
+
+    expect(await getThresholds('barn-pump')).toEqual({
+      ...DEFAULT_THRESHOLDS,
+      highCurrentAmps: 9,
+      lowPressurePsi: 20,
+    })
+    expect((await getThresholds('house-pump')).lowPressurePsi).toBe(35)
+  })
+
+  it('inherits the global value when an override is blank or malformed', async () => {
+    withSettings({
+      lowPressureThresholdPsi: '35',
+      [deviceSettingKey('lowPressureThresholdPsi', 'barn-pump')]: '',
+      [deviceSettingKey('lowTemperatureThresholdF', 'barn-pump')]: 'cold',
+    })
+
+    const thresholds = await getThresholds('barn-pump')
+    expect(thresholds.lowPressurePsi).toBe(35)
+    expect(thresholds.lowTemperatureF).toBe(DEFAULT_THRESHOLDS.lowTemperatureF)
+  })
+
+  it('lets a device disable the long-run check with 0', async () => {
+    withSettings({
+      longPumpRunThresholdMinutes: '45',
+      [deviceSettingKey('longPumpRunThresholdMinutes', 'barn-pump')]: '0',
+    })
+
+    expect(await getLongRunThresholdMinutes('barn-pump')).toBe(0)
+    expect(await getLongRunThresholdMinutes('house-pump')).toBe(45)
+  })
+
+  it('resolves pressure-drop thresholds per key', async () => {
+    withSettings({
+      pressureDropMaxPsiPerHour: '3',
+      [deviceSettingKey('pressureDropMinSegmentMinutes', 'barn-pump')]: '90',
+    })
+
+    expect(await getPressureDropThresholds('barn-pump')).toEqual({
+      maxDropRatePsiPerHour: 3,
+      minSegmentMinutes: 90,
+    })
+  })
+
+  it('names pump channels per device, skipping blank names', async () => {
+    withSettings({
+      pumpChannel2Name: 'Booster pump',
+      [deviceSettingKey('pumpChannel1Name', 'barn-pump')]: 'Barn well',
+      [deviceSettingKey('pumpChannel2Name', 'barn-pump')]: '  ',
+    })
+
+    expect(await getChannelNames('barn-pump')).toEqual({ 1: 'Barn well', 2: 'Booster pump' })
+    expect(await getChannelNames()).toEqual({ 1: 'Pump 1', 2: 'Booster pump' })
+  })
+})
+
+describe('parseChannel', () => {
+  it('defaults to channel 1 and rejects anything but 1 or 2', () => {
+    expect(parseChannel(null)).toBe(1)
+    expect(parseChannel('2')).toBe(2)
+    expect(parseChannel('3')).toBeNull()
+    expect(parseChannel('two')).toBeNull()
+  })
+})
+
+describe('resolveNumericSetting', () => {
+  const scoped = (global: Record<string, string>, override: Record<string, string>) => ({
+    global: new Map(Object.entries(global)),
+    override: new Map(Object.entries(override)),
+  })
+
+  it('prefers a valid override, then a valid global value, then the fallback', () => {
+    expect(resolveNumericSetting(scoped({ k: '5' }, { k: '2' }), 'k', 9)).toBe(2)
+    expect(resolveNumericSetting(scoped({ k: '5' }, { k: 'abc' }), 'k', 9)).toBe(5)
+    expect(resolveNumericSetting(scoped({ k: '-1' }, {}), 'k', 9)).toBe(9)
+    expect(resolveNumericSetting(scoped({}, { k: '0' }), 'k', 9)).toBe(0)
+  })
+})
+
+describe('deleteDeviceSettings', () => {
+  beforeEach(() => jest.clearAllMocks())
+
+  it('splits override keys at the first separator', () => {
+    expect(overrideDevice('lowPressureThresholdPsi')).toBeNull()
+    expect(overrideDevice('lowPressureThresholdPsi@barn@pump')).toBe('barn@pump')
+  })
+
+  it("removes only the device's own overrides, not those of a device ending in @<device>", async () => {
+    mockFindMany.mockResolvedValueOnce([
+      { key: 'lowPressureThresholdPsi@pump' },
+      { key: 'lowPressureThresholdPsi@barn@pump' },
+    ])
+    mockDeleteMany.mockResolvedValueOnce({ count: 1 })
+
+    expect(await deleteDeviceSettings('pump')).toBe(1)
+    expect(mockDeleteMany).toHaveBeenCalledWith({
+      where: { key: { in: ['lowPressureThresholdPsi@pump'] } },
+    })
+  })
+})
@@ -0,0 +1,217 @@
+/**
+ * @jest-environment node
+ *
+ * Device registry: header parsing and the online/offline rule are pure; the
+ * upsert path is checked against a mocked Prisma client so auto-registration
+ * and the "never fails ingestion" guard are locked in.
+ */
+import {
+  deviceMetadataFromHeaders,
+  deviceMetadataFromMessage,
+  isDeviceOnline,
+  recordDeviceActivity,
+  seedDeviceRegistry,
+} from '@/lib/devices'
+import { prisma } from '@/lib/prisma'
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    device: {
+      upsert: jest.fn(),
+      update: jest.fn(),
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      count: jest.fn(),
+      createMany: jest.fn(),
+    },
+    sensorData: {
+      groupBy: jest.fn(),
+      findFirst: jest.fn(),
+    },
+    systemSettings: {
+      findMany: jest.fn().mockResolvedValue([]),
+    },
+  },
+}))
+
+const mockPrisma = prisma as unknown as {
+  device: { upsert: jest.Mock; update: jest.Mock; count: jest.Mock; createMany: jest.Mock }
+  sensorData: { groupBy: jest.Mock; findFirst: jest.Mock }
+}
+
+const NOW = new Date('2026-01-01T12:00:00.000Z')
+
+describe('deviceMetadataFromHeaders', () => {
+  it('takes the first forwarded hop and the firmware header', () => {
+    const headers = new Headers({
+      'x-forwarded-for': '192.168.1.50, 10.0.0.1',
+      'x-real-ip': '10.0.0.1',
+      'x-firmware-version': ' 1.4.2 ',
+    })
+    expect(deviceMetadataFromHeaders(headers)).toEqual({
+      ip: '192.168.1.50',
+      firmwareVersion: '1.4.2',
+    })
+  })
+
+  it('falls back to x-real-ip and omits what is absent', () => {
+    expect(deviceMetadataFromHeaders(new Headers({ 'x-real-ip': '10.0.0.7' }))).toEqual({
+      ip: '10.0.0.7',
+    })
+    expect(deviceMetadataFromHeaders(new Headers())).toEqual({})
+  })
+})
+
+describe('deviceMetadataFromMessage', () => {
+  it('keeps a trimmed, truncated firmware string and ignores anything else', () => {
+    expect(deviceMetadataFromMessage(' 1.4.2 ')).toEqual({ firmwareVersion: '1.4.2' })
+    expect(deviceMetadataFromMessage('x'.repeat(100)).firmwareVersion).toHaveLength(64)
+    expect(deviceMetadataFromMessage(142)).toEqual({})
+    expect(deviceMetadataFromMessage(undefined)).toEqual({})
+  })
+})
+
+describe('isDeviceOnline', () => {
+  it('is online within the timeout and offline past it', () => {
+    expect(isDeviceOnline(new Date(NOW.getTime() - 9 * 60000), 10, NOW)).toBe(true)
+    expect(isDeviceOnline(new Date(NOW.getTime() - 11 * 60000), 10, NOW)).toBe(false)
+  })
+
+  it('treats a device that never reported as offline', () => {
+    expect(isDeviceOnline(null, 10, NOW)).toBe(false)
+  })
+})
+
+describe('recordDeviceActivity', () => {
+  beforeEach(() => jest.clearAllMocks())
+
+  it('upserts each device once, registering it with the latest location', async () => {
+    mockPrisma.device.upsert.mockResolvedValue({
+      id: 'dev-1',
+      firstSeenAt: NOW,
+      location: 'Pump House',
+    })
+
+    await recordDeviceActivity(
+      [
+        { device: 'well-pump-monitor', location: 'Old Shed' },
+        { device: 'well-pump-monitor', location: 'Pump House' },
+      ],
+      { ip: '192.168.1.50', firmwareVersion: '1.4.2' },
+      NOW,
+    )
+
+    expect(mockPrisma.device.upsert).toHaveBeenCalledTimes(1)
+    expect(mockPrisma.device.upsert).toHaveBeenCalledWith({
+      where: { device: 'well-pump-monitor' },
+      create: {
+        device: 'well-pump-monitor',
+        location: 'Pump House',
+        firstSeenAt: NOW,
+        lastSeenAt: NOW,
+        lastIp: '192.168.1.50',
+        firmwareVersion: '1.4.2',
+      },
+      update: { lastSeenAt: NOW, lastIp: '192.168.1.50', firmwareVersion: '1.4.2' },
+    })
+    expect(mockPrisma.device.update).not.toHaveBeenCalled()
+  })
+
+  it('fills first-seen and location for a pre-registered device', async () => {
+    mockPrisma.device.upsert.mockResolvedValue({
+      id: 'dev-1',
+      firstSeenAt: null,
+      location: null,
+    })
+
+    await recordDeviceActivity(
+      [{ device: 'well-pump-monitor', location: 'Pump House' }],
+      {},
+      NOW,
+    )
+
+    expect(mockPrisma.device.update).toHaveBeenCalledWith({
+      where: { id: 'dev-1' },
+      data: { firstSeenAt: NOW, location: 'Pump House' },
+    })
+  })
+
+  it('registers a device from an event post without marking it seen', async () => {
+    mockPrisma.device.upsert.mockResolvedValue({
+      id: 'dev-1',
+      firstSeenAt: NOW,
+      location: 'Pump House',
+    })
+
+    await recordDeviceActivity(
+      [{ device: 'well-pump-monitor', location: 'Pump House' }],
+      { firmwareVersion: '1.4.2' },
+      NOW,
+      { sensorData: false },
+    )
+
+    expect(mockPrisma.device.upsert).toHaveBeenCalledWith({
+      where: { device: 'well-pump-monitor' },
+      create: {
+        device: 'well-pump-monitor',
+        location: 'Pump House',
+        firstSeenAt: NOW,
+        lastSeenAt: null,
+        lastIp: undefined,
+        firmwareVersion: '1.4.2',
+      },
+      update: { firmwareVersion: '1.4.2' },
+    })
+  })
+
+  it('logs and swallows registry failures', async () => {
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {})
+    mockPrisma.device.upsert.mockRejectedValue(new Error('db down'))
+
+    await expect(
+      recordDeviceActivity([{ device: 'well-pump-monitor', location: 'Pump House' }]),
+    ).resolves.toBeUndefined()
+    expect(errorSpy).toHaveBeenCalled()
+    errorSpy.mockRestore()
+  })
+})
+
+describe('seedDeviceRegistry', () => {
+  beforeEach(() => jest.clearAllMocks())
+
+  it('registers every device in SensorData when the registry is empty', async () => {
+    const logSpy = jest.spyOn(console, 'log').mockImplementation(() => {})
+    mockPrisma.device.count.mockResolvedValueOnce(0)
+    mockPrisma.sensorData.groupBy.mockResolvedValueOnce([
+      {
+        device: 'old-unit',
+        _min: { timestamp: new Date('2025-06-01T00:00:00.000Z') },
+        _max: { timestamp: new Date('2025-12-31T08:00:00.000Z') },
+      },
+    ])
+    mockPrisma.sensorData.findFirst.mockResolvedValueOnce({ location: 'Barn' })
+    mockPrisma.device.createMany.mockResolvedValueOnce({ count: 1 })
+
+    expect(await seedDeviceRegistry()).toBe(1)
+    expect(mockPrisma.device.createMany).toHaveBeenCalledWith({
+      data: [
+        {
+          device: 'old-unit',
+          location: 'Barn',
+          firstSeenAt: new Date('2025-06-01T00:00:00.000Z'),
+          lastSeenAt: new Date('2025-12-31T08:00:00.000Z'),
+        },
+      ],
+      skipDuplicates: true,
+    })
+    logSpy.mockRestore()
+  })
+
+  it('leaves a registry that already has devices alone', async () => {
+    mockPrisma.device.count.mockResolvedValueOnce(2)
+
+    expect(await seedDeviceRegistry()).toBe(0)
+    expect(mockPrisma.sensorData.groupBy).not.toHaveBeenCalled()
+    expect(mockPrisma.device.createMany).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,98 @@
+/**
+ * @jest-environment node
+ *
+ * Quiet-hours digest: message layout and when the queue is sent and cleared.
+ */
+import { buildDigest, runQuietHoursDigests } from '@/lib/digest'
+import { prisma } from '@/lib/prisma'
+import { sendToUser } from '@/lib/notifications'
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    notificationSettings: { findMany: jest.fn() },
+    queuedNotification: { findMany: jest.fn(), deleteMany: jest.fn() },
+  },
+}))
+
+jest.mock('@/lib/notifications', () => ({
+  sendToUser: jest.fn(),
+}))
+
+const mockPrisma = prisma as unknown as {
+  notificationSettings: { findMany: jest.Mock }
+  queuedNotification: { findMany: jest.Mock; deleteMany: jest.Mock }
+}
+const mockSend = sendToUser as jest.Mock
+
+const SETTINGS = {
+  id: 's1',
+  userId: 'u1',
+  quietHoursEnabled: true,
+  quietHoursStart: '22:00',
+  quietHoursEnd: '07:00',
+  quietHoursBreakthrough: [],
+  summaryReportTimezone: 'UTC',
+}
+
+const QUEUED = [
+  { id: 'q1', title: 'Low Pressure Alert', body: 'Pressure 18 psi', createdAt: new Date('2026-01-15T02:10:00Z') },
+  { id: 'q2', title: 'High Humidity', body: 'Humidity 93%', createdAt: new Date('2026-01-15T04:45:00Z') },
+]
+
+describe('buildDigest', () => {
+  it('lists each alert with its local time', () => {
+    const digest = buildDigest(QUEUED, 'America/New_York')
+    expect(digest.title).toBe('Quiet hours: 2 alerts held')
+    expect(digest.body).toBe(
+      '• 21:10 Low Pressure Alert: Pressure 18 psi\n• 23:45 High Humidity: Humidity 93%',
+    )
+  })
+
+  it('summarises what would not fit in one Pushover message', () => {
+    const many = Array.from({ length: 40 }, (_, i) => ({
+      title: 'Missing Data Alert',
+      body: `No data from well-pump-monitor for ${i + 5} minutes`,
+      createdAt: new Date('2026-01-15T02:00:00Z'),
+    }))
+    const { body } = buildDigest(many, 'UTC')
+    expect(body.length).toBeLessThanOrEqual(1000)
+    expect(body).toMatch(/…and \d+ more$/)
+  })
+})
+
+describe('runQuietHoursDigests', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockPrisma.notificationSettings.findMany.mockResolvedValue([SETTINGS])
+    mockPrisma.queuedNotification.findMany.mockResolvedValue(QUEUED)
+  })
+
+  it('waits while the user is still in quiet hours', async () => {
+    await runQuietHoursDigests(new Date('2026-01-15T06:59:00Z'))
+    expect(mockSend).not.toHaveBeenCalled()
+  })
+
+  it('sends one digest once quiet hours end and clears the queue', async () => {
+    mockSend.mockResolvedValueOnce([{ channel: 'pushover', recipient: 'user:u1', success: true }])
+
+    const results = await runQuietHoursDigests(new Date('2026-01-15T07:00:00Z'))
+
+    expect(mockSend).toHaveBeenCalledTimes(1)
+    expect(mockSend).toHaveBeenCalledWith(
+      SETTINGS,
+      expect.objectContaining({ title: 'Quiet hours: 2 alerts held' }),
+    )
+    expect(mockPrisma.queuedNotification.deleteMany).toHaveBeenCalledWith({
+      where: { id: { in: ['q1', 'q2'] } },
+    })
+    expect(results).toEqual([{ userId: 'u1', count: 2, delivered: true }])
+  })
+
+  it('keeps the queue when every channel failed', async () => {
+    mockSend.mockResolvedValueOnce([{ channel: 'pushover', recipient: 'user:u1', success: false }])
+
+    await runQuietHoursDigests(new Date('2026-01-15T07:00:00Z'))
+
+    expect(mockPrisma.queuedNotification.deleteMany).not.toHaveBeenCalled()
+  })
+})
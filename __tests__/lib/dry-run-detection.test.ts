@@ -0,0 +1,191 @@
+/**
+ * @jest-environment node
+ *
+ * Dry-run detector: the flat-pressure tail must be pump-on, under the current
+ * ceiling when there is one, fresh and long enough. The reconcile path is
+ * driven through mocked rows to lock in the fallback to the learned loaded
+ * current.
+ */
+import {
+  checkAndRecordDryRun,
+  detectDryRun,
+  type DetectDryRunRow,
+  type DryRunThresholds,
+} from '@/lib/dry-run-detection'
+import { prisma } from '@/lib/prisma'
+import { getCachedLoadedCurrentBaseline } from '@/lib/current-drift'
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    sensorData: { findMany: jest.fn() },
+    event: {
+      findFirst: jest.fn(),
+      create: jest.fn().mockResolvedValue({ id: 'evt-new' }),
+      update: jest.fn(),
+    },
+    systemSettings: {
+      findMany: jest.fn().mockResolvedValue([]),
+    },
+  },
+}))
+
+jest.mock('@/lib/notifications', () => ({
+  dispatchEventNotifications: jest.fn().mockResolvedValue(undefined),
+}))
+
+jest.mock('@/lib/current-drift', () => ({
+  getCachedLoadedCurrentBaseline: jest.fn(),
+}))
+
+const mockPrisma = prisma as unknown as {
+  sensorData: { findMany: jest.Mock }
+  event: { findFirst: jest.Mock; create: jest.Mock; update: jest.Mock }
+}
+const mockBaseline = getCachedLoadedCurrentBaseline as jest.Mock
+
+const MINUTE = 60 * 1000
+const BASE = Date.parse('2026-01-01T00:00:00.000Z')
+
+const THRESHOLDS: DryRunThresholds = {
+  minutes: 5,
+  minPressureRisePsi: 1,
+  maxCurrentAmps: 0,
+}
+
+function row(
+  minute: number,
+  pressMax: number,
+  dutyCycle1 = 100,
+  current1RMS = 7,
+): DetectDryRunRow {
+  return {
+    startTime: new Date(BASE + minute * MINUTE),
+    endTime: new Date(BASE + (minute + 1) * MINUTE),
+    dutyCycle1,
+    pressMax,
+    current1RMS,
+  }
+}
+
+describe('detectDryRun', () => {
+  it('returns null for an empty dataset', () => {
+    expect(detectDryRun([], THRESHOLDS, new Date(BASE))).toBeNull()
+  })
+
+  it('fires when the pump runs with flat pressure', () => {
+    const rows = Array.from({ length: 6 }, (_, i) => row(i, 32 + (i % 2) * 0.5))
+    const result = detectDryRun(rows, THRESHOLDS, new Date(BASE + 6 * MINUTE))
+    expect(result).not.toBeNull()
+    expect(result!.flatMinutes).toBe(6)
+    expect(result!.tailStartMs).toBe(BASE)
+    expect(result!.averageCurrentAmps).toBeCloseTo(7, 5)
+  })
+
+  it('fires when pressure falls while the pump runs', () => {
+    const rows = Array.from({ length: 6 }, (_, i) => row(i, 35 - i))
+    const result = detectDryRun(rows, THRESHOLDS, new Date(BASE + 6 * MINUTE))
+    expect(result).not.toBeNull()
+    expect(result!.startPsi).toBe(35)
+    expect(result!.endPsi).toBe(30)
+  })
+
+  it('does not fire while pressure is building', () => {
+    const rows = Array.from({ length: 6 }, (_, i) => row(i, 30 + 3 * i))
+    expect(detectDryRun(rows, THRESHOLDS, new Date(BASE + 6 * MINUTE))).toBeNull()
+  })
+
+  it('only measures the flat tail after pressure stopped rising', () => {
+    // Rising for 3 minutes, then flat for 4: too short to fire.
+    const rows = [
+      ...Array.from({ length: 3 }, (_, i) => row(i, 30 + 3 * i)),
+      ...Array.from({ length: 4 }, (_, i) => row(3 + i, 40)),
+    ]
+    expect(detectDryRun(rows, THRESHOLDS, new Date(BASE + 7 * MINUTE))).toBeNull()
+  })
+
+  it('requires the pump to stay on', () => {
+    const rows = Array.from({ length: 6 }, (_, i) => row(i, 32, i === 2 ? 0 : 100))
+    expect(detectDryRun(rows, THRESHOLDS, new Date(BASE + 6 * MINUTE))).toBeNull()
+  })
+
+  it('goes on pressure alone without a current ceiling', () => {
+    const rows = Array.from({ length: 6 }, (_, i) => row(i, 32, 100, 9.5))
+    expect(detectDryRun(rows, THRESHOLDS, new Date(BASE + 6 * MINUTE))).not.toBeNull()
+  })
+
+  it('requires low current when a ceiling is set', () => {
+    const loaded = Array.from({ length: 6 }, (_, i) => row(i, 32, 100, 7))
+    const unloaded = Array.from({ length: 6 }, (_, i) => row(i, 32, 100, 4))
+    const thresholds = { ...THRESHOLDS, maxCurrentAmps: 6 }
+    const now = new Date(BASE + 6 * MINUTE)
+    expect(detectDryRun(loaded, thresholds, now)).toBeNull()
+    expect(detectDryRun(unloaded, thresholds, now)).not.toBeNull()
+  })
+
+  it('returns null when the latest row is stale', () => {
+    const rows = Array.from({ length: 6 }, (_, i) => row(i, 32))
+    expect(detectDryRun(rows, THRESHOLDS, new Date(BASE + 20 * MINUTE))).toBeNull()
+  })
+})
+
+describe('checkAndRecordDryRun', () => {
+  const now = new Date(BASE + 6 * MINUTE)
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockPrisma.event.findFirst.mockResolvedValue(null)
+  })
+
+  it('uses a share of the learned loaded current when no ceiling is set', async () => {
+    // 7 A against a 10 A baseline is under the 80% ceiling: unloaded.
+    mockPrisma.sensorData.findMany.mockResolvedValue(
+      Array.from({ length: 6 }, (_, i) => row(i, 32, 100, 7)),
+    )
+    mockBaseline.mockReturnValue(10)
+
+    await checkAndRecordDryRun('well-pump-monitor', 'Pump House', now)
+
+    expect(mockBaseline).toHaveBeenCalledWith('well-pump-monitor')
+    expect(mockPrisma.event.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ type: 'DRY_RUN', value: 6 }),
+    })
+  })
+
+  it('stays quiet for flat pressure at full load', async () => {
+    mockPrisma.sensorData.findMany.mockResolvedValue(
+      Array.from({ length: 6 }, (_, i) => row(i, 32, 100, 9.5)),
+    )
+    mockBaseline.mockReturnValue(10)
+
+    await checkAndRecordDryRun('well-pump-monitor', 'Pump House', now)
+
+    expect(mockPrisma.event.create).not.toHaveBeenCalled()
+  })
+
+  it('goes on pressure alone until a baseline has been learned', async () => {
+    mockPrisma.sensorData.findMany.mockResolvedValue(
+      Array.from({ length: 6 }, (_, i) => row(i, 32, 100, 9.5)),
+    )
+    mockBaseline.mockReturnValue(null)
+
+    await checkAndRecordDryRun('well-pump-monitor', 'Pump House', now)
+
+    expect(mockPrisma.event.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ type: 'DRY_RUN' }),
+    })
+  })
+
+  it('prefers a configured ceiling over the learned baseline', async () => {
+    mockPrisma.sensorData.findMany.mockResolvedValue(
+      Array.from({ length: 6 }, (_, i) => row(i, 32, 100, 7)),
+    )
+    ;(prisma.systemSettings.findMany as jest.Mock).mockResolvedValueOnce([
+      { key: 'dryRunMaxCurrentAmps', value: '6' },
+    ])
+
+    await checkAndRecordDryRun('well-pump-monitor', 'Pump House', now)
+
+    expect(mockBaseline).not.toHaveBeenCalled()
+    expect(mockPrisma.event.create).not.toHaveBeenCalled()
+  })
+})
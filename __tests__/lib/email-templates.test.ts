@@ -0,0 +1,72 @@
+import { renderAlertEmail } from '@/lib/email-templates'
+
+const ORIGINAL_ENV = { ...process.env }
+
+beforeEach(() => {
+  process.env = { ...ORIGINAL_ENV }
+  delete process.env.NEXTAUTH_URL
+})
+
+afterAll(() => {
+  process.env = ORIGINAL_ENV
+})
+
+describe('renderAlertEmail', () => {
+  const payload = {
+    eventType: 'DRY_RUN',
+    title: 'Pump Running Dry',
+    body: 'Pump Running Dry on well-pump-monitor',
+    data: { device: 'well-pump-monitor', location: 'Pump house', value: 2.456, threshold: 3 },
+  }
+
+  it('renders the alert, its details and what to check in both parts', () => {
+    process.env.NEXTAUTH_URL = 'https://pump.example.com/'
+
+    const email = renderAlertEmail(payload)
+
+    expect(email.subject).toBe('[Well Pump] Pump Running Dry')
+    expect(email.text).toContain('Pump Running Dry on well-pump-monitor')
+    expect(email.text).toContain('Location: Pump house')
+    expect(email.text).toContain('Value: 2.46')
+    expect(email.text).toMatch(/check the well level/)
+    expect(email.text).toContain('View alerts: https://pump.example.com/alerts')
+    expect(email.html).toContain('#dc2626')
+    expect(email.html).toContain('Pump house')
+    expect(email.html).toMatch(/check the well level/)
+    expect(email.html).toContain('href="https://pump.example.com/alerts"')
+  })
+
+  it('drops the advice and turns green once the alert has cleared', () => {
+    const email = renderAlertEmail({ ...payload, title: 'Resolved: Pump Running Dry', resolved: true })
+
+    expect(email.text).not.toMatch(/check the well level/)
+    expect(email.html).toContain('#16a34a')
+    expect(email.text).not.toContain('View alerts')
+  })
+
+  it('escapes HTML in the title and body', () => {
+    const email = renderAlertEmail({
+      eventType: 'SYSTEM_ERROR',
+      title: 'Error <script>',
+      body: 'a & b',
+    })
+
+    expect(email.html).toContain('Error &lt;script&gt;')
+    expect(email.html).toContain('a &amp; b')
+    expect(email.html).not.toContain('<script>')
+    expect(email.text).toContain('a & b')
+  })
+
+  it('links summary reports to the dashboard', () => {
+    process.env.NEXTAUTH_URL = 'https://pump.example.com'
+
+    const email = renderAlertEmail({
+      eventType: 'DAILY_SUMMARY',
+      title: 'Daily pump summary',
+      body: 'Last 24 hours:\n• Pump runs: 12',
+    })
+
+    expect(email.text).toContain('Open dashboard: https://pump.example.com/')
+    expect(email.html).toContain('white-space:pre-line')
+  })
+})
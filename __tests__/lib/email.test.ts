@@ -0,0 +1,185 @@
+/**
+ * @jest-environment node
+ *
+ * Tests for the SMTP email channel, sent through nodemailer to a minimal SMTP
+ * server on localhost so the whole conversation runs for real.
+ */
+import net from 'net'
+import { getSmtpConfig, isEmailConfigured, sendEmail } from '@/lib/email'
+
+interface ReceivedMail {
+  from: string
+  to: string[]
+  data: string
+}
+
+/**
+ * A local SMTP stand-in: accepts every command, stores each message and
+ * rejects recipients listed in `rejected` with a 550.
+ */
+function startSmtpServer(rejected: string[] = []): Promise<{
+  server: net.Server
+  port: number
+  received: ReceivedMail[]
+}> {
+  const received: ReceivedMail[] = []
+  const server = net.createServer((socket) => {
+    let buffer = ''
+    let inData = false
+    let mail: ReceivedMail = { from: '', to: [], data: '' }
+    socket.write('220 localhost ESMTP test\r\n')
+
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString('utf8')
+      while (buffer.length > 0) {
+        if (inData) {
+          const end = buffer.indexOf('\r\n.\r\n')
+          if (end === -1) return
+          mail.data = buffer.slice(0, end)
+          buffer = buffer.slice(end + 5)
+          inData = false
+          received.push(mail)
+          mail = { from: '', to: [], data: '' }
+          socket.write('250 OK queued\r\n')
+          continue
+        }
+        const eol = buffer.indexOf('\r\n')
+        if (eol === -1) return
+        const line = buffer.slice(0, eol)
+        buffer = buffer.slice(eol + 2)
+        const command = line.slice(0, 4).toUpperCase()
+        if (command === 'EHLO' || command === 'HELO') {
+          socket.write('250 localhost\r\n')
+        } else if (command === 'MAIL') {
+          mail.from = line.replace(/^MAIL FROM:\s*<([^>]*)>.*$/i, '$1')
+          socket.write('250 OK\r\n')
+        } else if (command === 'RCPT') {
+          const to = line.replace(/^RCPT TO:\s*<([^>]*)>.*$/i, '$1')
+          if (rejected.includes(to)) {
+            socket.write('550 No such user\r\n')
+          } else {
+            mail.to.push(to)
+            socket.write('250 OK\r\n')
+          }
+        } else if (command === 'DATA') {
+          inData = true
+          socket.write('354 End data with <CR><LF>.<CR><LF>\r\n')
+        } else if (command === 'QUIT') {
+          socket.end('221 Bye\r\n')
+        } else {
+          socket.write('250 OK\r\n')
+        }
+      }
+    })
+  })
+
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as net.AddressInfo
+      resolve({ server, port, received })
+    })
+  })
+}
+
+const message = {
+  subject: '[Well Pump] Low Pressure Alert',
+  text: 'Pressure dropped to 18 PSI',
+  html: '<p>Pressure dropped to <b>18 PSI</b></p>',
+}
+
+const ORIGINAL_ENV = { ...process.env }
+
+beforeEach(() => {
+  process.env = { ...ORIGINAL_ENV }
+  for (const key of ['SMTP_HOST', 'SMTP_PORT', 'SMTP_SECURE', 'SMTP_USER', 'SMTP_PASS', 'SMTP_FROM']) {
+    delete process.env[key]
+  }
+})
+
+afterAll(() => {
+  process.env = ORIGINAL_ENV
+})
+
+describe('getSmtpConfig', () => {
+  it('is off until both host and sender are set', () => {
+    process.env.SMTP_HOST = 'smtp.example.com'
+    expect(getSmtpConfig()).toBeNull()
+    expect(isEmailConfigured()).toBe(false)
+
+    process.env.SMTP_FROM = 'alerts@example.com'
+    expect(getSmtpConfig()).toEqual({
+      host: 'smtp.example.com',
+      port: 587,
+      secure: false,
+      user: undefined,
+      pass: undefined,
+      from: 'alerts@example.com',
+    })
+  })
+
+  it('uses implicit TLS on port 465 unless told otherwise', () => {
+    process.env.SMTP_HOST = 'smtp.example.com'
+    process.env.SMTP_FROM = 'alerts@example.com'
+    process.env.SMTP_PORT = '465'
+    expect(getSmtpConfig()?.secure).toBe(true)
+
+    process.env.SMTP_SECURE = 'false'
+    expect(getSmtpConfig()?.secure).toBe(false)
+  })
+})
+
+describe('sendEmail', () => {
+  let smtp: Awaited<ReturnType<typeof startSmtpServer>>
+
+  beforeEach(async () => {
+    smtp = await startSmtpServer(['nobody@example.com'])
+    process.env.SMTP_HOST = '127.0.0.1'
+    process.env.SMTP_PORT = String(smtp.port)
+    process.env.SMTP_FROM = 'Well Pump <alerts@example.com>'
+  })
+
+  afterEach(async () => {
+    await new Promise((resolve) => smtp.server.close(resolve))
+  })
+
+  it('delivers a message with plain-text and HTML parts', async () => {
+    const result = await sendEmail('owner@example.com', message, 'user:u1')
+
+    expect(result).toMatchObject({ channel: 'email', recipient: 'user:u1', success: true })
+    expect(result.requestId).toEqual(expect.any(String))
+    expect(smtp.received).toHaveLength(1)
+    const [mail] = smtp.received
+    expect(mail.from).toBe('alerts@example.com')
+    expect(mail.to).toEqual(['owner@example.com'])
+    expect(mail.data).toContain('Subject: [Well Pump] Low Pressure Alert')
+    expect(mail.data).toContain('Content-Type: text/plain')
+    expect(mail.data).toContain('Content-Type: text/html')
+    expect(mail.data).toContain('Pressure dropped to 18 PSI')
+  })
+
+  it('reports a rejected address as a failure not worth retrying', async () => {
+    const result = await sendEmail('nobody@example.com', message, 'user:u2')
+
+    expect(result).toMatchObject({ channel: 'email', success: false, retryable: false })
+    expect(result.error).toMatch(/No such user/)
+    expect(smtp.received).toHaveLength(0)
+  })
+
+  it('reports a connection failure as retryable', async () => {
+    // Nothing listens on the port any more; afterEach's close is then a no-op.
+    await new Promise((resolve) => smtp.server.close(resolve))
+
+    const result = await sendEmail('owner@example.com', message, 'user:u1')
+
+    expect(result).toMatchObject({ channel: 'email', success: false, retryable: true })
+  })
+
+  it('does nothing when SMTP is not configured', async () => {
+    delete process.env.SMTP_HOST
+
+    const result = await sendEmail('owner@example.com', message, 'user:u1')
+
+    expect(result).toMatchObject({ success: false, error: 'SMTP is not configured' })
+    expect(smtp.received).toHaveLength(0)
+  })
+})
@@ -0,0 +1,185 @@
+/**
+ * @jest-environment node
+ *
+ * Escalation: which steps are due, how a submitted policy is validated, and
+ * the sweep's claim-then-send order (a step already claimed by another tick
+ * is never sent twice).
+ */
+import {
+  dueEscalationSteps,
+  runEscalations,
+  validateEscalationPolicy,
+} from '@/lib/escalation'
+import { prisma } from '@/lib/prisma'
+import { dispatchNotifications } from '@/lib/notifications'
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    escalationPolicy: { findMany: jest.fn() },
+    event: { findMany: jest.fn() },
+    eventEscalation: { create: jest.fn(), update: jest.fn() },
+  },
+}))
+
+jest.mock('@/lib/notifications', () => ({
+  dispatchNotifications: jest
+    .fn()
+    .mockResolvedValue({ eventType: 'DRY_RUN', attempted: 2, succeeded: 2, failed: 0, results: [] }),
+  eventTitle: (type: string) => (type === 'DRY_RUN' ? 'Pump Running Dry' : 'Well Pump Alert'),
+}))
+
+const mockPrisma = prisma as unknown as {
+  escalationPolicy: { findMany: jest.Mock }
+  event: { findMany: jest.Mock }
+  eventEscalation: { create: jest.Mock; update: jest.Mock }
+}
+const mockDispatch = dispatchNotifications as jest.Mock
+
+const MINUTE = 60 * 1000
+const NOW = new Date('2026-03-01T03:00:00.000Z')
+
+const POLICY = {
+  eventType: 'DRY_RUN',
+  enabled: true,
+  repeatAfterMinutes: 10,
+  priority: 2,
+  retrySeconds: 60,
+  expireSeconds: 1800,
+  secondaryAfterMinutes: 30,
+  secondaryUserIds: ['u2'],
+}
+
+const event = (minutesAgo: number, steps: string[] = []) => ({
+  id: 'evt-1',
+  type: 'DRY_RUN',
+  device: 'well-pump-monitor',
+  location: 'Pump House',
+  value: 6,
+  threshold: 5,
+  description: 'Pump 1 running dry',
+  createdAt: new Date(NOW.getTime() - minutesAgo * MINUTE),
+  escalations: steps.map((step) => ({ step })),
+})
+
+describe('dueEscalationSteps', () => {
+  it('orders the steps by delay and skips ones already sent', () => {
+    expect(dueEscalationSteps(event(5), POLICY, NOW)).toEqual([])
+    expect(dueEscalationSteps(event(10), POLICY, NOW)).toEqual(['repeat'])
+    expect(dueEscalationSteps(event(45), POLICY, NOW)).toEqual(['repeat', 'secondary'])
+    expect(dueEscalationSteps(event(45, ['repeat']), POLICY, NOW)).toEqual(['secondary'])
+  })
+
+  it('treats a zero delay or an empty user list as "no such step"', () => {
+    expect(
+      dueEscalationSteps(event(60), { ...POLICY, repeatAfterMinutes: 0, secondaryUserIds: [] }, NOW),
+    ).toEqual([])
+  })
+})
+
+describe('validateEscalationPolicy', () => {
+  it('fills defaults for omitted fields', () => {
+    const result = validateEscalationPolicy({ eventType: 'LOW_PRESSURE' })
+    expect(result).toEqual({
+      ok: true,
+      value: {
+        eventType: 'LOW_PRESSURE',
+        enabled: true,
+        repeatAfterMinutes: 15,
+        priority: 1,
+        retrySeconds: 60,
+        expireSeconds: 3600,
+        secondaryAfterMinutes: 0,
+        secondaryUserIds: [],
+      },
+    })
+  })
+
+  it('collects every problem in one pass', () => {
+    const result = validateEscalationPolicy({
+      eventType: 'NOPE',
+      priority: 3,
+      retrySeconds: 10,
+      secondaryUserIds: 'u2',
+    })
+    expect(result.ok).toBe(false)
+    if (!result.ok) {
+      expect(result.errors.map((e) => e.field)).toEqual([
+        'eventType',
+        'priority',
+        'retrySeconds',
+        'secondaryUserIds',
+      ])
+    }
+  })
+
+  it('rejects inherited object keys as event types', () => {
+    for (const eventType of ['constructor', 'toString', '__proto__']) {
+      expect(validateEscalationPolicy({ eventType }).ok).toBe(false)
+    }
+  })
+})
+
+describe('runEscalations', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockPrisma.escalationPolicy.findMany.mockResolvedValue([POLICY])
+    mockPrisma.eventEscalation.create.mockResolvedValue({ id: 'esc-1' })
+  })
+
+  it('only looks at active, unacknowledged events old enough for the first step', async () => {
+    mockPrisma.event.findMany.mockResolvedValue([])
+
+    await runEscalations(NOW)
+
+    expect(mockPrisma.event.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          type: 'DRY_RUN',
+          active: true,
+          acknowledged: false,
+          createdAt: { lte: new Date(NOW.getTime() - 10 * MINUTE) },
+        },
+      }),
+    )
+  })
+
+  it('records and sends each due step, the secondary one to the named users', async () => {
+    mockPrisma.event.findMany.mockResolvedValue([event(45)])
+
+    await runEscalations(NOW)
+
+    expect(mockPrisma.eventEscalation.create).toHaveBeenCalledTimes(2)
+    expect(mockPrisma.eventEscalation.create).toHaveBeenCalledWith(
+      expect.objectContaining({ data: { eventId: 'evt-1', step: 'repeat', priority: 2 } }),
+    )
+    expect(mockDispatch).toHaveBeenNthCalledWith(
+      1,
+      expect.objectContaining({
+        title: 'Escalated: Pump Running Dry',
+        body: 'Unacknowledged for 45m — Pump 1 running dry',
+        priority: 2,
+        retrySeconds: 60,
+        expireSeconds: 1800,
+      }),
+      { eventId: 'evt-1', bypassQuietHours: true },
+    )
+    expect(mockDispatch).toHaveBeenNthCalledWith(2, expect.anything(), {
+      userIds: ['u2'],
+      eventId: 'evt-1',
+      bypassQuietHours: true,
+    })
+    expect(mockPrisma.eventEscalation.update).toHaveBeenCalledWith({
+      where: { id: 'esc-1' },
+      data: { attempted: 2, succeeded: 2 },
+    })
+  })
+
+  it('does not send a step another tick already claimed', async () => {
+    mockPrisma.event.findMany.mockResolvedValue([event(15)])
+    mockPrisma.eventEscalation.create.mockRejectedValue({ code: 'P2002' })
+
+    await runEscalations(NOW)
+
+    expect(mockDispatch).not.toHaveBeenCalled()
+  })
+})
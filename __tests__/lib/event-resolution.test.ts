@@ -0,0 +1,87 @@
+/**
+ * @jest-environment node
+ *
+ * Event resolution: worst-value tracking per type, the resolved message, and
+ * that resolving goes through the normal notification pipeline.
+ */
+import { describeResolution, resolveEvent, worstValue } from '@/lib/event-resolution'
+import { prisma } from '@/lib/prisma'
+import { dispatchEventNotifications } from '@/lib/notifications'
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    event: { update: jest.fn() },
+  },
+}))
+
+jest.mock('@/lib/notifications', () => ({
+  dispatchEventNotifications: jest.fn().mockResolvedValue(undefined),
+  eventTitle: (type: string) => (type === 'LOW_PRESSURE' ? 'Low Pressure Alert' : 'Sensor Error'),
+}))
+
+const mockPrisma = prisma as unknown as { event: { update: jest.Mock } }
+
+const NOW = new Date('2026-03-01T12:00:00.000Z')
+
+const lowPressure = {
+  id: 'evt-1',
+  type: 'LOW_PRESSURE',
+  device: 'well-pump-monitor',
+  location: 'Pump House',
+  value: 24,
+  peakValue: 18.24,
+  threshold: 20,
+  startTime: new Date(NOW.getTime() - (42 * 60 + 10) * 1000),
+}
+
+describe('worstValue', () => {
+  it('follows the direction that is worse for the type', () => {
+    expect(worstValue('HIGH_CURRENT', 12, 15)).toBe(15)
+    expect(worstValue('LOW_PRESSURE', 18, 24)).toBe(18)
+    expect(worstValue('CURRENT_DRIFT', 12, -20)).toBe(-20)
+    expect(worstValue('SENSOR_ERROR', -196, 42)).toBe(42)
+  })
+})
+
+describe('describeResolution', () => {
+  it('gives the duration and the peak with its unit', () => {
+    expect(describeResolution(lowPressure, (42 * 60 + 10) * 1000)).toBe(
+      'Low Pressure Alert on well-pump-monitor cleared after 42m 10s (peak 18.2 PSI)',
+    )
+  })
+
+  it('falls back to the value before any update, and omits the peak for faults', () => {
+    expect(describeResolution({ ...lowPressure, peakValue: null }, 60000)).toContain('(peak 24.0 PSI)')
+    expect(describeResolution({ ...lowPressure, type: 'SENSOR_ERROR' }, 60000)).toBe(
+      'Sensor Error on well-pump-monitor cleared after 1m',
+    )
+  })
+})
+
+describe('resolveEvent', () => {
+  beforeEach(() => jest.clearAllMocks())
+
+  it('closes the event with its total duration and dispatches a resolved alert', async () => {
+    await resolveEvent(lowPressure, NOW)
+
+    expect(mockPrisma.event.update).toHaveBeenCalledWith({
+      where: { id: 'evt-1' },
+      data: { active: false, timestamp: NOW, duration: BigInt(2530000) },
+    })
+    expect(dispatchEventNotifications).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: 'LOW_PRESSURE',
+        value: 18.24,
+        resolved: true,
+        description: expect.stringContaining('cleared after 42m 10s'),
+      }),
+    )
+  })
+
+  it('uses a duration the device reported', async () => {
+    await resolveEvent(lowPressure, NOW, BigInt(90000))
+    expect(mockPrisma.event.update).toHaveBeenCalledWith(
+      expect.objectContaining({ data: expect.objectContaining({ duration: BigInt(90000) }) }),
+    )
+  })
+})
@@ -0,0 +1,149 @@
+/**
+ * @jest-environment node
+ *
+ * Freeze-risk forecast: the pure fit decides when a falling trend reaches
+ * freezing inside the horizon; the reconcile path is driven through mocked
+ * rows so create (with the projected crossing in the message) and resolve
+ * are locked in.
+ */
+import {
+  checkAndRecordFreezeRisk,
+  detectFreezeRisk,
+  type DetectFreezeRiskRow,
+} from '@/lib/freeze-risk'
+import { prisma } from '@/lib/prisma'
+import { dispatchEventNotifications } from '@/lib/notifications'
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    sensorData: { findMany: jest.fn() },
+    event: {
+      findFirst: jest.fn(),
+      create: jest.fn().mockResolvedValue({ id: 'evt-new' }),
+      update: jest.fn(),
+    },
+    systemSettings: {
+      findMany: jest.fn().mockResolvedValue([]),
+    },
+  },
+}))
+
+jest.mock('@/lib/notifications', () => ({
+  dispatchEventNotifications: jest.fn().mockResolvedValue(undefined),
+}))
+
+const mockPrisma = prisma as unknown as {
+  sensorData: { findMany: jest.Mock }
+  event: { findFirst: jest.Mock; create: jest.Mock; update: jest.Mock }
+}
+
+const MINUTE = 60 * 1000
+const NOW = new Date('2026-01-15T02:00:00.000Z')
+const THRESHOLDS = { horizonHours: 3, windowMinutes: 60, ceilingF: 45 }
+
+/** One row per minute over the last hour, ending at NOW at `endF`. */
+function trend(endF: number, fallPerHour: number, minutes = 60): DetectFreezeRiskRow[] {
+  return Array.from({ length: minutes }, (_, i) => {
+    const minutesAgo = minutes - i
+    return {
+      startTime: new Date(NOW.getTime() - minutesAgo * MINUTE),
+      endTime: new Date(NOW.getTime() - (minutesAgo - 1) * MINUTE),
+      tempMin: endF + (fallPerHour * (minutesAgo - 1)) / 60,
+    }
+  })
+}
+
+describe('detectFreezeRisk', () => {
+  it('projects the crossing when a falling trend reaches freezing inside the horizon', () => {
+    const result = detectFreezeRisk(trend(38, 3), THRESHOLDS, NOW)
+    expect(result).not.toBeNull()
+    expect(result!.fallRateFPerHour).toBeCloseTo(3, 5)
+    expect(result!.hoursToFreezing).toBeCloseTo(2, 5)
+    expect(result!.crossingMs).toBeCloseTo(NOW.getTime() + 2 * 60 * MINUTE, -3)
+  })
+
+  it('does not fire when the crossing is beyond the horizon or the trend is flat', () => {
+    expect(detectFreezeRisk(trend(45, 3), THRESHOLDS, NOW)).toBeNull()
+    expect(detectFreezeRisk(trend(34, 0), THRESHOLDS, NOW)).toBeNull()
+    expect(detectFreezeRisk(trend(34, -2), THRESHOLDS, NOW)).toBeNull()
+  })
+
+  it('needs fresh, well-covered data and leaves sub-freezing readings to LOW_TEMPERATURE', () => {
+    expect(detectFreezeRisk(trend(38, 3, 20), THRESHOLDS, NOW)).toBeNull()
+    expect(
+      detectFreezeRisk(trend(38, 3), THRESHOLDS, new Date(NOW.getTime() + 10 * MINUTE)),
+    ).toBeNull()
+    expect(detectFreezeRisk(trend(31, 3), THRESHOLDS, NOW)).toBeNull()
+    expect(detectFreezeRisk(trend(38, 3), { ...THRESHOLDS, horizonHours: 0 }, NOW)).toBeNull()
+  })
+
+  it('ignores a fast cool-down from above the ceiling', () => {
+    // 15°F/h from 60°F would reach freezing in under two hours.
+    expect(detectFreezeRisk(trend(60, 15), THRESHOLDS, NOW)).toBeNull()
+    expect(detectFreezeRisk(trend(44, 15), THRESHOLDS, NOW)).not.toBeNull()
+  })
+})
+
+describe('checkAndRecordFreezeRisk', () => {
+  beforeEach(() => jest.clearAllMocks())
+
+  it('creates and notifies with the projected crossing time', async () => {
+    mockPrisma.sensorData.findMany.mockResolvedValue(trend(38, 3))
+    mockPrisma.event.findFirst.mockResolvedValue(null)
+
+    await checkAndRecordFreezeRisk('well-pump-monitor', 'Pump House', NOW)
+
+    expect(mockPrisma.event.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        type: 'FREEZE_RISK',
+        threshold: 3,
+        active: true,
+        description: expect.stringContaining('around 2026-01-15 04:00 UTC (in 2h)'),
+      }),
+    })
+    expect(dispatchEventNotifications).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'FREEZE_RISK' }),
+    )
+  })
+
+  it('resolves an active event once the temperature stops falling', async () => {
+    mockPrisma.sensorData.findMany.mockResolvedValue(trend(38, -1))
+    mockPrisma.event.findFirst.mockResolvedValue({ id: 'evt-1', startTime: NOW })
+
+    await checkAndRecordFreezeRisk('well-pump-monitor', 'Pump House', NOW)
+
+    expect(mockPrisma.event.update).toHaveBeenCalledWith({
+      where: { id: 'evt-1' },
+      data: { active: false, timestamp: NOW, duration: BigInt(0) },
+    })
+    expect(mockPrisma.event.create).not.toHaveBeenCalled()
+  })
+
+  it('keeps an active event open while the pump house is at or below freezing', async () => {
+    mockPrisma.sensorData.findMany.mockResolvedValue(trend(31, 3))
+    mockPrisma.event.findFirst.mockResolvedValue({ id: 'evt-1', startTime: NOW })
+
+    await checkAndRecordFreezeRisk('well-pump-monitor', 'Pump House', NOW)
+
+    expect(mockPrisma.event.update).toHaveBeenCalledWith({
+      where: { id: 'evt-1' },
+      data: expect.objectContaining({
+        value: 0,
+        description: expect.stringContaining('reached freezing (now 31.0°F)'),
+      }),
+    })
+    expect(mockPrisma.event.update).not.toHaveBeenCalledWith(
+      expect.objectContaining({ data: expect.objectContaining({ active: false }) }),
+    )
+    expect(dispatchEventNotifications).not.toHaveBeenCalled()
+  })
+
+  it('raises nothing new once already below freezing', async () => {
+    mockPrisma.sensorData.findMany.mockResolvedValue(trend(31, 3))
+    mockPrisma.event.findFirst.mockResolvedValue(null)
+
+    await checkAndRecordFreezeRisk('well-pump-monitor', 'Pump House', NOW)
+
+    expect(mockPrisma.event.create).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,84 @@
+/**
+ * @jest-environment node
+ *
+ * Live stream bus: stored rows and event transitions fan out to every open
+ * stream, and are framed as Server-Sent Events.
+ */
+import {
+  formatServerSentEvent,
+  publishLiveEvent,
+  publishLiveSensorRows,
+  subscribeLive,
+  type LiveMessage,
+} from '@/lib/live-stream'
+
+const body = {
+  transition: 'created' as const,
+  event: {
+    id: 'evt-1',
+    type: 'LOW_PRESSURE',
+    device: 'well-pump-monitor',
+    location: 'Pump House',
+    value: 18.2,
+    threshold: 20,
+    description: 'Pressure is low',
+    resolved: false,
+  },
+}
+
+describe('subscribeLive', () => {
+  it('delivers messages to every subscriber until it unsubscribes', () => {
+    const first = jest.fn()
+    const second = jest.fn()
+    const stopFirst = subscribeLive(first)
+    const stopSecond = subscribeLive(second)
+
+    publishLiveEvent(body, new Date('2026-03-01T12:00:00.000Z'))
+    stopFirst()
+    publishLiveEvent(body)
+    stopSecond()
+
+    expect(first).toHaveBeenCalledTimes(1)
+    expect(first).toHaveBeenCalledWith({
+      type: 'event',
+      data: { ...body, timestamp: new Date('2026-03-01T12:00:00.000Z') },
+    })
+    expect(second).toHaveBeenCalledTimes(2)
+  })
+
+  it('keeps delivering when one subscriber throws', () => {
+    const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {})
+    const broken = subscribeLive(() => {
+      throw new Error('closed')
+    })
+    const listener = jest.fn()
+    const stop = subscribeLive(listener)
+
+    publishLiveSensorRows([
+      { id: 'r1', device: 'well-pump-monitor' },
+      { id: 'r2', device: 'well-pump-monitor' },
+    ] as never)
+    broken()
+    stop()
+
+    expect(listener).toHaveBeenCalledTimes(2)
+    expect(listener.mock.calls[1][0]).toEqual({
+      type: 'sensor',
+      data: { id: 'r2', device: 'well-pump-monitor' },
+    })
+    consoleSpy.mockRestore()
+  })
+})
+
+describe('formatServerSentEvent', () => {
+  it('names the message by type and sends the data as one JSON line', () => {
+    const message = {
+      type: 'sensor',
+      data: { id: 'r1', timestamp: new Date('2026-03-01T12:00:00.000Z') },
+    } as unknown as LiveMessage
+
+    expect(formatServerSentEvent(message)).toBe(
+      'event: sensor\ndata: {"id":"r1","timestamp":"2026-03-01T12:00:00.000Z"}\n\n'
+    )
+  })
+})
@@ -94,4 +94,14 @@ describe('detectActiveLongRun', () => {
     const now = new Date(BASE + 73 * MINUTE)
     expect(detectActiveLongRun(rows, now)).toBeNull()
   })
+
+  it('follows dutyCycle2 on channel 2', () => {
+    // Channel 1 idle; channel 2 on for the last 70 minutes.
+    const rows = Array.from({ length: 70 }, (_, i) => ({ ...row(i, 0), dutyCycle2: 100 }))
+    const now = new Date(BASE + 70 * MINUTE)
+    expect(detectActiveLongRun(rows, now)).toBeNull()
+    const result = detectActiveLongRun(rows, now, 2)
+    expect(result!.runStartMs).toBe(BASE)
+    expect(result!.actualOnSeconds).toBeCloseTo(70 * 60, 5)
+  })
 })
@@ -0,0 +1,167 @@
+/**
+ * @jest-environment node
+ *
+ * Prometheus metrics: in-memory counters fed by ingestion and notifications,
+ * and reading gauges refreshed from the database on each scrape.
+ */
+import {
+  recordEventRaised,
+  recordNotification,
+  recordSensorRows,
+  renderMetrics,
+  resetMetrics,
+  timeIngestion,
+} from '@/lib/metrics'
+import { prisma } from '@/lib/prisma'
+import type { SensorPayload } from '@/lib/payload-validation'
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    device: { findMany: jest.fn() },
+    sensorData: { findFirst: jest.fn() },
+  },
+}))
+
+const mockPrisma = prisma as unknown as {
+  device: { findMany: jest.Mock }
+  sensorData: { findFirst: jest.Mock }
+}
+
+const NOW = new Date('2026-03-01T12:00:00.000Z')
+const MINUTE = 60 * 1000
+
+function row(minutesAgo: number, dutyCycle1: number): SensorPayload {
+  const end = new Date(NOW.getTime() - minutesAgo * MINUTE)
+  return {
+    device: 'well-pump-monitor',
+    location: 'Pump House',
+    timestamp: end,
+    startTime: new Date(end.getTime() - MINUTE),
+    endTime: end,
+    sampleCount: 60,
+    tempMin: 50,
+    tempMax: 51,
+    tempAvg: 50.5,
+    humMin: 60,
+    humMax: 62,
+    humAvg: 61,
+    pressMin: 38,
+    pressMax: 42,
+    pressAvg: 40.3,
+    current1Min: 0,
+    current1Max: 7.8,
+    current1Avg: 2.3,
+    current1RMS: 2.8,
+    dutyCycle1,
+    current2Min: 0,
+    current2Max: 0,
+    current2Avg: 0,
+    current2RMS: 0.1,
+    dutyCycle2: 0,
+  }
+}
+
+/** The value of one sample line, e.g. `metric{label="x"} 3`. */
+function sample(text: string, series: string): number | undefined {
+  const line = text.split('\n').find((l) => l.startsWith(`${series} `))
+  return line === undefined ? undefined : Number(line.slice(series.length + 1))
+}
+
+beforeEach(() => {
+  jest.clearAllMocks()
+  resetMetrics()
+  mockPrisma.device.findMany.mockResolvedValue([])
+})
+
+describe('recordSensorRows', () => {
+  it('counts rows and pump starts across posts, in time order', async () => {
+    // Unknown state before the first row, so it can't count as a start.
+    recordSensorRows([row(5, 0.4)], NOW)
+    recordSensorRows([row(2, 0.3), row(4, 0), row(3, 0)], NOW)
+    recordSensorRows([row(1, 0), row(0, 0.5)], NOW)
+
+    const text = await renderMetrics(NOW)
+
+    expect(sample(text, 'wellpump_sensor_rows_ingested_total{device="well-pump-monitor"}')).toBe(6)
+    expect(sample(text, 'wellpump_pump_starts_total{device="well-pump-monitor"}')).toBe(2)
+    expect(sample(text, 'wellpump_sensor_data_delay_seconds_count')).toBe(6)
+    expect(sample(text, 'wellpump_sensor_data_delay_seconds_bucket{le="60"}')).toBe(2)
+  })
+
+  it('ignores replayed rows older than the last one seen for pump starts', async () => {
+    recordSensorRows([row(1, 0.4)], NOW)
+    recordSensorRows([row(10, 0), row(9, 0.4)], NOW)
+
+    const text = await renderMetrics(NOW)
+
+    expect(sample(text, 'wellpump_pump_starts_total{device="well-pump-monitor"}')).toBeUndefined()
+  })
+})
+
+describe('counters and histograms', () => {
+  it('counts events by type and notifications by channel and outcome', async () => {
+    recordEventRaised('LOW_PRESSURE')
+    recordEventRaised('LOW_PRESSURE')
+    recordNotification('pushover', 'sent')
+    recordNotification('email', 'retrying')
+
+    const text = await renderMetrics(NOW)
+
+    expect(sample(text, 'wellpump_events_total{type="LOW_PRESSURE"}')).toBe(2)
+    expect(sample(text, 'wellpump_notifications_total{channel="pushover",outcome="sent"}')).toBe(1)
+    expect(sample(text, 'wellpump_notifications_total{channel="email",outcome="retrying"}')).toBe(1)
+  })
+
+  it('times ingestion even when it throws', async () => {
+    await timeIngestion('sensors', async () => 'ok')
+    await expect(
+      timeIngestion('events', async () => {
+        throw new Error('db down')
+      })
+    ).rejects.toThrow('db down')
+
+    const text = await renderMetrics(NOW)
+
+    expect(sample(text, 'wellpump_ingest_duration_seconds_count{kind="sensors"}')).toBe(1)
+    expect(sample(text, 'wellpump_ingest_duration_seconds_count{kind="events"}')).toBe(1)
+  })
+})
+
+describe('renderMetrics', () => {
+  it('reports the latest reading and time since last data per device', async () => {
+    mockPrisma.device.findMany.mockResolvedValueOnce([
+      { device: 'well-pump-monitor', lastSeenAt: new Date(NOW.getTime() - 90 * 1000) },
+      { device: 'spare', lastSeenAt: null },
+    ])
+    mockPrisma.sensorData.findFirst
+      .mockResolvedValueOnce(row(2, 0.35))
+      .mockResolvedValueOnce(null)
+
+    const text = await renderMetrics(NOW)
+
+    expect(text).toContain('# TYPE wellpump_pressure_psi gauge')
+    expect(sample(text, 'wellpump_pressure_psi{device="well-pump-monitor"}')).toBe(40.3)
+    expect(sample(text, 'wellpump_temperature_fahrenheit{device="well-pump-monitor"}')).toBe(50.5)
+    expect(sample(text, 'wellpump_humidity_percent{device="well-pump-monitor"}')).toBe(61)
+    expect(sample(text, 'wellpump_current_amps{device="well-pump-monitor",channel="2"}')).toBe(0.1)
+    expect(sample(text, 'wellpump_duty_cycle{device="well-pump-monitor",channel="1"}')).toBe(0.35)
+    expect(sample(text, 'wellpump_seconds_since_last_data{device="well-pump-monitor"}')).toBe(90)
+    expect(text).not.toContain('device="spare"')
+    expect(mockPrisma.sensorData.findFirst).toHaveBeenCalledWith({
+      where: { device: 'well-pump-monitor' },
+      orderBy: { timestamp: 'desc' },
+    })
+  })
+
+  it('drops gauges of devices that are gone', async () => {
+    mockPrisma.device.findMany.mockResolvedValueOnce([
+      { device: 'old-unit', lastSeenAt: NOW },
+    ])
+    mockPrisma.sensorData.findFirst.mockResolvedValueOnce(row(0, 0))
+    await renderMetrics(NOW)
+
+    const text = await renderMetrics(NOW)
+
+    expect(text).not.toContain('old-unit')
+  })
+})
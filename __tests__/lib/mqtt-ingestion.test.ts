@@ -0,0 +1,214 @@
+/**
+ * @jest-environment node
+ *
+ * MQTT ingestion: device messages are authenticated by token and handed to the
+ * same pipeline as the HTTP routes, with the result echoed to `replyTo`.
+ */
+import mqtt from 'mqtt'
+import {
+  handleIngestMessage,
+  startMqttIngestion,
+  stopMqttIngestion,
+} from '@/lib/mqtt-ingestion'
+import { authenticateDeviceToken } from '@/lib/auth-middleware'
+import { ingestSensorData } from '@/lib/sensor-ingestion'
+import { ingestEvent } from '@/lib/event-ingestion'
+import { loadMqttConfig, type MqttConfig } from '@/lib/mqtt'
+
+jest.mock('mqtt', () => ({
+  __esModule: true,
+  default: { connect: jest.fn() },
+}))
+
+jest.mock('@/lib/auth-middleware', () => ({
+  authenticateDeviceToken: jest.fn(),
+  hasPermission: (auth: { deviceToken?: { permissions: Record<string, boolean> } }, p: string) =>
+    auth.deviceToken?.permissions[p] === true,
+}))
+
+jest.mock('@/lib/sensor-ingestion', () => ({
+  ingestSensorData: jest.fn(),
+}))
+
+jest.mock('@/lib/event-ingestion', () => ({
+  ingestEvent: jest.fn(),
+}))
+
+jest.mock('@/lib/mqtt', () => ({
+  ...jest.requireActual('@/lib/mqtt'),
+  loadMqttConfig: jest.fn(),
+}))
+
+const mockConnect = mqtt.connect as jest.Mock
+const mockAuthenticate = authenticateDeviceToken as jest.Mock
+const mockIngestSensorData = ingestSensorData as jest.Mock
+const mockIngestEvent = ingestEvent as jest.Mock
+const mockLoadMqttConfig = loadMqttConfig as jest.Mock
+
+const config: MqttConfig = {
+  brokerUrl: 'mqtt://broker.local:1883',
+  publish: false,
+  ingest: true,
+  topicPrefix: 'wellpump',
+  discovery: false,
+  discoveryPrefix: 'homeassistant',
+}
+
+const device = {
+  isAuthenticated: true,
+  authMethod: 'device-token',
+  deviceToken: { id: 't1', name: 'pump', permissions: { sensors: true }, userId: 'u1' },
+}
+
+const row = { device: 'well-pump-monitor', pressAvg: 40.3 }
+
+function message(envelope: unknown): Buffer {
+  return Buffer.from(JSON.stringify(envelope))
+}
+
+beforeEach(() => {
+  jest.clearAllMocks()
+  stopMqttIngestion()
+})
+
+describe('handleIngestMessage', () => {
+  it('ingests sensor data with a valid token, like the HTTP route', async () => {
+    mockAuthenticate.mockResolvedValueOnce(device)
+    mockIngestSensorData.mockResolvedValueOnce({ status: 201, body: { success: true, id: 'r1' } })
+
+    const { result, replyTo } = await handleIngestMessage(
+      config,
+      'wellpump/ingest/sensors',
+      message({ token: 'secret', data: row, firmwareVersion: ' 1.4.2 ' })
+    )
+
+    expect(result).toEqual({ status: 201, body: { success: true, id: 'r1' } })
+    expect(replyTo).toBeNull()
+    expect(mockAuthenticate).toHaveBeenCalledWith('secret')
+    expect(mockIngestSensorData).toHaveBeenCalledWith(row, { firmwareVersion: '1.4.2' })
+  })
+
+  it('rejects a missing token or one without the topic permission', async () => {
+    mockAuthenticate.mockResolvedValueOnce(device)
+
+    const noToken = await handleIngestMessage(config, 'wellpump/ingest/sensors', message({ data: row }))
+    const noPermission = await handleIngestMessage(
+      config,
+      'wellpump/ingest/events',
+      message({ token: 'secret', data: {} })
+    )
+
+    expect(noToken.result.status).toBe(401)
+    expect(noPermission.result.status).toBe(401)
+    expect(mockIngestSensorData).not.toHaveBeenCalled()
+    expect(mockIngestEvent).not.toHaveBeenCalled()
+  })
+
+  it('routes the events topic to event ingestion', async () => {
+    mockAuthenticate.mockResolvedValueOnce({
+      ...device,
+      deviceToken: { ...device.deviceToken, permissions: { events: true } },
+    })
+    mockIngestEvent.mockResolvedValueOnce({ status: 201, body: { success: true } })
+
+    const { result } = await handleIngestMessage(
+      config,
+      'wellpump/ingest/events',
+      message({ token: 'secret', data: { type: 1 } })
+    )
+
+    expect(result.status).toBe(201)
+    expect(mockIngestEvent).toHaveBeenCalledWith({ type: 1 }, {})
+  })
+
+  it('only replies under the topic prefix', async () => {
+    mockAuthenticate.mockResolvedValue(device)
+    mockIngestSensorData.mockResolvedValue({ status: 201, body: {} })
+
+    const inside = await handleIngestMessage(
+      config,
+      'wellpump/ingest/sensors',
+      message({ token: 'secret', data: row, replyTo: 'wellpump/ingest/reply/pump' })
+    )
+    const outside = await handleIngestMessage(
+      config,
+      'wellpump/ingest/sensors',
+      message({ token: 'secret', data: row, replyTo: 'homeassistant/status' })
+    )
+
+    expect(inside.replyTo).toBe('wellpump/ingest/reply/pump')
+    expect(outside.replyTo).toBeNull()
+  })
+
+  it('reports malformed messages and database errors instead of throwing', async () => {
+    const notJson = await handleIngestMessage(config, 'wellpump/ingest/sensors', Buffer.from('{'))
+    expect(notJson.result).toEqual({ status: 400, body: { error: 'Message must be JSON' } })
+
+    mockAuthenticate.mockResolvedValueOnce(device)
+    mockIngestSensorData.mockRejectedValueOnce(new Error('db down'))
+    const failed = await handleIngestMessage(
+      config,
+      'wellpump/ingest/sensors',
+      message({ token: 'secret', data: row })
+    )
+    expect(failed.result).toEqual({ status: 500, body: { error: 'Internal server error' } })
+  })
+})
+
+describe('startMqttIngestion', () => {
+  type Handler = (...args: unknown[]) => void
+
+  function fakeClient() {
+    const handlers: Record<string, Handler> = {}
+    return {
+      handlers,
+      on: jest.fn((event: string, handler: Handler) => {
+        handlers[event] = handler
+      }),
+      subscribe: jest.fn(),
+      publish: jest.fn(),
+      end: jest.fn(),
+    }
+  }
+
+  it('does nothing unless ingestion is enabled', async () => {
+    mockLoadMqttConfig.mockResolvedValueOnce({ ...config, ingest: false })
+
+    expect(await startMqttIngestion()).toBe(false)
+    expect(mockConnect).not.toHaveBeenCalled()
+  })
+
+  it('subscribes at QoS 1 on a persistent session and replies with the result', async () => {
+    const client = fakeClient()
+    mockConnect.mockReturnValueOnce(client)
+    mockLoadMqttConfig.mockResolvedValueOnce(config)
+    mockAuthenticate.mockResolvedValueOnce(device)
+    mockIngestSensorData.mockResolvedValueOnce({ status: 201, body: { success: true, id: 'r1' } })
+
+    expect(await startMqttIngestion()).toBe(true)
+    expect(mockConnect).toHaveBeenCalledWith(
+      'mqtt://broker.local:1883',
+      expect.objectContaining({ clean: false, clientId: expect.any(String) })
+    )
+
+    client.handlers.connect()
+    expect(client.subscribe).toHaveBeenCalledWith(
+      ['wellpump/ingest/sensors', 'wellpump/ingest/events'],
+      { qos: 1 },
+      expect.any(Function)
+    )
+
+    client.handlers.message(
+      'wellpump/ingest/sensors',
+      message({ token: 'secret', data: row, replyTo: 'wellpump/ingest/reply/pump' })
+    )
+    await new Promise((resolve) => setImmediate(resolve))
+
+    expect(client.publish).toHaveBeenCalledWith(
+      'wellpump/ingest/reply/pump',
+      JSON.stringify({ status: 201, success: true, id: 'r1' }),
+      { qos: 1 },
+      expect.any(Function)
+    )
+  })
+})
@@ -0,0 +1,244 @@
+/**
+ * @jest-environment node
+ *
+ * MQTT publishing: config parsing, topics, the Home Assistant discovery
+ * configs, and what gets published to a (fake) broker client.
+ */
+import mqtt from 'mqtt'
+import {
+  closeMqtt,
+  discoveryMessages,
+  parseMqttConfig,
+  publishEventTransition,
+  publishSensorReadings,
+  sensorStatePayload,
+  stateTopic,
+  type MqttConfig,
+} from '@/lib/mqtt'
+import { prisma } from '@/lib/prisma'
+import type { SensorPayload } from '@/lib/payload-validation'
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    systemSettings: { findMany: jest.fn() },
+  },
+}))
+
+jest.mock('mqtt', () => ({
+  __esModule: true,
+  default: { connect: jest.fn() },
+}))
+
+const mockPrisma = prisma as unknown as { systemSettings: { findMany: jest.Mock } }
+const mockConnect = mqtt.connect as jest.Mock
+
+interface FakeClient {
+  connected: boolean
+  publish: jest.Mock
+  on: jest.Mock
+  end: jest.Mock
+}
+
+function fakeClient(connected = true): FakeClient {
+  return { connected, publish: jest.fn(), on: jest.fn(), end: jest.fn() }
+}
+
+function settings(values: Record<string, string>) {
+  mockPrisma.systemSettings.findMany.mockResolvedValue(
+    Object.entries(values).map(([key, value]) => ({ key, value }))
+  )
+}
+
+const config: MqttConfig = {
+  brokerUrl: 'mqtt://broker.local:1883',
+  publish: true,
+  ingest: false,
+  topicPrefix: 'wellpump',
+  discovery: true,
+  discoveryPrefix: 'homeassistant',
+}
+
+const row: SensorPayload = {
+  device: 'well-pump-monitor',
+  location: 'Pump House',
+  timestamp: new Date('2026-03-01T12:00:00.000Z'),
+  startTime: new Date('2026-03-01T11:59:00.000Z'),
+  endTime: new Date('2026-03-01T12:00:00.000Z'),
+  sampleCount: 60,
+  tempMin: 50,
+  tempMax: 51,
+  tempAvg: 50.5,
+  humMin: 60,
+  humMax: 62,
+  humAvg: 61,
+  pressMin: 38,
+  pressMax: 42,
+  pressAvg: 40.3,
+  current1Min: 0,
+  current1Max: 7.8,
+  current1Avg: 2.3,
+  current1RMS: 2.8,
+  dutyCycle1: 0.35,
+  current2Min: 0,
+  current2Max: 0,
+  current2Avg: 0,
+  current2RMS: 0,
+  dutyCycle2: 0,
+}
+
+beforeEach(() => {
+  jest.clearAllMocks()
+  closeMqtt()
+})
+
+describe('parseMqttConfig', () => {
+  it('is off without a broker, and each direction is off unless enabled', () => {
+    expect(parseMqttConfig(new Map())).toBeNull()
+    expect(parseMqttConfig(new Map([['mqttEnabled', 'true']]))).toBeNull()
+    expect(parseMqttConfig(new Map([['mqttBrokerUrl', 'mqtt://broker.local']]))).toMatchObject({
+      publish: false,
+      ingest: false,
+    })
+  })
+
+  it('fills in default prefixes and trims trailing slashes', () => {
+    const parsed = parseMqttConfig(
+      new Map([
+        ['mqttEnabled', 'true'],
+        ['mqttBrokerUrl', ' mqtt://broker.local:1883 '],
+        ['mqttUsername', 'pump'],
+        ['mqttPassword', 'secret'],
+        ['mqttTopicPrefix', 'home/well/'],
+        ['mqttDiscoveryEnabled', 'true'],
+        ['mqttDiscoveryPrefix', ''],
+        ['mqttIngestEnabled', 'true'],
+      ])
+    )
+    expect(parsed).toEqual({
+      brokerUrl: 'mqtt://broker.local:1883',
+      publish: true,
+      ingest: true,
+      username: 'pump',
+      password: 'secret',
+      topicPrefix: 'home/well',
+      discovery: true,
+      discoveryPrefix: 'homeassistant',
+    })
+  })
+})
+
+describe('topics and payloads', () => {
+  it('keeps device names to a single topic level', () => {
+    expect(stateTopic(config, 'well/pump#1')).toBe('wellpump/well_pump_1/state')
+  })
+
+  it('adds the pump state to the reading', () => {
+    expect(JSON.parse(sensorStatePayload(row))).toMatchObject({
+      device: 'well-pump-monitor',
+      pressAvg: 40.3,
+      timestamp: '2026-03-01T12:00:00.000Z',
+      pumpOn: true,
+    })
+    expect(JSON.parse(sensorStatePayload({ ...row, dutyCycle1: 0 })).pumpOn).toBe(false)
+  })
+
+  it('announces the sensors and the pump state as one Home Assistant device', () => {
+    const messages = discoveryMessages(config, 'well-pump-monitor')
+
+    expect(messages.map((m) => m.topic)).toEqual([
+      'homeassistant/sensor/wellpump_well-pump-monitor_pressure/config',
+      'homeassistant/sensor/wellpump_well-pump-monitor_temperature/config',
+      'homeassistant/sensor/wellpump_well-pump-monitor_humidity/config',
+      'homeassistant/sensor/wellpump_well-pump-monitor_current1/config',
+      'homeassistant/sensor/wellpump_well-pump-monitor_current2/config',
+      'homeassistant/binary_sensor/wellpump_well-pump-monitor_pump/config',
+    ])
+    const pressure = JSON.parse(messages[0].payload)
+    expect(pressure).toMatchObject({
+      state_topic: 'wellpump/well-pump-monitor/state',
+      value_template: '{{ value_json.pressAvg }}',
+      unit_of_measurement: 'psi',
+      device: { identifiers: ['wellpump_well-pump-monitor'] },
+    })
+    expect(JSON.parse(messages[5].payload).device_class).toBe('running')
+  })
+})
+
+describe('publishSensorReadings', () => {
+  it('does nothing while MQTT is off', async () => {
+    settings({ mqttEnabled: 'false', mqttBrokerUrl: 'mqtt://broker.local' })
+
+    await publishSensorReadings([row])
+
+    expect(mockConnect).not.toHaveBeenCalled()
+  })
+
+  it('announces the device once, then publishes each reading retained', async () => {
+    const client = fakeClient()
+    mockConnect.mockReturnValueOnce(client)
+    settings({
+      mqttEnabled: 'true',
+      mqttBrokerUrl: 'mqtt://broker.local:1883',
+      mqttDiscoveryEnabled: 'true',
+    })
+
+    await publishSensorReadings([row])
+    await publishSensorReadings([row])
+
+    expect(mockConnect).toHaveBeenCalledTimes(1)
+    expect(mockConnect).toHaveBeenCalledWith(
+      'mqtt://broker.local:1883',
+      expect.objectContaining({ queueQoSZero: false })
+    )
+    const topics = client.publish.mock.calls.map(([topic]) => topic)
+    expect(topics.filter((t) => t.endsWith('/config'))).toHaveLength(6)
+    expect(topics.filter((t) => t === 'wellpump/well-pump-monitor/state')).toHaveLength(2)
+    expect(client.publish.mock.calls[0][2]).toEqual({ qos: 0, retain: true })
+  })
+
+  it('drops readings while the broker is unreachable', async () => {
+    const client = fakeClient(false)
+    mockConnect.mockReturnValueOnce(client)
+    settings({ mqttEnabled: 'true', mqttBrokerUrl: 'mqtt://broker.local' })
+
+    await publishSensorReadings([row])
+
+    expect(client.publish).not.toHaveBeenCalled()
+  })
+
+  it('never throws', async () => {
+    mockPrisma.systemSettings.findMany.mockRejectedValueOnce(new Error('db down'))
+
+    await expect(publishSensorReadings([row])).resolves.toBeUndefined()
+  })
+})
+
+describe('publishEventTransition', () => {
+  it('publishes the transition to the event type topic', async () => {
+    const client = fakeClient()
+    mockConnect.mockReturnValueOnce(client)
+    settings({ mqttEnabled: 'true', mqttBrokerUrl: 'mqtt://broker.local' })
+    const body = {
+      transition: 'resolved' as const,
+      event: {
+        id: 'evt-1',
+        type: 'LOW_PRESSURE',
+        device: 'well-pump-monitor',
+        location: 'Pump House',
+        value: 18.2,
+        threshold: 20,
+        description: 'cleared',
+        resolved: true,
+      },
+    }
+
+    await publishEventTransition(body)
+
+    expect(client.publish).toHaveBeenCalledWith(
+      'wellpump/well-pump-monitor/event/LOW_PRESSURE',
+      JSON.stringify(body),
+      { qos: 0, retain: true },
+      expect.any(Function)
+    )
+  })
+})
@@ -0,0 +1,102 @@
+/**
+ * @jest-environment node
+ *
+ * Delivery log: row state after each attempt, the backoff schedule, and the
+ * rows written for a dispatch.
+ */
+import {
+  MAX_DELIVERY_ATTEMPTS,
+  deliveryState,
+  recordDeliveries,
+  retryDelayMs,
+} from '@/lib/notification-deliveries'
+import { prisma } from '@/lib/prisma'
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    notificationDelivery: { createMany: jest.fn() },
+  },
+}))
+
+const mockPrisma = prisma as unknown as {
+  notificationDelivery: { createMany: jest.Mock }
+}
+
+const NOW = new Date('2026-03-01T12:00:00.000Z')
+const MINUTE = 60 * 1000
+
+const failure = (retryable: boolean) => ({
+  channel: 'pushover' as const,
+  recipient: 'user:u1',
+  success: false,
+  error: 'HTTP 503 Service Unavailable',
+  retryable,
+})
+
+describe('retryDelayMs', () => {
+  it('doubles from one minute', () => {
+    expect([1, 2, 3, 4].map(retryDelayMs)).toEqual([MINUTE, 2 * MINUTE, 4 * MINUTE, 8 * MINUTE])
+  })
+})
+
+describe('deliveryState', () => {
+  it('marks a success sent and keeps its request id', () => {
+    expect(
+      deliveryState({ channel: 'pushover', recipient: 'env', success: true, requestId: 'req-1' }, 1, NOW),
+    ).toEqual({ status: 'sent', attempts: 1, nextRetryAt: null, requestId: 'req-1', error: null })
+  })
+
+  it('schedules a retryable failure with backoff until attempts run out', () => {
+    expect(deliveryState(failure(true), 2, NOW)).toMatchObject({
+      status: 'retrying',
+      nextRetryAt: new Date(NOW.getTime() + 2 * MINUTE),
+      error: 'HTTP 503 Service Unavailable',
+    })
+    expect(deliveryState(failure(true), MAX_DELIVERY_ATTEMPTS, NOW)).toMatchObject({
+      status: 'failed',
+      nextRetryAt: null,
+    })
+  })
+
+  it('gives up at once on a permanent failure', () => {
+    expect(deliveryState(failure(false), 1, NOW).status).toBe('failed')
+  })
+})
+
+describe('recordDeliveries', () => {
+  beforeEach(() => jest.clearAllMocks())
+
+  it('writes one row per channel result with the event and user', async () => {
+    const payload = { eventType: 'LOW_PRESSURE', title: 'Low Pressure Alert', body: '18 psi' }
+    await recordDeliveries(
+      [
+        { channel: 'pushover', recipient: 'env', success: true, requestId: 'req-1' },
+        failure(true),
+      ],
+      payload,
+      'evt-1',
+      NOW,
+    )
+
+    expect(mockPrisma.notificationDelivery.createMany).toHaveBeenCalledWith({
+      data: [
+        expect.objectContaining({ eventId: 'evt-1', recipient: 'env', userId: null, status: 'sent' }),
+        expect.objectContaining({
+          eventId: 'evt-1',
+          eventType: 'LOW_PRESSURE',
+          userId: 'u1',
+          channel: 'pushover',
+          status: 'retrying',
+          attempts: 1,
+          payload,
+        }),
+      ],
+    })
+  })
+
+  it('never throws when the log cannot be written', async () => {
+    mockPrisma.notificationDelivery.createMany.mockRejectedValueOnce(new Error('db down'))
+    await expect(recordDeliveries([failure(true)], { eventType: 'X', title: 't', body: 'b' }, undefined, NOW))
+      .resolves.toBeUndefined()
+  })
+})
@@ -11,8 +11,12 @@ import {
   validateNotificationConfig,
   dispatchNotifications,
   dispatchEventNotifications,
+  retryNotificationDeliveries,
+  dispatchEventWebhooks,
 } from '@/lib/notifications'
 import { prisma } from '@/lib/prisma'
+import { sendEmail } from '@/lib/email'
+import { publishEventTransition } from '@/lib/mqtt'
 
 // --- Mocks -----------------------------------------------------------------
 
@@ -23,6 +27,19 @@ jest.mock('@/lib/prisma', () => ({
       findUnique: jest.fn(),
       update: jest.fn(),
     },
+    queuedNotification: {
+      createMany: jest.fn(),
+    },
+    notificationDelivery: {
+      createMany: jest.fn(),
+      findMany: jest.fn(),
+      updateMany: jest.fn(),
+      update: jest.fn(),
+    },
+    webhook: {
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+    },
   },
 }))
 
@@ -34,12 +51,32 @@ jest.mock('web-push', () => ({
   },
 }))
 
+jest.mock('@/lib/email', () => ({
+  ...jest.requireActual('@/lib/email'),
+  sendEmail: jest.fn(),
+}))
+
+jest.mock('@/lib/mqtt', () => ({
+  publishEventTransition: jest.fn().mockResolvedValue(undefined),
+}))
+
+const mockSendEmail = sendEmail as jest.Mock
+const mockPublishEventTransition = publishEventTransition as jest.Mock
+
 const mockPrisma = prisma as unknown as {
   notificationSettings: {
     findMany: jest.Mock
     findUnique: jest.Mock
     update: jest.Mock
   }
+  queuedNotification: { createMany: jest.Mock }
+  notificationDelivery: {
+    createMany: jest.Mock
+    findMany: jest.Mock
+    updateMany: jest.Mock
+    update: jest.Mock
+  }
+  webhook: { findMany: jest.Mock; findUnique: jest.Mock }
 }
 
 const mockFetch = jest.fn()
@@ -69,7 +106,10 @@ beforeEach(() => {
   delete process.env.PUSHOVER_USER
   delete process.env.VAPID_PUBLIC_KEY
   delete process.env.VAPID_PRIVATE_KEY
+  delete process.env.SMTP_HOST
+  delete process.env.SMTP_FROM
   mockPrisma.notificationSettings.findMany.mockResolvedValue([])
+  mockPrisma.webhook.findMany.mockResolvedValue([])
 })
 
 afterAll(() => {
@@ -129,6 +169,26 @@ describe('sendPushover', () => {
     expect(params.get('priority')).toBe('1')
   })
 
+  it('sends emergency priority with clamped retry and expire', async () => {
+    mockFetch.mockResolvedValue(
+      pushoverResponse(200, { status: 1, request: 'req-1' })
+    )
+
+    await sendPushover(creds, {
+      eventType: 'LOW_PRESSURE',
+      title: 'Escalated: Low Pressure Alert',
+      body: 'Unacknowledged for 15m',
+      priority: 2,
+      retrySeconds: 10,
+      expireSeconds: 86400,
+    })
+
+    const params = new URLSearchParams(mockFetch.mock.calls[0][1].body as string)
+    expect(params.get('priority')).toBe('2')
+    expect(params.get('retry')).toBe('30')
+    expect(params.get('expire')).toBe('10800')
+  })
+
   it('reports failure and surfaces Pushover errors on status:0', async () => {
     mockFetch.mockResolvedValue(
       pushoverResponse(400, {
@@ -149,6 +209,16 @@ describe('sendPushover', () => {
     expect(result.requestId).toBe('req-err')
   })
 
+  it('marks rate limits retryable but not rejected credentials', async () => {
+    mockFetch.mockResolvedValueOnce(pushoverResponse(429, { status: 0, errors: ['too many'] }))
+    const limited = await sendPushover({ token: 't', user: 'u' }, { eventType: 'X', title: 't', body: 'b' })
+    expect(limited.retryable).toBe(true)
+
+    mockFetch.mockResolvedValueOnce(pushoverResponse(400, { status: 0, errors: ['user key is invalid'] }))
+    const rejected = await sendPushover({ token: 't', user: 'u' }, { eventType: 'X', title: 't', body: 'b' })
+    expect(rejected.retryable).toBe(false)
+  })
+
   it('reports failure (not a throw) on network errors', async () => {
     mockFetch.mockRejectedValue(new Error('ECONNREFUSED'))
 
@@ -320,6 +390,124 @@ describe('dispatchNotifications', () => {
     expect(summary.attempted).toBe(1)
   })
 
+  it('sends only to the named users, ignoring preferences and env', async () => {
+    process.env.PUSHOVER_TOKEN = 'env-tok'
+    process.env.PUSHOVER_USER = 'env-usr'
+    mockPrisma.notificationSettings.findMany.mockResolvedValue([
+      {
+        id: 's2',
+        userId: 'u2',
+        pushoverEnabled: true,
+        pushoverToken: 'tok2',
+        pushoverUser: 'usr2',
+        lowPressureAlert: false,
+      },
+    ])
+    mockFetch.mockResolvedValue(
+      pushoverResponse(200, { status: 1, request: 'req' })
+    )
+
+    const summary = await dispatchNotifications(
+      { eventType: 'LOW_PRESSURE', title: 'Low Pressure', body: 'Pressure dropped' },
+      { userIds: ['u2'] }
+    )
+
+    expect(mockPrisma.notificationSettings.findMany).toHaveBeenCalledWith({
+      where: { pushoverEnabled: true, userId: { in: ['u2'] } },
+    })
+    expect(summary.attempted).toBe(1)
+    const params = new URLSearchParams(mockFetch.mock.calls[0][1].body as string)
+    expect(params.get('token')).toBe('tok2')
+  })
+
+  it('queues instead of sending to a user in quiet hours, env included', async () => {
+    process.env.PUSHOVER_TOKEN = 'env-tok'
+    process.env.PUSHOVER_USER = 'env-usr'
+    const quiet = {
+      quietHoursEnabled: true,
+      quietHoursStart: '22:00',
+      quietHoursEnd: '07:00',
+      quietHoursBreakthrough: ['DRY_RUN'],
+      summaryReportTimezone: 'UTC',
+    }
+    mockPrisma.notificationSettings.findMany.mockResolvedValue([
+      // Relies on the env creds, so holding it holds the env destination.
+      { id: 's1', userId: 'u1', pushoverEnabled: true, pushoverToken: null, pushoverUser: null, ...quiet },
+      { id: 's2', userId: 'u2', pushoverEnabled: true, pushoverToken: 'tok2', pushoverUser: 'usr2' },
+    ])
+    mockFetch.mockResolvedValue(pushoverResponse(200, { status: 1, request: 'req' }))
+    const now = new Date('2026-01-15T03:00:00Z')
+
+    const summary = await dispatchNotifications(
+      { eventType: 'LOW_PRESSURE', title: 'Low Pressure', body: 'Pressure dropped' },
+      { now }
+    )
+
+    expect(summary).toMatchObject({ attempted: 1, queued: 1 })
+    const params = new URLSearchParams(mockFetch.mock.calls[0][1].body as string)
+    expect(params.get('token')).toBe('tok2')
+    expect(mockPrisma.queuedNotification.createMany).toHaveBeenCalledWith({
+      data: [{ userId: 'u1', eventType: 'LOW_PRESSURE', title: 'Low Pressure', body: 'Pressure dropped' }],
+    })
+
+    // A breakthrough type goes out as usual.
+    mockFetch.mockClear()
+    const urgent = await dispatchNotifications(
+      { eventType: 'DRY_RUN', title: 'Pump Running Dry', body: 'No load' },
+      { now }
+    )
+    expect(urgent).toMatchObject({ attempted: 2, queued: 0 })
+  })
+
+  it('sends escalations to a user in quiet hours without queueing them', async () => {
+    mockPrisma.notificationSettings.findMany.mockResolvedValue([
+      {
+        id: 's1',
+        userId: 'u1',
+        pushoverEnabled: true,
+        pushoverToken: 'tok1',
+        pushoverUser: 'usr1',
+        quietHoursEnabled: true,
+        quietHoursStart: '22:00',
+        quietHoursEnd: '07:00',
+        quietHoursBreakthrough: [],
+        summaryReportTimezone: 'UTC',
+      },
+    ])
+    mockFetch.mockResolvedValue(pushoverResponse(200, { status: 1, request: 'req' }))
+
+    const summary = await dispatchNotifications(
+      { eventType: 'LOW_PRESSURE', title: 'Escalated: Low Pressure', body: 'Unacknowledged' },
+      { now: new Date('2026-01-15T03:00:00Z'), userIds: ['u1'], bypassQuietHours: true }
+    )
+
+    expect(summary).toMatchObject({ attempted: 1, queued: 0 })
+    expect(mockPrisma.queuedNotification.createMany).not.toHaveBeenCalled()
+  })
+
+  it('sends resolved notifications only to users who opted in to the type', async () => {
+    process.env.PUSHOVER_TOKEN = 'env-tok'
+    process.env.PUSHOVER_USER = 'env-usr'
+    mockPrisma.notificationSettings.findMany.mockResolvedValue([
+      { id: 's1', userId: 'u1', pushoverEnabled: true, pushoverToken: 'tok1', pushoverUser: 'usr1', resolvedAlertTypes: ['DRY_RUN'] },
+      { id: 's2', userId: 'u2', pushoverEnabled: true, pushoverToken: 'tok2', pushoverUser: 'usr2', resolvedAlertTypes: [] },
+    ])
+    mockFetch.mockResolvedValue(pushoverResponse(200, { status: 1, request: 'req' }))
+
+    const summary = await dispatchEventNotifications({
+      type: 'DRY_RUN',
+      device: 'well-pump-monitor',
+      description: 'Pump Running Dry on well-pump-monitor cleared after 4m',
+      resolved: true,
+    })
+
+    expect(summary.attempted).toBe(1)
+    const params = new URLSearchParams(mockFetch.mock.calls[0][1].body as string)
+    expect(params.get('token')).toBe('tok1')
+    expect(params.get('title')).toBe('Resolved: Pump Running Dry')
+    expect(params.get('priority')).toBe('0')
+  })
+
   it('still sends via env when loading DB settings throws', async () => {
     process.env.PUSHOVER_TOKEN = 'env-tok'
     process.env.PUSHOVER_USER = 'env-usr'
@@ -341,6 +529,143 @@ describe('dispatchNotifications', () => {
   })
 })
 
+// --- Email -----------------------------------------------------------------
+
+describe('email channel', () => {
+  beforeEach(() => {
+    process.env.SMTP_HOST = 'smtp.example.com'
+    process.env.SMTP_FROM = 'alerts@example.com'
+    mockSendEmail.mockImplementation(async (_to: string, _message: unknown, recipient: string) => ({
+      channel: 'email',
+      recipient,
+      success: true,
+      requestId: '<msg@example.com>',
+    }))
+  })
+
+  it('emails opted-in users with an address, rendered from the type template', async () => {
+    mockPrisma.notificationSettings.findMany
+      .mockResolvedValueOnce([]) // Pushover
+      .mockResolvedValueOnce([
+        { id: 's1', userId: 'u1', emailEnabled: true, user: { email: 'owner@example.com' } },
+      ])
+
+    const summary = await dispatchNotifications(
+      { eventType: 'LOW_PRESSURE', title: 'Low Pressure', body: 'Pressure dropped' },
+      { eventId: 'evt-1' }
+    )
+
+    expect(summary).toMatchObject({ attempted: 1, succeeded: 1 })
+    expect(mockPrisma.notificationSettings.findMany).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({
+          emailEnabled: true,
+          lowPressureAlert: true,
+          user: { email: { not: null } },
+        }),
+      })
+    )
+    expect(mockSendEmail).toHaveBeenCalledWith(
+      'owner@example.com',
+      expect.objectContaining({ subject: '[Well Pump] Low Pressure', html: expect.any(String) }),
+      'user:u1'
+    )
+    expect(mockPrisma.notificationDelivery.createMany).toHaveBeenCalledWith({
+      data: [expect.objectContaining({ channel: 'email', recipient: 'user:u1', eventId: 'evt-1' })],
+    })
+  })
+
+  it('queues email for a user in quiet hours', async () => {
+    mockPrisma.notificationSettings.findMany.mockResolvedValueOnce([]).mockResolvedValueOnce([
+      {
+        id: 's1',
+        userId: 'u1',
+        emailEnabled: true,
+        user: { email: 'owner@example.com' },
+        quietHoursEnabled: true,
+        quietHoursStart: '22:00',
+        quietHoursEnd: '07:00',
+        quietHoursBreakthrough: [],
+        summaryReportTimezone: 'UTC',
+      },
+    ])
+
+    const summary = await dispatchNotifications(
+      { eventType: 'LOW_PRESSURE', title: 'Low Pressure', body: 'Pressure dropped' },
+      { now: new Date('2026-01-15T03:00:00Z') }
+    )
+
+    expect(summary).toMatchObject({ attempted: 0, queued: 1 })
+    expect(mockSendEmail).not.toHaveBeenCalled()
+  })
+
+  it('is skipped entirely when SMTP is not configured', async () => {
+    delete process.env.SMTP_HOST
+
+    await dispatchNotifications({ eventType: 'LOW_PRESSURE', title: 'Low Pressure', body: 'x' })
+
+    expect(mockPrisma.notificationSettings.findMany).toHaveBeenCalledTimes(1)
+    expect(mockSendEmail).not.toHaveBeenCalled()
+  })
+})
+
+// --- Delivery log and retries ----------------------------------------------
+
+describe('delivery log', () => {
+  it('records each channel result against the event', async () => {
+    process.env.PUSHOVER_TOKEN = 'env-tok'
+    process.env.PUSHOVER_USER = 'env-usr'
+    mockFetch.mockResolvedValue(pushoverResponse(200, { status: 1, request: 'req-9' }))
+
+    await dispatchEventNotifications({ id: 'evt-1', type: 'LOW_PRESSURE', device: 'well-pump-monitor' })
+
+    expect(mockPrisma.notificationDelivery.createMany).toHaveBeenCalledWith({
+      data: [
+        expect.objectContaining({
+          eventId: 'evt-1',
+          recipient: 'env',
+          channel: 'pushover',
+          status: 'sent',
+          requestId: 'req-9',
+        }),
+      ],
+    })
+  })
+
+  it('retries a due delivery it can claim and records the outcome', async () => {
+    process.env.PUSHOVER_TOKEN = 'env-tok'
+    process.env.PUSHOVER_USER = 'env-usr'
+    const now = new Date('2026-03-01T12:00:00.000Z')
+    const due = new Date('2026-03-01T11:59:00.000Z')
+    mockPrisma.notificationDelivery.findMany.mockResolvedValueOnce([
+      {
+        id: 'd1',
+        recipient: 'env',
+        userId: null,
+        channel: 'pushover',
+        attempts: 1,
+        nextRetryAt: due,
+        payload: { eventType: 'LOW_PRESSURE', title: 'Low Pressure Alert', body: '18 psi' },
+      },
+      { id: 'd2', recipient: 'env', userId: null, channel: 'pushover', attempts: 1, nextRetryAt: due, payload: {} },
+    ])
+    // d2 was claimed by another tick in the meantime.
+    mockPrisma.notificationDelivery.updateMany
+      .mockResolvedValueOnce({ count: 1 })
+      .mockResolvedValueOnce({ count: 0 })
+    mockFetch.mockResolvedValue(pushoverResponse(200, { status: 1, request: 'req-2' }))
+
+    const retried = await retryNotificationDeliveries(now)
+
+    expect(retried).toBe(1)
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+    expect(mockPrisma.notificationDelivery.update).toHaveBeenCalledWith({
+      where: { id: 'd1' },
+      data: expect.objectContaining({ status: 'sent', attempts: 2, requestId: 'req-2' }),
+    })
+  })
+})
+
 // --- dispatchEventNotifications -------------------------------------------
 
 describe('dispatchEventNotifications', () => {
@@ -364,5 +689,100 @@ describe('dispatchEventNotifications', () => {
     const params = new URLSearchParams(mockFetch.mock.calls[0][1].body as string)
     expect(params.get('title')).toBe('Low Pressure Alert')
     expect(params.get('message')).toContain('Pressure 18.2 psi')
+    expect(mockPublishEventTransition).toHaveBeenCalledWith(
+      expect.objectContaining({
+        transition: 'created',
+        event: expect.objectContaining({ type: 'LOW_PRESSURE', device: 'well-pump-monitor' }),
+      })
+    )
+  })
+})
+
+// --- Webhooks --------------------------------------------------------------
+
+describe('webhook channel', () => {
+  const hook = { id: 'wh1', url: 'https://ha.local/api/webhook/x', secret: 's3cret', enabled: true }
+  const ok = { ok: true, status: 200, statusText: 'OK' } as Response
+
+  it('sends a new event to webhooks as "created" and logs the delivery', async () => {
+    mockPrisma.webhook.findMany.mockResolvedValueOnce([hook])
+    mockFetch.mockResolvedValue(ok)
+
+    const summary = await dispatchEventNotifications({
+      id: 'evt-1',
+      type: 'LOW_PRESSURE',
+      device: 'well-pump-monitor',
+      value: 18.2,
+      threshold: 20,
+    })
+
+    expect(summary.results).toEqual([
+      { channel: 'webhook', recipient: 'webhook:wh1', success: true },
+    ])
+    const [url, init] = mockFetch.mock.calls[0]
+    expect(url).toBe(hook.url)
+    expect(JSON.parse(init.body)).toMatchObject({
+      transition: 'created',
+      event: { id: 'evt-1', type: 'LOW_PRESSURE', value: 18.2 },
+    })
+    expect(mockPrisma.notificationDelivery.createMany).toHaveBeenCalledWith({
+      data: [expect.objectContaining({ channel: 'webhook', recipient: 'webhook:wh1', userId: null })],
+    })
+  })
+
+  it('sends acknowledgements only to webhooks', async () => {
+    process.env.PUSHOVER_TOKEN = 'env-tok'
+    process.env.PUSHOVER_USER = 'env-usr'
+    mockPrisma.webhook.findMany.mockResolvedValueOnce([hook])
+    mockFetch.mockResolvedValue(ok)
+
+    const results = await dispatchEventWebhooks(
+      { id: 'evt-1', type: 'LOW_PRESSURE', device: 'well-pump-monitor' },
+      'acknowledged'
+    )
+
+    expect(results).toHaveLength(1)
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+    expect(mockFetch.mock.calls[0][0]).toBe(hook.url)
+    expect(mockFetch.mock.calls[0][1].headers['X-Webhook-Event']).toBe('acknowledged')
+    expect(mockPublishEventTransition).toHaveBeenCalledWith(
+      expect.objectContaining({ transition: 'acknowledged' })
+    )
+  })
+
+  it('rebuilds the webhook body when retrying a delivery', async () => {
+    const now = new Date('2026-03-01T12:00:00.000Z')
+    mockPrisma.notificationDelivery.findMany.mockResolvedValueOnce([
+      {
+        id: 'd1',
+        eventId: 'evt-1',
+        recipient: 'webhook:wh1',
+        userId: null,
+        channel: 'webhook',
+        attempts: 1,
+        nextRetryAt: now,
+        payload: {
+          eventType: 'LOW_PRESSURE',
+          title: 'Resolved: Low Pressure Alert',
+          body: 'cleared',
+          data: { device: 'well-pump-monitor', transition: 'resolved' },
+          resolved: true,
+        },
+      },
+    ])
+    mockPrisma.notificationDelivery.updateMany.mockResolvedValueOnce({ count: 1 })
+    mockPrisma.webhook.findUnique.mockResolvedValueOnce(hook)
+    mockFetch.mockResolvedValue(ok)
+
+    await retryNotificationDeliveries(now)
+
+    expect(JSON.parse(mockFetch.mock.calls[0][1].body)).toMatchObject({
+      transition: 'resolved',
+      event: { id: 'evt-1', resolved: true },
+    })
+    expect(mockPrisma.notificationDelivery.update).toHaveBeenCalledWith({
+      where: { id: 'd1' },
+      data: expect.objectContaining({ status: 'sent', attempts: 2 }),
+    })
   })
 })
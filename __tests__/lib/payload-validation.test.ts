@@ -0,0 +1,140 @@
+/**
+ * @jest-environment node
+ *
+ * Pure tests for the ingestion payload validators. Locks in that every bad
+ * field is reported in one pass, unknown keys never reach Prisma, and the
+ * physical-bounds checks reject impossible values without bouncing genuine
+ * sensor faults.
+ */
+import {
+  formatValidationErrors,
+  validateEventPayload,
+  validateSensorPayload,
+} from '@/lib/payload-validation'
+
+const NOW = Date.parse('2026-01-01T12:00:00.000Z')
+
+const sensorRow = {
+  device: 'well-pump-monitor',
+  location: 'Pump House',
+  timestamp: String(NOW - 60_000),
+  startTime: String(NOW - 120_000),
+  endTime: String(NOW - 60_000),
+  sampleCount: 60,
+  tempMin: 50, tempMax: 51, tempAvg: 50.5,
+  humMin: 60, humMax: 61, humAvg: 60.5,
+  pressMin: 40, pressMax: 50, pressAvg: 45,
+  current1Min: 0, current1Max: 7.8, current1Avg: 2.3, current1RMS: 2.8, dutyCycle1: 35,
+  current2Min: 0, current2Max: 0.2, current2Avg: 0.1, current2RMS: 0.1, dutyCycle2: 0,
+}
+
+const eventPayload = {
+  device: 'well-pump-monitor',
+  location: 'Pump House',
+  timestamp: String(NOW - 60_000),
+  type: 2,
+  value: 18.2,
+  threshold: 20,
+  startTime: String(NOW - 80_000),
+  duration: 20000,
+  active: true,
+  description: 'Low pressure detected',
+}
+
+function fieldsOf(result: ReturnType<typeof validateSensorPayload | typeof validateEventPayload>) {
+  return result.ok ? [] : result.errors.map((e) => e.field)
+}
+
+describe('validateSensorPayload', () => {
+  it('accepts a well-formed row and converts epoch-ms strings to Dates', () => {
+    const result = validateSensorPayload(sensorRow, NOW)
+    expect(result.ok).toBe(true)
+    if (!result.ok) return
+    expect(result.value.timestamp).toEqual(new Date(NOW - 60_000))
+    expect(result.value.startTime).toEqual(new Date(NOW - 120_000))
+    expect(result.value.dutyCycle1).toBe(35)
+  })
+
+  it('strips unknown keys so they never reach Prisma', () => {
+    const result = validateSensorPayload({ ...sensorRow, id: 'spoofed', firmware: '1.2' }, NOW)
+    expect(result.ok).toBe(true)
+    if (!result.ok) return
+    expect(result.value).not.toHaveProperty('id')
+    expect(result.value).not.toHaveProperty('firmware')
+  })
+
+  it('reports every bad field in one pass', () => {
+    const { pressMin: _omitted, ...missingPressMin } = sensorRow
+    void _omitted
+    const result = validateSensorPayload(
+      {
+        ...missingPressMin,
+        tempMin: '50',
+        humAvg: null,
+        sampleCount: -1,
+        dutyCycle1: 140,
+      },
+      NOW,
+    )
+    expect(fieldsOf(result).sort()).toEqual(
+      ['dutyCycle1', 'humAvg', 'pressMin', 'sampleCount', 'tempMin'].sort(),
+    )
+  })
+
+  it('rejects a window that ends before it starts', () => {
+    const result = validateSensorPayload(
+      { ...sensorRow, startTime: String(NOW - 60_000), endTime: String(NOW - 120_000) },
+      NOW,
+    )
+    expect(result.ok).toBe(false)
+    if (result.ok) return
+    expect(formatValidationErrors(result.errors)).toContain(
+      'startTime must not be after endTime',
+    )
+  })
+
+  it('rejects timestamps too far ahead of server time', () => {
+    const result = validateSensorPayload(
+      { ...sensorRow, timestamp: String(NOW + 10 * 60_000) },
+      NOW,
+    )
+    expect(fieldsOf(result)).toEqual(['timestamp'])
+  })
+
+  it('keeps physically possible sensor faults for downstream detection', () => {
+    // -196.6 °F is the DS18B20 "disconnected" reading: a fault, not bad JSON.
+    expect(validateSensorPayload({ ...sensorRow, tempMin: -196.6 }, NOW).ok).toBe(true)
+    expect(validateSensorPayload({ ...sensorRow, tempMin: -500 }, NOW).ok).toBe(false)
+  })
+
+  it('rejects a non-object body', () => {
+    expect(validateSensorPayload([sensorRow], NOW).ok).toBe(false)
+    expect(validateSensorPayload(null, NOW).ok).toBe(false)
+  })
+})
+
+describe('validateEventPayload', () => {
+  it('maps the ESP32 event code and converts duration to BigInt', () => {
+    const result = validateEventPayload(eventPayload, NOW)
+    expect(result.ok).toBe(true)
+    if (!result.ok) return
+    expect(result.value.type).toBe('LOW_PRESSURE')
+    expect(result.value.duration).toBe(BigInt(20000))
+  })
+
+  it('reports an unknown event code alongside other bad fields', () => {
+    const result = validateEventPayload(
+      { ...eventPayload, type: 99, active: 'yes', duration: -5 },
+      NOW,
+    )
+    expect(fieldsOf(result).sort()).toEqual(['active', 'duration', 'type'])
+    if (result.ok) return
+    expect(formatValidationErrors(result.errors)).toContain('Invalid event type: 99')
+  })
+
+  it('rejects codes that only exist on the object prototype or are not integers', () => {
+    for (const type of ['constructor', 'toString', '__proto__', '2', 2.5]) {
+      expect(fieldsOf(validateEventPayload({ ...eventPayload, type }, NOW))).toEqual(['type'])
+    }
+  })
+})
@@ -0,0 +1,70 @@
+/**
+ * @jest-environment node
+ *
+ * Quiet hours: window matching in the user's timezone, including windows that
+ * run past midnight, and the breakthrough list.
+ */
+import {
+  isInQuietHours,
+  isValidTimeOfDay,
+  minuteOfDayInTimezone,
+  shouldHoldForQuietHours,
+  type QuietHoursSettings,
+} from '@/lib/quiet-hours'
+
+const OVERNIGHT: QuietHoursSettings = {
+  quietHoursEnabled: true,
+  quietHoursStart: '22:00',
+  quietHoursEnd: '07:00',
+  quietHoursBreakthrough: ['DRY_RUN'],
+  summaryReportTimezone: 'America/New_York',
+}
+
+// 2026-01-15 is in EST (UTC-5).
+const at = (utc: string) => new Date(`2026-01-15T${utc}:00.000Z`)
+
+describe('isValidTimeOfDay', () => {
+  it('accepts 24-hour HH:MM only', () => {
+    expect(isValidTimeOfDay('00:00')).toBe(true)
+    expect(isValidTimeOfDay('23:59')).toBe(true)
+    expect(isValidTimeOfDay('24:00')).toBe(false)
+    expect(isValidTimeOfDay('7:00')).toBe(false)
+    expect(isValidTimeOfDay(700)).toBe(false)
+  })
+})
+
+describe('minuteOfDayInTimezone', () => {
+  it('converts to local time, falling back to UTC for an unknown zone', () => {
+    expect(minuteOfDayInTimezone(at('03:30'), 'America/New_York')).toBe(22 * 60 + 30)
+    expect(minuteOfDayInTimezone(at('03:30'), 'Not/AZone')).toBe(3 * 60 + 30)
+  })
+})
+
+describe('isInQuietHours', () => {
+  it('matches a window that runs past midnight', () => {
+    expect(isInQuietHours(OVERNIGHT, at('02:59'))).toBe(false) // 21:59 local
+    expect(isInQuietHours(OVERNIGHT, at('03:00'))).toBe(true) // 22:00 local
+    expect(isInQuietHours(OVERNIGHT, at('09:00'))).toBe(true) // 04:00 local
+    expect(isInQuietHours(OVERNIGHT, at('12:00'))).toBe(false) // 07:00 local
+  })
+
+  it('matches a same-day window', () => {
+    const afternoon = { ...OVERNIGHT, quietHoursStart: '13:00', quietHoursEnd: '15:00' }
+    expect(isInQuietHours(afternoon, at('18:30'))).toBe(true) // 13:30 local
+    expect(isInQuietHours(afternoon, at('20:00'))).toBe(false) // 15:00 local
+  })
+
+  it('is off when disabled, empty or malformed', () => {
+    expect(isInQuietHours({ ...OVERNIGHT, quietHoursEnabled: false }, at('05:00'))).toBe(false)
+    expect(isInQuietHours({ ...OVERNIGHT, quietHoursEnd: '22:00' }, at('05:00'))).toBe(false)
+    expect(isInQuietHours({ ...OVERNIGHT, quietHoursStart: 'late' }, at('05:00'))).toBe(false)
+  })
+})
+
+describe('shouldHoldForQuietHours', () => {
+  it('lets breakthrough types through', () => {
+    expect(shouldHoldForQuietHours(OVERNIGHT, 'LOW_PRESSURE', at('05:00'))).toBe(true)
+    expect(shouldHoldForQuietHours(OVERNIGHT, 'DRY_RUN', at('05:00'))).toBe(false)
+    expect(shouldHoldForQuietHours(OVERNIGHT, 'LOW_PRESSURE', at('15:00'))).toBe(false)
+  })
+})
@@ -0,0 +1,180 @@
+/**
+ * @jest-environment node
+ *
+ * Sensor sanity: the pure check flags each fault kind on the right channel
+ * and only that channel; the reconcile path keeps one SENSOR_ERROR per sensor
+ * and reports the faulty channels back to ingestion.
+ */
+import {
+  checkAndRecordSensorFaults,
+  detectSensorFaults,
+  type FlatlineSummary,
+  type SensorSanityRow,
+} from '@/lib/sensor-sanity'
+import { prisma } from '@/lib/prisma'
+import { dispatchEventNotifications } from '@/lib/notifications'
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    sensorData: { findMany: jest.fn(), aggregate: jest.fn() },
+    event: {
+      findMany: jest.fn(),
+      create: jest.fn().mockResolvedValue({ id: 'evt-new' }),
+      update: jest.fn(),
+    },
+    systemSettings: {
+      findMany: jest.fn().mockResolvedValue([]),
+    },
+  },
+}))
+
+jest.mock('@/lib/notifications', () => ({
+  dispatchEventNotifications: jest.fn().mockResolvedValue(undefined),
+}))
+
+const mockPrisma = prisma as unknown as {
+  sensorData: { findMany: jest.Mock; aggregate: jest.Mock }
+  event: { findMany: jest.Mock; create: jest.Mock; update: jest.Mock }
+}
+
+const MINUTE = 60 * 1000
+const HOUR = 60 * MINUTE
+const NOW = new Date('2026-02-01T12:00:00.000Z')
+
+/** A healthy row `minutesAgo` minutes before NOW, with optional overrides. */
+function row(minutesAgo: number, overrides: Partial<SensorSanityRow> = {}): SensorSanityRow {
+  return {
+    startTime: new Date(NOW.getTime() - (minutesAgo + 1) * MINUTE),
+    endTime: new Date(NOW.getTime() - minutesAgo * MINUTE),
+    tempMin: 50, tempAvg: 50.5, tempMax: 51,
+    humMin: 60, humAvg: 60.5, humMax: 61,
+    pressMin: 40, pressAvg: 45, pressMax: 50,
+    current1Min: 0, current1Avg: 0, current1Max: 0,
+    current2Min: 0, current2Avg: 0, current2Max: 0,
+    ...overrides,
+  }
+}
+
+const healthy = [row(2), row(1), row(0)]
+
+/** A summary over 12 hours in which only pressure never moved. */
+const stuckPressure: FlatlineSummary = {
+  firstStartTime: new Date(NOW.getTime() - 12 * HOUR),
+  low: { temperature: 48, humidity: 55, pressure: 42, current1: 0, current2: 0 },
+  high: { temperature: 53, humidity: 70, pressure: 42, current1: 0, current2: 0 },
+}
+
+describe('detectSensorFaults', () => {
+  it('reports nothing for healthy readings', () => {
+    expect(detectSensorFaults(healthy, null, 12, NOW).size).toBe(0)
+  })
+
+  it('flags an out-of-range reading on its channel only', () => {
+    const faults = detectSensorFaults(
+      [row(1), row(0, { tempMin: -196, tempAvg: -196, tempMax: -196 })],
+      null,
+      12,
+      NOW,
+    )
+    expect([...faults.keys()]).toEqual(['temperature'])
+    expect(faults.get('temperature')).toMatchObject({ kind: 'out_of_range', value: -196, threshold: -40 })
+  })
+
+  it('flags a row whose min is above its max', () => {
+    const faults = detectSensorFaults(
+      [row(0, { pressMin: 60, pressAvg: 45, pressMax: 50 })],
+      null,
+      12,
+      NOW,
+    )
+    expect(faults.get('pressure')).toMatchObject({ kind: 'inconsistent', value: 60, threshold: 50 })
+  })
+
+  it('flags an implausible step but not a current inrush', () => {
+    const faults = detectSensorFaults(
+      [
+        row(1),
+        row(0, { humMin: 0, humAvg: 0, humMax: 0, current1Min: 0, current1Avg: 30, current1Max: 45 }),
+      ],
+      null,
+      12,
+      NOW,
+    )
+    expect([...faults.keys()]).toEqual(['humidity'])
+    expect(faults.get('humidity')).toMatchObject({ kind: 'step', value: 60.5, threshold: 50 })
+  })
+
+  it('holds a row-level fault for the recent window, then lets it go', () => {
+    const bad = { tempMin: 200, tempAvg: 200, tempMax: 200 }
+    expect(detectSensorFaults([row(10, bad), row(9)], null, 12, NOW).has('temperature')).toBe(true)
+    expect(detectSensorFaults([row(20, bad), row(0)], null, 12, NOW).has('temperature')).toBe(false)
+  })
+
+  it('flags a flatline only when the summary covers the whole window', () => {
+    const faults = detectSensorFaults(healthy, stuckPressure, 12, NOW)
+    expect([...faults.keys()]).toEqual(['pressure'])
+    expect(faults.get('pressure')).toMatchObject({ kind: 'flatline', value: 42, threshold: 12 })
+
+    const partial = { ...stuckPressure, firstStartTime: new Date(NOW.getTime() - 6 * HOUR) }
+    expect(detectSensorFaults(healthy, partial, 12, NOW).size).toBe(0)
+    expect(detectSensorFaults(healthy, stuckPressure, 0, NOW).size).toBe(0)
+  })
+
+  it('does not flag humidity pinned at saturation or at zero', () => {
+    const pinned = (humidity: number): FlatlineSummary => ({
+      ...stuckPressure,
+      low: { ...stuckPressure.low, pressure: 40, humidity },
+      high: { ...stuckPressure.high, pressure: 60, humidity },
+    })
+    expect(detectSensorFaults(healthy, pinned(100), 12, NOW).size).toBe(0)
+    expect(detectSensorFaults(healthy, pinned(0), 12, NOW).size).toBe(0)
+    expect([...detectSensorFaults(healthy, pinned(87), 12, NOW).keys()]).toEqual(['humidity'])
+  })
+})
+
+describe('checkAndRecordSensorFaults', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockPrisma.sensorData.aggregate.mockResolvedValue({ _min: {}, _max: {} })
+    mockPrisma.event.findMany.mockResolvedValue([])
+  })
+
+  it('creates one SENSOR_ERROR per faulty sensor and returns the faulty set', async () => {
+    mockPrisma.sensorData.findMany.mockResolvedValue([
+      row(1),
+      row(0, { tempMin: -196, tempAvg: -196, tempMax: -196 }),
+    ])
+
+    const faulty = await checkAndRecordSensorFaults('well-pump-monitor', 'Pump House', NOW)
+
+    expect(faulty).toEqual(new Set(['temperature']))
+    expect(mockPrisma.event.create).toHaveBeenCalledTimes(1)
+    expect(mockPrisma.event.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        type: 'SENSOR_ERROR',
+        sensor: 'temperature',
+        value: -196,
+        description: expect.stringContaining('Temperature sensor reading -196.0°F'),
+      }),
+    })
+    expect(dispatchEventNotifications).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'SENSOR_ERROR', value: -196 }),
+    )
+  })
+
+  it('resolves a sensor once it reads sanely again, leaving others alone', async () => {
+    mockPrisma.sensorData.findMany.mockResolvedValue(healthy)
+    mockPrisma.event.findMany.mockResolvedValue([
+      { id: 'evt-1', sensor: 'pressure', startTime: NOW },
+    ])
+
+    const faulty = await checkAndRecordSensorFaults('well-pump-monitor', 'Pump House', NOW)
+
+    expect(faulty.size).toBe(0)
+    expect(mockPrisma.event.update).toHaveBeenCalledTimes(1)
+    expect(mockPrisma.event.update).toHaveBeenCalledWith({
+      where: { id: 'evt-1' },
+      data: { active: false, timestamp: NOW, duration: BigInt(0) },
+    })
+  })
+})
@@ -0,0 +1,91 @@
+/**
+ * @jest-environment node
+ *
+ * Pure tests for the short-cycling detector. Runs are counted with the stats
+ * algorithm, so these lock in the rolling window, the two thresholds and the
+ * merge-gap interaction rather than re-testing run counting itself.
+ */
+import {
+  detectShortCycling,
+  type ShortCycleThresholds,
+} from '@/lib/short-cycle-detection'
+import type { StatsRow } from '@/lib/stats'
+
+const MINUTE = 60 * 1000
+const BASE = Date.parse('2026-01-01T00:00:00.000Z')
+
+const THRESHOLDS: ShortCycleThresholds = {
+  windowMinutes: 60,
+  minStarts: 12,
+  maxAverageRunSeconds: 60,
+}
+
+function row(minute: number, dutyCycle1 = 0): StatsRow {
+  return {
+    startTime: new Date(BASE + minute * MINUTE),
+    endTime: new Date(BASE + (minute + 1) * MINUTE),
+    dutyCycle1,
+    pressMin: 50,
+  }
+}
+
+/** `minutes` of samples with a `dutyCycle1`% start every `period` minutes. */
+function cycling(minutes: number, period: number, dutyCycle1: number): StatsRow[] {
+  return Array.from({ length: minutes }, (_, i) =>
+    row(i, i % period === 0 ? dutyCycle1 : 0),
+  )
+}
+
+describe('detectShortCycling', () => {
+  it('returns null for an empty dataset', () => {
+    expect(detectShortCycling([], THRESHOLDS, new Date(BASE))).toBeNull()
+  })
+
+  it('fires on frequent short runs', () => {
+    // A 30-second run every 4 minutes: 15 starts in the hour.
+    const now = new Date(BASE + 60 * MINUTE)
+    const result = detectShortCycling(cycling(60, 4, 50), THRESHOLDS, now)
+    expect(result).not.toBeNull()
+    expect(result!.starts).toBe(15)
+    expect(result!.averageRunSeconds).toBeCloseTo(30, 5)
+    expect(result!.windowStartMs).toBe(BASE)
+  })
+
+  it('ignores frequent starts when the runs are long enough', () => {
+    // A two-minute run every 5 minutes: 12 starts averaging 120s.
+    const rows = Array.from({ length: 60 }, (_, i) => row(i, i % 5 < 2 ? 100 : 0))
+    const now = new Date(BASE + 60 * MINUTE)
+    expect(detectShortCycling(rows, THRESHOLDS, now)).toBeNull()
+  })
+
+  it('ignores short runs that are infrequent', () => {
+    // A 30-second run every 10 minutes: 6 starts.
+    const now = new Date(BASE + 60 * MINUTE)
+    expect(detectShortCycling(cycling(60, 10, 50), THRESHOLDS, now)).toBeNull()
+  })
+
+  it('merges starts closer together than the run-merge gap', () => {
+    // A start every other minute is one merged run under stats semantics.
+    const now = new Date(BASE + 60 * MINUTE)
+    expect(detectShortCycling(cycling(60, 2, 50), THRESHOLDS, now)).toBeNull()
+  })
+
+  it('only counts rows inside the rolling window', () => {
+    // Cycling stopped 40 minutes ago; only 5 starts remain in a 60-min window.
+    const rows = [...cycling(60, 4, 50), ...Array.from({ length: 40 }, (_, i) => row(60 + i))]
+    const now = new Date(BASE + 100 * MINUTE)
+    expect(detectShortCycling(rows, THRESHOLDS, now)).toBeNull()
+  })
+
+  it('returns null when the latest row is stale', () => {
+    const now = new Date(BASE + 70 * MINUTE)
+    expect(detectShortCycling(cycling(60, 4, 50), THRESHOLDS, now)).toBeNull()
+  })
+
+  it('is disabled by a zero window or start count', () => {
+    const now = new Date(BASE + 60 * MINUTE)
+    const rows = cycling(60, 4, 50)
+    expect(detectShortCycling(rows, { ...THRESHOLDS, windowMinutes: 0 }, now)).toBeNull()
+    expect(detectShortCycling(rows, { ...THRESHOLDS, minStarts: 0 }, now)).toBeNull()
+  })
+})
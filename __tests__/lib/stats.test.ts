@@ -9,7 +9,11 @@
 import {
   DEFAULT_STATS_THRESHOLDS,
   buildAggregatedStats,
+  computePumpCycles,
   computeStatsFromRows,
+  flowRateAt,
+  parseFlowCurve,
+  type FlowModel,
   type StatsRow,
 } from '@/lib/stats'
 
@@ -55,6 +59,11 @@ describe('computeStatsFromRows', () => {
       sampleCount: 0,
       averagePumpRunSeconds: 0,
       averageLowPressureSeconds: 0,
+      estimatedGallons: null,
+      averageGallonsPerRun: null,
+      gallonsPerHour: null,
+      gallonsPerDay: null,
+      gallonsPerWeek: null,
     })
   })
 
@@ -292,3 +301,135 @@ describe('buildAggregatedStats', () => {
     expect(stats.averageLowPressureSeconds).toBe(0)
   })
 })
+
+describe('computePumpCycles', () => {
+  const cycleRow = (minute: number, dutyCycle1: number, pressMin: number, pressMax: number) => ({
+    ...row(minute, { dutyCycle1, pressMin }),
+    pressMax,
+  })
+
+  it('returns the runs computeStatsFromRows counts, with cut-in/cut-out', () => {
+    const rows = [
+      cycleRow(0, 100, 40, 48),
+      cycleRow(1, 0, 48, 48), // bridged by the merge gap
+      cycleRow(2, 50, 48, 60),
+      ...Array.from({ length: 5 }, (_, i) => cycleRow(3 + i, 0, 55, 58)),
+      cycleRow(8, 100, 40, 60),
+    ]
+
+    const cycles = computePumpCycles(rows)
+
+    expect(cycles).toHaveLength(computeStatsFromRows(rows).pumpRunCount)
+    expect(cycles[0]).toMatchObject({
+      startMs: BASE,
+      endMs: BASE + 3 * MINUTE,
+      runSeconds: 90,
+      cutInPsi: 40,
+      cutOutPsi: 60,
+      risePsiPerMinute: 13.333,
+    })
+    expect(cycles[1]).toMatchObject({ cutInPsi: 40, cutOutPsi: 60, risePsiPerMinute: 20 })
+  })
+
+  it('separates runs per device', () => {
+    const rows = [
+      { ...cycleRow(0, 100, 40, 60), device: 'a' },
+      { ...cycleRow(1, 100, 40, 60), device: 'b' },
+    ]
+    expect(computePumpCycles(rows).map((c) => c.device)).toEqual(['a', 'b'])
+  })
+})
+
+describe('water usage', () => {
+  const CURVE = { type: 'curve' as const, points: parseFlowCurve('50:8, 30:12')! }
+
+  it('parses a psi:gpm curve sorted by pressure', () => {
+    expect(parseFlowCurve('50:8, 30:12')).toEqual([
+      { psi: 30, gpm: 12 },
+      { psi: 50, gpm: 8 },
+    ])
+    expect(parseFlowCurve('30:12')).toBeNull()
+    expect(parseFlowCurve('30:12, 50')).toBeNull()
+    expect(parseFlowCurve('30:12, fifty:8')).toBeNull()
+  })
+
+  it('interpolates along the curve and holds flat past either end', () => {
+    expect(flowRateAt(CURVE, 40)).toBe(10)
+    expect(flowRateAt(CURVE, 20)).toBe(12)
+    expect(flowRateAt(CURVE, 70)).toBe(8)
+    expect(flowRateAt({ type: 'fixed', gpm: 9 }, 40)).toBe(9)
+  })
+
+  it('converts on-time to gallons at each row pressure', () => {
+    // 2 on-minutes at 40 PSI (10 GPM) + one half-duty minute at 50 PSI (8 GPM).
+    const rows = [
+      row(0, { ...ON, pressAvg: 40 }),
+      row(1, { ...ON, pressAvg: 40 }),
+      row(2, { dutyCycle1: 50, pressAvg: 50 }),
+      row(3),
+    ]
+    const stats = computeStatsFromRows(rows, DEFAULT_STATS_THRESHOLDS, CURVE)
+    expect(stats.estimatedGallons).toBe(24)
+    expect(stats.averageGallonsPerRun).toBe(24)
+    // 24 gal over the 4-minute span.
+    expect(stats.gallonsPerHour).toBe(360)
+    expect(stats.gallonsPerDay).toBe(8640)
+  })
+
+  it('falls back to pressMin without pressAvg', () => {
+    const rows = [row(0, { ...ON, pressMin: 30 })]
+    expect(computeStatsFromRows(rows, DEFAULT_STATS_THRESHOLDS, CURVE).estimatedGallons).toBe(12)
+  })
+
+  it('leaves volumes null without a flow model', () => {
+    const stats = computeStatsFromRows([row(0, ON)])
+    expect(stats.estimatedGallons).toBeNull()
+    expect(stats.gallonsPerDay).toBeNull()
+  })
+
+  it('uses each device\'s own model and skips devices without one', () => {
+    const rows = [
+      row(0, { ...ON, device: 'barn', pressAvg: 40 }),
+      row(0, { ...ON, device: 'house', pressAvg: 40 }),
+      row(0, { ...ON, device: 'shed', pressAvg: 40 }),
+    ]
+    const flows = new Map<string, FlowModel | null>([
+      ['barn', CURVE],
+      ['house', { type: 'fixed', gpm: 7 }],
+      ['shed', null],
+    ])
+    // 10 GPM on the curve at 40 PSI + 7 GPM fixed, one minute each.
+    expect(computeStatsFromRows(rows, DEFAULT_STATS_THRESHOLDS, flows).estimatedGallons).toBe(17)
+    expect(
+      computeStatsFromRows(rows, DEFAULT_STATS_THRESHOLDS, new Map([['shed', null]]))
+        .estimatedGallons,
+    ).toBeNull()
+  })
+})
+
+describe('pump channels', () => {
+  it('counts runs and runtime from dutyCycle2 on channel 2', () => {
+    // Channel 1 runs once for 3 minutes; channel 2 twice for 1 minute each.
+    const rows = [
+      row(0, { ...ON, dutyCycle2: 100 }),
+      row(1, { ...ON, dutyCycle2: 0 }),
+      row(2, { ...ON, dutyCycle2: 0 }),
+      row(3, { dutyCycle2: 0 }),
+      row(4, { dutyCycle2: 0 }),
+      row(5, { dutyCycle2: 50 }),
+    ]
+    const one = computeStatsFromRows(rows, NO_MERGE)
+    const two = computeStatsFromRows(rows, NO_MERGE, null, 2)
+    expect(one.pumpRunCount).toBe(1)
+    expect(one.pumpDurationSeconds).toBe(180)
+    expect(two.pumpRunCount).toBe(2)
+    expect(two.pumpDurationSeconds).toBe(90)
+  })
+
+  it('treats a missing dutyCycle2 as off and keeps low pressure channel-independent', () => {
+    const rows = [row(0, { ...ON, ...LOW }), row(1, ON)]
+    const stats = computeStatsFromRows(rows, NO_MERGE, null, 2)
+    expect(stats.pumpRunCount).toBe(0)
+    expect(stats.lowPressureEventCount).toBe(1)
+  })
+})
@@ -11,7 +11,10 @@
  * the orchestration wires the right rows / period / recipient.
  */
 import { prisma } from '@/lib/prisma'
+import { getTankHealthScores } from '@/lib/tank-health'
+import { getFlowModels } from '@/lib/water-usage'
 import * as notifications from '@/lib/notifications'
+import { sendEmail } from '@/lib/email'
 import {
   buildSummaryReport,
   hourInTimezone,
@@ -37,12 +40,28 @@ jest.mock('@/lib/prisma', () => ({
   },
 }))
 
+// Tank health is unit-tested on its own; default to "not enough runs yet".
+jest.mock('@/lib/tank-health', () => ({
+  getTankHealthScores: jest.fn().mockResolvedValue([]),
+}))
+
+jest.mock('@/lib/water-usage', () => ({
+  getFlowModels: jest.fn().mockResolvedValue(new Map()),
+}))
+
 jest.mock('@/lib/notifications', () => ({
   ...jest.requireActual('@/lib/notifications'),
   sendPushover: jest.fn(),
   getEnvPushoverCredentials: jest.fn(),
 }))
 
+jest.mock('@/lib/email', () => ({
+  ...jest.requireActual('@/lib/email'),
+  sendEmail: jest.fn(),
+}))
+
+const mockSendEmail = sendEmail as jest.Mock
+
 const mockPrisma = prisma as unknown as DeepMocked<typeof prisma>
 const mockNotifications = notifications as unknown as {
   sendPushover: jest.Mock
@@ -208,6 +227,104 @@ describe('buildSummaryReport', () => {
     expect(report.tempMaxF).toBeNull()
     expect(report.body).not.toContain('Temperature')
   })
+
+  it('adds the tank health line once a score is available', async () => {
+    const now = new Date('2026-06-26T08:00:00Z')
+    mockPrisma.sensorData.findMany.mockResolvedValue([])
+    ;(getTankHealthScores as jest.Mock).mockResolvedValueOnce([
+      { device: 'well-pump-monitor', score: 82 },
+    ])
+
+    const report = await buildSummaryReport('day', now)
+
+    expect(getTankHealthScores).toHaveBeenCalledWith(now)
+    expect(report.tankHealthScores).toEqual([{ device: 'well-pump-monitor', score: 82 }])
+    expect(report.body).toContain('Tank health: 82/100')
+  })
+
+  it('scores each device on its own line when there are several', async () => {
+    mockPrisma.sensorData.findMany.mockResolvedValue([])
+    ;(getTankHealthScores as jest.Mock).mockResolvedValueOnce([
+      { device: 'barn-pump', score: 64 },
+      { device: 'house-pump', score: 97 },
+    ])
+
+    const report = await buildSummaryReport('day')
+
+    expect(report.body).toContain('Tank health (barn-pump): 64/100')
+    expect(report.body).toContain('Tank health (house-pump): 97/100')
+  })
+
+  it('omits the tank health line until there are enough runs', async () => {
+    mockPrisma.sensorData.findMany.mockResolvedValue([])
+
+    const report = await buildSummaryReport('day')
+
+    expect(report.tankHealthScores).toEqual([])
+    expect(report.body).not.toContain('Tank health')
+    expect(report.body).not.toContain('Water used')
+  })
+
+  it('drops the tank health line, not the report, when scoring fails', async () => {
+    mockPrisma.sensorData.findMany.mockResolvedValue([])
+    ;(getTankHealthScores as jest.Mock).mockRejectedValueOnce(new Error('db down'))
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {})
+
+    const report = await buildSummaryReport('day')
+
+    expect(report.tankHealthScores).toEqual([])
+    expect(report.body).toContain('Pump runs: 0')
+    errorSpy.mockRestore()
+  })
+
+  it('adds estimated water use when a pump flow rate is configured', async () => {
+    const now = new Date('2026-06-26T08:00:00Z')
+    mockPrisma.sensorData.findMany.mockResolvedValue([
+      {
+        timestamp: new Date(now.getTime() - 2 * DAY),
+        startTime: new Date(now.getTime() - 2 * DAY),
+        endTime: new Date(now.getTime() - 2 * DAY + 10 * MINUTE),
+        dutyCycle1: 100,
+        pressMin: 45,
+        tempMin: null,
+        tempMax: null,
+        device: 'd',
+      },
+    ])
+    ;(getFlowModels as jest.Mock).mockResolvedValueOnce(
+      new Map([['d', { type: 'fixed', gpm: 7 }]]),
+    )
+
+    const report = await buildSummaryReport('week', now)
+
+    expect(report.body).toContain('Water used: ~70 gal (avg 10 gal/day)')
+  })
+
+  it('counts each device at its own flow rate', async () => {
+    const now = new Date('2026-06-26T08:00:00Z')
+    const run = (device: string) => ({
+      timestamp: new Date(now.getTime() - HOUR),
+      startTime: new Date(now.getTime() - HOUR),
+      endTime: new Date(now.getTime() - HOUR + 10 * MINUTE),
+      dutyCycle1: 100,
+      pressMin: 45,
+      tempMin: null,
+      tempMax: null,
+      device,
+    })
+    mockPrisma.sensorData.findMany.mockResolvedValue([run('barn-pump'), run('house-pump')])
+    ;(getFlowModels as jest.Mock).mockResolvedValueOnce(
+      new Map([
+        ['barn-pump', { type: 'fixed', gpm: 7 }],
+        ['house-pump', { type: 'fixed', gpm: 12 }],
+      ]),
+    )
+
+    const report = await buildSummaryReport('day', now)
+
+    expect(getFlowModels).toHaveBeenCalledWith(['barn-pump', 'house-pump'])
+    expect(report.body).toContain('Water used: ~190 gal')
+  })
 })
 
 describe('sendSummaryReportFor', () => {
@@ -304,6 +421,37 @@ describe('sendSummaryReportFor', () => {
       'user:u1',
     )
   })
+
+  it('emails the report to a user with email on, even without Pushover', async () => {
+    process.env.SMTP_HOST = 'smtp.example.com'
+    process.env.SMTP_FROM = 'alerts@example.com'
+    try {
+      mockPrisma.notificationSettings.findUnique.mockResolvedValueOnce({
+        userId: 'u1',
+        summaryReportPeriod: 'day',
+        pushoverToken: null,
+        pushoverUser: null,
+        emailEnabled: true,
+        user: { email: 'owner@example.com' },
+      })
+      mockPrisma.sensorData.findMany.mockResolvedValue([])
+      mockSendEmail.mockResolvedValueOnce({ channel: 'email', recipient: 'user:u1', success: true })
+
+      const result = await sendSummaryReportFor('u1')
+
+      expect(result.delivered).toBe(true)
+      expect(result.email?.success).toBe(true)
+      expect(mockNotifications.sendPushover).not.toHaveBeenCalled()
+      expect(mockSendEmail).toHaveBeenCalledWith(
+        'owner@example.com',
+        expect.objectContaining({ subject: expect.stringMatching(/daily/i) }),
+        'user:u1',
+      )
+    } finally {
+      delete process.env.SMTP_HOST
+      delete process.env.SMTP_FROM
+    }
+  })
 })
 
 describe('runDueSummaryReports', () => {
@@ -397,6 +545,31 @@ describe('runDueSummaryReports', () => {
     expect(mockNotifications.sendPushover).not.toHaveBeenCalled()
   })
 
+  it('scores the tanks once per tick, however many reports go out', async () => {
+    mockPrisma.notificationSettings.findMany.mockResolvedValue([
+      settingsRow(),
+      settingsRow({ id: 'ns2', userId: 'u2' }),
+    ])
+    mockPrisma.notificationSettings.findUnique.mockResolvedValue(settingsRow())
+    mockPrisma.sensorData.findMany.mockResolvedValue([])
+    ;(getTankHealthScores as jest.Mock).mockResolvedValueOnce([
+      { device: 'well-pump-monitor', score: 82 },
+    ])
+    mockNotifications.sendPushover.mockResolvedValue({
+      channel: 'pushover',
+      recipient: 'user:u1',
+      success: true,
+    })
+
+    const results = await runDueSummaryReports(new Date('2026-06-26T08:00:00Z'))
+
+    expect(results).toHaveLength(2)
+    expect(getTankHealthScores).toHaveBeenCalledTimes(1)
+    for (const [, payload] of mockNotifications.sendPushover.mock.calls) {
+      expect(payload.body).toContain('Tank health: 82/100')
+    }
+  })
+
   it('does not mark a failed delivery as sent (so the next tick retries)', async () => {
     mockPrisma.notificationSettings.findMany.mockResolvedValue([settingsRow()])
     mockPrisma.sensorData.findMany.mockResolvedValue([])
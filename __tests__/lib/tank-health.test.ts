@@ -0,0 +1,59 @@
+/**
+ * @jest-environment node
+ *
+ * Pure tests for the pressure-tank health score: weekly bucketing, the
+ * minimum-rise and minimum-runs filters, and the score relative to the best
+ * week in the lookback.
+ */
+import { summarizeTankHealth } from '@/lib/tank-health'
+import type { PumpCycle } from '@/lib/stats'
+
+const DAY = 24 * 60 * 60 * 1000
+const WEEK = 7 * DAY
+const NOW = new Date('2026-03-01T00:00:00.000Z')
+
+/** A run `weeksAgo` weeks before NOW (plus a day) rising at `rate` PSI/min. */
+function cycle(weeksAgo: number, rate: number, rise = 20): PumpCycle {
+  const startMs = NOW.getTime() - weeksAgo * WEEK - DAY
+  const runSeconds = (rise / rate) * 60
+  return {
+    startMs,
+    endMs: startMs + runSeconds * 1000,
+    runSeconds,
+    cutInPsi: 40,
+    cutOutPsi: 40 + rise,
+    risePsiPerMinute: rate,
+  }
+}
+
+const week = (weeksAgo: number, rate: number, count = 6) =>
+  Array.from({ length: count }, () => cycle(weeksAgo, rate))
+
+describe('summarizeTankHealth', () => {
+  it('has no score without enough runs', () => {
+    const report = summarizeTankHealth(week(0, 10, 3), 4, NOW)
+    expect(report.score).toBeNull()
+    expect(report.weeks).toHaveLength(4)
+    expect(report.weeks[3].cycleCount).toBe(3)
+  })
+
+  it('scores 100 when the latest week matches the best', () => {
+    const report = summarizeTankHealth([...week(2, 10), ...week(0, 10)], 4, NOW)
+    expect(report.score).toBe(100)
+  })
+
+  it('drops as runs build pressure faster than the best week', () => {
+    const report = summarizeTankHealth([...week(3, 10), ...week(1, 12), ...week(0, 20)], 4, NOW)
+    expect(report.referenceRisePsiPerMinute).toBe(10)
+    expect(report.currentRisePsiPerMinute).toBe(20)
+    expect(report.score).toBe(50)
+    expect(report.weeks.map((w) => w.medianRisePsiPerMinute)).toEqual([10, null, 12, 20])
+  })
+
+  it('ignores runs that did not build pressure and runs outside the lookback', () => {
+    const flat = Array.from({ length: 6 }, () => cycle(0, 1, 2))
+    const report = summarizeTankHealth([...week(0, 10), ...flat, ...week(6, 5)], 4, NOW)
+    expect(report.weeks[3].cycleCount).toBe(6)
+    expect(report.score).toBe(100)
+  })
+})
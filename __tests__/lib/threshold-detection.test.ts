@@ -4,11 +4,44 @@
  * Pure-logic tests for threshold parsing. The DB-driven detection paths are
  * exercised through integration tests; here we lock in the safe-fallback
  * behaviour so a malformed SystemSettings row can never crash the cron tick.
+ * HIGH_HUMIDITY's sustain time is checked against a mocked database.
  */
 import {
   DEFAULT_THRESHOLDS,
+  decideThresholdCondition,
+  evaluateConditionWindow,
+  isStreakSustained,
   parseThreshold,
+  type DebounceRule,
+  checkSensorThresholdWindow,
+  checkMissingData,
+  type TimedSensorRow,
 } from '@/lib/threshold-detection'
+import { prisma } from '@/lib/prisma'
+import { dispatchEventNotifications } from '@/lib/notifications'
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    systemSettings: { findMany: jest.fn().mockResolvedValue([]) },
+    sensorData: { findMany: jest.fn().mockResolvedValue([]) },
+    device: { findMany: jest.fn().mockResolvedValue([]) },
+    event: {
+      findFirst: jest.fn(),
+      create: jest.fn().mockResolvedValue({ id: 'evt-new' }),
+      update: jest.fn(),
+    },
+  },
+}))
+
+jest.mock('@/lib/notifications', () => ({
+  dispatchEventNotifications: jest.fn().mockResolvedValue(undefined),
+}))
+
+const mockPrisma = prisma as unknown as {
+  sensorData: { findMany: jest.Mock }
+  device: { findMany: jest.Mock }
+  event: { findFirst: jest.Mock; create: jest.Mock; update: jest.Mock }
+}
 
 describe('parseThreshold', () => {
   it('returns fallback when the raw value is undefined', () => {
@@ -41,9 +74,254 @@ describe('DEFAULT_THRESHOLDS', () => {
   it('exposes the documented seed values', () => {
     expect(DEFAULT_THRESHOLDS).toEqual({
       highCurrentAmps: 7.2,
+      highCurrent2Amps: 7.2,
       lowPressurePsi: 30,
       lowTemperatureF: 35,
+      highHumidityPct: 90,
+      highHumiditySustainMinutes: 30,
       missingDataMinutes: 10,
+      highCurrentHysteresisAmps: 0,
+      lowPressureHysteresisPsi: 0,
+      lowTemperatureHysteresisF: 0,
+      triggerDebounceRows: 1,
+      triggerDebounceMinutes: 0,
+      clearDebounceRows: 1,
+      clearDebounceMinutes: 0,
+    })
+  })
+})
+
+describe('evaluateConditionWindow', () => {
+  const BASE = Date.parse('2026-01-01T00:00:00.000Z')
+  const rows = (pressures: number[]): TimedSensorRow[] =>
+    pressures.map((pressMin, i) => ({
+      current1RMS: 0,
+      current2RMS: 0,
+      pressMin,
+      tempMin: 50,
+      humAvg: 60,
+      timestamp: new Date(BASE + i * 60_000),
+    }))
+  const lowPressure = (window: TimedSensorRow[]) =>
+    evaluateConditionWindow(window, (r) => r.pressMin, (v) => v <= 30)
+
+  it('is inactive when the newest row clears, even after earlier dips', () => {
+    expect(lowPressure(rows([25, 28, 40]))).toEqual({
+      active: false,
+      value: 40,
+      since: null,
+      streakRows: 0,
+    })
+  })
+
+  it('dates an active condition from the start of its trailing streak', () => {
+    const result = lowPressure(rows([25, 40, 29, 28, 27]))
+    expect(result.active).toBe(true)
+    expect(result.value).toBe(27)
+    expect(result.since).toEqual(new Date(BASE + 2 * 60_000))
+    expect(result.streakRows).toBe(3)
+  })
+
+  it('returns an inactive state for an empty window', () => {
+    expect(lowPressure([])).toEqual({
+      active: false,
+      value: 0,
+      since: null,
+      streakRows: 0,
+    })
+  })
+})
+
+describe('isStreakSustained', () => {
+  const since = new Date('2026-01-01T00:00:00.000Z')
+  const state = (streakRows: number) => ({ active: true, value: 25, since, streakRows })
+  const at = (minutes: number) => new Date(since.getTime() + minutes * 60_000)
+
+  it('treats the default rule as "one row is enough"', () => {
+    expect(isStreakSustained(state(1), { rows: 1, minutes: 0 }, since)).toBe(true)
+    expect(isStreakSustained(state(1), { rows: 0, minutes: 0 }, since)).toBe(true)
+  })
+
+  it('requires both the row count and the elapsed minutes', () => {
+    const rule = { rows: 3, minutes: 5 }
+    expect(isStreakSustained(state(2), rule, at(10))).toBe(false)
+    expect(isStreakSustained(state(6), rule, at(4))).toBe(false)
+    expect(isStreakSustained(state(6), rule, at(5))).toBe(true)
+  })
+
+  it('is never sustained for an inactive window', () => {
+    expect(
+      isStreakSustained(
+        { active: false, value: 40, since: null, streakRows: 0 },
+        { rows: 1, minutes: 0 },
+        since,
+      ),
+    ).toBe(false)
+  })
+})
+
+describe('decideThresholdCondition', () => {
+  const BASE = Date.parse('2026-01-01T00:00:00.000Z')
+  const rows = (pressures: number[]): TimedSensorRow[] =>
+    pressures.map((pressMin, i) => ({
+      current1RMS: 0,
+      current2RMS: 0,
+      pressMin,
+      tempMin: 50,
+      humAvg: 60,
+      timestamp: new Date(BASE + i * 60_000),
+    }))
+  const immediate: DebounceRule = { rows: 1, minutes: 0 }
+  // LOW_PRESSURE at 30 PSI with a 3 PSI hysteresis band.
+  const lowPressure = (
+    pressures: number[],
+    trigger: DebounceRule = immediate,
+    clear: DebounceRule = immediate,
+  ) =>
+    decideThresholdCondition(
+      rows(pressures),
+      (r) => r.pressMin,
+      (v) => v <= 30,
+      (v) => v > 33,
+      trigger,
+      clear,
+    )
+
+  it('neither triggers nor clears inside the hysteresis band', () => {
+    const result = lowPressure([29, 31, 32, 30.5])
+    expect(result.triggered).toBe(false)
+    expect(result.cleared).toBe(false)
+    expect(result.value).toBe(30.5)
+  })
+
+  it('clears only once the reading is past the band', () => {
+    expect(lowPressure([29, 33]).cleared).toBe(false)
+    expect(lowPressure([29, 33.5]).cleared).toBe(true)
+  })
+
+  it('waits for N consecutive rows before triggering', () => {
+    const trigger = { rows: 3, minutes: 0 }
+    expect(lowPressure([29, 29.5, 31, 29, 28], trigger).triggered).toBe(false)
+    const result = lowPressure([31, 29, 29.5, 28], trigger)
+    expect(result.triggered).toBe(true)
+    expect(result.since).toEqual(new Date(BASE + 60_000))
+  })
+
+  it('waits for the clear condition to be sustained before clearing', () => {
+    const clear = { rows: 1, minutes: 3 }
+    expect(lowPressure([28, 34, 35, 36], immediate, clear).cleared).toBe(false)
+    expect(lowPressure([28, 34, 35, 36, 35], immediate, clear).cleared).toBe(true)
+  })
+
+  it('does not flap on a reading hovering around the trigger value', () => {
+    // With the band, every sample here is either a trigger or in-band: an
+    // event created on the first dip stays open throughout.
+    const hovering = [29.8, 30.4, 29.9, 30.6, 30.1, 29.7]
+    for (let n = 1; n <= hovering.length; n++) {
+      expect(lowPressure(hovering.slice(0, n)).cleared).toBe(false)
+    }
+  })
+})
+
+describe('checkSensorThresholdWindow — HIGH_HUMIDITY', () => {
+  const BASE = Date.parse('2026-01-01T00:00:00.000Z')
+  const rows = (humidities: number[]): TimedSensorRow[] =>
+    humidities.map((humAvg, i) => ({
+      current1RMS: 0,
+      current2RMS: 0,
+      pressMin: 45,
+      tempMin: 50,
+      humAvg,
+      timestamp: new Date(BASE + i * 60_000),
+    }))
+  const humidityCreates = () =>
+    mockPrisma.event.create.mock.calls.filter(([arg]) => arg.data.type === 'HIGH_HUMIDITY')
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockPrisma.event.findFirst.mockResolvedValue(null)
+  })
+
+  it('waits for the default 30-minute sustain time', async () => {
+    await checkSensorThresholdWindow('pump-house', 'Barn', rows(Array(30).fill(95)))
+    expect(humidityCreates()).toHaveLength(0)
+
+    await checkSensorThresholdWindow('pump-house', 'Barn', rows(Array(31).fill(95)))
+    expect(humidityCreates()).toHaveLength(1)
+    expect(humidityCreates()[0][0].data).toMatchObject({
+      value: 95,
+      threshold: 90,
+      startTime: new Date(BASE),
+    })
+    expect(dispatchEventNotifications).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'HIGH_HUMIDITY' }),
+    )
+  })
+
+  it('resolves once humidity is back at or below the threshold', async () => {
+    mockPrisma.event.findFirst.mockImplementation(async ({ where }) =>
+      where.type === 'HIGH_HUMIDITY' ? { id: 'evt-1', startTime: new Date(BASE) } : null,
+    )
+
+    await checkSensorThresholdWindow('pump-house', 'Barn', rows([95, 88]))
+
+    expect(mockPrisma.event.update).toHaveBeenCalledWith({
+      where: { id: 'evt-1' },
+      data: { active: false, timestamp: new Date(BASE + 60_000), duration: BigInt(60_000) },
+    })
+  })
+
+  it('leaves conditions alone while their sensor is faulty', async () => {
+    mockPrisma.event.findFirst.mockImplementation(async ({ where }) =>
+      where.type === 'HIGH_HUMIDITY' ? { id: 'evt-1', startTime: new Date(BASE) } : null,
+    )
+
+    await checkSensorThresholdWindow('pump-house', 'Barn', rows([95, 0]), new Set(['humidity']))
+
+    expect(mockPrisma.event.update).not.toHaveBeenCalled()
+    expect(
+      mockPrisma.event.findFirst.mock.calls.some(([arg]) => arg.where.type === 'HIGH_HUMIDITY'),
+    ).toBe(false)
+  })
+})
+
+
+describe('checkMissingData', () => {
+  const now = new Date('2026-01-01T12:00:00.000Z')
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockPrisma.event.findFirst.mockResolvedValue(null)
+  })
+
+  it('only checks devices heard from in the last day', async () => {
+    await checkMissingData(now)
+
+    expect(mockPrisma.device.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { lastSeenAt: { gte: new Date('2025-12-31T12:00:00.000Z') } },
+      })
+    )
+  })
+
+  it('raises MISSING_DATA for a device silent past the timeout', async () => {
+    mockPrisma.device.findMany.mockResolvedValueOnce([
+      {
+        device: 'well-pump-monitor',
+        location: 'Pump House',
+        lastSeenAt: new Date('2026-01-01T11:40:00.000Z'),
+      },
+    ])
+
+    await checkMissingData(now)
+
+    expect(mockPrisma.event.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        device: 'well-pump-monitor',
+        type: 'MISSING_DATA',
+        value: 20,
+        threshold: 10,
+      }),
     })
   })
 })
@@ -0,0 +1,210 @@
+/**
+ * @jest-environment node
+ *
+ * Outbound webhooks: the body built from a notification, the signature, the
+ * type filter, validation of the admin form, and the POST itself.
+ */
+import { createHmac } from 'crypto'
+import {
+  buildWebhookBody,
+  sendEventWebhooks,
+  sendWebhook,
+  signWebhookBody,
+  validateWebhook,
+  type WebhookBody,
+} from '@/lib/webhooks'
+import { prisma } from '@/lib/prisma'
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    webhook: { findMany: jest.fn() },
+  },
+}))
+
+const mockPrisma = prisma as unknown as { webhook: { findMany: jest.Mock } }
+
+const mockFetch = global.fetch as jest.Mock
+
+function response(status: number): Response {
+  return { ok: status >= 200 && status < 300, status, statusText: '' } as Response
+}
+
+const payload = {
+  eventType: 'LOW_PRESSURE',
+  title: 'Low Pressure Alert',
+  body: 'Low pressure detected',
+  data: {
+    eventType: 'LOW_PRESSURE',
+    device: 'well-pump-monitor',
+    location: 'Pump House',
+    value: 18.2,
+    threshold: 20,
+    transition: 'created',
+  },
+}
+
+const body: WebhookBody = buildWebhookBody(payload, 'evt-1', 'created')
+
+beforeEach(() => {
+  jest.clearAllMocks()
+})
+
+describe('buildWebhookBody', () => {
+  it('mirrors the event from the notification payload', () => {
+    expect(body).toEqual({
+      transition: 'created',
+      event: {
+        id: 'evt-1',
+        type: 'LOW_PRESSURE',
+        device: 'well-pump-monitor',
+        location: 'Pump House',
+        value: 18.2,
+        threshold: 20,
+        description: 'Low pressure detected',
+        resolved: false,
+      },
+    })
+  })
+
+  it('fills unknown details with null', () => {
+    const resolved = buildWebhookBody(
+      { eventType: 'SYSTEM_ERROR', title: 'Resolved: System Error', body: 'ok', resolved: true },
+      null,
+      'resolved'
+    )
+    expect(resolved.event).toMatchObject({ id: null, device: null, value: null, resolved: true })
+  })
+})
+
+describe('signWebhookBody', () => {
+  it('is the HMAC-SHA256 of the timestamp and body', () => {
+    const expected = createHmac('sha256', 'secret').update('1700000000.{"a":1}').digest('hex')
+    expect(signWebhookBody('{"a":1}', 'secret', 1700000000)).toBe(expected)
+  })
+})
+
+describe('sendWebhook', () => {
+  const now = new Date('2026-03-01T12:00:00.000Z')
+  const webhook = { id: 'wh1', url: 'https://ha.local/api/webhook/x', secret: 's3cret' }
+
+  it('POSTs the signed JSON body', async () => {
+    mockFetch.mockResolvedValueOnce(response(204))
+
+    const result = await sendWebhook(webhook, body, now)
+
+    expect(result).toEqual({ channel: 'webhook', recipient: 'webhook:wh1', success: true })
+    const [url, init] = mockFetch.mock.calls[0]
+    expect(url).toBe('https://ha.local/api/webhook/x')
+    expect(init.method).toBe('POST')
+    expect(JSON.parse(init.body)).toEqual(body)
+    expect(init.headers).toMatchObject({
+      'Content-Type': 'application/json',
+      'X-Webhook-Event': 'created',
+      'X-Webhook-Timestamp': '1772366400',
+      'X-Webhook-Signature': `sha256=${signWebhookBody(init.body, 's3cret', 1772366400)}`,
+    })
+  })
+
+  it('retries server errors but not client errors', async () => {
+    mockFetch.mockResolvedValueOnce(response(503)).mockResolvedValueOnce(response(400))
+
+    const retry = await sendWebhook(webhook, body, now)
+    const reject = await sendWebhook(webhook, body, now)
+
+    expect(retry).toMatchObject({ success: false, retryable: true })
+    expect(retry.error).toMatch(/503/)
+    expect(reject).toMatchObject({ success: false, retryable: false })
+  })
+
+  it('treats an unreachable receiver or a timeout as retryable', async () => {
+    mockFetch.mockRejectedValueOnce(new Error('The operation was aborted due to timeout'))
+
+    const result = await sendWebhook(webhook, body, now)
+
+    expect(result).toMatchObject({ success: false, retryable: true })
+  })
+})
+
+describe('sendEventWebhooks', () => {
+  it('asks for enabled webhooks listening to the type or to every type', async () => {
+    mockPrisma.webhook.findMany.mockResolvedValueOnce([])
+
+    const results = await sendEventWebhooks(payload, 'evt-1', 'created')
+
+    expect(results).toEqual([])
+    expect(mockFetch).not.toHaveBeenCalled()
+    expect(mockPrisma.webhook.findMany).toHaveBeenCalledWith({
+      where: {
+        enabled: true,
+        OR: [{ eventTypes: { isEmpty: true } }, { eventTypes: { has: 'LOW_PRESSURE' } }],
+      },
+    })
+  })
+
+  it('only matches every-type webhooks for an unknown type', async () => {
+    mockPrisma.webhook.findMany.mockResolvedValueOnce([])
+
+    await sendEventWebhooks({ ...payload, eventType: 'constructor' }, 'evt-1', 'created')
+
+    expect(mockPrisma.webhook.findMany).toHaveBeenCalledWith({
+      where: { enabled: true, OR: [{ eventTypes: { isEmpty: true } }] },
+    })
+  })
+
+  it('sends to each matching webhook', async () => {
+    mockPrisma.webhook.findMany.mockResolvedValueOnce([
+      { id: 'wh1', url: 'https://a.example/hook', secret: 'a' },
+      { id: 'wh2', url: 'https://b.example/hook', secret: 'b' },
+    ])
+    mockFetch.mockResolvedValue(response(200))
+
+    const results = await sendEventWebhooks(payload, 'evt-1', 'created')
+
+    expect(results.map((r) => r.recipient)).toEqual(['webhook:wh1', 'webhook:wh2'])
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+  })
+})
+
+describe('validateWebhook', () => {
+  it('accepts a valid webhook and defaults to enabled for every type', () => {
+    const result = validateWebhook({ name: ' Home Assistant ', url: 'https://ha.local/api/webhook/x' })
+    expect(result).toEqual({
+      ok: true,
+      value: {
+        name: 'Home Assistant',
+        url: 'https://ha.local/api/webhook/x',
+        eventTypes: [],
+        enabled: true,
+      },
+    })
+  })
+
+  it('reports every problem at once', () => {
+    const result = validateWebhook({
+      name: '',
+      url: 'ftp://example.com',
+      secret: 'short',
+      eventTypes: ['NOT_A_TYPE'],
+      enabled: 'yes',
+    })
+    expect(result.ok).toBe(false)
+    if (!result.ok) {
+      expect(result.errors.map((e) => e.field)).toEqual([
+        'name',
+        'url',
+        'secret',
+        'eventTypes',
+        'enabled',
+      ])
+    }
+  })
+
+  it('rejects inherited object keys as event types', () => {
+    const result = validateWebhook({
+      name: 'Hook',
+      url: 'https://ha.local/api/webhook/x',
+      eventTypes: ['constructor'],
+    })
+    expect(result.ok).toBe(false)
+  })
+})
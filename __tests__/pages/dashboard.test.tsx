@@ -234,7 +234,7 @@ describe('Dashboard Page', () => {
     render(<Dashboard />)
 
     await waitFor(() => {
-      expect(callsTo('/api/stats')).toBe(1)
+      expect(callsTo('/api/stats?')).toBe(1)
     })
 
     await user.selectOptions(
@@ -243,7 +243,7 @@ describe('Dashboard Page', () => {
     )
 
     await waitFor(() => {
-      expect(callsTo('/api/stats')).toBe(2)
+      expect(callsTo('/api/stats?')).toBe(2)
     })
   })
 
@@ -257,6 +257,63 @@ describe('Dashboard Page', () => {
     })
   })
 
+  it('applies readings and event transitions pushed over the live stream', async () => {
+    type Listener = (message: { data: string }) => void
+    const listeners: Record<string, Listener> = {}
+    class FakeEventSource {
+      static readonly CLOSED = 2
+      onopen: (() => void) | null = null
+      onerror: (() => void) | null = null
+      constructor() {
+        setTimeout(() => this.onopen?.())
+      }
+      addEventListener(type: string, listener: Listener) {
+        listeners[type] = listener
+      }
+      close() {}
+    }
+    Object.defineProperty(globalThis, 'EventSource', {
+      configurable: true,
+      writable: true,
+      value: FakeEventSource,
+    })
+    const push = (type: string, data: unknown) =>
+      act(() => listeners[type]({ data: JSON.stringify(data) }))
+
+    try {
+      sensorsBody = { data: [sensorRow] }
+
+      render(<Dashboard />)
+
+      await waitFor(() => {
+        expect(screen.getByText('40.20 psi')).toBeInTheDocument()
+      })
+
+      push('sensor', { ...sensorRow, id: '2', timestamp: '2023-01-01T12:31:45.000Z', pressAvg: 38.5 })
+      expect(screen.getByText('38.50 psi')).toBeInTheDocument()
+
+      // A replayed older row doesn't replace the latest one.
+      push('sensor', { ...sensorRow, id: '0', timestamp: '2023-01-01T12:00:00.000Z', pressAvg: 50 })
+      expect(screen.getByText('38.50 psi')).toBeInTheDocument()
+
+      const lowPressure = {
+        id: 'event-2',
+        type: 'LOW_PRESSURE',
+        description: 'Pressure is low',
+      }
+      push('event', { transition: 'created', timestamp: '2023-01-01T12:32:00.000Z', event: lowPressure })
+      expect(screen.getByText('Pressure is low')).toBeInTheDocument()
+      expect(screen.getByText('warning')).toBeInTheDocument()
+
+      push('event', { transition: 'resolved', timestamp: '2023-01-01T12:40:00.000Z', event: lowPressure })
+      expect(screen.queryByText('Pressure is low')).not.toBeInTheDocument()
+      expect(screen.getByText('No active alerts')).toBeInTheDocument()
+      expect(callsTo('/api/sensors')).toBe(1)
+    } finally {
+      delete (globalThis as { EventSource?: unknown }).EventSource
+    }
+  })
+
   it('cleans up the polling interval on unmount', async () => {
     const clearIntervalSpy = jest.spyOn(global, 'clearInterval')
 
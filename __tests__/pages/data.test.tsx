@@ -159,7 +159,7 @@ describe('DataPage — range & pagination', () => {
     render(<DataPage />)
     await waitFor(() => expect(mockFetch).toHaveBeenCalledTimes(1))
 
-    fireEvent.change(screen.getByRole('combobox'), { target: { value: '7d' } })
+    fireEvent.change(screen.getByRole('combobox', { name: 'Time range' }), { target: { value: '7d' } })
 
     await waitFor(() =>
       expect(screen.getByTestId('coverage-summary')).toHaveTextContent('hourly average')
@@ -190,7 +190,7 @@ describe('DataPage — range & pagination', () => {
     render(<DataPage />)
     await waitFor(() => expect(mockFetch).toHaveBeenCalledTimes(1))
 
-    fireEvent.change(screen.getByRole('combobox'), { target: { value: 'custom' } })
+    fireEvent.change(screen.getByRole('combobox', { name: 'Time range' }), { target: { value: 'custom' } })
     fireEvent.change(screen.getByLabelText(/start date/i), {
       target: { value: '2026-06-01' },
     })
@@ -354,7 +354,7 @@ describe('DataPage — live auto-refresh', () => {
 
     // Switch to 7d → an immediate re-query at the new range.
     await act(async () => {
-      fireEvent.change(screen.getByRole('combobox'), { target: { value: '7d' } })
+      fireEvent.change(screen.getByRole('combobox', { name: 'Time range' }), { target: { value: '7d' } })
     })
     expect(mockFetch).toHaveBeenCalledTimes(2)
     expect(fetchUrl(1)).toContain('aggregate=hour')
@@ -388,7 +388,7 @@ describe('DataPage — live auto-refresh', () => {
 
     // Switch to custom and enter both dates — nothing should fetch yet.
     await act(async () => {
-      fireEvent.change(screen.getByRole('combobox'), { target: { value: 'custom' } })
+      fireEvent.change(screen.getByRole('combobox', { name: 'Time range' }), { target: { value: 'custom' } })
     })
     await act(async () => {
       fireEvent.change(screen.getByLabelText(/start date/i), {
@@ -420,3 +420,38 @@ describe('DataPage — live auto-refresh', () => {
     expect(fetchUrl(2)).toBe(loadedUrl)
   })
 })
+
+describe('DataPage — pump channels', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it('labels channels with their configured names and filters the table', async () => {
+    const now = Date.now()
+    mockFetch.mockResolvedValueOnce(
+      jsonResponse({
+        data: [row(0, now)],
+        pagination: { total: 1, offset: 0, returned: 1, hasMore: false },
+        channelNames: { 1: 'Well pump', 2: 'Booster' },
+      })
+    )
+
+    render(<DataPage />)
+    await waitFor(() =>
+      expect(screen.getByTestId('coverage-summary')).toHaveTextContent('1 data point')
+    )
+    fireEvent.click(screen.getByRole('button', { name: /table/i }))
+
+    expect(screen.getByRole('option', { name: 'Booster' })).toBeInTheDocument()
+    expect(screen.getByText('Booster Current (A)')).toBeInTheDocument()
+
+    fireEvent.change(screen.getByRole('combobox', { name: 'Pump channel' }), {
+      target: { value: '1' },
+    })
+
+    expect(screen.getByText('Well pump Current (A)')).toBeInTheDocument()
+    expect(screen.queryByText('Booster Current (A)')).not.toBeInTheDocument()
+    // Filtering is client-side only.
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+  })
+})
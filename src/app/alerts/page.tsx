@@ -17,6 +17,7 @@ interface Event {
   type: string
   description: string
   value: number
+  peakValue?: number | null
   threshold: number
   active: boolean
   timestamp: string
@@ -24,6 +25,7 @@ interface Event {
   acknowledged: boolean
   acknowledgedAt?: string
   acknowledgedBy?: string
+  escalations?: { step: string; priority: number; createdAt: string }[]
 }
 
 const eventTypeColors = {
@@ -34,7 +36,14 @@ const eventTypeColors = {
   SYSTEM_ERROR: 'border-gray-400 bg-gray-50',
   MISSING_DATA: 'border-orange-400 bg-orange-50',
   LONG_PUMP_RUN: 'border-amber-400 bg-amber-50',
-  PRESSURE_DROP: 'border-cyan-400 bg-cyan-50'
+  PRESSURE_DROP: 'border-cyan-400 bg-cyan-50',
+  SHORT_CYCLING: 'border-rose-400 bg-rose-50',
+  DRY_RUN: 'border-red-600 bg-red-100',
+  CURRENT_DRIFT: 'border-indigo-400 bg-indigo-50',
+  TANK_DEGRADED: 'border-teal-400 bg-teal-50',
+  HIGH_WATER_USAGE: 'border-sky-400 bg-sky-50',
+  HIGH_HUMIDITY: 'border-emerald-400 bg-emerald-50',
+  FREEZE_RISK: 'border-cyan-400 bg-cyan-50'
 }
 
 const eventTypeIcons = {
@@ -45,7 +54,14 @@ const eventTypeIcons = {
   SYSTEM_ERROR: '⚠️',
   MISSING_DATA: '📡',
   LONG_PUMP_RUN: '⏱️',
-  PRESSURE_DROP: '🚰'
+  PRESSURE_DROP: '🚰',
+  SHORT_CYCLING: '🔁',
+  DRY_RUN: '🏜️',
+  CURRENT_DRIFT: '📈',
+  TANK_DEGRADED: '🛢️',
+  HIGH_WATER_USAGE: '🚿',
+  HIGH_HUMIDITY: '💦',
+  FREEZE_RISK: '🥶'
 }
 
 export default function AlertsPage() {
@@ -315,6 +331,9 @@ export default function AlertsPage() {
                           <div className="sm:flex sm:space-x-4">
                             <p className="flex items-center text-sm text-gray-500">
                               Value: {event.value.toFixed(2)} / Threshold: {event.threshold.toFixed(2)}
+                              {event.peakValue != null && event.peakValue !== event.value && (
+                                <> / Peak: {event.peakValue.toFixed(2)}</>
+                              )}
                             </p>
                             <p className="mt-2 flex items-center text-sm text-gray-500 sm:mt-0">
                               Duration: {formatDuration(event.duration)}
@@ -326,6 +345,15 @@ export default function AlertsPage() {
                             </p>
                           </div>
                         </div>
+                        {event.escalations && event.escalations.length > 0 && (
+                          <p className="mt-2 text-sm text-red-700">
+                            Escalated: {event.escalations.map((e) =>
+                              `${e.step === 'secondary' ? 'secondary users' : 'repeat'}` +
+                              `${e.priority === 2 ? ' (emergency)' : ''} at ` +
+                              format(new Date(e.createdAt), 'MMM d, HH:mm')
+                            ).join(', ')}
+                          </p>
+                        )}
                         {event.acknowledged && event.acknowledgedAt && (
                           <p className="mt-2 text-sm text-gray-500">
                             Acknowledged by {event.acknowledgedBy} at {format(new Date(event.acknowledgedAt), 'MMM d, HH:mm')}
@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { getDeviceStatus } from '@/lib/devices'
+import { deleteDeviceSettings } from '@/lib/device-settings'
+
+const MAX_LABEL_LENGTH = 100
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const resolvedParams = await params
+    const device = await getDeviceStatus(resolvedParams.id)
+
+    if (!device) {
+      return NextResponse.json({ error: 'Device not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(device)
+  } catch (error) {
+    console.error('Error fetching device:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+/**
+ * Update the admin-editable fields. The identifier, firmware, IP and seen
+ * timestamps are reported by the device itself and are not editable here.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session || (session as { user: { role: string } }).user.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { displayName, location } = await request.json()
+    const resolvedParams = await params
+
+    const updateData: {
+      displayName?: string | null
+      location?: string | null
+    } = {}
+
+    for (const [field, value] of Object.entries({ displayName, location })) {
+      if (value === undefined) continue
+      if (value !== null && (typeof value !== 'string' || value.length > MAX_LABEL_LENGTH)) {
+        return NextResponse.json(
+          { error: `${field} must be a string of at most ${MAX_LABEL_LENGTH} characters` },
+          { status: 400 }
+        )
+      }
+      updateData[field as keyof typeof updateData] = value?.trim() || null
+    }
+
+    const existing = await prisma.device.findUnique({
+      where: { id: resolvedParams.id },
+      select: { id: true }
+    })
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Device not found' }, { status: 404 })
+    }
+
+    const device = await prisma.device.update({
+      where: { id: resolvedParams.id },
+      data: updateData
+    })
+
+    return NextResponse.json(device)
+  } catch (error) {
+    console.error('Error updating device:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+/**
+ * Remove a device from the registry along with its threshold overrides. Its
+ * SensorData and Event history is kept; the device simply stops being
+ * monitored for MISSING_DATA until it reports again and re-registers.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session || (session as { user: { role: string } }).user.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const resolvedParams = await params
+
+    const existing = await prisma.device.findUnique({
+      where: { id: resolvedParams.id },
+      select: { id: true, device: true }
+    })
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Device not found' }, { status: 404 })
+    }
+
+    await prisma.device.delete({
+      where: { id: resolvedParams.id }
+    })
+    await deleteDeviceSettings(existing.device)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting device:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
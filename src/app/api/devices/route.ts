@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { isUniqueViolation } from '@/lib/prisma-errors'
+import { getDeviceStatuses } from '@/lib/devices'
+
+const MAX_LABEL_LENGTH = 100
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const devices = await getDeviceStatuses()
+
+    return NextResponse.json(devices, { headers: { 'Cache-Control': 'no-store' } })
+  } catch (error) {
+    console.error('Error fetching devices:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+/**
+ * Pre-register a device before it first reports, e.g. to give it a name.
+ * Devices that simply start posting are registered automatically.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session || (session as { user: { role: string } }).user.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { device, displayName, location } = await request.json()
+
+    if (typeof device !== 'string' || !device.trim()) {
+      return NextResponse.json({ error: 'Device identifier is required' }, { status: 400 })
+    }
+    for (const [field, value] of Object.entries({ device, displayName, location })) {
+      if (value !== undefined && value !== null &&
+          (typeof value !== 'string' || value.length > MAX_LABEL_LENGTH)) {
+        return NextResponse.json(
+          { error: `${field} must be a string of at most ${MAX_LABEL_LENGTH} characters` },
+          { status: 400 }
+        )
+      }
+    }
+
+    try {
+      const created = await prisma.device.create({
+        data: {
+          device: device.trim(),
+          displayName: displayName?.trim() || null,
+          location: location?.trim() || null
+        }
+      })
+      return NextResponse.json({ ...created, online: false }, { status: 201 })
+    } catch (createError) {
+      if (!isUniqueViolation(createError)) throw createError
+      return NextResponse.json({ error: 'Device already registered' }, { status: 409 })
+    }
+  } catch (error) {
+    console.error('Error creating device:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
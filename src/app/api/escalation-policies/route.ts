@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { validateEscalationPolicy } from '@/lib/escalation'
+import { formatValidationErrors } from '@/lib/payload-validation'
+import { EventType } from '@prisma/client'
+
+type AdminSession = { user: { role: string; username: string } }
+
+async function getAdminSession(): Promise<AdminSession | null> {
+  const session = await getServerSession(authOptions)
+  if (!session || (session as AdminSession).user.role !== 'ADMIN') return null
+  return session as AdminSession
+}
+
+export async function GET() {
+  try {
+    if (!(await getAdminSession())) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const policies = await prisma.escalationPolicy.findMany({
+      orderBy: { eventType: 'asc' }
+    })
+
+    return NextResponse.json(policies)
+  } catch (error) {
+    console.error('Error fetching escalation policies:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+/** Create or replace the policy for one event type. */
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await getAdminSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const parsed = validateEscalationPolicy(await request.json())
+    if (!parsed.ok) {
+      return NextResponse.json(
+        { error: formatValidationErrors(parsed.errors), errors: parsed.errors },
+        { status: 400 }
+      )
+    }
+
+    const { eventType, ...fields } = parsed.value
+    const policy = await prisma.escalationPolicy.upsert({
+      where: { eventType },
+      update: { ...fields, updatedBy: session.user.username },
+      create: { eventType, ...fields, updatedBy: session.user.username }
+    })
+
+    return NextResponse.json(policy)
+  } catch (error) {
+    console.error('Error saving escalation policy:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+/** Remove the policy for `?eventType=`; that type stops escalating. */
+export async function DELETE(request: NextRequest) {
+  try {
+    if (!(await getAdminSession())) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const eventType = new URL(request.url).searchParams.get('eventType')
+    if (!eventType || !Object.hasOwn(EventType, eventType)) {
+      return NextResponse.json(
+        { error: `Invalid event type: ${eventType}` },
+        { status: 400 }
+      )
+    }
+
+    const { count } = await prisma.escalationPolicy.deleteMany({
+      where: { eventType: eventType as EventType }
+    })
+    if (count === 0) {
+      return NextResponse.json({ error: 'Policy not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting escalation policy:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -2,7 +2,9 @@ import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { EventType } from '@prisma/client'
 import { getAuthContext, hasPermission } from '@/lib/auth-middleware'
-import { dispatchEventNotifications } from '@/lib/notifications'
+import { dispatchEventWebhooks } from '@/lib/notifications'
+import { ingestEvent, webhookEvent } from '@/lib/event-ingestion'
+import { deviceMetadataFromHeaders } from '@/lib/devices'
 
 export async function POST(request: NextRequest) {
   try {
@@ -12,170 +14,12 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    const data = await request.json()
-
-    // Validate required fields based on ESP32 event structure
-    const requiredFields = [
-      'device', 'location', 'timestamp', 'type', 'value', 'threshold',
-      'startTime', 'duration', 'active', 'description'
-    ]
-
-    for (const field of requiredFields) {
-      if (!(field in data)) {
-        return NextResponse.json(
-          { error: `Missing required field: ${field}` },
-          { status: 400 }
-        )
-      }
-    }
-
-    // Map ESP32 event types to our enum
-    const eventTypeMap: { [key: number]: EventType } = {
-      1: EventType.HIGH_CURRENT,
-      2: EventType.LOW_PRESSURE,
-      3: EventType.LOW_TEMPERATURE,
-      4: EventType.SENSOR_ERROR,
-      5: EventType.SYSTEM_ERROR
-    }
-
-    const eventType = eventTypeMap[data.type]
-    if (!eventType) {
-      return NextResponse.json(
-        { error: `Invalid event type: ${data.type}` },
-        { status: 400 }
-      )
-    }
-
-    const timestamp = new Date(parseInt(data.timestamp))
-    const startTime = new Date(parseInt(data.startTime))
-    const duration = BigInt(data.duration)
-    const isActive = data.active
-
-    // Guard against device clock errors — same rationale as /api/sensors.
-    const FUTURE_TOLERANCE_MS = 5 * 60 * 1000
-    const nowMs = Date.now()
-    if (
-      timestamp.getTime() > nowMs + FUTURE_TOLERANCE_MS ||
-      startTime.getTime() > nowMs + FUTURE_TOLERANCE_MS
-    ) {
-      return NextResponse.json(
-        {
-          error:
-            'Timestamp is too far in the future — check the device clock (NTP / RTC).',
-        },
-        { status: 400 }
-      )
-    }
-
-    // Find existing active event of the same type for this device
-    const existingEvent = await prisma.event.findFirst({
-      where: {
-        device: data.device,
-        type: eventType,
-        active: true
-      },
-      orderBy: { timestamp: 'desc' }
-    })
-
-    if (isActive) {
-      // Condition is active
-      if (existingEvent) {
-        // Update existing active event with new values
-        const result = await prisma.event.update({
-          where: { id: existingEvent.id },
-          data: {
-            timestamp,
-            value: data.value,
-            duration,
-            description: data.description
-          }
-        })
-
-        return NextResponse.json(
-          {
-            success: true,
-            id: result.id,
-            message: 'Existing event updated',
-            updated: true
-          },
-          { status: 200 }
-        )
-      } else {
-        // Create new active event
-        const result = await prisma.event.create({
-          data: {
-            device: data.device,
-            location: data.location,
-            timestamp,
-            type: eventType,
-            value: data.value,
-            threshold: data.threshold,
-            startTime,
-            duration,
-            active: true,
-            description: data.description
-          }
-        })
-
-        // A brand-new active alert condition has been detected — this is the
-        // moment notifications must fire. Dispatch is awaited (so it completes
-        // before the serverless function is frozen) but guarded so a delivery
-        // failure can never break event ingestion.
-        try {
-          await dispatchEventNotifications({
-            type: eventType,
-            device: data.device,
-            location: data.location,
-            value: data.value,
-            threshold: data.threshold,
-            description: data.description,
-          })
-        } catch (notifyError) {
-          console.error('Error dispatching event notifications:', notifyError)
-        }
-
-        return NextResponse.json(
-          {
-            success: true,
-            id: result.id,
-            message: 'Event created',
-            created: true
-          },
-          { status: 201 }
-        )
-      }
-    } else {
-      // Condition has cleared - resolve any active event
-      if (existingEvent) {
-        const result = await prisma.event.update({
-          where: { id: existingEvent.id },
-          data: {
-            active: false,
-            timestamp, // Update to resolution time
-            duration
-          }
-        })
-
-        return NextResponse.json(
-          {
-            success: true,
-            id: result.id,
-            message: 'Event resolved',
-            resolved: true
-          },
-          { status: 200 }
-        )
-      } else {
-        // No active event to resolve - nothing to do
-        return NextResponse.json(
-          {
-            success: true,
-            message: 'No active event to resolve'
-          },
-          { status: 200 }
-        )
-      }
-    }
+    // Validation and event handling are shared with the MQTT subscriber.
+    const { status, body } = await ingestEvent(
+      await request.json(),
+      deviceMetadataFromHeaders(request.headers)
+    )
+    return NextResponse.json(body, { status })
 
   } catch (error) {
     console.error('Error saving event:', error)
@@ -238,7 +82,13 @@ export async function GET(request: NextRequest) {
       where,
       orderBy: { timestamp: 'desc' },
       take: limit,
-      skip: offset
+      skip: offset,
+      include: {
+        escalations: {
+          select: { step: true, priority: true, createdAt: true },
+          orderBy: { createdAt: 'asc' }
+        }
+      }
     })
 
     const total = await prisma.event.count({ where })
@@ -285,13 +135,14 @@ export async function PATCH(request: NextRequest) {
     }
 
     if (action === 'acknowledge') {
-      await prisma.event.update({
+      const event = await prisma.event.update({
         where: { id: eventId },
         data: {
           acknowledged: true,
           acknowledgedAt: new Date()
         }
       })
+      await dispatchEventWebhooks(webhookEvent(event), 'acknowledged')
 
       return NextResponse.json({
         success: true,
@@ -300,12 +151,13 @@ export async function PATCH(request: NextRequest) {
     }
 
     if (action === 'resolve') {
-      await prisma.event.update({
+      const event = await prisma.event.update({
         where: { id: eventId },
         data: {
           active: false
         }
       })
+      await dispatchEventWebhooks({ ...webhookEvent(event), resolved: true }, 'resolved')
 
       return NextResponse.json({
         success: true,
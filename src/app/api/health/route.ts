@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
+import { getDeviceStatuses } from '@/lib/devices'
 
 export async function GET() {
   try {
@@ -21,6 +22,14 @@ export async function GET() {
       where: { active: true }
     })
     
+    // Per-device connectivity from the registry, judged against the
+    // MISSING_DATA timeout so health and alerting agree. A pre-registered
+    // device that has never reported isn't offline yet. This endpoint is
+    // unauthenticated, so only the counts are returned; the per-device
+    // detail is on /api/devices.
+    const devices = (await getDeviceStatuses(now)).filter((d) => d.lastSeenAt !== null)
+    const offlineDevices = devices.filter((d) => !d.online)
+
     // Get system stats
     const [totalSensorRecords, totalEvents, totalUsers] = await Promise.all([
       prisma.sensorData.count(),
@@ -35,6 +44,8 @@ export async function GET() {
       dataIngestion: isReceivingData ? 'active' : 'stale',
       lastDataReceived: latestData?.timestamp || null,
       activeAlerts: activeEvents,
+      devicesOnline: devices.length - offlineDevices.length,
+      devicesOffline: offlineDevices.length,
       stats: {
         sensorRecords: totalSensorRecords,
         events: totalEvents,
@@ -43,7 +54,7 @@ export async function GET() {
     }
 
     // Determine overall health status
-    if (!isReceivingData) {
+    if (!isReceivingData || offlineDevices.length > 0) {
       health.status = 'degraded'
     }
     
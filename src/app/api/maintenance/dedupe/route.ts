@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { collapseDuplicateSensorData } from '@/lib/cleanup'
+
+// POST - Collapse duplicate (device, startTime) sensor rows (admin only or API key)
+export async function POST(request: NextRequest) {
+  try {
+    // Check for API key auth (for external triggers)
+    const apiKey = request.headers.get('x-api-key')
+    const isApiKeyAuth = apiKey === process.env.INTERNAL_API_KEY
+
+    // Check for session auth (for UI triggers)
+    let isAdminAuth = false
+    if (!isApiKeyAuth) {
+      const session = await getServerSession(authOptions)
+      const sessionUser = session?.user as { role?: string } | undefined
+      isAdminAuth = sessionUser?.role === 'ADMIN'
+    }
+
+    if (!isApiKeyAuth && !isAdminAuth) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const result = await collapseDuplicateSensorData()
+
+    if (result.success) {
+      return NextResponse.json(result)
+    } else {
+      return NextResponse.json(
+        { error: result.error },
+        { status: 500 }
+      )
+    }
+  } catch (error) {
+    console.error('Error collapsing duplicate sensor data:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getAuthContext, hasPermission } from '@/lib/auth-middleware'
+import { metricsContentType, renderMetrics } from '@/lib/metrics'
+
+/**
+ * GET /api/metrics — Prometheus scrape endpoint (see `src/lib/metrics.ts`).
+ *
+ * Scrapers authenticate with a device token holding the `metrics` permission,
+ * sent as `Authorization: Bearer <token>`; a signed-in user may also view it.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authContext = await getAuthContext(request)
+    if (!hasPermission(authContext, 'metrics')) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    return new NextResponse(await renderMetrics(), {
+      headers: {
+        'Content-Type': metricsContentType(),
+        'Cache-Control': 'no-store'
+      }
+    })
+  } catch (error) {
+    console.error('Error rendering metrics:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
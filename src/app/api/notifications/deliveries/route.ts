@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import type { Prisma } from '@prisma/client'
+
+const DELIVERY_STATUSES = ['sent', 'retrying', 'failed']
+
+/**
+ * Notification delivery history, newest first. Filter with `?eventId=`,
+ * `?status=` (sent, retrying or failed) and page with `limit`/`offset`.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session || (session as { user: { role: string } }).user.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '100') || 100, 1), 500)
+    const offset = Math.max(parseInt(searchParams.get('offset') || '0') || 0, 0)
+    const eventId = searchParams.get('eventId')
+    const status = searchParams.get('status')
+
+    if (status && !DELIVERY_STATUSES.includes(status)) {
+      return NextResponse.json(
+        { error: `status must be one of: ${DELIVERY_STATUSES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const where: Prisma.NotificationDeliveryWhereInput = {}
+    if (eventId) where.eventId = eventId
+    if (status) where.status = status
+
+    const [deliveries, total] = await Promise.all([
+      prisma.notificationDelivery.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        take: limit,
+        skip: offset,
+        select: {
+          id: true,
+          eventId: true,
+          eventType: true,
+          recipient: true,
+          userId: true,
+          channel: true,
+          status: true,
+          requestId: true,
+          error: true,
+          attempts: true,
+          nextRetryAt: true,
+          createdAt: true,
+          updatedAt: true,
+          event: { select: { device: true, description: true, startTime: true } }
+        }
+      }),
+      prisma.notificationDelivery.count({ where })
+    ])
+
+    return NextResponse.json(
+      {
+        data: deliveries,
+        pagination: {
+          total,
+          limit,
+          offset,
+          hasMore: offset + limit < total
+        }
+      },
+      { headers: { 'Cache-Control': 'no-store' } }
+    )
+  } catch (error) {
+    console.error('Error fetching notification deliveries:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
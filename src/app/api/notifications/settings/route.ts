@@ -3,6 +3,8 @@ import { getServerSession } from 'next-auth/next'
 import { authOptions } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
 import { isValidTimezone } from '@/lib/summary-report'
+import { isValidTimeOfDay } from '@/lib/quiet-hours'
+import { EventType } from '@prisma/client'
 
 export async function GET() {
   try {
@@ -35,6 +37,13 @@ export async function GET() {
           missingDataAlert: true,
           longRunAlert: true,
           pressureDropAlert: true,
+          shortCyclingAlert: true,
+          dryRunAlert: true,
+          currentDriftAlert: true,
+          tankHealthAlert: true,
+          waterUsageAlert: true,
+          highHumidityAlert: true,
+          freezeRiskAlert: true,
         },
       })
       return NextResponse.json(newSettings)
@@ -87,6 +96,28 @@ export async function PUT(request: NextRequest) {
         { status: 400 },
       )
     }
+    for (const field of ['quietHoursStart', 'quietHoursEnd']) {
+      if (field in data && !isValidTimeOfDay(data[field])) {
+        return NextResponse.json(
+          { error: `${field} must be a 24-hour time like "07:00"` },
+          { status: 400 },
+        )
+      }
+    }
+    for (const field of ['quietHoursBreakthrough', 'resolvedAlertTypes']) {
+      if (
+        field in data &&
+        !(
+          Array.isArray(data[field]) &&
+          data[field].every((t: unknown) => typeof t === 'string' && Object.hasOwn(EventType, t))
+        )
+      ) {
+        return NextResponse.json(
+          { error: `${field} must be a list of event types` },
+          { status: 400 },
+        )
+      }
+    }
     if (
       'temperatureUnit' in data &&
       data.temperatureUnit !== 'C' &&
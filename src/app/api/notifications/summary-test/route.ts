@@ -10,9 +10,9 @@ import {
  * POST /api/notifications/summary-test
  *
  * Immediately build and deliver the summary report to the calling user's
- * Pushover destination, ignoring schedule/idempotency. Backs the "Send test
- * now" button on the settings page so a user can verify their configuration
- * without waiting for the next scheduled tick.
+ * Pushover destination (and email, when on), ignoring schedule/idempotency.
+ * Backs the "Send test now" button on the settings page so a user can verify
+ * their configuration without waiting for the next scheduled tick.
  *
  * Body (optional): { period: 'day' | 'week' } — defaults to whatever the user
  * has saved in their settings.
@@ -40,7 +40,11 @@ export async function POST(request: NextRequest) {
       return NextResponse.json(
         {
           delivered: false,
-          reason: result.skippedReason ?? result.channel?.error ?? 'send failed',
+          reason:
+            result.skippedReason ??
+            result.channel?.error ??
+            result.email?.error ??
+            'send failed',
         },
         { status: 422 },
       )
@@ -2,9 +2,9 @@ import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { Prisma } from '@prisma/client'
 import { getAuthContext, hasPermission } from '@/lib/auth-middleware'
-import { checkAndRecordLongRun } from '@/lib/long-run-detection'
-import { checkSensorThresholds } from '@/lib/threshold-detection'
-import { checkAndRecordPressureDrop } from '@/lib/leak-detection'
+import { ingestSensorData } from '@/lib/sensor-ingestion'
+import { deviceMetadataFromHeaders } from '@/lib/devices'
+import { getChannelNames } from '@/lib/pump-channels'
 
 export async function POST(request: NextRequest) {
   try {
@@ -14,104 +14,12 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    const data = await request.json()
-    
-    // Validate required fields based on ESP32 data structure
-    const requiredFields = [
-      'device', 'location', 'timestamp', 'startTime', 'endTime', 'sampleCount',
-      'tempMin', 'tempMax', 'tempAvg',
-      'humMin', 'humMax', 'humAvg', 
-      'pressMin', 'pressMax', 'pressAvg',
-      'current1Min', 'current1Max', 'current1Avg', 'current1RMS', 'dutyCycle1',
-      'current2Min', 'current2Max', 'current2Avg', 'current2RMS', 'dutyCycle2'
-    ]
-
-    for (const field of requiredFields) {
-      if (!(field in data)) {
-        return NextResponse.json(
-          { error: `Missing required field: ${field}` },
-          { status: 400 }
-        )
-      }
-    }
-
-    // Convert timestamp strings to Date objects
-    const timestamp = new Date(parseInt(data.timestamp))
-    const startTime = new Date(parseInt(data.startTime))
-    const endTime = new Date(parseInt(data.endTime))
-
-    // Guard against device clock errors. A row whose ESP32-supplied timestamp
-    // is far in the future poisons "latest" queries (ORDER BY timestamp DESC
-    // would permanently surface the bogus row). Reject anything more than five
-    // minutes ahead of server time so the device can retry once its clock is
-    // corrected.
-    const FUTURE_TOLERANCE_MS = 5 * 60 * 1000
-    const nowMs = Date.now()
-    if (
-      timestamp.getTime() > nowMs + FUTURE_TOLERANCE_MS ||
-      startTime.getTime() > nowMs + FUTURE_TOLERANCE_MS ||
-      endTime.getTime() > nowMs + FUTURE_TOLERANCE_MS
-    ) {
-      return NextResponse.json(
-        {
-          error:
-            'Timestamp is too far in the future — check the device clock (NTP / RTC).',
-        },
-        { status: 400 }
-      )
-    }
-
-    const sensorData = {
-      ...data,
-      timestamp,
-      startTime,
-      endTime,
-    }
-
-    // Save to database
-    const result = await prisma.sensorData.create({
-      data: sensorData
-    })
-
-    // Server-side condition detection runs against each freshly-saved row.
-    // Both calls are guarded so an alerting bug can never cause ingestion
-    // (the device's only way to persist data) to 502.
-    try {
-      await checkSensorThresholds(
-        data.device,
-        data.location,
-        {
-          current1RMS: data.current1RMS,
-          current2RMS: data.current2RMS,
-          pressMin: data.pressMin,
-          tempMin: data.tempMin,
-        },
-        timestamp,
-      )
-    } catch (thresholdError) {
-      console.error('Error in threshold detection:', thresholdError)
-    }
-
-    try {
-      await checkAndRecordLongRun(data.device, data.location, timestamp)
-    } catch (longRunError) {
-      console.error('Error in long-run detection:', longRunError)
-    }
-
-    try {
-      await checkAndRecordPressureDrop(data.device, data.location, timestamp)
-    } catch (leakError) {
-      console.error('Error in leak detection:', leakError)
-    }
-
-    return NextResponse.json(
-      {
-        success: true,
-        id: result.id,
-        message: 'Sensor data saved successfully'
-      },
-      { status: 201 }
+    // Validation, storage and detection are shared with the MQTT subscriber.
+    const { status, body } = await ingestSensorData(
+      await request.json(),
+      deviceMetadataFromHeaders(request.headers)
     )
+    return NextResponse.json(body, { status })
 
   } catch (error) {
     console.error('Error saving sensor data:', error)
@@ -290,6 +198,8 @@ export async function GET(request: NextRequest) {
 
     // Total number of raw rows matching the filter (drives paging + downsample).
     const total = await prisma.sensorData.count({ where })
+    // Labels for the current1*/current2* columns (the data page's channel picker).
+    const channelNames = await getChannelNames(device ?? undefined)
 
     // --- Decide whether to downsample ----------------------------------------
     // Aggregate when the client explicitly asks, OR when an un-paginated bounded
@@ -322,6 +232,7 @@ export async function GET(request: NextRequest) {
             offset: 0,
             hasMore: false,
           },
+          channelNames,
         },
         { headers: { 'Cache-Control': 'no-store' } }
       )
@@ -360,6 +271,7 @@ export async function GET(request: NextRequest) {
           // hasMore is derived from what was actually returned, never hardcoded.
           hasMore: offset + sensorData.length < total,
         },
+        channelNames,
       },
       { headers: { 'Cache-Control': 'no-store' } }
     )
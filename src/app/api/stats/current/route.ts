@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getAuthContext, hasPermission } from '@/lib/auth-middleware'
+import { getCurrentBaselineReport } from '@/lib/current-drift'
+
+/**
+ * GET /api/stats/current — pump motor health per device.
+ *
+ * For each device returns the learned baseline of loaded running current (the
+ * median `current1RMS` of near-full-duty rows), the recent median it is being
+ * compared against, their signed deviation in percent, whether that exceeds
+ * the CURRENT_DRIFT threshold, and one median per day across the window for
+ * charting. See `@/lib/current-drift` for the windows and thresholds.
+ *
+ * Query params (all optional):
+ *   device     restrict to a single device (otherwise every registered device).
+ *   trend      `false` to skip the daily series (default true).
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Same auth model as /api/stats.
+    const authContext = await getAuthContext(request)
+    if (!hasPermission(authContext, 'sensors')) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const device = searchParams.get('device')
+    const includeTrend = searchParams.get('trend') !== 'false'
+
+    const devices = device
+      ? [device]
+      : (
+          await prisma.device.findMany({
+            orderBy: { device: 'asc' },
+            select: { device: true },
+          })
+        ).map((d) => d.device)
+
+    const now = new Date()
+    const reports = []
+    for (const id of devices) {
+      reports.push(await getCurrentBaselineReport(id, now, { includeTrend }))
+    }
+
+    return NextResponse.json(
+      { devices: reports },
+      { headers: { 'Cache-Control': 'no-store' } }
+    )
+  } catch (error) {
+    console.error('Error computing current baseline:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
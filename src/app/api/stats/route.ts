@@ -5,8 +5,12 @@ import { getAuthContext, hasPermission } from '@/lib/auth-middleware'
 import {
   DEFAULT_STATS_THRESHOLDS,
   buildAggregatedStats,
+  flowRateAt,
+  type FlowModel,
   type RawStatTotals,
 } from '@/lib/stats'
+import { getFlowModel, getFlowModels } from '@/lib/water-usage'
+import { getChannelNames, parseChannel, type PumpChannel } from '@/lib/pump-channels'
 
 /**
  * GET /api/stats — aggregated operational stats over a time range.
@@ -16,7 +20,17 @@ import {
  *   - pumpDurationSeconds/Ms     total time the pump ran
  *   - lowPressureEventCount      number of low-pressure onsets (normal→low edges)
  *   - lowPressureDurationSeconds/Ms total time spent in low pressure
- * plus sampleCount and per-run/per-event averages.
+ * plus sampleCount and per-run/per-event averages, and — when a pump flow rate
+ * is configured (see `@/lib/water-usage`) — estimated gallons with per-run,
+ * per-hour, per-day and per-week figures. Without `device` each device's
+ * runtime is counted at its own flow setting and the results summed. The rates
+ * are averaged over the requested range, or over the span of the data when a
+ * bound is omitted.
+ *
+ * `channel` selects the pump circuit whose duty cycle defines runs and
+ * runtime (see `@/lib/pump-channels`); `channelNames` gives both circuits'
+ * display names for the device (or the global names). Water usage is only
+ * estimated for channel 1, the pump the flow settings describe.
  *
  * Runs and events are derived from STATE TRANSITIONS in the raw rows (see
  * `@/lib/stats`). The whole aggregation runs in a single windowed SQL query so
@@ -26,12 +40,19 @@ import {
  * Query params (all optional):
  *   startDate, endDate    ISO timestamps bounding the range (inclusive).
  *   device                restrict to a single device.
- *   dutyCycleThreshold    Percentage 0..100; row is pump-ON when `dutyCycle1`
- *                         is strictly greater than this (default 0).
+ *   channel               pump circuit, `1` (default) or `2`.
+ *   dutyCycleThreshold    Percentage 0..100; row is pump-ON when the channel's
+ *                         duty cycle is strictly greater than this (default 0).
  *   pressureThreshold     PSI; low pressure at/below this (default 30).
  *   runMergeGapSeconds    Two on-stretches separated by an off period ≤ this
  *                         many seconds are merged into one run (default 120).
  */
+/** Duty-cycle column of each pump circuit, quoted for raw SQL. */
+const DUTY_CYCLE_COLUMNS: Record<PumpChannel, string> = {
+  1: '"dutyCycle1"',
+  2: '"dutyCycle2"',
+}
+
 export async function GET(request: NextRequest) {
   try {
     // Same auth model as /api/sensors: session user or device token with the
@@ -62,6 +83,14 @@ export async function GET(request: NextRequest) {
       )
     }
 
+    const channel = parseChannel(searchParams.get('channel'))
+    if (channel === null) {
+      return NextResponse.json(
+        { error: 'Invalid channel: must be 1 or 2' },
+        { status: 400 }
+      )
+    }
+
     // --- Parse / validate thresholds ----------------------------------------
     const dutyCycleThreshold = parseThreshold(
       searchParams.get('dutyCycleThreshold'),
@@ -103,16 +132,19 @@ export async function GET(request: NextRequest) {
     `
 
     // --- Single windowed aggregation query ----------------------------------
-    // `base`    classifies each row as pump-on (dutyCycle1 > threshold) and
+    // `base`    classifies each row as pump-on (duty cycle > threshold) and
     //           low-pressure, captures the row's duty cycle, start/end times,
     //           and measures its window span (seconds, clamped at 0).
     // `flagged` looks back PER DEVICE to find low-pressure transitions and the
     //           endTime of the most recent prior on-row (used for run-merging).
     // The final SELECT counts pump runs (off→on edges that follow a gap longer
     // than `runMergeGapSeconds`) and sums durations. Pump duration sums
-    // `(dutyCycle1 / 100) × window_seconds` so we accrue ACTUAL seconds the
+    // `(duty cycle / 100) × window_seconds` so we accrue ACTUAL seconds the
     // pump ran (the /100 converts the percentage to a fraction) rather than
-    // full minute windows. Mirrors `computeStatsFromRows` exactly.
+    // full minute windows. Mirrors `computeStatsFromRows` exactly. The duty
+    // cycle column is the selected channel's; it is one of two fixed
+    // identifiers, never user text.
+    const dutyCycleColumn = Prisma.raw(DUTY_CYCLE_COLUMNS[channel])
     const rawRows = await prisma.$queryRaw<Array<Record<string, unknown>>>(Prisma.sql`
       WITH base AS (
         SELECT
@@ -120,8 +152,8 @@ export async function GET(request: NextRequest) {
           timestamp,
           "startTime" AS start_time,
           "endTime" AS end_time,
-          "dutyCycle1" AS duty_cycle_1,
-          ("dutyCycle1" > ${dutyCycleThreshold}) AS pump_on,
+          ${dutyCycleColumn} AS duty_cycle,
+          (${dutyCycleColumn} > ${dutyCycleThreshold}) AS pump_on,
           ("pressMin" <= ${pressureThreshold}) AS low_press,
           GREATEST(EXTRACT(EPOCH FROM ("endTime" - "startTime")), 0) AS window_seconds
         FROM sensor_data
@@ -131,9 +163,10 @@ export async function GET(request: NextRequest) {
         SELECT
           pump_on,
           low_press,
-          duty_cycle_1,
+          duty_cycle,
           window_seconds,
           start_time,
+          end_time,
           -- End time of the most recent on-row strictly before this row in the
           -- same device's stream. NULL until we've seen any on-row.
           MAX(CASE WHEN pump_on THEN end_time END) OVER (
@@ -151,10 +184,12 @@ export async function GET(request: NextRequest) {
             OR EXTRACT(EPOCH FROM (start_time - prev_on_end_time)) > ${runMergeGapSeconds}
           )
         ) AS pump_run_count,
-        COALESCE(SUM((duty_cycle_1 / 100.0) * window_seconds) FILTER (WHERE pump_on), 0) AS pump_duration_seconds,
+        COALESCE(SUM((duty_cycle / 100.0) * window_seconds) FILTER (WHERE pump_on), 0) AS pump_duration_seconds,
         COUNT(*) FILTER (WHERE low_press AND prev_low_press IS DISTINCT FROM TRUE) AS low_pressure_count,
         COALESCE(SUM(window_seconds) FILTER (WHERE low_press), 0) AS low_pressure_duration_seconds,
-        COUNT(*) AS sample_count
+        COUNT(*) AS sample_count,
+        MIN(start_time) AS first_start_time,
+        MAX(end_time) AS last_end_time
       FROM flagged
     `)
 
@@ -167,6 +202,26 @@ export async function GET(request: NextRequest) {
       sampleCount: toNumber(row.sample_count),
     }
 
+    if (channel === 1) {
+      totals.pumpedGallons = device
+        ? await estimateDeviceGallons(
+            device,
+            totals.pumpDurationSeconds,
+            whereSql,
+            dutyCycleThreshold,
+          )
+        : await estimateGallonsPerDevice(whereSql, dutyCycleThreshold)
+    }
+    if (typeof totals.pumpedGallons === 'number') {
+      const rangeStart = start ?? toDate(row.first_start_time)
+      const rangeEnd = end ?? toDate(row.last_end_time)
+      if (rangeStart && rangeEnd) {
+        totals.rangeSeconds = (rangeEnd.getTime() - rangeStart.getTime()) / 1000
+      }
+    }
+
+    const channelNames = await getChannelNames(device ?? undefined)
+
     return NextResponse.json(
       {
         stats: buildAggregatedStats(totals),
@@ -175,6 +230,8 @@ export async function GET(request: NextRequest) {
           endDate: end ? end.toISOString() : null,
           device: device ?? null,
         },
+        channel,
+        channelNames,
         thresholds: { dutyCycleThreshold, pressureThreshold, runMergeGapSeconds },
       },
       { headers: { 'Cache-Control': 'no-store' } }
@@ -200,6 +257,87 @@ function parseThreshold(raw: string | null, fallback: number): number | null {
   return value
 }
 
+/** Gallons for one device at its flow model, or null when it has none. */
+async function estimateDeviceGallons(
+  device: string,
+  pumpDurationSeconds: number,
+  whereSql: Prisma.Sql,
+  dutyCycleThreshold: number,
+): Promise<number | null> {
+  const flow = await getFlowModel(device)
+  return flow
+    ? estimatePumpedGallons(flow, pumpDurationSeconds, whereSql, dutyCycleThreshold)
+    : null
+}
+
+/**
+ * Gallons across every registered device, each at its own flow model, so a
+ * device with an override isn't counted at the global rate. One query splits
+ * on-time by device and whole PSI of `pressAvg`; it is skipped, and the result
+ * is null, when no device has a flow model.
+ */
+async function estimateGallonsPerDevice(
+  whereSql: Prisma.Sql,
+  dutyCycleThreshold: number,
+): Promise<number | null> {
+  const devices = await prisma.device.findMany({ select: { device: true } })
+  const flows = await getFlowModels(devices.map((d) => d.device))
+  if (![...flows.values()].some(Boolean)) return null
+
+  const buckets = await prisma.$queryRaw<Array<Record<string, unknown>>>(Prisma.sql`
+    SELECT
+      device,
+      ROUND("pressAvg") AS psi,
+      SUM(("dutyCycle1" / 100.0) * GREATEST(EXTRACT(EPOCH FROM ("endTime" - "startTime")), 0)) AS on_seconds
+    FROM sensor_data
+    ${whereSql}
+    AND "dutyCycle1" > ${dutyCycleThreshold}
+    GROUP BY 1, 2
+  `)
+  return buckets.reduce<number>((sum, bucket) => {
+    const flow = flows.get(String(bucket.device))
+    return flow
+      ? sum + (flowRateAt(flow, toNumber(bucket.psi)) * toNumber(bucket.on_seconds)) / 60
+      : sum
+  }, 0)
+}
+
+/**
+ * Gallons delivered over the filtered rows. A fixed flow rate only needs the
+ * total runtime; a pressure curve needs the runtime split by pressure, so a
+ * second query sums on-time per whole PSI of `pressAvg`.
+ */
+async function estimatePumpedGallons(
+  flow: FlowModel,
+  pumpDurationSeconds: number,
+  whereSql: Prisma.Sql,
+  dutyCycleThreshold: number,
+): Promise<number> {
+  if (flow.type === 'fixed') return (flow.gpm * pumpDurationSeconds) / 60
+
+  const buckets = await prisma.$queryRaw<Array<Record<string, unknown>>>(Prisma.sql`
+    SELECT
+      ROUND("pressAvg") AS psi,
+      SUM(("dutyCycle1" / 100.0) * GREATEST(EXTRACT(EPOCH FROM ("endTime" - "startTime")), 0)) AS on_seconds
+    FROM sensor_data
+    ${whereSql}
+    AND "dutyCycle1" > ${dutyCycleThreshold}
+    GROUP BY 1
+  `)
+  return buckets.reduce(
+    (sum, bucket) =>
+      sum + (flowRateAt(flow, toNumber(bucket.psi)) * toNumber(bucket.on_seconds)) / 60,
+    0,
+  )
+}
+
+/** Coerce a timestamp returned by `$queryRaw` to a Date, or null when absent. */
+function toDate(value: unknown): Date | null {
+  if (value === null || value === undefined) return null
+  const date = value instanceof Date ? value : new Date(value as string)
+  return Number.isNaN(date.getTime()) ? null : date
+}
+
 /**
  * Coerce a value returned by `$queryRaw` to a finite JS number. Postgres returns
  * COUNT(...) as BigInt and SUM/EXTRACT as number | Prisma.Decimal | string
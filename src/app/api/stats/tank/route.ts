@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getAuthContext, hasPermission } from '@/lib/auth-middleware'
+import { getTankHealth } from '@/lib/tank-health'
+
+/**
+ * GET /api/stats/tank — pressure-tank health per device.
+ *
+ * For each device returns the 0..100 tank health score, the best and latest
+ * weekly median rise rates it compares, and the weekly medians behind them.
+ * Runs come from the well pump on channel 1. The report always covers the
+ * configured number of weeks up to `endDate` (or now), since a score needs
+ * weeks of runs to compare. See `@/lib/tank-health`.
+ *
+ * Query params (all optional):
+ *   device     restrict to a single device (otherwise every registered device).
+ *   endDate    ISO timestamp the lookback ends at (default now).
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Same auth model as /api/stats.
+    const authContext = await getAuthContext(request)
+    if (!hasPermission(authContext, 'sensors')) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const device = searchParams.get('device')
+    const endDate = searchParams.get('endDate')
+
+    const end = endDate ? new Date(endDate) : new Date()
+    if (Number.isNaN(end.getTime())) {
+      return NextResponse.json({ error: 'Invalid endDate' }, { status: 400 })
+    }
+
+    const devices = device
+      ? [device]
+      : (
+          await prisma.device.findMany({
+            orderBy: { device: 'asc' },
+            select: { device: true },
+          })
+        ).map((d) => d.device)
+
+    const reports = []
+    for (const id of devices) {
+      reports.push({ device: id, ...(await getTankHealth(id, end)) })
+    }
+
+    return NextResponse.json(
+      { devices: reports },
+      { headers: { 'Cache-Control': 'no-store' } }
+    )
+  } catch (error) {
+    console.error('Error computing tank health:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
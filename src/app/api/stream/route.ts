@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getAuthContext, hasPermission } from '@/lib/auth-middleware'
+import { formatServerSentEvent, subscribeLive } from '@/lib/live-stream'
+
+/**
+ * Comment line sent while nothing happens, so proxies and browsers don't
+ * close the connection as idle.
+ */
+const KEEPALIVE_INTERVAL_MS = 25 * 1000
+
+/**
+ * GET /api/stream — Server-Sent Events for the dashboard (see
+ * `src/lib/live-stream.ts` and `src/hooks/useLiveStream.ts`).
+ *
+ * Sends a `sensor` message with each stored row and an `event` message with
+ * each event transition, as JSON. The session is checked once, when the
+ * stream opens.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authContext = await getAuthContext(request)
+    if (!hasPermission(authContext, 'sensors')) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const encoder = new TextEncoder()
+    let close = () => {}
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        const send = (text: string) => {
+          try {
+            controller.enqueue(encoder.encode(text))
+          } catch {
+            // The browser went away between the abort and the cleanup.
+            close()
+          }
+        }
+        const unsubscribe = subscribeLive((message) => send(formatServerSentEvent(message)))
+        const keepalive = setInterval(() => send(': keepalive\n\n'), KEEPALIVE_INTERVAL_MS)
+
+        close = () => {
+          unsubscribe()
+          clearInterval(keepalive)
+          try {
+            controller.close()
+          } catch {
+            // Already closed.
+          }
+        }
+        request.signal.addEventListener('abort', () => close(), { once: true })
+
+        // Tells the browser the stream is open before the first reading.
+        send(': connected\n\n')
+      },
+      cancel() {
+        close()
+      },
+    })
+
+    return new NextResponse(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream; charset=utf-8',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+        // Don't let a reverse proxy hold messages back.
+        'X-Accel-Buffering': 'no'
+      }
+    })
+  } catch (error) {
+    console.error('Error opening live stream:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
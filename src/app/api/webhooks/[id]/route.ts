@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { generateWebhookSecret, validateWebhook } from '@/lib/webhooks'
+import { formatValidationErrors } from '@/lib/payload-validation'
+
+type AdminSession = { user: { role: string; username: string } }
+
+async function getAdminSession(): Promise<AdminSession | null> {
+  const session = await getServerSession(authOptions)
+  if (!session || (session as AdminSession).user.role !== 'ADMIN') return null
+  return session as AdminSession
+}
+
+/**
+ * Replace a webhook's settings. The secret is kept unless a new one is given,
+ * or `rotateSecret: true` asks for a fresh one.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getAdminSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const parsed = validateWebhook(body)
+    if (!parsed.ok) {
+      return NextResponse.json(
+        { error: formatValidationErrors(parsed.errors), errors: parsed.errors },
+        { status: 400 }
+      )
+    }
+
+    const { id } = await params
+    const existing = await prisma.webhook.findUnique({ where: { id }, select: { id: true } })
+    if (!existing) {
+      return NextResponse.json({ error: 'Webhook not found' }, { status: 404 })
+    }
+
+    const rotate = (body as { rotateSecret?: unknown }).rotateSecret === true
+    const webhook = await prisma.webhook.update({
+      where: { id },
+      data: {
+        ...parsed.value,
+        ...(rotate ? { secret: generateWebhookSecret() } : {}),
+        updatedBy: session.user.username
+      }
+    })
+
+    return NextResponse.json(webhook)
+  } catch (error) {
+    console.error('Error updating webhook:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!(await getAdminSession())) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const { count } = await prisma.webhook.deleteMany({ where: { id } })
+    if (count === 0) {
+      return NextResponse.json({ error: 'Webhook not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting webhook:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
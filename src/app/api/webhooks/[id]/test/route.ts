@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { sendWebhook } from '@/lib/webhooks'
+
+/**
+ * POST /api/webhooks/[id]/test
+ *
+ * Send a sample `created` body, marked `test: true`, to one webhook straight
+ * away, whether or not it is enabled. Backs the "Send test" button so an admin
+ * can check the URL and signature before real alerts depend on them. The test
+ * is not logged or retried.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session || (session as { user: { role: string } }).user.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const webhook = await prisma.webhook.findUnique({ where: { id } })
+    if (!webhook) {
+      return NextResponse.json({ error: 'Webhook not found' }, { status: 404 })
+    }
+
+    const result = await sendWebhook(webhook, {
+      transition: 'created',
+      test: true,
+      event: {
+        id: null,
+        type: webhook.eventTypes[0] ?? 'SYSTEM_ERROR',
+        device: 'well-pump-monitor',
+        location: null,
+        value: null,
+        threshold: null,
+        description: 'Test webhook from the well pump monitor',
+        resolved: false,
+      },
+    })
+
+    if (!result.success) {
+      return NextResponse.json({ delivered: false, reason: result.error }, { status: 422 })
+    }
+    return NextResponse.json({ delivered: true })
+  } catch (error) {
+    console.error('Error sending test webhook:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { generateWebhookSecret, validateWebhook } from '@/lib/webhooks'
+import { formatValidationErrors } from '@/lib/payload-validation'
+
+type AdminSession = { user: { role: string; username: string } }
+
+async function getAdminSession(): Promise<AdminSession | null> {
+  const session = await getServerSession(authOptions)
+  if (!session || (session as AdminSession).user.role !== 'ADMIN') return null
+  return session as AdminSession
+}
+
+export async function GET() {
+  try {
+    if (!(await getAdminSession())) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const webhooks = await prisma.webhook.findMany({
+      orderBy: { createdAt: 'asc' }
+    })
+
+    return NextResponse.json(webhooks)
+  } catch (error) {
+    console.error('Error fetching webhooks:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+/** Add a webhook. A signing secret is generated unless one is given. */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getAdminSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const parsed = validateWebhook(await request.json())
+    if (!parsed.ok) {
+      return NextResponse.json(
+        { error: formatValidationErrors(parsed.errors), errors: parsed.errors },
+        { status: 400 }
+      )
+    }
+
+    const webhook = await prisma.webhook.create({
+      data: {
+        ...parsed.value,
+        secret: parsed.value.secret ?? generateWebhookSecret(),
+        updatedBy: session.user.username
+      }
+    })
+
+    return NextResponse.json(webhook, { status: 201 })
+  } catch (error) {
+    console.error('Error creating webhook:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
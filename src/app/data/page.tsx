@@ -62,8 +62,17 @@ interface SensorResponse {
   data?: SensorData[]
   pagination?: Pagination
   aggregation?: Aggregation
+  /** Display names of the current1 / current2 pump channels. */
+  channelNames?: ChannelNames
 }
 
+/** Which pump channels' current / duty-cycle series to show. */
+type ChannelFilter = 'all' | '1' | '2'
+
+type ChannelNames = Record<1 | 2, string>
+
+const DEFAULT_CHANNEL_NAMES: ChannelNames = { 1: 'Pump 1', 2: 'Pump 2' }
+
 /**
  * Summary of what the most recent fetch actually loaded — surfaced in the UI so
  * the user can confirm the charts/tables cover the entire requested window.
@@ -177,6 +186,10 @@ export default function DataPage() {
   const [customEndDate, setCustomEndDate] = useState('')
   const [dateRangeSpan, setDateRangeSpan] = useState(1) // days
   const [loadMeta, setLoadMeta] = useState<LoadMeta | null>(null)
+  // Channel filter is purely presentational: every row carries both channels,
+  // so switching it never refetches.
+  const [channel, setChannel] = useState<ChannelFilter>('all')
+  const [channelNames, setChannelNames] = useState<ChannelNames>(DEFAULT_CHANNEL_NAMES)
   // A custom range is only auto-refreshed AFTER the user explicitly loads it
   // (clicks "Load Data"); editing the dates again disarms it until re-loaded.
   // This keeps the poll from firing against a window the user is still picking.
@@ -260,6 +273,9 @@ export default function DataPage() {
         if (result.aggregation) {
           aggregation = result.aggregation
         }
+        if (result.channelNames) {
+          setChannelNames(result.channelNames)
+        }
 
         const p = result.pagination
         if (!p || !p.hasMore) break
@@ -421,6 +437,9 @@ export default function DataPage() {
     dateRangeSpan > 7 ? 'MMM d' : dateRangeSpan > 1 ? 'EEE HH:mm' : 'HH:mm'
   const formatTick = (ts: number) => format(new Date(ts), dateFormat)
 
+  const showChannel1 = channel !== '2'
+  const showChannel2 = channel !== '1'
+
   // Sensor values arrive in Fahrenheit; convert per the user's display unit so
   // the chart Y-axis, tooltip, and table cells all show the same number.
   const chartData = data.map(d => ({
@@ -504,17 +523,31 @@ export default function DataPage() {
                   </button>
                 </div>
 
-                <select
-                  value={timeRange}
-                  onChange={(e) => handleTimeRangeChange(e.target.value)}
-                  className="block w-full sm:w-auto pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md"
-                >
-                  <option value="1h">Last Hour</option>
-                  <option value="24h">Last 24 Hours</option>
-                  <option value="7d">Last 7 Days</option>
-                  <option value="30d">Last 30 Days</option>
-                  <option value="custom">Custom Range</option>
-                </select>
+                <div className="flex flex-col sm:flex-row gap-2">
+                  <select
+                    value={channel}
+                    onChange={(e) => setChannel(e.target.value as ChannelFilter)}
+                    aria-label="Pump channel"
+                    className="block w-full sm:w-auto pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md"
+                  >
+                    <option value="all">All Channels</option>
+                    <option value="1">{channelNames[1]}</option>
+                    <option value="2">{channelNames[2]}</option>
+                  </select>
+
+                  <select
+                    value={timeRange}
+                    onChange={(e) => handleTimeRangeChange(e.target.value)}
+                    aria-label="Time range"
+                    className="block w-full sm:w-auto pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md"
+                  >
+                    <option value="1h">Last Hour</option>
+                    <option value="24h">Last 24 Hours</option>
+                    <option value="7d">Last 7 Days</option>
+                    <option value="30d">Last 30 Days</option>
+                    <option value="custom">Custom Range</option>
+                  </select>
+                </div>
               </div>
 
               {timeRange === 'custom' && (
@@ -757,26 +790,30 @@ export default function DataPage() {
                     <YAxis />
                     <Tooltip labelFormatter={(ts) => format(new Date(Number(ts)), 'MMM d, HH:mm:ss')} />
                     <Legend />
-                    <Area
-                      type="monotone"
-                      dataKey="current1RMS"
-                      stackId="1"
-                      stroke="#8b5cf6"
-                      fill="#8b5cf6"
-                      name="Current 1 RMS (A)"
-                      fillOpacity={0.6}
-                      isAnimationActive={false}
-                    />
-                    <Area
-                      type="monotone"
-                      dataKey="current2RMS"
-                      stackId="1"
-                      stroke="#10b981"
-                      fill="#10b981"
-                      name="Current 2 RMS (A)"
-                      fillOpacity={0.6}
-                      isAnimationActive={false}
-                    />
+                    {showChannel1 && (
+                      <Area
+                        type="monotone"
+                        dataKey="current1RMS"
+                        stackId="1"
+                        stroke="#8b5cf6"
+                        fill="#8b5cf6"
+                        name={`${channelNames[1]} RMS (A)`}
+                        fillOpacity={0.6}
+                        isAnimationActive={false}
+                      />
+                    )}
+                    {showChannel2 && (
+                      <Area
+                        type="monotone"
+                        dataKey="current2RMS"
+                        stackId="1"
+                        stroke="#10b981"
+                        fill="#10b981"
+                        name={`${channelNames[2]} RMS (A)`}
+                        fillOpacity={0.6}
+                        isAnimationActive={false}
+                      />
+                    )}
                     {dragStart != null && dragEnd != null && dragStart !== dragEnd && (
                       <ReferenceArea
                         x1={Math.min(dragStart, dragEnd)}
@@ -808,18 +845,26 @@ export default function DataPage() {
                       <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                         Pressure (psi)
                       </th>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                        Current 1 (A)
-                      </th>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                        Current 2 (A)
-                      </th>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                        Duty Cycle 1 (%)
-                      </th>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                        Duty Cycle 2 (%)
-                      </th>
+                      {showChannel1 && (
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          {channelNames[1]} Current (A)
+                        </th>
+                      )}
+                      {showChannel2 && (
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          {channelNames[2]} Current (A)
+                        </th>
+                      )}
+                      {showChannel1 && (
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          {channelNames[1]} Duty Cycle (%)
+                        </th>
+                      )}
+                      {showChannel2 && (
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          {channelNames[2]} Duty Cycle (%)
+                        </th>
+                      )}
                     </tr>
                   </thead>
                   <tbody className="bg-white divide-y divide-gray-200">
@@ -837,18 +882,26 @@ export default function DataPage() {
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                           {row.pressAvg.toFixed(2)}
                         </td>
-                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                          {row.current1RMS.toFixed(2)}
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                          {row.current2RMS.toFixed(2)}
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                          {row.dutyCycle1.toFixed(1)}
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                          {row.dutyCycle2.toFixed(1)}
-                        </td>
+                        {showChannel1 && (
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                            {row.current1RMS.toFixed(2)}
+                          </td>
+                        )}
+                        {showChannel2 && (
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                            {row.current2RMS.toFixed(2)}
+                          </td>
+                        )}
+                        {showChannel1 && (
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                            {row.dutyCycle1.toFixed(1)}
+                          </td>
+                        )}
+                        {showChannel2 && (
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                            {row.dutyCycle2.toFixed(1)}
+                          </td>
+                        )}
                       </tr>
                     ))}
                   </tbody>
@@ -4,7 +4,7 @@ import { ProtectedRoute } from '@/components/ProtectedRoute'
 import { Navigation } from '@/components/Navigation'
 import { LastUpdated } from '@/components/LastUpdated'
 import { StatsSummary } from '@/components/StatsSummary'
-import { useAutoRefresh } from '@/hooks/useAutoRefresh'
+import { useLiveStream } from '@/hooks/useLiveStream'
 import { useTemperatureUnit } from '@/hooks/useTemperatureUnit'
 import { formatTemperature } from '@/lib/temperature'
 import { useCallback, useState } from 'react'
@@ -36,24 +36,63 @@ interface Event {
   timestamp: string
 }
 
+/** An `event` message of `/api/stream`. */
+interface EventTransition {
+  transition: 'created' | 'updated' | 'resolved' | 'acknowledged'
+  timestamp: string
+  event: {
+    id: string | null
+    type: string
+    description: string
+  }
+}
+
+/** How many active events the dashboard lists. */
+const ACTIVE_EVENTS_LIMIT = 10
+
+/**
+ * The active-event list after a live transition: a new event goes on top, a
+ * resolved one comes off, and any other change updates the description.
+ */
+function applyEventTransition(events: Event[], { transition, timestamp, event }: EventTransition): Event[] {
+  if (!event.id) return events
+  if (transition === 'resolved') return events.filter((e) => e.id !== event.id)
+  if (events.some((e) => e.id === event.id)) {
+    return events.map((e) => (e.id === event.id ? { ...e, description: event.description } : e))
+  }
+  if (transition !== 'created') return events
+  const created: Event = {
+    id: event.id,
+    type: event.type,
+    description: event.description,
+    active: true,
+    timestamp,
+  }
+  return [created, ...events].slice(0, ACTIVE_EVENTS_LIMIT)
+}
+
 export default function Dashboard() {
   const [latestData, setLatestData] = useState<SensorData | null>(null)
+  // Names of the current1 / current2 channels, as configured in settings.
+  const [channelNames, setChannelNames] = useState<Record<1 | 2, string>>({
+    1: 'Current 1',
+    2: 'Current 2',
+  })
   const [activeEvents, setActiveEvents] = useState<Event[]>([])
-  const [systemStatus, setSystemStatus] = useState<'healthy' | 'warning' | 'error'>('healthy')
   const temperatureUnit = useTemperatureUnit()
 
   /**
    * Single refresh pass for the whole dashboard: pull the latest reading and
    * the active events together. Both fetches share the {@link AbortSignal} so an
    * unmount (or a superseding refresh) cancels them cleanly. Throwing on failure
-   * lets {@link useAutoRefresh} surface the error and keeps `lastUpdated`
+   * lets {@link useLiveStream} surface the error and keeps `lastUpdated`
    * pinned to the last *successful* load.
    */
   const refreshDashboard = useCallback(async (signal: AbortSignal) => {
     try {
       const [sensorRes, eventsRes] = await Promise.all([
         fetch('/api/sensors?limit=1', { signal, cache: 'no-store' }),
-        fetch('/api/events?active=true&limit=10', { signal, cache: 'no-store' }),
+        fetch(`/api/events?active=true&limit=${ACTIVE_EVENTS_LIMIT}`, { signal, cache: 'no-store' }),
       ])
 
       if (!sensorRes.ok) {
@@ -77,22 +116,36 @@ export default function Dashboard() {
         : []
 
       setLatestData(reading)
+      if (sensorResult.channelNames) setChannelNames(sensorResult.channelNames)
       setActiveEvents(events)
-      setSystemStatus(events.length > 0 ? 'warning' : 'healthy')
     } catch (err) {
       // Ignore deliberate cancellations; only real failures flip the status.
       if (signal.aborted) return
       console.error('Error refreshing dashboard:', err)
-      setSystemStatus('error')
       throw err
     }
   }, [])
 
-  const { loading, lastUpdated, error, isPaused, refresh } = useAutoRefresh(
+  // Readings and event transitions are pushed over /api/stream as they are
+  // stored; the minute poll only runs while the stream is down.
+  const handleSensor = (reading: SensorData) => {
+    setLatestData((current) =>
+      current && new Date(current.timestamp) > new Date(reading.timestamp) ? current : reading
+    )
+  }
+  const handleEvent = (transition: EventTransition) => {
+    setActiveEvents((current) => applyEventTransition(current, transition))
+  }
+
+  const { loading, lastUpdated, error, isPaused, refresh } = useLiveStream(
     refreshDashboard,
+    { onSensor: handleSensor, onEvent: handleEvent },
     { intervalMs: 60_000 }
   )
 
+  const systemStatus: 'healthy' | 'warning' | 'error' =
+    error ? 'error' : activeEvents.length > 0 ? 'warning' : 'healthy'
+
   const getStatusColor = () => {
     switch (systemStatus) {
       case 'healthy': return 'text-green-600 bg-green-100'
@@ -272,13 +325,13 @@ export default function Dashboard() {
                       </div>
                     </div>
                     <div className="border rounded-lg p-3">
-                      <div className="text-sm font-medium text-gray-500">Current 1</div>
+                      <div className="text-sm font-medium text-gray-500">{channelNames[1]}</div>
                       <div className="text-2xl font-bold text-gray-900">
                         {latestData.current1RMS.toFixed(2)} A
                       </div>
                     </div>
                     <div className="border rounded-lg p-3">
-                      <div className="text-sm font-medium text-gray-500">Current 2</div>
+                      <div className="text-sm font-medium text-gray-500">{channelNames[2]}</div>
                       <div className="text-2xl font-bold text-gray-900">
                         {latestData.current2RMS.toFixed(2)} A
                       </div>
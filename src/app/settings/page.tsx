@@ -5,18 +5,26 @@ import { Navigation } from '@/components/Navigation'
 import UserManagement from '@/components/UserManagement'
 import PasswordChange from '@/components/PasswordChange'
 import DeviceTokens from '@/components/DeviceTokens'
+import Devices from '@/components/Devices'
+import EscalationPolicies from '@/components/EscalationPolicies'
+import NotificationDeliveries from '@/components/NotificationDeliveries'
+import Webhooks from '@/components/Webhooks'
 import { setTemperatureUnit } from '@/hooks/useTemperatureUnit'
 import { useState, useEffect } from 'react'
 import { useSession } from 'next-auth/react'
 import {
   BellIcon,
+  BellAlertIcon,
   UserIcon,
   CogIcon,
   KeyIcon,
   LockClosedIcon,
+  CpuChipIcon,
   ExclamationTriangleIcon,
   CheckCircleIcon,
-  TrashIcon
+  TrashIcon,
+  PaperAirplaneIcon,
+  GlobeAltIcon
 } from '@heroicons/react/24/outline'
 
 interface NotificationSettings {
@@ -24,6 +32,7 @@ interface NotificationSettings {
   pushoverEnabled: boolean
   pushoverToken?: string
   pushoverUser?: string
+  emailEnabled: boolean
   highCurrentAlert: boolean
   lowPressureAlert: boolean
   lowTemperatureAlert: boolean
@@ -31,14 +40,48 @@ interface NotificationSettings {
   missingDataAlert: boolean
   longRunAlert: boolean
   pressureDropAlert: boolean
+  shortCyclingAlert: boolean
+  dryRunAlert: boolean
+  currentDriftAlert: boolean
+  tankHealthAlert: boolean
+  waterUsageAlert: boolean
+  highHumidityAlert: boolean
+  freezeRiskAlert: boolean
   // Scheduled summary report delivered via Pushover.
   summaryReportEnabled: boolean
   summaryReportHourLocal: number
   summaryReportPeriod: 'day' | 'week'
   summaryReportTimezone: string
+  // Quiet hours ("HH:MM" in summaryReportTimezone) and the alert types that
+  // are still sent during them.
+  quietHoursEnabled: boolean
+  quietHoursStart: string
+  quietHoursEnd: string
+  quietHoursBreakthrough: string[]
+  // Alert types the user is also told about when they clear.
+  resolvedAlertTypes: string[]
   temperatureUnit: 'C' | 'F'
 }
 
+/** Event types for the per-type lists (quiet-hours breakthrough, resolved). */
+const EVENT_TYPE_OPTIONS = [
+  { type: 'DRY_RUN', label: 'Dry Run' },
+  { type: 'FREEZE_RISK', label: 'Freeze Risk' },
+  { type: 'LOW_TEMPERATURE', label: 'Low Temperature' },
+  { type: 'LOW_PRESSURE', label: 'Low Pressure' },
+  { type: 'PRESSURE_DROP', label: 'Leak / Open Fixture' },
+  { type: 'HIGH_CURRENT', label: 'High Current' },
+  { type: 'LONG_PUMP_RUN', label: 'Long Pump Run' },
+  { type: 'SHORT_CYCLING', label: 'Short Cycling' },
+  { type: 'MISSING_DATA', label: 'Missing Data' },
+  { type: 'SENSOR_ERROR', label: 'Sensor Error' },
+  { type: 'SYSTEM_ERROR', label: 'System Error' },
+  { type: 'HIGH_HUMIDITY', label: 'High Humidity' },
+  { type: 'CURRENT_DRIFT', label: 'Current Drift' },
+  { type: 'TANK_DEGRADED', label: 'Tank Health' },
+  { type: 'HIGH_WATER_USAGE', label: 'Water Budget' }
+]
+
 interface CleanupLog {
   id: string
   runAt: string
@@ -248,6 +291,10 @@ export default function SettingsPage() {
     { id: 'tokens', name: 'Device Tokens', icon: KeyIcon },
     ...(isAdmin ? [
       { id: 'users', name: 'Users', icon: UserIcon },
+      { id: 'devices', name: 'Devices', icon: CpuChipIcon },
+      { id: 'escalation', name: 'Escalation', icon: BellAlertIcon },
+      { id: 'deliveries', name: 'Deliveries', icon: PaperAirplaneIcon },
+      { id: 'webhooks', name: 'Webhooks', icon: GlobeAltIcon },
       { id: 'system', name: 'System', icon: CogIcon }
     ] : [])
   ]
@@ -429,11 +476,34 @@ export default function SettingsPage() {
                   </div>
                 </div>
 
+                {/* Email */}
+                <div className="space-y-4 mb-6">
+                  <h4 className="text-sm font-medium text-gray-900">Email Notifications</h4>
+                  <p className="text-sm text-gray-500">
+                    Sent to the email address on your account (set on the Users tab) when the
+                    server has SMTP configured. The summary report is emailed too.
+                  </p>
+                  <div className="flex items-center">
+                    <input
+                      type="checkbox"
+                      checked={notificationSettings.emailEnabled}
+                      onChange={(e) => setNotificationSettings({
+                        ...notificationSettings,
+                        emailEnabled: e.target.checked
+                      })}
+                      className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                    />
+                    <label className="ml-2 block text-sm text-gray-900">
+                      Enable email notifications
+                    </label>
+                  </div>
+                </div>
+
                 {/* Daily / weekly summary report */}
                 <div className="space-y-4 mb-6 pt-4 border-t border-gray-200">
                   <h4 className="text-sm font-medium text-gray-900">Daily / Weekly Summary</h4>
                   <p className="text-sm text-gray-500">
-                    Scheduled Pushover digest of pump runs, runtime, and low-pressure events.
+                    Scheduled Pushover (and email) digest of pump runs, runtime, and low-pressure events.
                   </p>
                   <div className="flex items-center">
                     <input
@@ -503,6 +573,78 @@ export default function SettingsPage() {
                   </div>
                 </div>
 
+                {/* Quiet hours */}
+                <div className="space-y-4 mb-6 pt-4 border-t border-gray-200">
+                  <h4 className="text-sm font-medium text-gray-900">Quiet Hours</h4>
+                  <p className="text-sm text-gray-500">
+                    Hold back alerts overnight and send them as one digest when quiet hours end.
+                    Times use the timezone above.
+                  </p>
+                  <div className="flex items-center">
+                    <input
+                      type="checkbox"
+                      checked={notificationSettings.quietHoursEnabled}
+                      onChange={(e) => setNotificationSettings({
+                        ...notificationSettings,
+                        quietHoursEnabled: e.target.checked
+                      })}
+                      className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                    />
+                    <label className="ml-2 block text-sm text-gray-900">
+                      Enable quiet hours
+                    </label>
+                  </div>
+                  <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">From</label>
+                      <input
+                        type="time"
+                        value={notificationSettings.quietHoursStart}
+                        onChange={(e) => setNotificationSettings({
+                          ...notificationSettings,
+                          quietHoursStart: e.target.value
+                        })}
+                        className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">Until</label>
+                      <input
+                        type="time"
+                        value={notificationSettings.quietHoursEnd}
+                        onChange={(e) => setNotificationSettings({
+                          ...notificationSettings,
+                          quietHoursEnd: e.target.value
+                        })}
+                        className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                      />
+                    </div>
+                  </div>
+                  <div>
+                    <p className="text-sm font-medium text-gray-700 mb-2">Always send right away</p>
+                    <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+                      {EVENT_TYPE_OPTIONS.map((option) => (
+                        <div key={option.type} className="flex items-center">
+                          <input
+                            type="checkbox"
+                            checked={notificationSettings.quietHoursBreakthrough.includes(option.type)}
+                            onChange={(e) => setNotificationSettings({
+                              ...notificationSettings,
+                              quietHoursBreakthrough: e.target.checked
+                                ? [...notificationSettings.quietHoursBreakthrough, option.type]
+                                : notificationSettings.quietHoursBreakthrough.filter((t) => t !== option.type)
+                            })}
+                            className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                          />
+                          <label className="ml-2 block text-sm text-gray-900">
+                            {option.label}
+                          </label>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                </div>
+
                 {/* Alert Types */}
                 <div className="space-y-4 mb-6">
                   <h4 className="text-sm font-medium text-gray-900">Alert Types</h4>
@@ -514,7 +656,14 @@ export default function SettingsPage() {
                       { key: 'sensorErrorAlert', label: 'Sensor Error Alerts' },
                       { key: 'missingDataAlert', label: 'Missing Data Alerts' },
                       { key: 'longRunAlert', label: 'Long Pump Run Alerts' },
-                      { key: 'pressureDropAlert', label: 'Leak / Open Fixture Alerts' }
+                      { key: 'pressureDropAlert', label: 'Leak / Open Fixture Alerts' },
+                      { key: 'shortCyclingAlert', label: 'Short Cycling Alerts' },
+                      { key: 'dryRunAlert', label: 'Dry Run / Loss of Prime Alerts' },
+                      { key: 'currentDriftAlert', label: 'Pump Current Drift Alerts' },
+                      { key: 'tankHealthAlert', label: 'Pressure Tank Health Alerts' },
+                      { key: 'waterUsageAlert', label: 'Water Budget Alerts' },
+                      { key: 'highHumidityAlert', label: 'High Humidity Alerts' },
+                      { key: 'freezeRiskAlert', label: 'Freeze Risk Alerts' }
                     ].map((alert) => (
                       <div key={alert.key} className="flex items-center">
                         <input
@@ -534,6 +683,34 @@ export default function SettingsPage() {
                   </div>
                 </div>
 
+                {/* Resolved notifications */}
+                <div className="space-y-4 mb-6 pt-4 border-t border-gray-200">
+                  <h4 className="text-sm font-medium text-gray-900">When an Alert Clears</h4>
+                  <p className="text-sm text-gray-500">
+                    Also notify me when these alerts clear, with how long they lasted and the worst reading.
+                  </p>
+                  <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+                    {EVENT_TYPE_OPTIONS.map((option) => (
+                      <div key={option.type} className="flex items-center">
+                        <input
+                          type="checkbox"
+                          checked={notificationSettings.resolvedAlertTypes.includes(option.type)}
+                          onChange={(e) => setNotificationSettings({
+                            ...notificationSettings,
+                            resolvedAlertTypes: e.target.checked
+                              ? [...notificationSettings.resolvedAlertTypes, option.type]
+                              : notificationSettings.resolvedAlertTypes.filter((t) => t !== option.type)
+                          })}
+                          className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                        />
+                        <label className="ml-2 block text-sm text-gray-900">
+                          {option.label}
+                        </label>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
                 <div className="mt-6">
                   <button
                     onClick={saveNotificationSettings}
@@ -553,6 +730,14 @@ export default function SettingsPage() {
 
           {isAdmin && activeTab === 'users' && <UserManagement />}
 
+          {isAdmin && activeTab === 'devices' && <Devices />}
+
+          {isAdmin && activeTab === 'escalation' && <EscalationPolicies />}
+
+          {isAdmin && activeTab === 'deliveries' && <NotificationDeliveries />}
+
+          {isAdmin && activeTab === 'webhooks' && <Webhooks />}
+
           {isAdmin && activeTab === 'system' && (
             <div className="space-y-6">
               {/* Data Retention Settings */}
@@ -593,12 +778,12 @@ export default function SettingsPage() {
                     Alert Conditions
                   </h3>
                   <p className="text-sm text-gray-500 mb-4">
-                    Global trigger thresholds. Each user controls which alerts they receive on their Notifications tab.
+                    Global trigger thresholds. Override them for a single device on the Devices tab. Each user controls which alerts they receive on their Notifications tab.
                   </p>
                   <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
                     <div>
                       <label className="block text-sm font-medium text-gray-700">
-                        High Current Threshold (A)
+                        High Current Threshold, Channel 1 (A)
                       </label>
                       <input
                         type="number"
@@ -616,7 +801,30 @@ export default function SettingsPage() {
                         className="mt-1 block w-32 border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
                       />
                       <p className="mt-1 text-sm text-gray-500">
-                        Fire when RMS current exceeds this many amps.
+                        Fire when channel 1 RMS current exceeds this many amps.
+                      </p>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">
+                        High Current Threshold, Channel 2 (A)
+                      </label>
+                      <input
+                        type="number"
+                        step="0.1"
+                        value={
+                          systemSettings.highCurrent2ThresholdAmps !== undefined
+                            ? Number(systemSettings.highCurrent2ThresholdAmps)
+                            : 7.2
+                        }
+                        onChange={(e) => setSystemSettings({
+                          ...systemSettings,
+                          highCurrent2ThresholdAmps: parseFloat(e.target.value)
+                        })}
+                        min="0"
+                        className="mt-1 block w-32 border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                      />
+                      <p className="mt-1 text-sm text-gray-500">
+                        Fire when channel 2 RMS current exceeds this many amps.
                       </p>
                     </div>
                     <div>
@@ -664,6 +872,145 @@ export default function SettingsPage() {
                         Fire when temperature drops at or below this °F.
                       </p>
                     </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">
+                        High Humidity Threshold (%)
+                      </label>
+                      <input
+                        type="number"
+                        step="1"
+                        value={
+                          systemSettings.highHumidityThresholdPct !== undefined
+                            ? Number(systemSettings.highHumidityThresholdPct)
+                            : 90
+                        }
+                        onChange={(e) => setSystemSettings({
+                          ...systemSettings,
+                          highHumidityThresholdPct: parseFloat(e.target.value)
+                        })}
+                        min="0"
+                        max="100"
+                        className="mt-1 block w-32 border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                      />
+                      <p className="mt-1 text-sm text-gray-500">
+                        Fire when average humidity stays above this. 0 disables.
+                      </p>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">
+                        High Humidity Sustain Time (minutes)
+                      </label>
+                      <input
+                        type="number"
+                        step="5"
+                        value={
+                          systemSettings.highHumiditySustainMinutes !== undefined
+                            ? Number(systemSettings.highHumiditySustainMinutes)
+                            : 30
+                        }
+                        onChange={(e) => setSystemSettings({
+                          ...systemSettings,
+                          highHumiditySustainMinutes: parseInt(e.target.value)
+                        })}
+                        min="0"
+                        className="mt-1 block w-32 border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                      />
+                      <p className="mt-1 text-sm text-gray-500">
+                        How long humidity must stay high before alerting.
+                      </p>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">
+                        Freeze Risk Horizon (hours)
+                      </label>
+                      <input
+                        type="number"
+                        step="0.5"
+                        value={
+                          systemSettings.freezeRiskHorizonHours !== undefined
+                            ? Number(systemSettings.freezeRiskHorizonHours)
+                            : 3
+                        }
+                        onChange={(e) => setSystemSettings({
+                          ...systemSettings,
+                          freezeRiskHorizonHours: parseFloat(e.target.value)
+                        })}
+                        min="0"
+                        className="mt-1 block w-32 border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                      />
+                      <p className="mt-1 text-sm text-gray-500">
+                        Warn when the temperature trend reaches 32°F within this many hours. 0 disables.
+                      </p>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">
+                        Freeze Risk Trend Window (minutes)
+                      </label>
+                      <input
+                        type="number"
+                        step="5"
+                        value={
+                          systemSettings.freezeRiskWindowMinutes !== undefined
+                            ? Number(systemSettings.freezeRiskWindowMinutes)
+                            : 60
+                        }
+                        onChange={(e) => setSystemSettings({
+                          ...systemSettings,
+                          freezeRiskWindowMinutes: parseInt(e.target.value)
+                        })}
+                        min="0"
+                        className="mt-1 block w-32 border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                      />
+                      <p className="mt-1 text-sm text-gray-500">
+                        Recent readings the temperature trend is fitted to.
+                      </p>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">
+                        Freeze Risk Ceiling (°F)
+                      </label>
+                      <input
+                        type="number"
+                        step="1"
+                        value={
+                          systemSettings.freezeRiskCeilingF !== undefined
+                            ? Number(systemSettings.freezeRiskCeilingF)
+                            : 45
+                        }
+                        onChange={(e) => setSystemSettings({
+                          ...systemSettings,
+                          freezeRiskCeilingF: parseFloat(e.target.value)
+                        })}
+                        min="0"
+                        className="mt-1 block w-32 border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                      />
+                      <p className="mt-1 text-sm text-gray-500">
+                        Only forecast once the pump house is colder than this, so a warm evening cool-down doesn&apos;t alert.
+                      </p>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">
+                        Sensor Flatline Time (hours)
+                      </label>
+                      <input
+                        type="number"
+                        step="1"
+                        value={
+                          systemSettings.sensorFlatlineHours !== undefined
+                            ? Number(systemSettings.sensorFlatlineHours)
+                            : 12
+                        }
+                        onChange={(e) => setSystemSettings({
+                          ...systemSettings,
+                          sensorFlatlineHours: parseFloat(e.target.value)
+                        })}
+                        min="0"
+                        className="mt-1 block w-32 border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                      />
+                      <p className="mt-1 text-sm text-gray-500">
+                        Raise a sensor error when temperature, humidity or pressure reads one value this long. 0 disables.
+                      </p>
+                    </div>
                     <div>
                       <label className="block text-sm font-medium text-gray-700">
                         Missing Data Timeout (minutes)
@@ -754,6 +1101,698 @@ export default function SettingsPage() {
                         Need at least this much continuous pump-off data before evaluating the rate. Default 60.
                       </p>
                     </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">
+                        Short Cycling Window (minutes)
+                      </label>
+                      <input
+                        type="number"
+                        step="1"
+                        value={
+                          systemSettings.shortCycleWindowMinutes !== undefined
+                            ? Number(systemSettings.shortCycleWindowMinutes)
+                            : 60
+                        }
+                        onChange={(e) => setSystemSettings({
+                          ...systemSettings,
+                          shortCycleWindowMinutes: parseInt(e.target.value)
+                        })}
+                        min="0"
+                        max="1440"
+                        className="mt-1 block w-32 border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                      />
+                      <p className="mt-1 text-sm text-gray-500">
+                        Count pump starts over this rolling window. Set to 0 to disable. Default 60.
+                      </p>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">
+                        Short Cycling Starts
+                      </label>
+                      <input
+                        type="number"
+                        step="1"
+                        value={
+                          systemSettings.shortCycleMinStarts !== undefined
+                            ? Number(systemSettings.shortCycleMinStarts)
+                            : 12
+                        }
+                        onChange={(e) => setSystemSettings({
+                          ...systemSettings,
+                          shortCycleMinStarts: parseInt(e.target.value)
+                        })}
+                        min="0"
+                        className="mt-1 block w-32 border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                      />
+                      <p className="mt-1 text-sm text-gray-500">
+                        Fire when the pump starts at least this many times within the window. Default 12.
+                      </p>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">
+                        Short Cycling Max Average Run (seconds)
+                      </label>
+                      <input
+                        type="number"
+                        step="5"
+                        value={
+                          systemSettings.shortCycleMaxAvgRunSeconds !== undefined
+                            ? Number(systemSettings.shortCycleMaxAvgRunSeconds)
+                            : 60
+                        }
+                        onChange={(e) => setSystemSettings({
+                          ...systemSettings,
+                          shortCycleMaxAvgRunSeconds: parseInt(e.target.value)
+                        })}
+                        min="0"
+                        className="mt-1 block w-32 border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                      />
+                      <p className="mt-1 text-sm text-gray-500">
+                        Only fire when the average run within the window is no longer than this. A healthy tank gives runs of a minute or more. Default 60.
+                      </p>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">
+                        Dry Run Time (minutes)
+                      </label>
+                      <input
+                        type="number"
+                        step="1"
+                        value={
+                          systemSettings.dryRunMinutes !== undefined
+                            ? Number(systemSettings.dryRunMinutes)
+                            : 5
+                        }
+                        onChange={(e) => setSystemSettings({
+                          ...systemSettings,
+                          dryRunMinutes: parseInt(e.target.value)
+                        })}
+                        min="0"
+                        className="mt-1 block w-32 border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                      />
+                      <p className="mt-1 text-sm text-gray-500">
+                        Fire when the pump runs this long without building pressure. Set to 0 to disable. Default 5.
+                      </p>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">
+                        Dry Run Minimum Pressure Rise (PSI)
+                      </label>
+                      <input
+                        type="number"
+                        step="0.5"
+                        value={
+                          systemSettings.dryRunMinPressureRisePsi !== undefined
+                            ? Number(systemSettings.dryRunMinPressureRisePsi)
+                            : 1
+                        }
+                        onChange={(e) => setSystemSettings({
+                          ...systemSettings,
+                          dryRunMinPressureRisePsi: parseFloat(e.target.value)
+                        })}
+                        min="0"
+                        className="mt-1 block w-32 border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                      />
+                      <p className="mt-1 text-sm text-gray-500">
+                        A rise of at least this much means the pump is moving water. Default 1.
+                      </p>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">
+                        Dry Run Maximum Current (A)
+                      </label>
+                      <input
+                        type="number"
+                        step="0.1"
+                        value={
+                          systemSettings.dryRunMaxCurrentAmps !== undefined
+                            ? Number(systemSettings.dryRunMaxCurrentAmps)
+                            : 0
+                        }
+                        onChange={(e) => setSystemSettings({
+                          ...systemSettings,
+                          dryRunMaxCurrentAmps: parseFloat(e.target.value)
+                        })}
+                        min="0"
+                        className="mt-1 block w-32 border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                      />
+                      <p className="mt-1 text-sm text-gray-500">
+                        Only fire while current is below this, so a long draw at full load doesn&apos;t count. Set a little under your pump&apos;s normal loaded draw; 0 uses 80% of the learned loaded current once there is one, and pressure alone until then.
+                      </p>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">
+                        Current Drift (%)
+                      </label>
+                      <input
+                        type="number"
+                        step="1"
+                        value={
+                          systemSettings.currentDriftPercent !== undefined
+                            ? Number(systemSettings.currentDriftPercent)
+                            : 15
+                        }
+                        onChange={(e) => setSystemSettings({
+                          ...systemSettings,
+                          currentDriftPercent: parseFloat(e.target.value)
+                        })}
+                        min="0"
+                        className="mt-1 block w-32 border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                      />
+                      <p className="mt-1 text-sm text-gray-500">
+                        Fire when the pump&apos;s recent loaded current differs from its learned baseline by more than this. Set to 0 to disable. Default 15.
+                      </p>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">
+                        Current Baseline Period (days)
+                      </label>
+                      <input
+                        type="number"
+                        step="1"
+                        value={
+                          systemSettings.currentBaselineDays !== undefined
+                            ? Number(systemSettings.currentBaselineDays)
+                            : 30
+                        }
+                        onChange={(e) => setSystemSettings({
+                          ...systemSettings,
+                          currentBaselineDays: parseInt(e.target.value)
+                        })}
+                        min="0"
+                        className="mt-1 block w-32 border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                      />
+                      <p className="mt-1 text-sm text-gray-500">
+                        History the baseline running current is learned from. Default 30.
+                      </p>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">
+                        Current Drift Window (hours)
+                      </label>
+                      <input
+                        type="number"
+                        step="1"
+                        value={
+                          systemSettings.currentDriftRecentHours !== undefined
+                            ? Number(systemSettings.currentDriftRecentHours)
+                            : 24
+                        }
+                        onChange={(e) => setSystemSettings({
+                          ...systemSettings,
+                          currentDriftRecentHours: parseInt(e.target.value)
+                        })}
+                        min="0"
+                        className="mt-1 block w-32 border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                      />
+                      <p className="mt-1 text-sm text-gray-500">
+                        Recent data compared against the baseline. Default 24.
+                      </p>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">
+                        Tank Health History (weeks)
+                      </label>
+                      <input
+                        type="number"
+                        step="1"
+                        value={
+                          systemSettings.tankHealthWeeks !== undefined
+                            ? Number(systemSettings.tankHealthWeeks)
+                            : 8
+                        }
+                        onChange={(e) => setSystemSettings({
+                          ...systemSettings,
+                          tankHealthWeeks: parseInt(e.target.value)
+                        })}
+                        min="0"
+                        className="mt-1 block w-32 border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                      />
+                      <p className="mt-1 text-sm text-gray-500">
+                        Weeks of pump runs the pressure-tank health score is tracked over. Default 8.
+                      </p>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">
+                        Tank Health Alert Score
+                      </label>
+                      <input
+                        type="number"
+                        step="5"
+                        value={
+                          systemSettings.tankHealthAlertScore !== undefined
+                            ? Number(systemSettings.tankHealthAlertScore)
+                            : 0
+                        }
+                        onChange={(e) => setSystemSettings({
+                          ...systemSettings,
+                          tankHealthAlertScore: parseInt(e.target.value)
+                        })}
+                        min="0"
+                        className="mt-1 block w-32 border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                      />
+                      <p className="mt-1 text-sm text-gray-500">
+                        Fire when the tank health score (0–100) drops below this. Set to 0 to disable. Default 0.
+                      </p>
+                    </div>
+                  </div>
+
+                  {/* Display names of the two current channels, used in alert
+                      text, the dashboard and the data page. */}
+                  <h4 className="mt-6 text-sm font-medium text-gray-900">
+                    Pump Channels
+                  </h4>
+                  <p className="text-sm text-gray-500 mb-4">
+                    Name what each current channel monitors. Per-device names can be set on the Devices tab.
+                  </p>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">
+                        Channel 1 Name
+                      </label>
+                      <input
+                        type="text"
+                        value={String(systemSettings.pumpChannel1Name ?? '')}
+                        onChange={(e) => setSystemSettings({
+                          ...systemSettings,
+                          pumpChannel1Name: e.target.value
+                        })}
+                        placeholder="Pump 1"
+                        className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                      />
+                      <p className="mt-1 text-sm text-gray-500">
+                        The well pump, whose runs drive the pressure and water-usage features.
+                      </p>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">
+                        Channel 2 Name
+                      </label>
+                      <input
+                        type="text"
+                        value={String(systemSettings.pumpChannel2Name ?? '')}
+                        onChange={(e) => setSystemSettings({
+                          ...systemSettings,
+                          pumpChannel2Name: e.target.value
+                        })}
+                        placeholder="Pump 2"
+                        className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                      />
+                      <p className="mt-1 text-sm text-gray-500">
+                        A second load such as a booster pump or water softener.
+                      </p>
+                    </div>
+                  </div>
+
+                  {/* Pump delivery rate for the water-usage estimate. A curve
+                      (psi:gpm pairs) wins over the fixed rate when both are set. */}
+                  <h4 className="mt-6 text-sm font-medium text-gray-900">
+                    Water Usage
+                  </h4>
+                  <p className="text-sm text-gray-500 mb-4">
+                    Estimate gallons from pump runtime. Per-device values can be set on the Devices tab.
+                  </p>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">
+                        Pump Flow Rate (GPM)
+                      </label>
+                      <input
+                        type="number"
+                        step="0.1"
+                        value={
+                          systemSettings.pumpFlowGpm !== undefined
+                            ? Number(systemSettings.pumpFlowGpm)
+                            : 0
+                        }
+                        onChange={(e) => setSystemSettings({
+                          ...systemSettings,
+                          pumpFlowGpm: parseFloat(e.target.value)
+                        })}
+                        min="0"
+                        className="mt-1 block w-32 border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                      />
+                      <p className="mt-1 text-sm text-gray-500">
+                        Rated delivery of the pump. 0 leaves usage unestimated unless a curve is set.
+                      </p>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">
+                        Pump Flow Curve
+                      </label>
+                      <input
+                        type="text"
+                        value={String(systemSettings.pumpFlowCurve ?? '')}
+                        onChange={(e) => setSystemSettings({
+                          ...systemSettings,
+                          pumpFlowCurve: e.target.value
+                        })}
+                        placeholder="30:12, 40:10, 50:8"
+                        className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                      />
+                      <p className="mt-1 text-sm text-gray-500">
+                        Optional GPM-vs-pressure points from the pump datasheet, as psi:gpm pairs. Overrides the fixed rate.
+                      </p>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">
+                        Daily Water Budget (gallons)
+                      </label>
+                      <input
+                        type="number"
+                        step="10"
+                        value={
+                          systemSettings.dailyWaterBudgetGallons !== undefined
+                            ? Number(systemSettings.dailyWaterBudgetGallons)
+                            : 0
+                        }
+                        onChange={(e) => setSystemSettings({
+                          ...systemSettings,
+                          dailyWaterBudgetGallons: parseFloat(e.target.value)
+                        })}
+                        min="0"
+                        className="mt-1 block w-32 border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                      />
+                      <p className="mt-1 text-sm text-gray-500">
+                        Fire when estimated usage over the last 24 hours exceeds this. Set to 0 to disable.
+                      </p>
+                    </div>
+                  </div>
+
+                  {/* Hysteresis and debounce for the High Current, Low Pressure
+                      and Low Temperature alerts. Defaults reproduce the
+                      original fire-on-one-row / clear-on-one-row behaviour. */}
+                  <h4 className="mt-6 text-sm font-medium text-gray-900">
+                    Hysteresis &amp; Debounce
+                  </h4>
+                  <p className="text-sm text-gray-500 mb-4">
+                    Stop alerts from flapping when a reading hovers around its threshold. When both rows and minutes are set, both must be met.
+                  </p>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">
+                        High Current Hysteresis (A)
+                      </label>
+                      <input
+                        type="number"
+                        step="0.1"
+                        value={
+                          systemSettings.highCurrentHysteresisAmps !== undefined
+                            ? Number(systemSettings.highCurrentHysteresisAmps)
+                            : 0
+                        }
+                        onChange={(e) => setSystemSettings({
+                          ...systemSettings,
+                          highCurrentHysteresisAmps: parseFloat(e.target.value)
+                        })}
+                        min="0"
+                        className="mt-1 block w-32 border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                      />
+                      <p className="mt-1 text-sm text-gray-500">
+                        An active High Current alert clears only once current falls this far below the threshold. 0 clears as soon as it is back under.
+                      </p>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">
+                        Low Pressure Hysteresis (PSI)
+                      </label>
+                      <input
+                        type="number"
+                        step="0.5"
+                        value={
+                          systemSettings.lowPressureHysteresisPsi !== undefined
+                            ? Number(systemSettings.lowPressureHysteresisPsi)
+                            : 0
+                        }
+                        onChange={(e) => setSystemSettings({
+                          ...systemSettings,
+                          lowPressureHysteresisPsi: parseFloat(e.target.value)
+                        })}
+                        min="0"
+                        className="mt-1 block w-32 border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                      />
+                      <p className="mt-1 text-sm text-gray-500">
+                        An active Low Pressure alert clears only above threshold + this band, e.g. 30 + 3 clears above 33 PSI.
+                      </p>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">
+                        Low Temperature Hysteresis (°F)
+                      </label>
+                      <input
+                        type="number"
+                        step="0.5"
+                        value={
+                          systemSettings.lowTemperatureHysteresisF !== undefined
+                            ? Number(systemSettings.lowTemperatureHysteresisF)
+                            : 0
+                        }
+                        onChange={(e) => setSystemSettings({
+                          ...systemSettings,
+                          lowTemperatureHysteresisF: parseFloat(e.target.value)
+                        })}
+                        min="0"
+                        className="mt-1 block w-32 border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                      />
+                      <p className="mt-1 text-sm text-gray-500">
+                        An active Low Temperature alert clears only above threshold + this band.
+                      </p>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">
+                        Trigger After (consecutive rows)
+                      </label>
+                      <input
+                        type="number"
+                        step="1"
+                        value={
+                          systemSettings.thresholdTriggerDebounceRows !== undefined
+                            ? Number(systemSettings.thresholdTriggerDebounceRows)
+                            : 1
+                        }
+                        onChange={(e) => setSystemSettings({
+                          ...systemSettings,
+                          thresholdTriggerDebounceRows: parseInt(e.target.value)
+                        })}
+                        min="0"
+                        className="mt-1 block w-32 border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                      />
+                      <p className="mt-1 text-sm text-gray-500">
+                        Rows in a row that must cross the threshold before an alert fires. Default 1.
+                      </p>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">
+                        Trigger After (minutes sustained)
+                      </label>
+                      <input
+                        type="number"
+                        step="1"
+                        value={
+                          systemSettings.thresholdTriggerDebounceMinutes !== undefined
+                            ? Number(systemSettings.thresholdTriggerDebounceMinutes)
+                            : 0
+                        }
+                        onChange={(e) => setSystemSettings({
+                          ...systemSettings,
+                          thresholdTriggerDebounceMinutes: parseInt(e.target.value)
+                        })}
+                        min="0"
+                        className="mt-1 block w-32 border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                      />
+                      <p className="mt-1 text-sm text-gray-500">
+                        Minutes the condition must hold before an alert fires. Default 0.
+                      </p>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">
+                        Clear After (consecutive rows)
+                      </label>
+                      <input
+                        type="number"
+                        step="1"
+                        value={
+                          systemSettings.thresholdClearDebounceRows !== undefined
+                            ? Number(systemSettings.thresholdClearDebounceRows)
+                            : 1
+                        }
+                        onChange={(e) => setSystemSettings({
+                          ...systemSettings,
+                          thresholdClearDebounceRows: parseInt(e.target.value)
+                        })}
+                        min="0"
+                        className="mt-1 block w-32 border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                      />
+                      <p className="mt-1 text-sm text-gray-500">
+                        Rows in a row that must be past the hysteresis band before an alert clears. Default 1.
+                      </p>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">
+                        Clear After (minutes sustained)
+                      </label>
+                      <input
+                        type="number"
+                        step="1"
+                        value={
+                          systemSettings.thresholdClearDebounceMinutes !== undefined
+                            ? Number(systemSettings.thresholdClearDebounceMinutes)
+                            : 0
+                        }
+                        onChange={(e) => setSystemSettings({
+                          ...systemSettings,
+                          thresholdClearDebounceMinutes: parseInt(e.target.value)
+                        })}
+                        min="0"
+                        className="mt-1 block w-32 border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                      />
+                      <p className="mt-1 text-sm text-gray-500">
+                        Minutes the reading must stay past the band before an alert clears. Default 0.
+                      </p>
+                    </div>
+                  </div>
+
+                  {/* MQTT publishing; read by src/lib/mqtt.ts on every
+                      publish, so changes apply without a restart. */}
+                  <h4 className="mt-6 text-sm font-medium text-gray-900">
+                    MQTT
+                  </h4>
+                  <p className="text-sm text-gray-500 mb-4">
+                    Publish every reading to &lt;prefix&gt;/&lt;device&gt;/state and every alert change to &lt;prefix&gt;/&lt;device&gt;/event/&lt;type&gt;. Messages are dropped while the broker is unreachable.
+                  </p>
+                  <div className="flex items-center">
+                    <input
+                      type="checkbox"
+                      checked={String(systemSettings.mqttEnabled) === 'true'}
+                      onChange={(e) => setSystemSettings({
+                        ...systemSettings,
+                        mqttEnabled: e.target.checked
+                      })}
+                      className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                    />
+                    <label className="ml-2 block text-sm text-gray-900">
+                      Publish to MQTT
+                    </label>
+                  </div>
+                  <div className="mt-4 grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">
+                        Broker URL
+                      </label>
+                      <input
+                        type="text"
+                        value={String(systemSettings.mqttBrokerUrl ?? '')}
+                        onChange={(e) => setSystemSettings({
+                          ...systemSettings,
+                          mqttBrokerUrl: e.target.value
+                        })}
+                        placeholder="mqtt://homeassistant.local:1883"
+                        className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                      />
+                      <p className="mt-1 text-sm text-gray-500">
+                        mqtt://, mqtts://, ws:// or wss://
+                      </p>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">
+                        Topic Prefix
+                      </label>
+                      <input
+                        type="text"
+                        value={String(systemSettings.mqttTopicPrefix ?? 'wellpump')}
+                        onChange={(e) => setSystemSettings({
+                          ...systemSettings,
+                          mqttTopicPrefix: e.target.value
+                        })}
+                        placeholder="wellpump"
+                        className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">
+                        Username
+                      </label>
+                      <input
+                        type="text"
+                        value={String(systemSettings.mqttUsername ?? '')}
+                        onChange={(e) => setSystemSettings({
+                          ...systemSettings,
+                          mqttUsername: e.target.value
+                        })}
+                        placeholder="Optional"
+                        className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">
+                        Password
+                      </label>
+                      <input
+                        type="password"
+                        value={String(systemSettings.mqttPassword ?? '')}
+                        onChange={(e) => setSystemSettings({
+                          ...systemSettings,
+                          mqttPassword: e.target.value
+                        })}
+                        placeholder="Optional"
+                        className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                      />
+                    </div>
+                  </div>
+                  <div className="mt-4">
+                    <div className="flex items-center">
+                      <input
+                        type="checkbox"
+                        checked={String(systemSettings.mqttDiscoveryEnabled) === 'true'}
+                        onChange={(e) => setSystemSettings({
+                          ...systemSettings,
+                          mqttDiscoveryEnabled: e.target.checked
+                        })}
+                        className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                      />
+                      <label className="ml-2 block text-sm text-gray-900">
+                        Home Assistant discovery
+                      </label>
+                    </div>
+                    <p className="mt-1 text-sm text-gray-500">
+                      Announce pressure, temperature, humidity, pump current and pump-on state as Home Assistant entities.
+                    </p>
+                  </div>
+                  <div className="mt-4 grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">
+                        Discovery Prefix
+                      </label>
+                      <input
+                        type="text"
+                        value={String(systemSettings.mqttDiscoveryPrefix ?? 'homeassistant')}
+                        onChange={(e) => setSystemSettings({
+                          ...systemSettings,
+                          mqttDiscoveryPrefix: e.target.value
+                        })}
+                        placeholder="homeassistant"
+                        className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                      />
+                    </div>
+                  </div>
+                  <div className="mt-4">
+                    <div className="flex items-center">
+                      <input
+                        type="checkbox"
+                        checked={String(systemSettings.mqttIngestEnabled) === 'true'}
+                        onChange={(e) => setSystemSettings({
+                          ...systemSettings,
+                          mqttIngestEnabled: e.target.checked
+                        })}
+                        className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                      />
+                      <label className="ml-2 block text-sm text-gray-900">
+                        Accept device posts over MQTT
+                      </label>
+                    </div>
+                    <p className="mt-1 text-sm text-gray-500">
+                      Devices may publish readings and events to &lt;prefix&gt;/ingest/sensors and &lt;prefix&gt;/ingest/events instead of posting over HTTP. Takes effect after a server restart.
+                    </p>
                   </div>
                   <div className="mt-6">
                     <button
@@ -54,7 +54,7 @@ export default function DeviceTokens({ userId }: DeviceTokensProps) {
   const [showTokens, setShowTokens] = useState<Record<string, boolean>>({})
   const [formData, setFormData] = useState<TokenFormData>({
     name: '',
-    permissions: { sensors: true, events: true },
+    permissions: { sensors: true, events: true, metrics: false },
     expiresAt: '',
     userId: userId
   })
@@ -106,7 +106,7 @@ export default function DeviceTokens({ userId }: DeviceTokensProps) {
         setShowCreateForm(false)
         setFormData({
           name: '',
-          permissions: { sensors: true, events: true },
+          permissions: { sensors: true, events: true, metrics: false },
           expiresAt: '',
           userId: userId
         })
@@ -264,6 +264,20 @@ export default function DeviceTokens({ userId }: DeviceTokensProps) {
                     Events (POST/GET event data)
                   </label>
                 </div>
+                <div className="flex items-center">
+                  <input
+                    type="checkbox"
+                    checked={formData.permissions.metrics}
+                    onChange={(e) => setFormData({ 
+                      ...formData, 
+                      permissions: { ...formData.permissions, metrics: e.target.checked }
+                    })}
+                    className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                  />
+                  <label className="ml-2 block text-sm text-gray-900">
+                    Metrics (Prometheus scrape of /api/metrics)
+                  </label>
+                </div>
               </div>
             </div>
 
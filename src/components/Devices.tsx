@@ -0,0 +1,504 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import {
+  CpuChipIcon,
+  PlusIcon,
+  TrashIcon,
+  PencilIcon,
+  ExclamationTriangleIcon,
+  CheckCircleIcon,
+  XMarkIcon
+} from '@heroicons/react/24/outline'
+
+interface Device {
+  id: string
+  device: string
+  displayName: string | null
+  location: string | null
+  firmwareVersion: string | null
+  lastIp: string | null
+  firstSeenAt: string | null
+  lastSeenAt: string | null
+  online: boolean
+}
+
+interface DeviceFormData {
+  device: string
+  displayName: string
+  location: string
+  /** Threshold overrides by global settings key; '' inherits the global value. */
+  overrides: Record<string, string>
+}
+
+/**
+ * Detector thresholds that can be overridden per device. Each override is
+ * stored as the SystemSettings row `<key>@<device>` (see device-settings.ts);
+ * the defaults mirror the detectors' own.
+ */
+const THRESHOLD_FIELDS = [
+  { key: 'highCurrentThresholdAmps', label: 'High Current, Channel 1 (A)', fallback: 7.2, step: '0.1' },
+  { key: 'highCurrent2ThresholdAmps', label: 'High Current, Channel 2 (A)', fallback: 7.2, step: '0.1' },
+  { key: 'lowPressureThresholdPsi', label: 'Low Pressure (PSI)', fallback: 30, step: '1' },
+  { key: 'lowTemperatureThresholdF', label: 'Low Temperature (°F)', fallback: 35, step: '1' },
+  { key: 'highHumidityThresholdPct', label: 'High Humidity (%)', fallback: 90, step: '1' },
+  { key: 'highHumiditySustainMinutes', label: 'High Humidity Sustain (min)', fallback: 30, step: '5' },
+  { key: 'freezeRiskHorizonHours', label: 'Freeze Risk Horizon (h)', fallback: 3, step: '0.5' },
+  { key: 'freezeRiskWindowMinutes', label: 'Freeze Risk Trend Window (min)', fallback: 60, step: '5' },
+  { key: 'freezeRiskCeilingF', label: 'Freeze Risk Ceiling (°F)', fallback: 45, step: '1' },
+  { key: 'sensorFlatlineHours', label: 'Sensor Flatline (h)', fallback: 12, step: '1' },
+  { key: 'missingDataTimeoutMinutes', label: 'Missing Data Timeout (min)', fallback: 10, step: '1' },
+  { key: 'longPumpRunThresholdMinutes', label: 'Long Pump Run (min)', fallback: 60, step: '1' },
+  { key: 'pressureDropMaxPsiPerHour', label: 'Pressure Drop Rate (PSI/h)', fallback: 2, step: '0.5' },
+  { key: 'pressureDropMinSegmentMinutes', label: 'Min Pump-Off Segment (min)', fallback: 60, step: '1' },
+  { key: 'shortCycleWindowMinutes', label: 'Short Cycling Window (min)', fallback: 60, step: '1' },
+  { key: 'shortCycleMinStarts', label: 'Short Cycling Starts', fallback: 12, step: '1' },
+  { key: 'shortCycleMaxAvgRunSeconds', label: 'Short Cycling Max Avg Run (s)', fallback: 60, step: '5' },
+  { key: 'dryRunMinutes', label: 'Dry Run (min)', fallback: 5, step: '1' },
+  { key: 'dryRunMinPressureRisePsi', label: 'Dry Run Min Pressure Rise (PSI)', fallback: 1, step: '0.5' },
+  { key: 'dryRunMaxCurrentAmps', label: 'Dry Run Max Current (A)', fallback: 0, step: '0.1' },
+  { key: 'currentDriftPercent', label: 'Current Drift (%)', fallback: 15, step: '1' },
+  { key: 'currentBaselineDays', label: 'Current Baseline (days)', fallback: 30, step: '1' },
+  { key: 'currentDriftRecentHours', label: 'Current Drift Window (h)', fallback: 24, step: '1' },
+  { key: 'tankHealthAlertScore', label: 'Tank Health Alert Score', fallback: 0, step: '5' },
+  { key: 'highCurrentHysteresisAmps', label: 'High Current Hysteresis (A)', fallback: 0, step: '0.1' },
+  { key: 'lowPressureHysteresisPsi', label: 'Low Pressure Hysteresis (PSI)', fallback: 0, step: '0.5' },
+  { key: 'lowTemperatureHysteresisF', label: 'Low Temperature Hysteresis (°F)', fallback: 0, step: '0.5' }
+] as const
+
+/**
+ * The pump's delivery rate, used to estimate water usage (see water-usage.ts).
+ * Stored the same way as the threshold overrides; a curve wins over a GPM.
+ */
+const FLOW_FIELDS = [
+  { key: 'pumpFlowGpm', label: 'Flow Rate (GPM)', inputType: 'number', placeholder: 'none' },
+  { key: 'pumpFlowCurve', label: 'Flow Curve (psi:gpm, …)', inputType: 'text', placeholder: 'none' },
+  { key: 'dailyWaterBudgetGallons', label: 'Daily Water Budget (gal)', inputType: 'number', placeholder: '0' }
+] as const
+
+/** Display names of the two pump circuits (see pump-channels.ts). */
+const CHANNEL_FIELDS = [
+  { key: 'pumpChannel1Name', label: 'Channel 1 Name', placeholder: 'Pump 1' },
+  { key: 'pumpChannel2Name', label: 'Channel 2 Name', placeholder: 'Pump 2' }
+] as const
+
+const OVERRIDE_KEYS: readonly string[] = [...THRESHOLD_FIELDS, ...FLOW_FIELDS, ...CHANNEL_FIELDS].map(
+  ({ key }) => key
+)
+
+const overrideKey = (key: string, device: string) => `${key}@${device}`
+
+interface Message {
+  type: 'success' | 'error'
+  text: string
+}
+
+const EMPTY_FORM: DeviceFormData = { device: '', displayName: '', location: '', overrides: {} }
+
+export default function Devices() {
+  const [devices, setDevices] = useState<Device[]>([])
+  const [loading, setLoading] = useState(true)
+  const [message, setMessage] = useState<Message | null>(null)
+  const [showCreateForm, setShowCreateForm] = useState(false)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [formData, setFormData] = useState<DeviceFormData>(EMPTY_FORM)
+  const [settings, setSettings] = useState<Record<string, string>>({})
+
+  const fetchDevices = useCallback(async () => {
+    try {
+      const response = await fetch('/api/devices')
+      if (response.ok) {
+        setDevices(await response.json())
+      } else {
+        setMessage({ type: 'error', text: 'Failed to fetch devices' })
+      }
+    } catch {
+      setMessage({ type: 'error', text: 'Error fetching devices' })
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  // Global values are shown as placeholders for the per-device overrides.
+  const fetchSettings = useCallback(async () => {
+    try {
+      const response = await fetch('/api/settings')
+      if (response.ok) {
+        setSettings(await response.json())
+      }
+    } catch {
+      // Placeholders fall back to the defaults.
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchDevices()
+    fetchSettings()
+  }, [fetchDevices, fetchSettings])
+
+  const closeForm = () => {
+    setShowCreateForm(false)
+    setEditingId(null)
+    setFormData(EMPTY_FORM)
+  }
+
+  const startEdit = (device: Device) => {
+    setShowCreateForm(false)
+    setEditingId(device.id)
+    setFormData({
+      device: device.device,
+      displayName: device.displayName ?? '',
+      location: device.location ?? '',
+      overrides: Object.fromEntries(
+        OVERRIDE_KEYS.map((key) => [key, settings[overrideKey(key, device.device)] ?? ''])
+      )
+    })
+  }
+
+  const saveOverrides = (device: string) =>
+    fetch('/api/settings', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(Object.fromEntries(
+        OVERRIDE_KEYS.map((key) => [overrideKey(key, device), formData.overrides[key] ?? ''])
+      ))
+    })
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setMessage(null)
+
+    try {
+      const response = editingId
+        ? await fetch(`/api/devices/${editingId}`, {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+              displayName: formData.displayName || null,
+              location: formData.location || null
+            })
+          })
+        : await fetch('/api/devices', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+              device: formData.device,
+              displayName: formData.displayName,
+              location: formData.location
+            })
+          })
+
+      if (response.ok && !(await saveOverrides(formData.device.trim())).ok) {
+        setMessage({ type: 'error', text: 'Device saved, but threshold overrides failed to save' })
+        fetchDevices()
+        fetchSettings()
+        return
+      }
+
+      if (response.ok) {
+        setMessage({
+          type: 'success',
+          text: editingId ? 'Device updated successfully' : 'Device registered successfully'
+        })
+        closeForm()
+        fetchDevices()
+        fetchSettings()
+      } else {
+        const error = await response.json()
+        setMessage({ type: 'error', text: error.error || 'Failed to save device' })
+      }
+    } catch {
+      setMessage({ type: 'error', text: 'Network error occurred' })
+    }
+  }
+
+  const handleDelete = async (device: Device) => {
+    if (!confirm(
+      `Remove ${device.displayName || device.device} from the registry? ` +
+      'Its data is kept, and it re-registers if it reports again.'
+    )) return
+
+    try {
+      const response = await fetch(`/api/devices/${device.id}`, { method: 'DELETE' })
+
+      if (response.ok) {
+        setMessage({ type: 'success', text: 'Device removed successfully' })
+        fetchDevices()
+      } else {
+        const error = await response.json()
+        setMessage({ type: 'error', text: error.error || 'Failed to remove device' })
+      }
+    } catch {
+      setMessage({ type: 'error', text: 'Error removing device' })
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
+      </div>
+    )
+  }
+
+  const showForm = showCreateForm || editingId !== null
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-medium text-gray-900">Devices</h3>
+        <button
+          onClick={() => {
+            closeForm()
+            setShowCreateForm(true)
+          }}
+          className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700"
+        >
+          <PlusIcon className="h-4 w-4 mr-2" />
+          Register Device
+        </button>
+      </div>
+
+      <p className="text-sm text-gray-500">
+        Devices register themselves the first time they report. A device is offline once it has
+        been silent for longer than the Missing Data timeout.
+      </p>
+
+      {/* Message */}
+      {message && (
+        <div className={`rounded-md p-4 ${
+          message.type === 'success' ? 'bg-green-50' : 'bg-red-50'
+        }`}>
+          <div className="flex">
+            <div className="flex-shrink-0">
+              {message.type === 'success' ? (
+                <CheckCircleIcon className="h-5 w-5 text-green-400" />
+              ) : (
+                <ExclamationTriangleIcon className="h-5 w-5 text-red-400" />
+              )}
+            </div>
+            <div className="ml-3">
+              <p className={`text-sm font-medium ${
+                message.type === 'success' ? 'text-green-800' : 'text-red-800'
+              }`}>
+                {message.text}
+              </p>
+            </div>
+            <div className="ml-auto pl-3">
+              <button
+                onClick={() => setMessage(null)}
+                className={`inline-flex rounded-md p-1.5 ${
+                  message.type === 'success'
+                    ? 'text-green-500 hover:bg-green-100'
+                    : 'text-red-500 hover:bg-red-100'
+                }`}
+              >
+                <XMarkIcon className="h-5 w-5" />
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Create / Edit Form */}
+      {showForm && (
+        <div className="bg-white shadow rounded-lg p-6">
+          <h4 className="text-lg font-medium text-gray-900 mb-4">
+            {editingId ? 'Edit Device' : 'Register Device'}
+          </h4>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Device Identifier *</label>
+              <input
+                type="text"
+                required
+                disabled={editingId !== null}
+                value={formData.device}
+                onChange={(e) => setFormData({ ...formData, device: e.target.value })}
+                className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm disabled:bg-gray-100"
+                placeholder="e.g., well-pump-monitor"
+              />
+              <p className="mt-1 text-xs text-gray-500">Must match the `device` value the ESP32 sends.</p>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Display Name</label>
+              <input
+                type="text"
+                value={formData.displayName}
+                onChange={(e) => setFormData({ ...formData, displayName: e.target.value })}
+                className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                placeholder="e.g., Main Well"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Location</label>
+              <input
+                type="text"
+                value={formData.location}
+                onChange={(e) => setFormData({ ...formData, location: e.target.value })}
+                className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                placeholder="e.g., Pump House"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Threshold Overrides</label>
+              <p className="mt-1 text-xs text-gray-500">
+                Leave blank to use the global value from the System tab.
+              </p>
+              <div className="mt-2 grid grid-cols-1 sm:grid-cols-2 gap-4">
+                {THRESHOLD_FIELDS.map(({ key, label, fallback, step }) => (
+                  <div key={key}>
+                    <label className="block text-xs font-medium text-gray-600">{label}</label>
+                    <input
+                      type="number"
+                      step={step}
+                      min="0"
+                      value={formData.overrides[key] ?? ''}
+                      onChange={(e) => setFormData({
+                        ...formData,
+                        overrides: { ...formData.overrides, [key]: e.target.value }
+                      })}
+                      placeholder={`Global: ${settings[key] || fallback}`}
+                      className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Pump Channels</label>
+              <p className="mt-1 text-xs text-gray-500">
+                Names for the two current channels, e.g. Well pump and Booster pump. Used in alerts and on the dashboard.
+              </p>
+              <div className="mt-2 grid grid-cols-1 sm:grid-cols-2 gap-4">
+                {CHANNEL_FIELDS.map(({ key, label, placeholder }) => (
+                  <div key={key}>
+                    <label className="block text-xs font-medium text-gray-600">{label}</label>
+                    <input
+                      type="text"
+                      value={formData.overrides[key] ?? ''}
+                      onChange={(e) => setFormData({
+                        ...formData,
+                        overrides: { ...formData.overrides, [key]: e.target.value }
+                      })}
+                      placeholder={`Global: ${settings[key] || placeholder}`}
+                      className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Pump Flow</label>
+              <p className="mt-1 text-xs text-gray-500">
+                Used to estimate water usage. Enter the rated GPM or a curve from the pump datasheet, e.g. 30:12, 50:8.
+              </p>
+              <div className="mt-2 grid grid-cols-1 sm:grid-cols-2 gap-4">
+                {FLOW_FIELDS.map(({ key, label, inputType, placeholder }) => (
+                  <div key={key}>
+                    <label className="block text-xs font-medium text-gray-600">{label}</label>
+                    <input
+                      type={inputType}
+                      step={inputType === 'number' ? 'any' : undefined}
+                      min={inputType === 'number' ? '0' : undefined}
+                      value={formData.overrides[key] ?? ''}
+                      onChange={(e) => setFormData({
+                        ...formData,
+                        overrides: { ...formData.overrides, [key]: e.target.value }
+                      })}
+                      placeholder={`Global: ${settings[key] || placeholder}`}
+                      className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex justify-end space-x-3">
+              <button
+                type="button"
+                onClick={closeForm}
+                className="px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700"
+              >
+                {editingId ? 'Save Device' : 'Register Device'}
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+
+      {/* Devices List */}
+      <div className="bg-white shadow rounded-lg overflow-hidden">
+        {devices.length === 0 ? (
+          <div className="p-6 text-center text-gray-500">
+            No devices yet. They appear here once they start reporting.
+          </div>
+        ) : (
+          <div className="divide-y divide-gray-200">
+            {devices.map((device) => (
+              <div key={device.id} className="p-6">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center">
+                    <CpuChipIcon className="h-8 w-8 text-gray-400" />
+                    <div className="ml-4">
+                      <div className="text-sm font-medium text-gray-900">
+                        {device.displayName || device.device}
+                      </div>
+                      <div className="text-sm text-gray-500">
+                        {device.displayName && <span>{device.device} • </span>}
+                        {device.location || 'No location'}
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        Firmware: {device.firmwareVersion || 'unknown'}
+                        {device.lastIp && <span> • IP: {device.lastIp}</span>}
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        {device.firstSeenAt
+                          ? <span>First seen: {new Date(device.firstSeenAt).toLocaleString()}</span>
+                          : <span>Never reported</span>}
+                        {device.lastSeenAt && (
+                          <span> • Last seen: {new Date(device.lastSeenAt).toLocaleString()}</span>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
+                      device.online ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+                    }`}>
+                      {device.online ? 'Online' : 'Offline'}
+                    </span>
+                    <button
+                      onClick={() => startEdit(device)}
+                      className="text-blue-600 hover:text-blue-900"
+                    >
+                      <PencilIcon className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(device)}
+                      className="text-red-600 hover:text-red-900"
+                    >
+                      <TrashIcon className="h-4 w-4" />
+                    </button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,436 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import {
+  BellAlertIcon,
+  PlusIcon,
+  TrashIcon,
+  PencilIcon,
+  ExclamationTriangleIcon,
+  CheckCircleIcon,
+  XMarkIcon
+} from '@heroicons/react/24/outline'
+
+interface EscalationPolicy {
+  eventType: string
+  enabled: boolean
+  repeatAfterMinutes: number
+  priority: number
+  retrySeconds: number
+  expireSeconds: number
+  secondaryAfterMinutes: number
+  secondaryUserIds: string[]
+}
+
+interface User {
+  id: string
+  username: string
+}
+
+interface Message {
+  type: 'success' | 'error'
+  text: string
+}
+
+/** Event types an admin can attach a policy to, in the order they're listed. */
+const EVENT_TYPE_LABELS: Record<string, string> = {
+  DRY_RUN: 'Dry Run',
+  LOW_PRESSURE: 'Low Pressure',
+  HIGH_CURRENT: 'High Current',
+  LOW_TEMPERATURE: 'Low Temperature',
+  FREEZE_RISK: 'Freeze Risk',
+  PRESSURE_DROP: 'Pressure Drop',
+  LONG_PUMP_RUN: 'Long Pump Run',
+  SHORT_CYCLING: 'Short Cycling',
+  MISSING_DATA: 'Missing Data',
+  SENSOR_ERROR: 'Sensor Error',
+  SYSTEM_ERROR: 'System Error',
+  HIGH_HUMIDITY: 'High Humidity',
+  CURRENT_DRIFT: 'Current Drift',
+  TANK_DEGRADED: 'Tank Degraded',
+  HIGH_WATER_USAGE: 'High Water Usage'
+}
+
+const EMPTY_POLICY: EscalationPolicy = {
+  eventType: '',
+  enabled: true,
+  repeatAfterMinutes: 15,
+  priority: 1,
+  retrySeconds: 60,
+  expireSeconds: 3600,
+  secondaryAfterMinutes: 0,
+  secondaryUserIds: []
+}
+
+const NUMBER_INPUT_CLASS =
+  'mt-1 block w-32 border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm'
+
+export default function EscalationPolicies() {
+  const [policies, setPolicies] = useState<EscalationPolicy[]>([])
+  const [users, setUsers] = useState<User[]>([])
+  const [loading, setLoading] = useState(true)
+  const [message, setMessage] = useState<Message | null>(null)
+  const [formData, setFormData] = useState<EscalationPolicy | null>(null)
+  const [editing, setEditing] = useState(false)
+
+  const fetchPolicies = useCallback(async () => {
+    try {
+      const response = await fetch('/api/escalation-policies')
+      if (response.ok) {
+        setPolicies(await response.json())
+      } else {
+        setMessage({ type: 'error', text: 'Failed to fetch escalation policies' })
+      }
+    } catch {
+      setMessage({ type: 'error', text: 'Error fetching escalation policies' })
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  const fetchUsers = useCallback(async () => {
+    try {
+      const response = await fetch('/api/users')
+      if (response.ok) {
+        setUsers(await response.json())
+      }
+    } catch {
+      // The secondary-user picker just stays empty.
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchPolicies()
+    fetchUsers()
+  }, [fetchPolicies, fetchUsers])
+
+  const usedTypes = new Set(policies.map((p) => p.eventType))
+  const availableTypes = Object.keys(EVENT_TYPE_LABELS).filter((t) => !usedTypes.has(t))
+
+  const closeForm = () => {
+    setFormData(null)
+    setEditing(false)
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!formData) return
+    setMessage(null)
+
+    try {
+      const response = await fetch('/api/escalation-policies', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(formData)
+      })
+
+      if (response.ok) {
+        setMessage({ type: 'success', text: 'Escalation policy saved' })
+        closeForm()
+        fetchPolicies()
+      } else {
+        const error = await response.json()
+        setMessage({ type: 'error', text: error.error || 'Failed to save escalation policy' })
+      }
+    } catch {
+      setMessage({ type: 'error', text: 'Network error occurred' })
+    }
+  }
+
+  const handleDelete = async (policy: EscalationPolicy) => {
+    const label = EVENT_TYPE_LABELS[policy.eventType] ?? policy.eventType
+    if (!confirm(`Remove the escalation policy for ${label} alerts?`)) return
+
+    try {
+      const response = await fetch(
+        `/api/escalation-policies?eventType=${encodeURIComponent(policy.eventType)}`,
+        { method: 'DELETE' }
+      )
+
+      if (response.ok) {
+        setMessage({ type: 'success', text: 'Escalation policy removed' })
+        fetchPolicies()
+      } else {
+        const error = await response.json()
+        setMessage({ type: 'error', text: error.error || 'Failed to remove escalation policy' })
+      }
+    } catch {
+      setMessage({ type: 'error', text: 'Error removing escalation policy' })
+    }
+  }
+
+  const toggleSecondaryUser = (id: string) => {
+    if (!formData) return
+    const ids = formData.secondaryUserIds.includes(id)
+      ? formData.secondaryUserIds.filter((u) => u !== id)
+      : [...formData.secondaryUserIds, id]
+    setFormData({ ...formData, secondaryUserIds: ids })
+  }
+
+  const setNumber = (key: keyof EscalationPolicy, value: string) => {
+    if (!formData) return
+    setFormData({ ...formData, [key]: parseInt(value) || 0 })
+  }
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
+      </div>
+    )
+  }
+
+  const usernames = new Map(users.map((u) => [u.id, u.username]))
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-medium text-gray-900">Escalation</h3>
+        <button
+          onClick={() => {
+            setEditing(false)
+            setFormData({ ...EMPTY_POLICY, eventType: availableTypes[0] ?? '' })
+          }}
+          disabled={availableTypes.length === 0}
+          className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+        >
+          <PlusIcon className="h-4 w-4 mr-2" />
+          Add Policy
+        </button>
+      </div>
+
+      <p className="text-sm text-gray-500">
+        When an active alert stays unacknowledged, re-send it at a higher Pushover priority and then
+        notify additional users. Alert types without a policy are sent once.
+      </p>
+
+      {/* Message */}
+      {message && (
+        <div className={`rounded-md p-4 ${
+          message.type === 'success' ? 'bg-green-50' : 'bg-red-50'
+        }`}>
+          <div className="flex">
+            <div className="flex-shrink-0">
+              {message.type === 'success' ? (
+                <CheckCircleIcon className="h-5 w-5 text-green-400" />
+              ) : (
+                <ExclamationTriangleIcon className="h-5 w-5 text-red-400" />
+              )}
+            </div>
+            <div className="ml-3">
+              <p className={`text-sm font-medium ${
+                message.type === 'success' ? 'text-green-800' : 'text-red-800'
+              }`}>
+                {message.text}
+              </p>
+            </div>
+            <div className="ml-auto pl-3">
+              <button
+                onClick={() => setMessage(null)}
+                className={`inline-flex rounded-md p-1.5 ${
+                  message.type === 'success'
+                    ? 'text-green-500 hover:bg-green-100'
+                    : 'text-red-500 hover:bg-red-100'
+                }`}
+              >
+                <XMarkIcon className="h-5 w-5" />
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Create / Edit Form */}
+      {formData && (
+        <div className="bg-white shadow rounded-lg p-6">
+          <h4 className="text-lg font-medium text-gray-900 mb-4">
+            {editing ? 'Edit Escalation Policy' : 'Add Escalation Policy'}
+          </h4>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Alert Type</label>
+              <select
+                value={formData.eventType}
+                disabled={editing}
+                onChange={(e) => setFormData({ ...formData, eventType: e.target.value })}
+                className="mt-1 block w-64 border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm disabled:bg-gray-100"
+              >
+                {(editing ? [formData.eventType] : availableTypes).map((type) => (
+                  <option key={type} value={type}>{EVENT_TYPE_LABELS[type] ?? type}</option>
+                ))}
+              </select>
+            </div>
+
+            <label className="flex items-center">
+              <input
+                type="checkbox"
+                checked={formData.enabled}
+                onChange={(e) => setFormData({ ...formData, enabled: e.target.checked })}
+                className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+              />
+              <span className="ml-2 text-sm text-gray-700">Enabled</span>
+            </label>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Repeat After (minutes)</label>
+                <input
+                  type="number"
+                  min="0"
+                  value={formData.repeatAfterMinutes}
+                  onChange={(e) => setNumber('repeatAfterMinutes', e.target.value)}
+                  className={NUMBER_INPUT_CLASS}
+                />
+                <p className="mt-1 text-sm text-gray-500">Re-send to the usual recipients. 0 skips this step.</p>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Pushover Priority</label>
+                <select
+                  value={formData.priority}
+                  onChange={(e) => setFormData({ ...formData, priority: parseInt(e.target.value) })}
+                  className="mt-1 block w-48 border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                >
+                  <option value={1}>High (1)</option>
+                  <option value={2}>Emergency (2)</option>
+                </select>
+                <p className="mt-1 text-sm text-gray-500">Emergency repeats until acknowledged in Pushover.</p>
+              </div>
+              {formData.priority === 2 && (
+                <>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">Retry Every (seconds)</label>
+                    <input
+                      type="number"
+                      min="30"
+                      value={formData.retrySeconds}
+                      onChange={(e) => setNumber('retrySeconds', e.target.value)}
+                      className={NUMBER_INPUT_CLASS}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">Give Up After (seconds)</label>
+                    <input
+                      type="number"
+                      min="30"
+                      max="10800"
+                      value={formData.expireSeconds}
+                      onChange={(e) => setNumber('expireSeconds', e.target.value)}
+                      className={NUMBER_INPUT_CLASS}
+                    />
+                  </div>
+                </>
+              )}
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Notify Secondary Users After (minutes)</label>
+                <input
+                  type="number"
+                  min="0"
+                  value={formData.secondaryAfterMinutes}
+                  onChange={(e) => setNumber('secondaryAfterMinutes', e.target.value)}
+                  className={NUMBER_INPUT_CLASS}
+                />
+                <p className="mt-1 text-sm text-gray-500">0 skips this step.</p>
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Secondary Users</label>
+              <p className="mt-1 text-xs text-gray-500">
+                Notified through their own Pushover and push settings, even if they turned this alert type off.
+              </p>
+              <div className="mt-2 space-y-2">
+                {users.map((user) => (
+                  <label key={user.id} className="flex items-center">
+                    <input
+                      type="checkbox"
+                      checked={formData.secondaryUserIds.includes(user.id)}
+                      onChange={() => toggleSecondaryUser(user.id)}
+                      className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                    />
+                    <span className="ml-2 text-sm text-gray-700">{user.username}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex justify-end space-x-3">
+              <button
+                type="button"
+                onClick={closeForm}
+                className="px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={!formData.eventType}
+                className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+              >
+                Save Policy
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+
+      {/* Policies List */}
+      <div className="bg-white shadow rounded-lg overflow-hidden">
+        {policies.length === 0 ? (
+          <div className="p-6 text-center text-gray-500">
+            No escalation policies. Every alert is sent once.
+          </div>
+        ) : (
+          <div className="divide-y divide-gray-200">
+            {policies.map((policy) => (
+              <div key={policy.eventType} className="p-6">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center">
+                    <BellAlertIcon className="h-8 w-8 text-gray-400" />
+                    <div className="ml-4">
+                      <div className="text-sm font-medium text-gray-900">
+                        {EVENT_TYPE_LABELS[policy.eventType] ?? policy.eventType}
+                      </div>
+                      <div className="text-sm text-gray-500">
+                        {policy.repeatAfterMinutes > 0
+                          ? `Repeat at ${policy.priority === 2 ? 'emergency' : 'high'} priority after ${policy.repeatAfterMinutes} min`
+                          : 'No repeat'}
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        {policy.secondaryAfterMinutes > 0 && policy.secondaryUserIds.length > 0
+                          ? `Then ${policy.secondaryUserIds.map((id) => usernames.get(id) ?? id).join(', ')} after ${policy.secondaryAfterMinutes} min`
+                          : 'No secondary users'}
+                      </div>
+                    </div>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
+                      policy.enabled ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
+                    }`}>
+                      {policy.enabled ? 'Enabled' : 'Disabled'}
+                    </span>
+                    <button
+                      onClick={() => {
+                        setEditing(true)
+                        setFormData({ ...policy })
+                      }}
+                      className="text-blue-600 hover:text-blue-900"
+                    >
+                      <PencilIcon className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(policy)}
+                      className="text-red-600 hover:text-red-900"
+                    >
+                      <TrashIcon className="h-4 w-4" />
+                    </button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
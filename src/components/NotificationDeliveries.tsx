@@ -0,0 +1,195 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { format } from 'date-fns'
+import {
+  PaperAirplaneIcon,
+  ArrowPathIcon,
+  ExclamationTriangleIcon,
+  XMarkIcon
+} from '@heroicons/react/24/outline'
+
+interface Delivery {
+  id: string
+  eventId: string | null
+  eventType: string
+  recipient: string
+  channel: string
+  status: 'sent' | 'retrying' | 'failed'
+  requestId: string | null
+  error: string | null
+  attempts: number
+  nextRetryAt: string | null
+  createdAt: string
+  updatedAt: string
+  event: { device: string; description: string; startTime: string } | null
+}
+
+const PAGE_SIZE = 50
+
+const STATUS_STYLES: Record<Delivery['status'], string> = {
+  sent: 'bg-green-100 text-green-800',
+  retrying: 'bg-yellow-100 text-yellow-800',
+  failed: 'bg-red-100 text-red-800'
+}
+
+export default function NotificationDeliveries() {
+  const [deliveries, setDeliveries] = useState<Delivery[]>([])
+  const [total, setTotal] = useState(0)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [status, setStatus] = useState('')
+  const [eventId, setEventId] = useState('')
+
+  const fetchDeliveries = useCallback(async (offset: number) => {
+    const params = new URLSearchParams({ limit: String(PAGE_SIZE), offset: String(offset) })
+    if (status) params.set('status', status)
+    if (eventId) params.set('eventId', eventId)
+
+    try {
+      const response = await fetch(`/api/notifications/deliveries?${params}`)
+      if (response.ok) {
+        const result = await response.json()
+        setDeliveries((prev) => (offset === 0 ? result.data : [...prev, ...result.data]))
+        setTotal(result.pagination.total)
+        setError(null)
+      } else {
+        setError('Failed to fetch delivery history')
+      }
+    } catch {
+      setError('Error fetching delivery history')
+    } finally {
+      setLoading(false)
+    }
+  }, [status, eventId])
+
+  useEffect(() => {
+    fetchDeliveries(0)
+  }, [fetchDeliveries])
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-medium text-gray-900">Notification Deliveries</h3>
+        <button
+          onClick={() => fetchDeliveries(0)}
+          className="inline-flex items-center px-3 py-1.5 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+        >
+          <ArrowPathIcon className="h-4 w-4 mr-2" />
+          Refresh
+        </button>
+      </div>
+
+      <p className="text-sm text-gray-500">
+        Every notification sent, per recipient and channel. Rate limits and server errors are retried
+        automatically with increasing delays.
+      </p>
+
+      {/* Filters */}
+      <div className="flex flex-wrap items-end gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Status</label>
+          <select
+            value={status}
+            onChange={(e) => setStatus(e.target.value)}
+            className="mt-1 block w-40 border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+          >
+            <option value="">All</option>
+            <option value="sent">Sent</option>
+            <option value="retrying">Retrying</option>
+            <option value="failed">Failed</option>
+          </select>
+        </div>
+        {eventId && (
+          <span className="inline-flex items-center px-3 py-1.5 rounded-full text-sm bg-blue-50 text-blue-800">
+            Event {eventId}
+            <button onClick={() => setEventId('')} className="ml-2 text-blue-500 hover:text-blue-700">
+              <XMarkIcon className="h-4 w-4" />
+            </button>
+          </span>
+        )}
+      </div>
+
+      {error && (
+        <div className="rounded-md p-4 bg-red-50">
+          <div className="flex">
+            <ExclamationTriangleIcon className="h-5 w-5 text-red-400" />
+            <p className="ml-3 text-sm font-medium text-red-800">{error}</p>
+          </div>
+        </div>
+      )}
+
+      {/* Deliveries List */}
+      <div className="bg-white shadow rounded-lg overflow-hidden">
+        {deliveries.length === 0 ? (
+          <div className="p-6 text-center text-gray-500">
+            No notification deliveries recorded.
+          </div>
+        ) : (
+          <div className="divide-y divide-gray-200">
+            {deliveries.map((delivery) => (
+              <div key={delivery.id} className="p-4">
+                <div className="flex items-start justify-between">
+                  <div className="flex items-start">
+                    <PaperAirplaneIcon className="h-6 w-6 text-gray-400 mt-0.5" />
+                    <div className="ml-4">
+                      <div className="text-sm font-medium text-gray-900">
+                        {delivery.eventType} via {delivery.channel} to {delivery.recipient}
+                      </div>
+                      {delivery.event && (
+                        <div className="text-sm text-gray-500">
+                          {delivery.event.device}: {delivery.event.description}
+                        </div>
+                      )}
+                      {delivery.error && (
+                        <div className="text-xs text-red-600">{delivery.error}</div>
+                      )}
+                      <div className="text-xs text-gray-500">
+                        {format(new Date(delivery.createdAt), 'MMM d, yyyy HH:mm:ss')}
+                        {` · ${delivery.attempts} attempt${delivery.attempts === 1 ? '' : 's'}`}
+                        {delivery.nextRetryAt && delivery.status === 'retrying' &&
+                          ` · next retry ${format(new Date(delivery.nextRetryAt), 'HH:mm:ss')}`}
+                        {delivery.requestId && ` · request ${delivery.requestId}`}
+                      </div>
+                      {delivery.eventId && delivery.eventId !== eventId && (
+                        <button
+                          onClick={() => setEventId(delivery.eventId as string)}
+                          className="text-xs text-blue-600 hover:text-blue-900"
+                        >
+                          All deliveries for this event
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                  <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${STATUS_STYLES[delivery.status]}`}>
+                    {delivery.status}
+                  </span>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {deliveries.length < total && (
+        <div className="flex justify-center">
+          <button
+            onClick={() => fetchDeliveries(deliveries.length)}
+            className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+          >
+            Load more ({total - deliveries.length} remaining)
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
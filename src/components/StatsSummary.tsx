@@ -6,11 +6,15 @@ import {
   BoltIcon,
   ClockIcon,
   ArrowTrendingDownIcon,
+  BeakerIcon,
   ExclamationCircleIcon,
+  HeartIcon,
 } from '@heroicons/react/24/outline'
 import { useAutoRefresh } from '@/hooks/useAutoRefresh'
 import { LastUpdated } from '@/components/LastUpdated'
 import { formatCount, formatDuration } from '@/lib/format'
+import type { ChannelNames, PumpChannel } from '@/lib/pump-channels'
+import type { TankHealthReport } from '@/lib/tank-health'
 
 /**
  * The aggregated stats payload returned by `GET /api/stats` (the `stats` field).
@@ -26,12 +30,29 @@ export interface AggregatedStats {
   sampleCount: number
   averagePumpRunSeconds: number
   averageLowPressureSeconds: number
+  /** Estimated water use; `null` when no pump flow rate is configured. */
+  estimatedGallons: number | null
+  averageGallonsPerRun: number | null
+  gallonsPerHour: number | null
+  gallonsPerDay: number | null
+  gallonsPerWeek: number | null
 }
 
 interface StatsResponse {
   stats?: AggregatedStats
+  /** Display name of each channel, keyed by channel number. */
+  channelNames?: ChannelNames
 }
 
+type DeviceTankHealth = TankHealthReport & { device: string }
+
+/** `GET /api/stats/tank`: one tank health report per device. */
+interface TankHealthResponse {
+  devices?: DeviceTankHealth[]
+}
+
+const DEFAULT_CHANNEL_NAMES: ChannelNames = { 1: 'Pump 1', 2: 'Pump 2' }
+
 /** Selectable summary windows. `all` sends no date bounds (lifetime totals). */
 type RangeKey = '24h' | '7d' | '30d' | 'all'
 
@@ -157,6 +178,13 @@ export interface StatsSummaryProps {
  * instance (one-minute poll + manual refresh + pause-when-hidden), so the panel
  * keeps the user's selected window fresh without coupling to the rest of the
  * dashboard's refresh cycle. Changing the range re-queries immediately.
+ *
+ * A channel selector switches the run and runtime cards between the two pump
+ * circuits, labelled with the names the endpoint returns.
+ *
+ * Tank health cards come from `GET /api/stats/tank`, one per device with a
+ * score. The score moves over weeks and the endpoint scans weeks of rows, so
+ * it loads once per device rather than on the one-minute poll or per range.
  */
 export function StatsSummary({
   device,
@@ -164,7 +192,10 @@ export function StatsSummary({
   className = '',
 }: StatsSummaryProps) {
   const [range, setRange] = useState<RangeKey>(initialRange)
+  const [channel, setChannel] = useState<PumpChannel>(1)
+  const [channelNames, setChannelNames] = useState(DEFAULT_CHANNEL_NAMES)
   const [stats, setStats] = useState<AggregatedStats | null>(null)
+  const [tankReports, setTankReports] = useState<DeviceTankHealth[]>([])
 
   const fetchStats = useCallback(
     async (signal: AbortSignal) => {
@@ -173,6 +204,7 @@ export function StatsSummary({
       if (start) params.set('startDate', start.toISOString())
       if (end) params.set('endDate', end.toISOString())
       if (device) params.set('device', device)
+      params.set('channel', String(channel))
 
       const query = params.toString()
       const res = await fetch(`/api/stats${query ? `?${query}` : ''}`, {
@@ -185,12 +217,13 @@ export function StatsSummary({
       const body: StatsResponse = await res.json()
       if (signal.aborted) return
       setStats(body.stats ?? null)
+      if (body.channelNames) setChannelNames(body.channelNames)
     },
-    [range, device]
+    [range, device, channel]
   )
 
   // The hook owns the interval poll + visibility behaviour; mount and
-  // range/device changes are driven by the effect below so a range switch
+  // range/device/channel changes are driven by the effect below so a range switch
   // re-queries straight away (the hook intentionally does not re-run when its
   // callback identity changes).
   const { loading, lastUpdated, error, isPaused, refresh } = useAutoRefresh(
@@ -201,7 +234,23 @@ export function StatsSummary({
   useEffect(() => {
     void refresh()
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [range, device])
+  }, [range, device, channel])
+
+  // Best effort: without a score the cards simply don't show, and the stats
+  // banner already reports an unreachable server.
+  useEffect(() => {
+    const controller = new AbortController()
+    const query = device ? `?${new URLSearchParams({ device })}` : ''
+    fetch(`/api/stats/tank${query}`, { signal: controller.signal, cache: 'no-store' })
+      .then((res) => (res.ok ? (res.json() as Promise<TankHealthResponse>) : null))
+      .then((body) => {
+        if (body?.devices) setTankReports(body.devices)
+      })
+      .catch(() => {})
+    return () => controller.abort()
+  }, [device])
+
+  const tankScores = tankReports.filter((report) => report.score !== null)
 
   // First load shows skeletons; later refreshes keep the prior values visible.
   const showSkeleton = loading && !stats
@@ -214,6 +263,18 @@ export function StatsSummary({
         </h3>
         <div className="mt-3 flex items-center gap-3 sm:mt-0">
           <LastUpdated date={lastUpdated} loading={loading} isPaused={isPaused} />
+          <label htmlFor="stats-channel" className="sr-only">
+            Pump channel
+          </label>
+          <select
+            id="stats-channel"
+            value={channel}
+            onChange={(e) => setChannel(Number(e.target.value) as PumpChannel)}
+            className="block pl-3 pr-10 py-2 text-sm border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 rounded-md"
+          >
+            <option value={1}>{channelNames[1]}</option>
+            <option value={2}>{channelNames[2]}</option>
+          </select>
           <label htmlFor="stats-range" className="sr-only">
             Stats time range
           </label>
@@ -300,6 +361,38 @@ export function StatsSummary({
           loading={showSkeleton}
           testId="stat-low-pressure-time"
         />
+        {typeof stats?.estimatedGallons === 'number' && (
+          <StatCard
+            label="Water Used (est.)"
+            value={`${formatCount(Math.round(stats.estimatedGallons))} gal`}
+            detail={
+              stats.gallonsPerDay !== null
+                ? `~${formatCount(Math.round(stats.gallonsPerDay))} gal / day`
+                : undefined
+            }
+            icon={BeakerIcon}
+            iconClass="text-cyan-600"
+            loading={false}
+            testId="stat-water-used"
+          />
+        )}
+        {tankScores.map((report) => (
+          <StatCard
+            key={report.device}
+            label={tankScores.length > 1 ? `Tank Health (${report.device})` : 'Tank Health'}
+            value={`${report.score}/100`}
+            detail={
+              report.currentRisePsiPerMinute !== null &&
+              report.referenceRisePsiPerMinute !== null
+                ? `${report.currentRisePsiPerMinute.toFixed(1)} PSI/min (best ${report.referenceRisePsiPerMinute.toFixed(1)})`
+                : undefined
+            }
+            icon={HeartIcon}
+            iconClass="text-rose-600"
+            loading={false}
+            testId={`stat-tank-health-${report.device}`}
+          />
+        ))}
       </div>
     </section>
   )
@@ -0,0 +1,411 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import {
+  GlobeAltIcon,
+  PlusIcon,
+  TrashIcon,
+  PencilIcon,
+  PaperAirplaneIcon,
+  ExclamationTriangleIcon,
+  CheckCircleIcon,
+  XMarkIcon
+} from '@heroicons/react/24/outline'
+
+interface Webhook {
+  id: string
+  name: string
+  url: string
+  secret: string
+  eventTypes: string[]
+  enabled: boolean
+}
+
+interface WebhookForm {
+  id?: string
+  name: string
+  url: string
+  /** New secret to set; blank keeps the current one (or generates one). */
+  secret: string
+  eventTypes: string[]
+  enabled: boolean
+  rotateSecret: boolean
+}
+
+interface Message {
+  type: 'success' | 'error'
+  text: string
+}
+
+/** Event types a webhook can listen to, in the order they're listed. */
+const EVENT_TYPE_LABELS: Record<string, string> = {
+  DRY_RUN: 'Dry Run',
+  LOW_PRESSURE: 'Low Pressure',
+  HIGH_CURRENT: 'High Current',
+  LOW_TEMPERATURE: 'Low Temperature',
+  FREEZE_RISK: 'Freeze Risk',
+  PRESSURE_DROP: 'Pressure Drop',
+  LONG_PUMP_RUN: 'Long Pump Run',
+  SHORT_CYCLING: 'Short Cycling',
+  MISSING_DATA: 'Missing Data',
+  SENSOR_ERROR: 'Sensor Error',
+  SYSTEM_ERROR: 'System Error',
+  HIGH_HUMIDITY: 'High Humidity',
+  CURRENT_DRIFT: 'Current Drift',
+  TANK_DEGRADED: 'Tank Degraded',
+  HIGH_WATER_USAGE: 'High Water Usage'
+}
+
+const EMPTY_FORM: WebhookForm = {
+  name: '',
+  url: '',
+  secret: '',
+  eventTypes: [],
+  enabled: true,
+  rotateSecret: false
+}
+
+const TEXT_INPUT_CLASS =
+  'mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm'
+
+export default function Webhooks() {
+  const [webhooks, setWebhooks] = useState<Webhook[]>([])
+  const [loading, setLoading] = useState(true)
+  const [message, setMessage] = useState<Message | null>(null)
+  const [formData, setFormData] = useState<WebhookForm | null>(null)
+  const [revealed, setRevealed] = useState<string | null>(null)
+  const [testing, setTesting] = useState<string | null>(null)
+
+  const fetchWebhooks = useCallback(async () => {
+    try {
+      const response = await fetch('/api/webhooks')
+      if (response.ok) {
+        setWebhooks(await response.json())
+      } else {
+        setMessage({ type: 'error', text: 'Failed to fetch webhooks' })
+      }
+    } catch {
+      setMessage({ type: 'error', text: 'Error fetching webhooks' })
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchWebhooks()
+  }, [fetchWebhooks])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!formData) return
+    setMessage(null)
+
+    const { id, ...body } = formData
+    try {
+      const response = await fetch(id ? `/api/webhooks/${id}` : '/api/webhooks', {
+        method: id ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      })
+
+      if (response.ok) {
+        const saved: Webhook = await response.json()
+        setMessage({ type: 'success', text: 'Webhook saved' })
+        setFormData(null)
+        // Show the secret right away so it can be copied to the receiver.
+        setRevealed(saved.id)
+        fetchWebhooks()
+      } else {
+        const error = await response.json()
+        setMessage({ type: 'error', text: error.error || 'Failed to save webhook' })
+      }
+    } catch {
+      setMessage({ type: 'error', text: 'Network error occurred' })
+    }
+  }
+
+  const handleDelete = async (webhook: Webhook) => {
+    if (!confirm(`Remove the webhook "${webhook.name}"?`)) return
+
+    try {
+      const response = await fetch(`/api/webhooks/${webhook.id}`, { method: 'DELETE' })
+
+      if (response.ok) {
+        setMessage({ type: 'success', text: 'Webhook removed' })
+        fetchWebhooks()
+      } else {
+        const error = await response.json()
+        setMessage({ type: 'error', text: error.error || 'Failed to remove webhook' })
+      }
+    } catch {
+      setMessage({ type: 'error', text: 'Error removing webhook' })
+    }
+  }
+
+  const handleTest = async (webhook: Webhook) => {
+    setTesting(webhook.id)
+    setMessage(null)
+    try {
+      const response = await fetch(`/api/webhooks/${webhook.id}/test`, { method: 'POST' })
+      const result = await response.json()
+      if (response.ok) {
+        setMessage({ type: 'success', text: `Test sent to ${webhook.name}` })
+      } else {
+        setMessage({ type: 'error', text: `Test failed: ${result.reason || result.error || 'unknown error'}` })
+      }
+    } catch {
+      setMessage({ type: 'error', text: 'Error sending test webhook' })
+    } finally {
+      setTesting(null)
+    }
+  }
+
+  const toggleEventType = (type: string) => {
+    if (!formData) return
+    const eventTypes = formData.eventTypes.includes(type)
+      ? formData.eventTypes.filter((t) => t !== type)
+      : [...formData.eventTypes, type]
+    setFormData({ ...formData, eventTypes })
+  }
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-medium text-gray-900">Webhooks</h3>
+        <button
+          onClick={() => setFormData({ ...EMPTY_FORM })}
+          className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700"
+        >
+          <PlusIcon className="h-4 w-4 mr-2" />
+          Add Webhook
+        </button>
+      </div>
+
+      <p className="text-sm text-gray-500">
+        POST a signed JSON body to another system, such as Home Assistant or a chat bot, whenever an
+        alert is raised, updated, acknowledged or resolved. Failed deliveries are retried.
+      </p>
+
+      {/* Message */}
+      {message && (
+        <div className={`rounded-md p-4 ${
+          message.type === 'success' ? 'bg-green-50' : 'bg-red-50'
+        }`}>
+          <div className="flex">
+            <div className="flex-shrink-0">
+              {message.type === 'success' ? (
+                <CheckCircleIcon className="h-5 w-5 text-green-400" />
+              ) : (
+                <ExclamationTriangleIcon className="h-5 w-5 text-red-400" />
+              )}
+            </div>
+            <div className="ml-3">
+              <p className={`text-sm font-medium ${
+                message.type === 'success' ? 'text-green-800' : 'text-red-800'
+              }`}>
+                {message.text}
+              </p>
+            </div>
+            <div className="ml-auto pl-3">
+              <button
+                onClick={() => setMessage(null)}
+                className={`inline-flex rounded-md p-1.5 ${
+                  message.type === 'success'
+                    ? 'text-green-500 hover:bg-green-100'
+                    : 'text-red-500 hover:bg-red-100'
+                }`}
+              >
+                <XMarkIcon className="h-5 w-5" />
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Create / Edit Form */}
+      {formData && (
+        <div className="bg-white shadow rounded-lg p-6">
+          <h4 className="text-lg font-medium text-gray-900 mb-4">
+            {formData.id ? 'Edit Webhook' : 'Add Webhook'}
+          </h4>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Name</label>
+              <input
+                type="text"
+                required
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                className={TEXT_INPUT_CLASS}
+                placeholder="Home Assistant"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">URL</label>
+              <input
+                type="url"
+                required
+                value={formData.url}
+                onChange={(e) => setFormData({ ...formData, url: e.target.value })}
+                className={TEXT_INPUT_CLASS}
+                placeholder="https://homeassistant.local:8123/api/webhook/well-pump"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Signing Secret</label>
+              <input
+                type="text"
+                value={formData.secret}
+                onChange={(e) => setFormData({ ...formData, secret: e.target.value })}
+                className={TEXT_INPUT_CLASS}
+                placeholder={formData.id ? 'Leave blank to keep the current secret' : 'Leave blank to generate one'}
+              />
+              {formData.id && (
+                <label className="mt-2 flex items-center">
+                  <input
+                    type="checkbox"
+                    checked={formData.rotateSecret}
+                    onChange={(e) => setFormData({ ...formData, rotateSecret: e.target.checked })}
+                    className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                  />
+                  <span className="ml-2 text-sm text-gray-700">Generate a new secret</span>
+                </label>
+              )}
+            </div>
+
+            <label className="flex items-center">
+              <input
+                type="checkbox"
+                checked={formData.enabled}
+                onChange={(e) => setFormData({ ...formData, enabled: e.target.checked })}
+                className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+              />
+              <span className="ml-2 text-sm text-gray-700">Enabled</span>
+            </label>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Alert Types</label>
+              <p className="mt-1 text-xs text-gray-500">Leave all unticked to receive every type.</p>
+              <div className="mt-2 grid grid-cols-1 sm:grid-cols-3 gap-2">
+                {Object.entries(EVENT_TYPE_LABELS).map(([type, label]) => (
+                  <label key={type} className="flex items-center">
+                    <input
+                      type="checkbox"
+                      checked={formData.eventTypes.includes(type)}
+                      onChange={() => toggleEventType(type)}
+                      className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                    />
+                    <span className="ml-2 text-sm text-gray-700">{label}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex justify-end space-x-3">
+              <button
+                type="button"
+                onClick={() => setFormData(null)}
+                className="px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700"
+              >
+                Save Webhook
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+
+      {/* Webhooks List */}
+      <div className="bg-white shadow rounded-lg overflow-hidden">
+        {webhooks.length === 0 ? (
+          <div className="p-6 text-center text-gray-500">
+            No webhooks configured.
+          </div>
+        ) : (
+          <div className="divide-y divide-gray-200">
+            {webhooks.map((webhook) => (
+              <div key={webhook.id} className="p-6">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center min-w-0">
+                    <GlobeAltIcon className="h-8 w-8 text-gray-400 flex-shrink-0" />
+                    <div className="ml-4 min-w-0">
+                      <div className="text-sm font-medium text-gray-900">{webhook.name}</div>
+                      <div className="text-sm text-gray-500 truncate">{webhook.url}</div>
+                      <div className="text-xs text-gray-500">
+                        {webhook.eventTypes.length === 0
+                          ? 'All alert types'
+                          : webhook.eventTypes.map((t) => EVENT_TYPE_LABELS[t] ?? t).join(', ')}
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        Secret:{' '}
+                        {revealed === webhook.id ? (
+                          <code className="font-mono break-all">{webhook.secret}</code>
+                        ) : (
+                          <button
+                            onClick={() => setRevealed(webhook.id)}
+                            className="text-blue-600 hover:text-blue-900"
+                          >
+                            Show
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
+                      webhook.enabled ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
+                    }`}>
+                      {webhook.enabled ? 'Enabled' : 'Disabled'}
+                    </span>
+                    <button
+                      onClick={() => handleTest(webhook)}
+                      disabled={testing === webhook.id}
+                      title="Send test"
+                      className="text-gray-600 hover:text-gray-900 disabled:opacity-50"
+                    >
+                      <PaperAirplaneIcon className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => setFormData({
+                        id: webhook.id,
+                        name: webhook.name,
+                        url: webhook.url,
+                        secret: '',
+                        eventTypes: webhook.eventTypes,
+                        enabled: webhook.enabled,
+                        rotateSecret: false
+                      })}
+                      className="text-blue-600 hover:text-blue-900"
+                    >
+                      <PencilIcon className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(webhook)}
+                      className="text-red-600 hover:text-red-900"
+                    >
+                      <TrashIcon className="h-4 w-4" />
+                    </button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
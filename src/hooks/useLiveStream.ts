@@ -0,0 +1,143 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import {
+  useAutoRefresh,
+  type RefreshCallback,
+  type UseAutoRefreshOptions,
+  type UseAutoRefreshResult,
+} from '@/hooks/useAutoRefresh'
+
+/**
+ * Handlers for the messages of `GET /api/stream`, each receiving the parsed
+ * JSON data: a stored sensor row (dates as ISO strings, like
+ * `GET /api/sensors`) or an event transition (the webhook body plus a
+ * `timestamp`).
+ */
+export interface LiveStreamHandlers<S, E> {
+  onSensor?: (row: S) => void
+  onEvent?: (transition: E) => void
+}
+
+export interface UseLiveStreamOptions extends UseAutoRefreshOptions {
+  /** Stream endpoint. Defaults to `/api/stream`. */
+  url?: string
+  /**
+   * How long to wait before reopening a stream the server refused or ended
+   * (the browser retries a dropped connection on its own). Defaults to 30_000.
+   */
+  reconnectMs?: number
+}
+
+export interface UseLiveStreamResult extends UseAutoRefreshResult {
+  /** True while the stream is open and polling is switched off. */
+  live: boolean
+}
+
+const DEFAULT_URL = '/api/stream'
+const DEFAULT_RECONNECT_MS = 30_000
+
+/**
+ * Live updates over Server-Sent Events, falling back to polling.
+ *
+ * Opens an `EventSource` on `/api/stream` and hands each `sensor` and `event`
+ * message to the handlers as it arrives. While the stream is open the
+ * {@link useAutoRefresh} poll of `fallback` is switched off; when it drops (or
+ * the browser has no `EventSource`) polling takes over again, starting with an
+ * immediate refresh. When the stream comes back `fallback` runs once more to
+ * pick up anything sent while it was down.
+ *
+ * `lastUpdated` is the later of the last successful refresh and the last
+ * message received.
+ *
+ * @example
+ * const { live, lastUpdated, refresh } = useLiveStream<SensorData, EventTransition>(
+ *   loadDashboard,
+ *   { onSensor: (row) => setLatest(row) }
+ * )
+ */
+export function useLiveStream<S = unknown, E = unknown>(
+  fallback: RefreshCallback,
+  handlers: LiveStreamHandlers<S, E>,
+  options: UseLiveStreamOptions = {}
+): UseLiveStreamResult {
+  const {
+    url = DEFAULT_URL,
+    reconnectMs = DEFAULT_RECONNECT_MS,
+    enabled = true,
+    ...autoRefreshOptions
+  } = options
+
+  const [live, setLive] = useState(false)
+  const [lastMessageAt, setLastMessageAt] = useState<Date | null>(null)
+
+  // Keep the latest handlers without reopening the stream on every render.
+  const handlersRef = useRef(handlers)
+  useEffect(() => {
+    handlersRef.current = handlers
+  }, [handlers])
+
+  const autoRefresh = useAutoRefresh(fallback, {
+    ...autoRefreshOptions,
+    enabled: enabled && !live,
+  })
+  const { refresh } = autoRefresh
+
+  useEffect(() => {
+    if (!enabled || typeof EventSource === 'undefined') return
+
+    let source: EventSource | null = null
+    let reconnect: ReturnType<typeof setTimeout> | undefined
+    let dropped = false
+
+    const receive = <T,>(handle: ((data: T) => void) | undefined, raw: string) => {
+      let data: unknown
+      try {
+        data = JSON.parse(raw)
+      } catch {
+        return
+      }
+      setLastMessageAt(new Date())
+      handle?.(data as T)
+    }
+
+    const open = () => {
+      const current = new EventSource(url)
+      source = current
+      current.onopen = () => {
+        setLive(true)
+        if (dropped) void refresh()
+      }
+      current.onerror = () => {
+        dropped = true
+        setLive(false)
+        if (current.readyState === EventSource.CLOSED) {
+          current.close()
+          reconnect = setTimeout(open, reconnectMs)
+        }
+      }
+      current.addEventListener('sensor', (message) => {
+        receive(handlersRef.current.onSensor, (message as MessageEvent<string>).data)
+      })
+      current.addEventListener('event', (message) => {
+        receive(handlersRef.current.onEvent, (message as MessageEvent<string>).data)
+      })
+    }
+
+    open()
+    return () => {
+      clearTimeout(reconnect)
+      source?.close()
+      setLive(false)
+    }
+  }, [enabled, url, reconnectMs, refresh])
+
+  const lastUpdated =
+    lastMessageAt && (!autoRefresh.lastUpdated || lastMessageAt > autoRefresh.lastUpdated)
+      ? lastMessageAt
+      : autoRefresh.lastUpdated
+
+  return { ...autoRefresh, lastUpdated, live }
+}
+
+export default useLiveStream
@@ -10,6 +10,16 @@ export async function register() {
     const { validateNotificationConfig } = await import('./lib/notifications')
     validateNotificationConfig()
 
+    // Register devices that reported before the registry existed, before any
+    // new post can make the registry non-empty. Never throws.
+    const { seedDeviceRegistry } = await import('./lib/devices')
+    await seedDeviceRegistry()
+
+    // Optional MQTT transport for device posts, next to the HTTP routes. A
+    // no-op unless enabled in Settings → System → MQTT; never throws.
+    const { startMqttIngestion } = await import('./lib/mqtt-ingestion')
+    await startMqttIngestion()
+
     // Schedule cleanup to run daily at 2:00 AM
     cron.default.schedule('0 2 * * *', async () => {
       console.log('[Scheduler] Running daily data cleanup...')
@@ -43,6 +53,36 @@ export async function register() {
 
     console.log('[Scheduler] Hourly summary-report tick scheduled')
 
+    // Hourly CURRENT_DRIFT sweep. Drift develops over days and the baseline
+    // is a 30-day median, so there's nothing to gain from checking on ingest.
+    // The sweep also caches each device's loaded-current baseline for dry-run
+    // detection, so run it once now rather than an hour after a restart.
+    const { checkCurrentDrift } = await import('./lib/current-drift')
+    void checkCurrentDrift()
+    cron.default.schedule('30 * * * *', async () => {
+      await checkCurrentDrift()
+    })
+
+    console.log('[Scheduler] Hourly current-drift tick scheduled')
+
+    // Hourly HIGH_WATER_USAGE check against the daily budget (rolling 24h).
+    // A no-op until an admin sets both a flow rate and a budget.
+    const { checkWaterBudget } = await import('./lib/water-usage')
+    cron.default.schedule('15 * * * *', async () => {
+      await checkWaterBudget()
+    })
+
+    console.log('[Scheduler] Hourly water-budget tick scheduled')
+
+    // Daily TANK_DEGRADED check. The score compares weekly medians, so once a
+    // day is plenty; it's a no-op until an admin sets an alert score.
+    const { checkTankHealth } = await import('./lib/tank-health')
+    cron.default.schedule('0 3 * * *', async () => {
+      await checkTankHealth()
+    })
+
+    console.log('[Scheduler] Daily tank-health check scheduled for 3:00 AM')
+
     // Per-minute MISSING_DATA sweep. Sensor stream cadence is ~1 row/minute,
     // so a 1-min tick keeps detection latency aligned with the data cadence.
     // The check itself is self-guarding and never throws.
@@ -52,5 +92,39 @@ export async function register() {
     })
 
     console.log('[Scheduler] Per-minute missing-data tick scheduled')
+
+    // Per-minute escalation sweep for unacknowledged alerts. A no-op until an
+    // admin adds an escalation policy; never throws.
+    const { runEscalations } = await import('./lib/escalation')
+    cron.default.schedule('* * * * *', async () => {
+      await runEscalations()
+    })
+
+    console.log('[Scheduler] Per-minute escalation tick scheduled')
+
+    // Per-minute quiet-hours digest: sends alerts held back by a user's quiet
+    // hours once their window ends. Never throws.
+    const { runQuietHoursDigests } = await import('./lib/digest')
+    cron.default.schedule('* * * * *', async () => {
+      const results = await runQuietHoursDigests()
+      if (results.length > 0) {
+        const delivered = results.filter((r) => r.delivered).length
+        console.log(`[Scheduler] Quiet-hours digests: ${delivered}/${results.length} delivered`)
+      }
+    })
+
+    console.log('[Scheduler] Per-minute quiet-hours digest tick scheduled')
+
+    // Per-minute retry of notification deliveries that failed transiently,
+    // with exponential backoff per delivery. Never throws.
+    const { retryNotificationDeliveries } = await import('./lib/notifications')
+    cron.default.schedule('* * * * *', async () => {
+      const retried = await retryNotificationDeliveries()
+      if (retried > 0) {
+        console.log(`[Scheduler] Retried ${retried} notification deliveries`)
+      }
+    })
+
+    console.log('[Scheduler] Per-minute notification retry tick scheduled')
   }
 }
@@ -34,48 +34,57 @@ export async function getAuthContext(request: NextRequest): Promise<AuthContext>
   // Try device token authentication
   const authHeader = request.headers.get('authorization')
   if (authHeader?.startsWith('Bearer ')) {
-    const token = authHeader.substring(7)
-    
-    const deviceToken = await prisma.deviceToken.findUnique({
-      where: { 
-        token,
-        isActive: true
-      },
-      include: {
-        user: {
-          select: {
-            id: true,
-            username: true,
-            role: true
-          }
-        }
-      }
-    })
+    const deviceContext = await authenticateDeviceToken(authHeader.substring(7))
+    if (deviceContext) return deviceContext
+  }
 
-    if (deviceToken && (!deviceToken.expiresAt || deviceToken.expiresAt > new Date())) {
-      // Update last used timestamp
-      await prisma.deviceToken.update({
-        where: { id: deviceToken.id },
-        data: { lastUsed: new Date() }
-      })
+  return {
+    isAuthenticated: false,
+    authMethod: 'none'
+  }
+}
 
-      return {
-        isAuthenticated: true,
-        user: deviceToken.user,
-        deviceToken: {
-          id: deviceToken.id,
-          name: deviceToken.name,
-          permissions: deviceToken.permissions as Record<string, boolean>,
-          userId: deviceToken.userId
-        },
-        authMethod: 'device-token'
+/**
+ * Authenticate a device by its token, as sent in the `Authorization` header
+ * or an MQTT message. Returns null for an unknown, inactive or expired token.
+ */
+export async function authenticateDeviceToken(token: string): Promise<AuthContext | null> {
+  const deviceToken = await prisma.deviceToken.findUnique({
+    where: { 
+      token,
+      isActive: true
+    },
+    include: {
+      user: {
+        select: {
+          id: true,
+          username: true,
+          role: true
+        }
       }
     }
+  })
+
+  if (!deviceToken || (deviceToken.expiresAt && deviceToken.expiresAt <= new Date())) {
+    return null
   }
 
+  // Update last used timestamp
+  await prisma.deviceToken.update({
+    where: { id: deviceToken.id },
+    data: { lastUsed: new Date() }
+  })
+
   return {
-    isAuthenticated: false,
-    authMethod: 'none'
+    isAuthenticated: true,
+    user: deviceToken.user,
+    deviceToken: {
+      id: deviceToken.id,
+      name: deviceToken.name,
+      permissions: deviceToken.permissions as Record<string, boolean>,
+      userId: deviceToken.userId
+    },
+    authMethod: 'device-token'
   }
 }
 
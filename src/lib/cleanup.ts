@@ -41,6 +41,17 @@ export async function cleanupOldData(retentionMonths: number = 2): Promise<Clean
       }
     })
 
+    // Deliveries for deleted events went with them; prune the rest (manual
+    // and test sends) on the same schedule
+    await prisma.notificationDelivery.deleteMany({
+      where: {
+        eventId: null,
+        createdAt: {
+          lt: eventCutoffDate
+        }
+      }
+    })
+
     // Log the cleanup operation
     await prisma.dataRetentionLog.create({
       data: {
@@ -86,6 +97,57 @@ export async function cleanupOldData(retentionMonths: number = 2): Promise<Clean
   }
 }
 
+export interface DeduplicateResult {
+  success: boolean
+  /** Number of (device, startTime) windows that had more than one row. */
+  duplicateWindows: number
+  /** Rows removed; the earliest-stored row of each window is kept. */
+  rowsDeleted: number
+  error?: string
+}
+
+/**
+ * Collapse duplicate sensor rows stored before ingestion became idempotent.
+ * A retried POST used to insert the same (device, startTime) window twice,
+ * which double-counts pump runtime in the stats. For every such window the
+ * earliest-stored row (by createdAt, then id) is kept and the rest deleted.
+ *
+ * One-off: run it once before applying the `@@unique([device, startTime])`
+ * constraint. Safe to re-run — with no duplicates left it deletes nothing.
+ */
+export async function collapseDuplicateSensorData(): Promise<DeduplicateResult> {
+  try {
+    const groups = await prisma.$queryRaw<Array<{ windows: bigint }>>`
+      SELECT COUNT(*) AS windows FROM (
+        SELECT 1 FROM sensor_data
+        GROUP BY device, "startTime"
+        HAVING COUNT(*) > 1
+      ) dup
+    `
+    const duplicateWindows = Number(groups[0]?.windows ?? 0)
+
+    const rowsDeleted = await prisma.$executeRaw`
+      DELETE FROM sensor_data d
+      USING (
+        SELECT id, ROW_NUMBER() OVER (
+          PARTITION BY device, "startTime"
+          ORDER BY "createdAt" ASC, id ASC
+        ) AS rn
+        FROM sensor_data
+      ) ranked
+      WHERE d.id = ranked.id AND ranked.rn > 1
+    `
+
+    console.log(`[Cleanup] Collapsed ${duplicateWindows} duplicate sensor windows (${rowsDeleted} rows deleted)`)
+
+    return { success: true, duplicateWindows, rowsDeleted }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    console.error('[Cleanup] Error collapsing duplicate sensor data:', error)
+    return { success: false, duplicateWindows: 0, rowsDeleted: 0, error: errorMessage }
+  }
+}
+
 /**
  * Get the latest cleanup logs
  */
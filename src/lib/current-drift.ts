@@ -0,0 +1,380 @@
+/**
+ * Pump motor health: a rolling baseline of the loaded running current and
+ * CURRENT_DRIFT alerts when recent draw moves away from it.
+ *
+ * The HIGH_CURRENT check only compares `current1RMS` against a fixed ceiling,
+ * which a motor trips once it is already in trouble. Slow changes in the
+ * current a pump draws while it is doing its normal work come much earlier:
+ * worn bearings and a failing run capacitor push it up, and so does supply
+ * voltage sag. Each pump has its own normal draw, so the reference is learned
+ * per device rather than configured.
+ *
+ * Only "loaded" rows count — rows where the pump ran for (nearly) the whole
+ * sampling window. `current1RMS` is averaged over the window, so a row where
+ * the pump ran for half of it reports a much lower figure that says nothing
+ * about the motor. The baseline is the median of those rows over the past
+ * `baselineDays`, excluding the recent window being judged so a developing
+ * fault does not drag its own reference along; the recent figure is the median
+ * over the last `recentHours`. Medians keep start-up spikes and the odd noisy
+ * sample from moving either number.
+ *
+ * The check runs on an hourly cron tick rather than on ingest: drift develops
+ * over days, and the medians come from a 30-day scan.
+ */
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { dispatchEventNotifications } from '@/lib/notifications'
+import { resolveEvent, worstValue } from '@/lib/event-resolution'
+import { getScopedSettings, resolveNumericSetting } from '@/lib/device-settings'
+
+/**
+ * Defaults. A healthy motor's loaded draw varies by a few percent with supply
+ * voltage and well depth; 15% is outside that and well before the nameplate
+ * ceiling. 30 days of history gives a stable median even for a pump that runs
+ * for only minutes a day, and a 24-hour recent window smooths daily usage.
+ */
+export const DEFAULT_CURRENT_DRIFT_PERCENT = 15
+export const DEFAULT_CURRENT_BASELINE_DAYS = 30
+export const DEFAULT_CURRENT_RECENT_HOURS = 24
+
+export const CURRENT_DRIFT_PERCENT_KEY = 'currentDriftPercent'
+export const CURRENT_BASELINE_DAYS_KEY = 'currentBaselineDays'
+export const CURRENT_RECENT_HOURS_KEY = 'currentDriftRecentHours'
+
+/** A row is "loaded" when the pump ran for at least this much of the window. */
+export const LOADED_DUTY_CYCLE = 90
+
+/**
+ * Minimum loaded rows for each median to be trusted. Below these the report
+ * still returns what it has, but no alert fires or clears.
+ */
+const MIN_BASELINE_SAMPLES = 60
+const MIN_RECENT_SAMPLES = 10
+
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
+
+export interface CurrentDriftThresholds {
+  /** Deviation from the baseline (either direction, %) that fires. 0 disables. */
+  percent: number
+  /** Days of history the baseline median is taken over. */
+  baselineDays: number
+  /** Hours of recent data compared against the baseline. */
+  recentHours: number
+}
+
+/** Median loaded current over a window and how many rows it came from. */
+export interface CurrentSample {
+  medianAmps: number | null
+  sampleCount: number
+}
+
+export interface CurrentDriftResult {
+  /** Signed deviation of the recent median from the baseline, in percent. */
+  deviationPercent: number | null
+  /** Whether |deviationPercent| exceeds the threshold. */
+  drifted: boolean
+  /** Whether both medians had enough samples to judge. */
+  conclusive: boolean
+}
+
+/** One day of the loaded-current trend. */
+export interface CurrentTrendPoint {
+  /** Start of the UTC day. */
+  date: string
+  medianAmps: number
+  sampleCount: number
+}
+
+export interface CurrentBaselineReport {
+  device: string
+  baseline: CurrentSample & { from: string; to: string }
+  recent: CurrentSample & { from: string; to: string }
+  deviationPercent: number | null
+  thresholdPercent: number
+  drifted: boolean
+  /** Daily medians across the baseline and recent windows, oldest first. */
+  trend: CurrentTrendPoint[]
+}
+
+/**
+ * Compare the recent median against the baseline. Inconclusive (never drifted)
+ * when either median is missing or rests on too few rows.
+ *
+ * Pure: no I/O, exported for testing.
+ */
+export function evaluateCurrentDrift(
+  baseline: CurrentSample,
+  recent: CurrentSample,
+  percent: number,
+): CurrentDriftResult {
+  const deviationPercent =
+    baseline.medianAmps && recent.medianAmps !== null
+      ? ((recent.medianAmps - baseline.medianAmps) / baseline.medianAmps) * 100
+      : null
+  const conclusive =
+    deviationPercent !== null &&
+    baseline.sampleCount >= MIN_BASELINE_SAMPLES &&
+    recent.sampleCount >= MIN_RECENT_SAMPLES
+  return {
+    deviationPercent,
+    drifted: conclusive && percent > 0 && Math.abs(deviationPercent!) > percent,
+    conclusive,
+  }
+}
+
+/** Current-drift thresholds in effect for `device`. */
+export async function getCurrentDriftThresholds(
+  device?: string,
+): Promise<CurrentDriftThresholds> {
+  try {
+    const settings = await getScopedSettings(
+      [CURRENT_DRIFT_PERCENT_KEY, CURRENT_BASELINE_DAYS_KEY, CURRENT_RECENT_HOURS_KEY],
+      device,
+    )
+
+    const resolve = (key: string, fallback: number): number =>
+      resolveNumericSetting(settings, key, fallback)
+
+    return {
+      percent: resolve(CURRENT_DRIFT_PERCENT_KEY, DEFAULT_CURRENT_DRIFT_PERCENT),
+      // Zero-length windows would make the medians meaningless; treat them as unset.
+      baselineDays:
+        resolve(CURRENT_BASELINE_DAYS_KEY, DEFAULT_CURRENT_BASELINE_DAYS) ||
+        DEFAULT_CURRENT_BASELINE_DAYS,
+      recentHours:
+        resolve(CURRENT_RECENT_HOURS_KEY, DEFAULT_CURRENT_RECENT_HOURS) ||
+        DEFAULT_CURRENT_RECENT_HOURS,
+    }
+  } catch (error) {
+    console.error('[current-drift] failed to read thresholds:', error)
+    return {
+      percent: DEFAULT_CURRENT_DRIFT_PERCENT,
+      baselineDays: DEFAULT_CURRENT_BASELINE_DAYS,
+      recentHours: DEFAULT_CURRENT_RECENT_HOURS,
+    }
+  }
+}
+
+/** Median loaded `current1RMS` for `device` over [from, to). */
+async function loadCurrentSample(device: string, from: Date, to: Date): Promise<CurrentSample> {
+  const rows = await prisma.$queryRaw<Array<Record<string, unknown>>>(Prisma.sql`
+    SELECT
+      percentile_cont(0.5) WITHIN GROUP (ORDER BY "current1RMS") AS median_amps,
+      COUNT(*) AS sample_count
+    FROM sensor_data
+    WHERE device = ${device}
+      AND timestamp >= ${from}
+      AND timestamp < ${to}
+      AND "dutyCycle1" >= ${LOADED_DUTY_CYCLE}
+  `)
+  const row = rows[0] ?? {}
+  return {
+    medianAmps: row.median_amps === null || row.median_amps === undefined
+      ? null
+      : toNumber(row.median_amps),
+    sampleCount: toNumber(row.sample_count),
+  }
+}
+
+/** Daily median loaded `current1RMS` for `device` over [from, to). */
+async function loadCurrentTrend(
+  device: string,
+  from: Date,
+  to: Date,
+): Promise<CurrentTrendPoint[]> {
+  const rows = await prisma.$queryRaw<Array<Record<string, unknown>>>(Prisma.sql`
+    SELECT
+      date_trunc('day', timestamp) AS day,
+      percentile_cont(0.5) WITHIN GROUP (ORDER BY "current1RMS") AS median_amps,
+      COUNT(*) AS sample_count
+    FROM sensor_data
+    WHERE device = ${device}
+      AND timestamp >= ${from}
+      AND timestamp < ${to}
+      AND "dutyCycle1" >= ${LOADED_DUTY_CYCLE}
+    GROUP BY 1
+    ORDER BY 1
+  `)
+  return rows.map((row) => ({
+    date: new Date(row.day as string | Date).toISOString(),
+    medianAmps: toNumber(row.median_amps),
+    sampleCount: toNumber(row.sample_count),
+  }))
+}
+
+/**
+ * Build the baseline, recent median and (optionally) daily trend for one
+ * device. Throws on database errors.
+ */
+export async function getCurrentBaselineReport(
+  device: string,
+  now: Date = new Date(),
+  options: { includeTrend?: boolean; thresholds?: CurrentDriftThresholds } = {},
+): Promise<CurrentBaselineReport> {
+  const thresholds = options.thresholds ?? (await getCurrentDriftThresholds(device))
+  const recentFrom = new Date(now.getTime() - thresholds.recentHours * HOUR_MS)
+  const baselineFrom = new Date(recentFrom.getTime() - thresholds.baselineDays * DAY_MS)
+
+  const baseline = await loadCurrentSample(device, baselineFrom, recentFrom)
+  const recent = await loadCurrentSample(device, recentFrom, now)
+  const result = evaluateCurrentDrift(baseline, recent, thresholds.percent)
+  const trend = options.includeTrend
+    ? await loadCurrentTrend(device, baselineFrom, now)
+    : []
+
+  return {
+    device,
+    baseline: { ...baseline, from: baselineFrom.toISOString(), to: recentFrom.toISOString() },
+    recent: { ...recent, from: recentFrom.toISOString(), to: now.toISOString() },
+    deviationPercent: result.deviationPercent,
+    thresholdPercent: thresholds.percent,
+    drifted: result.drifted,
+    trend,
+  }
+}
+
+/**
+ * Baseline median of each device as of the last hourly sweep, for detectors
+ * that run on ingest and can't afford the query (see `dry-run-detection.ts`).
+ * Lives on `globalThis` because Next.js bundles the route handlers and
+ * `instrumentation.ts` separately; both must see the same map.
+ */
+const globalForCurrentDrift = globalThis as unknown as {
+  loadedCurrentBaselines: Map<string, number> | undefined
+}
+const loadedCurrentBaselines = (globalForCurrentDrift.loadedCurrentBaselines ??= new Map())
+
+/** Keep the baseline for ingest-time lookups, or forget it once it's untrusted. */
+function rememberBaseline(device: string, baseline: CurrentSample): void {
+  if (baseline.medianAmps && baseline.sampleCount >= MIN_BASELINE_SAMPLES) {
+    loadedCurrentBaselines.set(device, baseline.medianAmps)
+  } else {
+    loadedCurrentBaselines.delete(device)
+  }
+}
+
+/**
+ * Learned loaded current of `device` (A) as of the last sweep, or null until
+ * there are enough loaded rows to trust it. No I/O.
+ */
+export function getCachedLoadedCurrentBaseline(device: string): number | null {
+  return loadedCurrentBaselines.get(device) ?? null
+}
+
+/**
+ * Run the drift check for the given device and reconcile against any existing
+ * active CURRENT_DRIFT event:
+ *  - Drift detected + no existing -> create + notify
+ *  - Drift detected + existing    -> update value/duration silently
+ *  - Back within band + existing  -> resolve
+ *  - Inconclusive (too few loaded rows) -> leave any event as it is
+ * Never throws.
+ */
+export async function checkAndRecordCurrentDrift(
+  device: string,
+  location: string,
+  now: Date = new Date(),
+): Promise<void> {
+  try {
+    const thresholds = await getCurrentDriftThresholds(device)
+    // The baseline is learned even with the alert off: dry-run detection uses it.
+    const report = await getCurrentBaselineReport(device, now, { thresholds })
+    rememberBaseline(device, report.baseline)
+    if (thresholds.percent <= 0) return
+
+    const result = evaluateCurrentDrift(report.baseline, report.recent, thresholds.percent)
+    if (!result.conclusive) return
+
+    const existing = await prisma.event.findFirst({
+      where: { device, type: 'CURRENT_DRIFT', active: true },
+      orderBy: { timestamp: 'desc' },
+    })
+
+    if (result.drifted && result.deviationPercent !== null) {
+      const deviation = result.deviationPercent
+      const description =
+        `Loaded pump current ${report.recent.medianAmps!.toFixed(2)} A is ` +
+        `${Math.abs(deviation).toFixed(0)}% ${deviation > 0 ? 'above' : 'below'} ` +
+        `the ${thresholds.baselineDays}-day baseline of ` +
+        `${report.baseline.medianAmps!.toFixed(2)} A (threshold: ${thresholds.percent}%) — ` +
+        `check for bearing wear, a failing capacitor or low supply voltage`
+
+      if (existing) {
+        await prisma.event.update({
+          where: { id: existing.id },
+          data: {
+            timestamp: now,
+            value: deviation,
+            peakValue: worstValue('CURRENT_DRIFT', existing.peakValue ?? existing.value, deviation),
+            duration: BigInt(now.getTime() - existing.startTime.getTime()),
+            description,
+          },
+        })
+      } else {
+        const startTime = new Date(report.recent.from)
+        const created = await prisma.event.create({
+          data: {
+            device,
+            location,
+            timestamp: now,
+            type: 'CURRENT_DRIFT',
+            value: deviation,
+            threshold: thresholds.percent,
+            startTime,
+            duration: BigInt(now.getTime() - startTime.getTime()),
+            active: true,
+            description,
+          },
+        })
+        try {
+          await dispatchEventNotifications({
+            id: created.id,
+            type: 'CURRENT_DRIFT',
+            device,
+            location,
+            value: deviation,
+            threshold: thresholds.percent,
+            description,
+          })
+        } catch (notifyError) {
+          console.error('[current-drift] notification dispatch failed:', notifyError)
+        }
+      }
+    } else if (existing) {
+      await resolveEvent(existing, now)
+    }
+  } catch (error) {
+    console.error('[current-drift] check failed:', error)
+  }
+}
+
+/**
+ * Hourly sweep: refresh each registered device's cached baseline and run the
+ * drift check for it. Never throws.
+ */
+export async function checkCurrentDrift(now: Date = new Date()): Promise<void> {
+  try {
+    const devices = await prisma.device.findMany({
+      where: { lastSeenAt: { not: null } },
+      select: { device: true, location: true },
+    })
+    for (const { device, location } of devices) {
+      await checkAndRecordCurrentDrift(device, location ?? '', now)
+    }
+  } catch (error) {
+    console.error('[current-drift] sweep failed:', error)
+  }
+}
+
+/**
+ * Coerce a value returned by `$queryRaw` to a finite JS number (COUNT comes
+ * back as BigInt, percentile_cont as number or Decimal depending on driver).
+ */
+function toNumber(value: unknown): number {
+  if (typeof value === 'bigint') return Number(value)
+  if (typeof value === 'number') return value
+  if (value === null || value === undefined) return 0
+  const parsed = Number(value as string)
+  return Number.isFinite(parsed) ? parsed : 0
+}
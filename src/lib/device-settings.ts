@@ -0,0 +1,97 @@
+/**
+ * Per-device overrides for detector thresholds stored in `SystemSettings`.
+ *
+ * The global value of a setting lives under its plain key (e.g.
+ * `lowPressureThresholdPsi`). A device-specific override is just another
+ * SystemSettings row under `<key>@<device>`, so it is written through the same
+ * `PUT /api/settings` endpoint and needs no schema of its own. An empty or
+ * malformed override falls back to the global value, which in turn falls back
+ * to the detector's default.
+ */
+import { prisma } from '@/lib/prisma'
+
+/** Joins a setting key and a device identifier into an override key. */
+export const DEVICE_SETTING_SEPARATOR = '@'
+
+/** SystemSettings key holding `device`'s override of `key`. */
+export function deviceSettingKey(key: string, device: string): string {
+  return `${key}${DEVICE_SETTING_SEPARATOR}${device}`
+}
+
+/** Raw stored values for a set of keys, split by scope. */
+export interface ScopedSettings {
+  /** Global values, by key. */
+  global: Map<string, string>
+  /** The device's overrides, by the same (unscoped) key. */
+  override: Map<string, string>
+}
+
+/**
+ * Load the global values of `keys` and, when `device` is given, that device's
+ * overrides, in a single round-trip. Throws on database errors; callers fall
+ * back to their defaults.
+ */
+export async function getScopedSettings(
+  keys: readonly string[],
+  device?: string,
+): Promise<ScopedSettings> {
+  const overrideKeys = device ? keys.map((k) => deviceSettingKey(k, device)) : []
+  const rows = await prisma.systemSettings.findMany({
+    where: { key: { in: [...keys, ...overrideKeys] } },
+  })
+
+  const global = new Map<string, string>()
+  const override = new Map<string, string>()
+  for (const row of rows) {
+    const index = overrideKeys.indexOf(row.key)
+    if (index >= 0) override.set(keys[index], row.value)
+    else global.set(row.key, row.value)
+  }
+  return { global, override }
+}
+
+/**
+ * A non-negative numeric setting: the device's override when it is set and
+ * valid, else the global value, else `fallback`. A missing, non-numeric or
+ * negative value counts as unset. Pure: no I/O, exported for testing.
+ */
+export function resolveNumericSetting(
+  settings: ScopedSettings,
+  key: string,
+  fallback: number,
+): number {
+  const parse = (raw: string | undefined, otherwise: number): number => {
+    if (raw === undefined) return otherwise
+    const value = parseFloat(raw)
+    if (!Number.isFinite(value) || value < 0) return otherwise
+    return value
+  }
+  return parse(settings.override.get(key), parse(settings.global.get(key), fallback))
+}
+
+/**
+ * The device an override key belongs to, or null for a global key. Setting
+ * keys never contain the separator, so everything after the first one is the
+ * device, even when the device identifier itself contains it.
+ * Pure: no I/O, exported for testing.
+ */
+export function overrideDevice(key: string): string | null {
+  const index = key.indexOf(DEVICE_SETTING_SEPARATOR)
+  return index < 0 ? null : key.slice(index + DEVICE_SETTING_SEPARATOR.length)
+}
+
+/** Remove every override stored for `device`, e.g. when it is unregistered. */
+export async function deleteDeviceSettings(device: string): Promise<number> {
+  // `endsWith` alone would also match `other@<device>`'s overrides.
+  const candidates = await prisma.systemSettings.findMany({
+    where: { key: { endsWith: `${DEVICE_SETTING_SEPARATOR}${device}` } },
+    select: { key: true },
+  })
+  const keys = candidates.map((row) => row.key).filter((key) => overrideDevice(key) === device)
+  if (keys.length === 0) return 0
+
+  const result = await prisma.systemSettings.deleteMany({
+    where: { key: { in: keys } },
+  })
+  return result.count
+}
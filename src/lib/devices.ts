@@ -0,0 +1,203 @@
+/**
+ * Device registry: one `Device` row per ESP32 unit, keyed on the same
+ * free-text `device` string that SensorData and Event rows carry.
+ *
+ * The ingestion routes call `recordDeviceActivity` on every accepted post, so
+ * a new unit registers itself the first time it reports. `lastSeenAt` is the
+ * last time it sent sensor data: event posts register the device and refresh
+ * its firmware and IP but leave it alone, so a unit that still sends events
+ * but no readings goes offline and raises MISSING_DATA. Firmware version
+ * and IP are taken from the request (see `deviceMetadataFromHeaders`) because
+ * they describe the sender, not an individual sampling window.
+ *
+ * Online/offline is derived from `lastSeenAt` against the device's effective
+ * MISSING_DATA timeout, so `/api/health`, `/api/devices` and the MISSING_DATA
+ * alert all agree on which devices are offline.
+ */
+import { prisma } from '@/lib/prisma'
+import { DEFAULT_THRESHOLDS, getThresholds } from '@/lib/threshold-detection'
+import type { Device } from '@prisma/client'
+
+/** Header the firmware uses to report its build, e.g. `1.4.2`. */
+export const FIRMWARE_VERSION_HEADER = 'x-firmware-version'
+
+/** Longest firmware string stored; anything longer is truncated. */
+const MAX_FIRMWARE_LENGTH = 64
+
+/** Sender details taken from the ingestion request. */
+export interface DeviceMetadata {
+  ip?: string
+  firmwareVersion?: string
+}
+
+/** A registry entry plus its derived connectivity state. */
+export type DeviceStatus = Device & { online: boolean }
+
+/**
+ * Extract the sender's IP and firmware version from request headers. The app
+ * normally sits behind nginx, so the first `x-forwarded-for` hop is the
+ * device; `x-real-ip` is the fallback. Pure: no I/O, exported for testing.
+ */
+export function deviceMetadataFromHeaders(headers: Headers): DeviceMetadata {
+  const metadata: DeviceMetadata = {}
+
+  const forwarded = headers.get('x-forwarded-for')?.split(',')[0]?.trim()
+  const ip = forwarded || headers.get('x-real-ip')?.trim()
+  if (ip) metadata.ip = ip
+
+  const firmware = headers.get(FIRMWARE_VERSION_HEADER)?.trim()
+  if (firmware) metadata.firmwareVersion = firmware.slice(0, MAX_FIRMWARE_LENGTH)
+
+  return metadata
+}
+
+/**
+ * Sender details from an MQTT message, which carries no headers or usable IP:
+ * only the firmware version the device put in the message envelope.
+ * Pure: no I/O, exported for testing.
+ */
+export function deviceMetadataFromMessage(firmwareVersion: unknown): DeviceMetadata {
+  const firmware = typeof firmwareVersion === 'string' ? firmwareVersion.trim() : ''
+  return firmware ? { firmwareVersion: firmware.slice(0, MAX_FIRMWARE_LENGTH) } : {}
+}
+
+/**
+ * True when the device has reported within `timeoutMinutes` of `now`. A
+ * device that has never reported (pre-registered by an admin) is offline.
+ * Pure: no I/O, exported for testing.
+ */
+export function isDeviceOnline(
+  lastSeenAt: Date | null,
+  timeoutMinutes: number,
+  now: Date,
+): boolean {
+  if (!lastSeenAt) return false
+  return now.getTime() - lastSeenAt.getTime() <= timeoutMinutes * 60 * 1000
+}
+
+/**
+ * Record a post from every device appearing in `rows`, registering unknown
+ * ones, and mark them as seen now when the rows are sensor data. A replayed
+ * batch may span several devices; each is upserted once, with the last row's
+ * location used for a new registration. Guarded: a registry failure is logged
+ * and never fails ingestion.
+ */
+export async function recordDeviceActivity(
+  rows: ReadonlyArray<{ device: string; location: string }>,
+  metadata: DeviceMetadata = {},
+  now: Date = new Date(),
+  { sensorData = true }: { sensorData?: boolean } = {},
+): Promise<void> {
+  const locationByDevice = new Map<string, string>()
+  for (const row of rows) locationByDevice.set(row.device, row.location)
+
+  for (const [device, location] of locationByDevice) {
+    try {
+      const record = await prisma.device.upsert({
+        where: { device },
+        create: {
+          device,
+          location,
+          firstSeenAt: now,
+          lastSeenAt: sensorData ? now : null,
+          lastIp: metadata.ip,
+          firmwareVersion: metadata.firmwareVersion,
+        },
+        update: {
+          ...(sensorData ? { lastSeenAt: now } : {}),
+          ...(metadata.ip ? { lastIp: metadata.ip } : {}),
+          ...(metadata.firmwareVersion
+            ? { firmwareVersion: metadata.firmwareVersion }
+            : {}),
+        },
+      })
+
+      // A pre-registered device reports for the first time: fill in what the
+      // admin left blank. Happens once per device, so the extra write is cheap.
+      if (record.firstSeenAt === null || record.location === null) {
+        await prisma.device.update({
+          where: { id: record.id },
+          data: {
+            firstSeenAt: record.firstSeenAt ?? now,
+            location: record.location ?? location,
+          },
+        })
+      }
+    } catch (error) {
+      console.error(`[devices] failed to record activity for ${device}:`, error)
+    }
+  }
+}
+
+/**
+ * Backfill an empty registry from the devices already in SensorData, so a
+ * unit that stopped reporting before the registry existed is still watched
+ * by MISSING_DATA. Runs once at startup and only while the registry is empty,
+ * so a device an admin removed isn't brought back on the next restart.
+ * Returns how many devices were registered; never throws.
+ */
+export async function seedDeviceRegistry(): Promise<number> {
+  try {
+    if ((await prisma.device.count()) > 0) return 0
+
+    const seen = await prisma.sensorData.groupBy({
+      by: ['device'],
+      _min: { timestamp: true },
+      _max: { timestamp: true },
+    })
+    const data = await Promise.all(
+      seen.map(async ({ device, _min, _max }) => {
+        const latest = await prisma.sensorData.findFirst({
+          where: { device },
+          orderBy: { timestamp: 'desc' },
+          select: { location: true },
+        })
+        return {
+          device,
+          location: latest?.location ?? null,
+          firstSeenAt: _min.timestamp,
+          lastSeenAt: _max.timestamp,
+        }
+      })
+    )
+    if (data.length === 0) return 0
+
+    const { count } = await prisma.device.createMany({ data, skipDuplicates: true })
+    console.log(`[devices] registered ${count} devices from existing sensor data`)
+    return count
+  } catch (error) {
+    console.error('[devices] could not seed the device registry:', error)
+    return 0
+  }
+}
+
+/**
+ * Minutes of silence after which a device counts as offline: its effective
+ * MISSING_DATA timeout, or the default when that alert is disabled (0).
+ */
+async function offlineTimeoutMinutes(device: string): Promise<number> {
+  const thresholds = await getThresholds(device)
+  return thresholds.missingDataMinutes || DEFAULT_THRESHOLDS.missingDataMinutes
+}
+
+async function withOnlineState(device: Device, now: Date): Promise<DeviceStatus> {
+  const timeoutMinutes = await offlineTimeoutMinutes(device.device)
+  return { ...device, online: isDeviceOnline(device.lastSeenAt, timeoutMinutes, now) }
+}
+
+/** Every registered device with its online state, ordered by identifier. */
+export async function getDeviceStatuses(
+  now: Date = new Date(),
+): Promise<DeviceStatus[]> {
+  const devices = await prisma.device.findMany({ orderBy: { device: 'asc' } })
+  return Promise.all(devices.map((d) => withOnlineState(d, now)))
+}
+
+/** One registered device with its online state, or null if unknown. */
+export async function getDeviceStatus(
+  id: string,
+  now: Date = new Date(),
+): Promise<DeviceStatus | null> {
+  const device = await prisma.device.findUnique({ where: { id } })
+  return device ? withOnlineState(device, now) : null
+}
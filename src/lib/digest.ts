@@ -0,0 +1,122 @@
+/**
+ * Quiet-hours digest.
+ *
+ * `dispatchNotifications` queues alerts held back by a user's quiet hours as
+ * `QueuedNotification` rows. Once the user's quiet window has ended (or they
+ * turned quiet hours off), this module sends everything queued for them as
+ * one message and deletes the rows. Runs on a one-minute cron tick.
+ * Escalation steps bypass quiet hours, so they are never queued here.
+ */
+import { prisma } from '@/lib/prisma'
+import { sendToUser } from '@/lib/notifications'
+import { isInQuietHours } from '@/lib/quiet-hours'
+
+/** Pushover truncates messages at 1024 characters; stay safely under it. */
+const MAX_DIGEST_BODY_CHARS = 1000
+
+export interface DigestItem {
+  title: string
+  body: string
+  createdAt: Date
+}
+
+export interface DigestResult {
+  userId: string
+  count: number
+  delivered: boolean
+}
+
+/** "HH:MM" of `date` in the given timezone, falling back to UTC. */
+function formatClockTime(date: Date, timeZone: string): string {
+  const options: Intl.DateTimeFormatOptions = {
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }
+  try {
+    return new Intl.DateTimeFormat('en-GB', { ...options, timeZone }).format(date)
+  } catch {
+    return new Intl.DateTimeFormat('en-GB', { ...options, timeZone: 'UTC' }).format(date)
+  }
+}
+
+/**
+ * Title and body of the digest for `items` (oldest first), one line per
+ * alert with its local time. Lines that would push the body past Pushover's
+ * limit are summarised as a count.
+ *
+ * Pure: no I/O, exported for testing.
+ */
+export function buildDigest(
+  items: readonly DigestItem[],
+  timeZone: string,
+): { title: string; body: string } {
+  const title =
+    items.length === 1
+      ? 'Quiet hours: 1 alert held'
+      : `Quiet hours: ${items.length} alerts held`
+
+  const lines: string[] = []
+  let length = 0
+  for (const [i, item] of items.entries()) {
+    const line = `• ${formatClockTime(item.createdAt, timeZone)} ${item.title}: ${item.body}`
+    const remaining = items.length - i
+    // Leave room for the "…and N more" line whenever more items follow.
+    const reserve = remaining > 1 ? 20 : 0
+    if (length + line.length + 1 + reserve > MAX_DIGEST_BODY_CHARS) {
+      lines.push(`…and ${remaining} more`)
+      break
+    }
+    lines.push(line)
+    length += line.length + 1
+  }
+
+  return { title, body: lines.join('\n') }
+}
+
+/**
+ * Deliver the digest to every user with queued alerts who is no longer in
+ * quiet hours. A digest that fails on every channel stays queued for the next
+ * tick; one with no channel to go to is dropped. Never throws.
+ */
+export async function runQuietHoursDigests(now: Date = new Date()): Promise<DigestResult[]> {
+  const results: DigestResult[] = []
+  try {
+    const candidates = await prisma.notificationSettings.findMany({
+      where: { user: { queuedNotifications: { some: {} } } },
+      include: { user: { select: { email: true } } },
+    })
+
+    for (const settings of candidates) {
+      if (isInQuietHours(settings, now)) continue
+
+      try {
+        const queued = await prisma.queuedNotification.findMany({
+          where: { userId: settings.userId },
+          orderBy: { createdAt: 'asc' },
+        })
+        if (queued.length === 0) continue
+
+        const { title, body } = buildDigest(queued, settings.summaryReportTimezone)
+        const sent = await sendToUser(settings, {
+          eventType: 'QUIET_HOURS_DIGEST',
+          title,
+          body,
+          data: { count: queued.length },
+        })
+        const delivered = sent.some((r) => r.success)
+        if (delivered || sent.length === 0) {
+          await prisma.queuedNotification.deleteMany({
+            where: { id: { in: queued.map((q) => q.id) } },
+          })
+        }
+        results.push({ userId: settings.userId, count: queued.length, delivered })
+      } catch (error) {
+        console.error(`[digest] delivery for user ${settings.userId} failed:`, error)
+      }
+    }
+  } catch (error) {
+    console.error('[digest] sweep failed:', error)
+  }
+  return results
+}
@@ -0,0 +1,263 @@
+/**
+ * Server-side detection of a pump running dry (well drawn down / loss of prime).
+ *
+ * When the water level falls below the intake, a submersible pump keeps
+ * spinning and drawing current but moves no water, so pressure stops rising.
+ * To every per-sample check that looks like a normal run, and LONG_PUMP_RUN
+ * only fires after an hour — by which point a pump that cools itself with the
+ * water it moves may already be destroyed. This check watches for the pump
+ * being on while `pressMax` stays flat or falls.
+ *
+ * Algorithm:
+ *   1. Require the latest row to be fresh (< 5 min stale) and pump-on.
+ *   2. Walk back from the latest row through contiguous pump-on rows while
+ *      pressure has not risen by the configured minimum since that row and,
+ *      when a current ceiling is known, `current1RMS` stays below it — an
+ *      unloaded pump draws noticeably less than its normal load.
+ *   3. Fire when that flat tail spans at least the configured minutes.
+ *
+ * Sustained demand (irrigation, a filling tub) also holds pressure flat with
+ * the pump on, but at full load; the current check tells the two apart. The
+ * ceiling is the configured amps when set, otherwise a fraction of the pump's
+ * learned loaded current as of the last hourly sweep (see `current-drift.ts`).
+ * Until either exists the check runs on pressure alone.
+ */
+import { prisma } from '@/lib/prisma'
+import { dispatchEventNotifications } from '@/lib/notifications'
+import { resolveEvent, worstValue } from '@/lib/event-resolution'
+import { getScopedSettings, resolveNumericSetting } from '@/lib/device-settings'
+import { getCachedLoadedCurrentBaseline } from '@/lib/current-drift'
+
+/**
+ * Defaults. A healthy refill raises pressure by several PSI a minute, so five
+ * minutes with under 1 PSI of rise is unambiguous. A ceiling of 0 means
+ * "use the learned baseline if there is one".
+ */
+export const DEFAULT_DRY_RUN_MINUTES = 5
+export const DEFAULT_DRY_RUN_MIN_PRESSURE_RISE_PSI = 1
+export const DEFAULT_DRY_RUN_MAX_CURRENT_AMPS = 0
+
+export const DRY_RUN_MINUTES_KEY = 'dryRunMinutes'
+export const DRY_RUN_MIN_PRESSURE_RISE_KEY = 'dryRunMinPressureRisePsi'
+export const DRY_RUN_MAX_CURRENT_KEY = 'dryRunMaxCurrentAmps'
+
+/**
+ * Share of the learned loaded current below which a row counts as unloaded
+ * when no ceiling is configured.
+ */
+export const DRY_RUN_BASELINE_CURRENT_FRACTION = 0.8
+
+/** A row counts as "pump on" when it has any non-zero duty cycle. */
+const PUMP_ON_DUTY_CYCLE = 0
+
+/** Required freshness of the most recent row to consider the result actionable. */
+const STALE_LATEST_MS = 5 * 60 * 1000
+
+export interface DryRunThresholds {
+  /** Minutes of on-time without pressure rise before firing. 0 disables. */
+  minutes: number
+  /** A rise of this much pressure (PSI) or more means the pump is moving water. */
+  minPressureRisePsi: number
+  /**
+   * On-rows must also draw less than this current (A) to count. 0 skips the
+   * current check; `checkAndRecordDryRun` fills it from the learned baseline
+   * when one is cached.
+   */
+  maxCurrentAmps: number
+}
+
+export interface DetectDryRunRow {
+  startTime: Date
+  endTime: Date
+  dutyCycle1: number
+  pressMax: number
+  current1RMS: number
+}
+
+export interface DryRunResult {
+  /** Length of the flat-pressure tail, in minutes. */
+  flatMinutes: number
+  /** Start of the flat-pressure tail, in epoch ms. */
+  tailStartMs: number
+  /** pressMax of the tail's first and last rows. */
+  startPsi: number
+  endPsi: number
+  /** Mean current1RMS across the tail. */
+  averageCurrentAmps: number
+}
+
+/**
+ * Find the trailing stretch of under-current pump-on rows over which pressure
+ * has not risen, and return it when it is at least `thresholds.minutes` long.
+ * Rows must be in chronological order.
+ *
+ * Pure: no I/O, exported for testing.
+ */
+export function detectDryRun(
+  rows: readonly DetectDryRunRow[],
+  thresholds: DryRunThresholds,
+  now: Date,
+): DryRunResult | null {
+  if (thresholds.minutes <= 0 || rows.length === 0) {
+    return null
+  }
+
+  const latest = rows[rows.length - 1]
+  if (now.getTime() - latest.endTime.getTime() > STALE_LATEST_MS) return null
+
+  const countsAsDry = (row: DetectDryRunRow): boolean =>
+    row.dutyCycle1 > PUMP_ON_DUTY_CYCLE &&
+    (thresholds.maxCurrentAmps <= 0 || row.current1RMS < thresholds.maxCurrentAmps)
+
+  let tailStart = rows.length
+  let peakPsi = -Infinity
+  for (let i = rows.length - 1; i >= 0; i--) {
+    const row = rows[i]
+    if (!countsAsDry(row)) break
+    const peak = Math.max(peakPsi, row.pressMax)
+    if (peak - row.pressMax >= thresholds.minPressureRisePsi) break
+    peakPsi = peak
+    tailStart = i
+  }
+  if (tailStart === rows.length) return null
+
+  const tail = rows.slice(tailStart)
+  const tailStartMs = tail[0].startTime.getTime()
+  const flatMinutes = (latest.endTime.getTime() - tailStartMs) / 60000
+  if (flatMinutes < thresholds.minutes) return null
+
+  return {
+    flatMinutes,
+    tailStartMs,
+    startPsi: tail[0].pressMax,
+    endPsi: latest.pressMax,
+    averageCurrentAmps:
+      tail.reduce((sum, row) => sum + row.current1RMS, 0) / tail.length,
+  }
+}
+
+/** Dry-run thresholds in effect for `device`. */
+export async function getDryRunThresholds(device?: string): Promise<DryRunThresholds> {
+  try {
+    const settings = await getScopedSettings(
+      [DRY_RUN_MINUTES_KEY, DRY_RUN_MIN_PRESSURE_RISE_KEY, DRY_RUN_MAX_CURRENT_KEY],
+      device,
+    )
+
+    const resolve = (key: string, fallback: number): number =>
+      resolveNumericSetting(settings, key, fallback)
+
+    return {
+      minutes: resolve(DRY_RUN_MINUTES_KEY, DEFAULT_DRY_RUN_MINUTES),
+      minPressureRisePsi: resolve(
+        DRY_RUN_MIN_PRESSURE_RISE_KEY,
+        DEFAULT_DRY_RUN_MIN_PRESSURE_RISE_PSI,
+      ),
+      maxCurrentAmps: resolve(DRY_RUN_MAX_CURRENT_KEY, DEFAULT_DRY_RUN_MAX_CURRENT_AMPS),
+    }
+  } catch (error) {
+    console.error('[dry-run] failed to read thresholds:', error)
+    return {
+      minutes: DEFAULT_DRY_RUN_MINUTES,
+      minPressureRisePsi: DEFAULT_DRY_RUN_MIN_PRESSURE_RISE_PSI,
+      maxCurrentAmps: DEFAULT_DRY_RUN_MAX_CURRENT_AMPS,
+    }
+  }
+}
+
+/**
+ * Run dry-run detection for the given device and reconcile against any
+ * existing active DRY_RUN event:
+ *  - Dry run detected + no existing -> create + notify
+ *  - Dry run detected + existing    -> update value/duration silently
+ *  - No dry run + existing          -> resolve (pump stopped / pressure rising)
+ * Never throws.
+ */
+export async function checkAndRecordDryRun(
+  device: string,
+  location: string,
+  now: Date = new Date(),
+): Promise<void> {
+  try {
+    const thresholds = await getDryRunThresholds(device)
+    if (thresholds.minutes <= 0) return
+
+    const since = new Date(now.getTime() - (thresholds.minutes + 10) * 60 * 1000)
+    const rows = await prisma.sensorData.findMany({
+      where: { device, timestamp: { gte: since } },
+      orderBy: { timestamp: 'asc' },
+      select: {
+        startTime: true,
+        endTime: true,
+        dutyCycle1: true,
+        pressMax: true,
+        current1RMS: true,
+      },
+    })
+
+    let maxCurrentAmps = thresholds.maxCurrentAmps
+    if (maxCurrentAmps <= 0) {
+      const baselineAmps = getCachedLoadedCurrentBaseline(device)
+      maxCurrentAmps = baselineAmps ? baselineAmps * DRY_RUN_BASELINE_CURRENT_FRACTION : 0
+    }
+
+    const result = detectDryRun(rows, { ...thresholds, maxCurrentAmps }, now)
+    const existing = await prisma.event.findFirst({
+      where: { device, type: 'DRY_RUN', active: true },
+      orderBy: { timestamp: 'desc' },
+    })
+
+    if (result) {
+      const description =
+        `Pump running ${Math.round(result.flatMinutes)} min without building ` +
+        `pressure (${result.startPsi.toFixed(1)} → ${result.endPsi.toFixed(1)} PSI, ` +
+        `${result.averageCurrentAmps.toFixed(1)} A) — possible dry well or lost prime`
+
+      if (existing) {
+        await prisma.event.update({
+          where: { id: existing.id },
+          data: {
+            timestamp: now,
+            value: result.flatMinutes,
+            peakValue: worstValue('DRY_RUN', existing.peakValue ?? existing.value, result.flatMinutes),
+            duration: BigInt(now.getTime() - existing.startTime.getTime()),
+            description,
+          },
+        })
+      } else {
+        const startTime = new Date(result.tailStartMs)
+        const created = await prisma.event.create({
+          data: {
+            device,
+            location,
+            timestamp: now,
+            type: 'DRY_RUN',
+            value: result.flatMinutes,
+            threshold: thresholds.minutes,
+            startTime,
+            duration: BigInt(now.getTime() - startTime.getTime()),
+            active: true,
+            description,
+          },
+        })
+        try {
+          await dispatchEventNotifications({
+            id: created.id,
+            type: 'DRY_RUN',
+            device,
+            location,
+            value: result.flatMinutes,
+            threshold: thresholds.minutes,
+            description,
+          })
+        } catch (notifyError) {
+          console.error('[dry-run] notification dispatch failed:', notifyError)
+        }
+      }
+    } else if (existing) {
+      await resolveEvent(existing, now)
+    }
+  } catch (error) {
+    console.error('[dry-run] check failed:', error)
+  }
+}
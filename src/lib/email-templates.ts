@@ -0,0 +1,175 @@
+/**
+ * Email templates for notifications.
+ *
+ * Every notification is rendered as a plain-text part and an HTML part built from the
+ * same pieces: the notification title and body, the event's device, location,
+ * value and threshold when known, and a per-type "what to check" line. The
+ * HTML uses inline styles only, since most mail clients strip `<style>` blocks.
+ *
+ * Pure: no I/O, so templates can be unit-tested and previewed directly.
+ */
+import type { NotificationPayload } from '@/lib/notifications'
+
+export interface RenderedEmail {
+  subject: string
+  text: string
+  html: string
+}
+
+interface EventTemplate {
+  /** Accent colour for the HTML header bar. */
+  color: string
+  /** What to check first, shown under the alert. */
+  advice: string
+}
+
+const URGENT = '#dc2626'
+const WARNING = '#d97706'
+const INFO = '#2563eb'
+const RESOLVED = '#16a34a'
+
+const EVENT_TEMPLATES: Record<string, EventTemplate | undefined> = {
+  DRY_RUN: {
+    color: URGENT,
+    advice: 'Switch the pump off and check the well level and prime before running it again.',
+  },
+  FREEZE_RISK: {
+    color: URGENT,
+    advice: 'Check the pump-house heater and insulation before the temperature reaches freezing.',
+  },
+  LOW_TEMPERATURE: {
+    color: URGENT,
+    advice: 'Check the pump-house heater; exposed pipes may already be freezing.',
+  },
+  SYSTEM_ERROR: { color: URGENT, advice: 'Check the monitor and its logs.' },
+  HIGH_CURRENT: {
+    color: WARNING,
+    advice: 'Check the pump and motor for a seized impeller or failing start capacitor.',
+  },
+  LOW_PRESSURE: {
+    color: WARNING,
+    advice: 'Check for open fixtures or leaks, and that the pump is running.',
+  },
+  PRESSURE_DROP: {
+    color: WARNING,
+    advice: 'Check for a running fixture, an open hose bib or a leak in the plumbing.',
+  },
+  LONG_PUMP_RUN: {
+    color: WARNING,
+    advice: 'Check for a leak or running fixture, and whether the well is drawing down.',
+  },
+  SHORT_CYCLING: {
+    color: WARNING,
+    advice: 'Check the pressure-tank pre-charge and the pressure switch.',
+  },
+  SENSOR_ERROR: {
+    color: WARNING,
+    advice: 'Check the sensor and its wiring. Its readings are ignored until it recovers.',
+  },
+  MISSING_DATA: {
+    color: WARNING,
+    advice: "Check the monitor's power and network connection.",
+  },
+  HIGH_HUMIDITY: {
+    color: INFO,
+    advice: 'Check the pump house for leaks and poor ventilation.',
+  },
+  CURRENT_DRIFT: {
+    color: INFO,
+    advice: 'Have the pump and motor inspected for wear at the next opportunity.',
+  },
+  TANK_DEGRADED: {
+    color: INFO,
+    advice: 'Check the pressure-tank pre-charge and bladder.',
+  },
+  HIGH_WATER_USAGE: {
+    color: INFO,
+    advice: 'Check for leaks, running fixtures or irrigation left on.',
+  },
+}
+
+const DEFAULT_TEMPLATE: EventTemplate = { color: INFO, advice: '' }
+
+/** Scheduled reports link to the dashboard rather than the alert list. */
+const REPORT_TYPES = new Set(['DAILY_SUMMARY', 'WEEKLY_SUMMARY'])
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+/** Label/value rows for the event details known to the payload. */
+function detailRows(data: Record<string, unknown> | undefined): [string, string][] {
+  if (!data) return []
+  const rows: [string, string][] = []
+  if (typeof data.device === 'string') rows.push(['Device', data.device])
+  if (typeof data.location === 'string' && data.location) rows.push(['Location', data.location])
+  if (typeof data.value === 'number') rows.push(['Value', String(Math.round(data.value * 100) / 100)])
+  if (typeof data.threshold === 'number') {
+    rows.push(['Threshold', String(Math.round(data.threshold * 100) / 100)])
+  }
+  return rows
+}
+
+/**
+ * Render a notification as an email, using its event type's template. Types
+ * without one (digests, summary reports) get the neutral template.
+ */
+export function renderAlertEmail(payload: NotificationPayload): RenderedEmail {
+  const type = String(payload.eventType)
+  const template = EVENT_TEMPLATES[type] ?? DEFAULT_TEMPLATE
+  const color = payload.resolved ? RESOLVED : template.color
+  // The advice is about acting on an alert; it doesn't apply once it clears.
+  const advice = payload.resolved ? '' : template.advice
+  const details = detailRows(payload.data)
+  const baseUrl = process.env.NEXTAUTH_URL?.replace(/\/$/, '')
+  const link = REPORT_TYPES.has(type)
+    ? { path: '/', label: 'Open dashboard' }
+    : { path: '/alerts', label: 'View alerts' }
+  const linkUrl = baseUrl ? `${baseUrl}${link.path}` : null
+
+  const subject = `[Well Pump] ${payload.title}`
+
+  const text = [
+    payload.title,
+    '',
+    payload.body,
+    ...(details.length > 0 ? ['', ...details.map(([label, value]) => `${label}: ${value}`)] : []),
+    ...(advice ? ['', advice] : []),
+    ...(linkUrl ? ['', `${link.label}: ${linkUrl}`] : []),
+  ].join('\n')
+
+  const detailHtml =
+    details.length > 0
+      ? `<table style="border-collapse:collapse;margin:16px 0;font-size:14px">` +
+        details
+          .map(
+            ([label, value]) =>
+              `<tr><td style="padding:2px 16px 2px 0;color:#6b7280">${escapeHtml(label)}</td>` +
+              `<td style="padding:2px 0;color:#111827">${escapeHtml(value)}</td></tr>`
+          )
+          .join('') +
+        `</table>`
+      : ''
+
+  const html =
+    `<!DOCTYPE html><html><body style="margin:0;padding:24px;background:#f3f4f6;font-family:Arial,Helvetica,sans-serif">` +
+    `<div style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:8px;overflow:hidden">` +
+    `<div style="background:${color};color:#ffffff;padding:16px 24px;font-size:18px;font-weight:bold">` +
+    `${escapeHtml(payload.title)}</div>` +
+    `<div style="padding:24px">` +
+    `<p style="margin:0;font-size:15px;color:#111827;white-space:pre-line">${escapeHtml(payload.body)}</p>` +
+    detailHtml +
+    (advice ? `<p style="margin:0 0 16px;font-size:14px;color:#374151">${escapeHtml(advice)}</p>` : '') +
+    (linkUrl
+      ? `<a href="${escapeHtml(linkUrl)}" style="display:inline-block;padding:8px 16px;background:#2563eb;` +
+        `color:#ffffff;text-decoration:none;border-radius:6px;font-size:14px">${link.label}</a>`
+      : '') +
+    `</div></div></body></html>`
+
+  return { subject, text, html }
+}
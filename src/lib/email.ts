@@ -0,0 +1,117 @@
+/**
+ * SMTP email channel.
+ *
+ * Email is for users who don't have Pushover and don't keep a browser
+ * subscription alive. It is configured with the `SMTP_*` environment variables
+ * and goes to the address on the user's account (`User.email`) when they have
+ * turned email on in their notification settings. Messages are rendered from
+ * per-event-type templates in `src/lib/email-templates.ts`.
+ */
+import nodemailer, { type Transporter } from 'nodemailer'
+import type { ChannelResult } from '@/lib/notifications'
+import type { RenderedEmail } from '@/lib/email-templates'
+
+export interface SmtpConfig {
+  host: string
+  port: number
+  /** Implicit TLS (port 465). Otherwise STARTTLS is used when offered. */
+  secure: boolean
+  user?: string
+  pass?: string
+  from: string
+}
+
+/**
+ * SMTP settings from the environment, or null when email isn't configured
+ * (SMTP_HOST and SMTP_FROM are both required).
+ */
+export function getSmtpConfig(): SmtpConfig | null {
+  const host = process.env.SMTP_HOST?.trim()
+  const from = process.env.SMTP_FROM?.trim()
+  if (!host || !from) return null
+  const port = parseInt(process.env.SMTP_PORT || '', 10) || 587
+  return {
+    host,
+    port,
+    secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+    user: process.env.SMTP_USER?.trim() || undefined,
+    pass: process.env.SMTP_PASS || undefined,
+    from,
+  }
+}
+
+/** True when SMTP is configured. */
+export function isEmailConfigured(): boolean {
+  return getSmtpConfig() !== null
+}
+
+let transporter: { key: string; transport: Transporter } | null = null
+
+/** Reuse one transport per SMTP configuration. */
+function getTransport(config: SmtpConfig): Transporter {
+  const key = JSON.stringify(config)
+  if (transporter?.key !== key) {
+    transporter = {
+      key,
+      transport: nodemailer.createTransport({
+        host: config.host,
+        port: config.port,
+        secure: config.secure,
+        auth: config.user ? { user: config.user, pass: config.pass } : undefined,
+      }),
+    }
+  }
+  return transporter.transport
+}
+
+/**
+ * SMTP 4xx replies and connection problems are temporary; 5xx replies (bad
+ * address, relaying denied, auth failed) are not.
+ */
+function isRetryableSmtpError(error: unknown): boolean {
+  const responseCode = (error as { responseCode?: number }).responseCode
+  if (typeof responseCode === 'number') return responseCode < 500
+  const code = (error as { code?: string }).code
+  return code !== 'EAUTH' && code !== 'EENVELOPE'
+}
+
+/**
+ * Send one email. Never throws; the outcome is reported like the other
+ * channels, with the SMTP message id as `requestId`.
+ *
+ * @param recipient - identifier used only for logging.
+ */
+export async function sendEmail(
+  to: string,
+  message: RenderedEmail,
+  recipient: string
+): Promise<ChannelResult> {
+  const config = getSmtpConfig()
+  if (!config) {
+    return { channel: 'email', recipient, success: false, error: 'SMTP is not configured' }
+  }
+
+  try {
+    const info = await getTransport(config).sendMail({
+      from: config.from,
+      to,
+      subject: message.subject,
+      text: message.text,
+      html: message.html,
+    })
+    console.log(
+      `[notifications] email sent ok recipient=${recipient} message=${info.messageId ?? 'n/a'}`
+    )
+    return { channel: 'email', recipient, success: true, requestId: info.messageId }
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error)
+    console.error(`[notifications] email FAILED recipient=${recipient}: ${errorMsg}`)
+    return {
+      channel: 'email',
+      recipient,
+      success: false,
+      error: errorMsg,
+      retryable: isRetryableSmtpError(error),
+    }
+  }
+}
@@ -0,0 +1,257 @@
+/**
+ * Escalation of alerts that nobody acknowledges.
+ *
+ * An alert is dispatched once, when its event is created. If the pump is
+ * running dry at 3 AM and the first notification was slept through, nothing
+ * else happens. An escalation policy (one per event type, in the
+ * `EscalationPolicy` table) adds up to two follow-ups while an active event
+ * stays unacknowledged, counted from when the event was raised:
+ *
+ *   - repeat     after `repeatAfterMinutes`, re-notify the usual recipients
+ *                at a higher Pushover priority. Priority 2 ("emergency")
+ *                makes Pushover repeat the alert every `retrySeconds` until
+ *                it is acknowledged in the Pushover app or `expireSeconds`
+ *                pass.
+ *   - secondary  after `secondaryAfterMinutes`, also notify the users in
+ *                `secondaryUserIds`, whatever their own alert preferences.
+ *
+ * Each step is sent at most once per event and recorded as an
+ * `EventEscalation` row. The row is written before sending, and its unique
+ * (event, step) key means an overlapping cron tick can't send a step twice.
+ * Acknowledging or resolving the event stops any steps not yet sent. Steps
+ * ignore recipients' quiet hours: holding one until morning defeats it.
+ */
+import { prisma } from '@/lib/prisma'
+import { isUniqueViolation } from '@/lib/prisma-errors'
+import { dispatchNotifications, eventTitle } from '@/lib/notifications'
+import { formatDuration } from '@/lib/format'
+import type { FieldError, ValidationResult } from '@/lib/payload-validation'
+import { EventType } from '@prisma/client'
+
+export type EscalationStep = 'repeat' | 'secondary'
+
+export interface EscalationPolicyInput {
+  eventType: EventType
+  enabled: boolean
+  repeatAfterMinutes: number
+  priority: number
+  retrySeconds: number
+  expireSeconds: number
+  secondaryAfterMinutes: number
+  secondaryUserIds: string[]
+}
+
+/** Pushover's emergency limits: retry at least every 30 s, expire within 3 h. */
+const MIN_RETRY_SECONDS = 30
+const MAX_EXPIRE_SECONDS = 10800
+
+/** Longest accepted escalation delay: a week. */
+const MAX_AFTER_MINUTES = 7 * 24 * 60
+
+export interface EscalationCandidate {
+  createdAt: Date
+  /** Steps already recorded for the event. */
+  escalations: ReadonlyArray<{ step: string }>
+}
+
+/**
+ * Steps of `policy` that are due for an unacknowledged event at `now` and not
+ * yet recorded, in the order they should be sent.
+ *
+ * Pure: no I/O, exported for testing.
+ */
+export function dueEscalationSteps(
+  event: EscalationCandidate,
+  policy: Pick<
+    EscalationPolicyInput,
+    'repeatAfterMinutes' | 'secondaryAfterMinutes' | 'secondaryUserIds'
+  >,
+  now: Date,
+): EscalationStep[] {
+  const elapsedMinutes = (now.getTime() - event.createdAt.getTime()) / 60000
+  const done = new Set(event.escalations.map((e) => e.step))
+  const due: EscalationStep[] = []
+  if (
+    policy.repeatAfterMinutes > 0 &&
+    elapsedMinutes >= policy.repeatAfterMinutes &&
+    !done.has('repeat')
+  ) {
+    due.push('repeat')
+  }
+  if (
+    policy.secondaryAfterMinutes > 0 &&
+    policy.secondaryUserIds.length > 0 &&
+    elapsedMinutes >= policy.secondaryAfterMinutes &&
+    !done.has('secondary')
+  ) {
+    due.push('secondary')
+  }
+  return due
+}
+
+/**
+ * Validate a policy submitted by the admin UI, collecting every problem in one
+ * pass like the device payload validators.
+ */
+export function validateEscalationPolicy(
+  raw: unknown,
+): ValidationResult<EscalationPolicyInput> {
+  const record =
+    typeof raw === 'object' && raw !== null && !Array.isArray(raw)
+      ? (raw as Record<string, unknown>)
+      : null
+  if (!record) {
+    return { ok: false, errors: [{ field: '', message: 'Policy must be a JSON object' }] }
+  }
+  const errors: FieldError[] = []
+  const fail = (field: string, message: string) => errors.push({ field, message })
+
+  const eventType = record.eventType
+  if (typeof eventType !== 'string' || !Object.hasOwn(EventType, eventType)) {
+    fail('eventType', `Invalid event type: ${String(eventType)}`)
+  }
+
+  const int = (field: string, fallback: number, min: number, max: number): number => {
+    const value = record[field] ?? fallback
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max) {
+      fail(field, `${field} must be an integer between ${min} and ${max}`)
+      return fallback
+    }
+    return value
+  }
+
+  const enabled = record.enabled ?? true
+  if (typeof enabled !== 'boolean') fail('enabled', 'enabled must be a boolean')
+
+  const repeatAfterMinutes = int('repeatAfterMinutes', 15, 0, MAX_AFTER_MINUTES)
+  const priority = int('priority', 1, 1, 2)
+  const retrySeconds = int('retrySeconds', 60, MIN_RETRY_SECONDS, MAX_EXPIRE_SECONDS)
+  const expireSeconds = int('expireSeconds', 3600, MIN_RETRY_SECONDS, MAX_EXPIRE_SECONDS)
+  if (expireSeconds < retrySeconds) {
+    fail('expireSeconds', 'expireSeconds must not be less than retrySeconds')
+  }
+  const secondaryAfterMinutes = int('secondaryAfterMinutes', 0, 0, MAX_AFTER_MINUTES)
+
+  const ids = record.secondaryUserIds ?? []
+  let secondaryUserIds: string[] = []
+  if (Array.isArray(ids) && ids.every((id): id is string => typeof id === 'string')) {
+    secondaryUserIds = [...new Set(ids)]
+  } else {
+    fail('secondaryUserIds', 'secondaryUserIds must be an array of user ids')
+  }
+
+  if (errors.length > 0) return { ok: false, errors }
+  return {
+    ok: true,
+    value: {
+      eventType: eventType as EventType,
+      enabled: enabled as boolean,
+      repeatAfterMinutes,
+      priority,
+      retrySeconds,
+      expireSeconds,
+      secondaryAfterMinutes,
+      secondaryUserIds,
+    },
+  }
+}
+
+/**
+ * Send every escalation step that has come due. Runs on a one-minute cron
+ * tick. Never throws.
+ */
+export async function runEscalations(now: Date = new Date()): Promise<void> {
+  try {
+    const policies = await prisma.escalationPolicy.findMany({ where: { enabled: true } })
+
+    for (const policy of policies) {
+      const delays = [policy.repeatAfterMinutes, policy.secondaryAfterMinutes].filter(
+        (m) => m > 0,
+      )
+      if (delays.length === 0) continue
+      const raisedBefore = new Date(now.getTime() - Math.min(...delays) * 60 * 1000)
+
+      const events = await prisma.event.findMany({
+        where: {
+          type: policy.eventType,
+          active: true,
+          acknowledged: false,
+          createdAt: { lte: raisedBefore },
+        },
+        include: { escalations: { select: { step: true } } },
+      })
+
+      for (const event of events) {
+        for (const step of dueEscalationSteps(event, policy, now)) {
+          try {
+            await sendStep(event, step, policy, now)
+          } catch (error) {
+            console.error(`[escalation] ${step} for event ${event.id} failed:`, error)
+          }
+        }
+      }
+    }
+  } catch (error) {
+    console.error('[escalation] sweep failed:', error)
+  }
+}
+
+async function sendStep(
+  event: {
+    id: string
+    type: EventType
+    device: string
+    location: string
+    value: number
+    threshold: number
+    description: string
+    createdAt: Date
+  },
+  step: EscalationStep,
+  policy: EscalationPolicyInput,
+  now: Date,
+): Promise<void> {
+  // Claim the step first so a concurrent tick sees it as done.
+  let record: { id: string }
+  try {
+    record = await prisma.eventEscalation.create({
+      data: { eventId: event.id, step, priority: policy.priority },
+      select: { id: true },
+    })
+  } catch (error) {
+    if (isUniqueViolation(error)) return
+    throw error
+  }
+
+  const unacknowledged = formatDuration((now.getTime() - event.createdAt.getTime()) / 1000)
+  const summary = await dispatchNotifications(
+    {
+      eventType: event.type,
+      title: `Escalated: ${eventTitle(event.type)}`,
+      body: `Unacknowledged for ${unacknowledged} — ${event.description}`,
+      data: {
+        eventType: event.type,
+        device: event.device,
+        location: event.location,
+        value: event.value,
+        threshold: event.threshold,
+        escalation: step,
+      },
+      priority: policy.priority,
+      retrySeconds: policy.retrySeconds,
+      expireSeconds: policy.expireSeconds,
+    },
+    step === 'secondary'
+      ? { userIds: policy.secondaryUserIds, eventId: event.id, bypassQuietHours: true }
+      : { eventId: event.id, bypassQuietHours: true },
+  )
+
+  await prisma.eventEscalation.update({
+    where: { id: record.id },
+    data: { attempted: summary.attempted, succeeded: summary.succeeded },
+  })
+  console.log(
+    `[escalation] ${step} sent for event ${event.id} (${event.type}) ` +
+      `priority=${policy.priority} ok=${summary.succeeded}/${summary.attempted}`,
+  )
+}
@@ -0,0 +1,189 @@
+/**
+ * Shared event ingestion pipeline for `POST /api/events` and the MQTT
+ * subscriber (see `src/lib/mqtt-ingestion.ts`).
+ *
+ * The device reports each condition it tracks as active or cleared. An active
+ * report opens a new event, or updates the one already open for that device
+ * and type; a cleared report resolves it. Notifications go out when an event
+ * opens or resolves, webhooks on every change.
+ */
+import { prisma } from '@/lib/prisma'
+import type { EventType } from '@prisma/client'
+import { dispatchEventNotifications, dispatchEventWebhooks } from '@/lib/notifications'
+import { resolveEvent, worstValue } from '@/lib/event-resolution'
+import { formatValidationErrors, validateEventPayload } from '@/lib/payload-validation'
+import { recordDeviceActivity, type DeviceMetadata } from '@/lib/devices'
+import { timeIngestion } from '@/lib/metrics'
+import type { IngestResult } from '@/lib/sensor-ingestion'
+
+/**
+ * Validate a device event report and open, update or resolve the matching
+ * event. Throws on database errors; callers report those as a server error.
+ */
+export function ingestEvent(
+  raw: unknown,
+  metadata: DeviceMetadata,
+): Promise<IngestResult> {
+  return timeIngestion('events', () => ingestEventPost(raw, metadata))
+}
+
+async function ingestEventPost(
+  raw: unknown,
+  metadata: DeviceMetadata,
+): Promise<IngestResult> {
+  // Typed validation: every bad field is reported at once (including an
+  // unmapped ESP32 event code and the future-timestamp clock guard).
+  const parsed = validateEventPayload(raw)
+  if (!parsed.ok) {
+    return {
+      status: 400,
+      body: { error: formatValidationErrors(parsed.errors), errors: parsed.errors },
+    }
+  }
+  const data = parsed.value
+  const eventType = data.type
+  const { timestamp, startTime, duration } = data
+  const isActive = data.active
+
+  // Only sensor data counts as "seen": MISSING_DATA is about readings.
+  await recordDeviceActivity([data], metadata, new Date(), { sensorData: false })
+
+  // Find existing active event of the same type for this device. Per-sensor
+  // SENSOR_ERRORs raised by the server are tracked separately, and so are
+  // server-raised channel-2 events: the device only reports on channel 1.
+  const existingEvent = await prisma.event.findFirst({
+    where: {
+      device: data.device,
+      type: eventType,
+      channel: 1,
+      active: true,
+      sensor: null
+    },
+    orderBy: { timestamp: 'desc' }
+  })
+
+  if (isActive) {
+    // Condition is active
+    if (existingEvent) {
+      // Update existing active event with new values
+      const result = await prisma.event.update({
+        where: { id: existingEvent.id },
+        data: {
+          timestamp,
+          value: data.value,
+          peakValue: worstValue(
+            eventType,
+            existingEvent.peakValue ?? existingEvent.value,
+            data.value
+          ),
+          duration,
+          description: data.description
+        }
+      })
+
+      // Users only hear about the start; webhooks follow every reading.
+      await dispatchEventWebhooks(webhookEvent(result), 'updated')
+
+      return {
+        status: 200,
+        body: {
+          success: true,
+          id: result.id,
+          message: 'Existing event updated',
+          updated: true
+        },
+      }
+    } else {
+      // Create new active event
+      const result = await prisma.event.create({
+        data: {
+          device: data.device,
+          location: data.location,
+          timestamp,
+          type: eventType,
+          channel: 1,
+          value: data.value,
+          threshold: data.threshold,
+          startTime,
+          duration,
+          active: true,
+          description: data.description
+        }
+      })
+
+      // A brand-new active alert condition has been detected — this is the
+      // moment notifications must fire. Dispatch is awaited (so it completes
+      // before the serverless function is frozen) but guarded so a delivery
+      // failure can never break event ingestion.
+      try {
+        await dispatchEventNotifications({
+          id: result.id,
+          type: eventType,
+          device: data.device,
+          location: data.location,
+          value: data.value,
+          threshold: data.threshold,
+          description: data.description,
+        })
+      } catch (notifyError) {
+        console.error('Error dispatching event notifications:', notifyError)
+      }
+
+      return {
+        status: 201,
+        body: {
+          success: true,
+          id: result.id,
+          message: 'Event created',
+          created: true
+        },
+      }
+    }
+  } else {
+    // Condition has cleared - resolve any active event (and send the
+    // opt-in resolved notification) at the device's resolution time
+    if (existingEvent) {
+      await resolveEvent(existingEvent, timestamp, duration)
+
+      return {
+        status: 200,
+        body: {
+          success: true,
+          id: existingEvent.id,
+          message: 'Event resolved',
+          resolved: true
+        },
+      }
+    } else {
+      // No active event to resolve - nothing to do
+      return {
+        status: 200,
+        body: {
+          success: true,
+          message: 'No active event to resolve'
+        },
+      }
+    }
+  }
+}
+
+/** The webhook view of a stored event. */
+export function webhookEvent(event: {
+  id: string
+  type: EventType
+  device: string
+  location: string
+  value: number
+  threshold: number
+  description: string
+}) {
+  return {
+    id: event.id,
+    type: event.type,
+    device: event.device,
+    location: event.location,
+    value: event.value,
+    threshold: event.threshold,
+    description: event.description,
+  }
+}
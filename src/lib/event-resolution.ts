@@ -0,0 +1,118 @@
+/**
+ * Resolving events, and the "resolved" notification that goes with it.
+ *
+ * Every detector resolves its event the same way: mark it inactive, stamp
+ * the resolution time and the total duration, and tell the users who opted
+ * in to hearing when that alert type clears. The message carries the
+ * duration and the worst value seen while the event was active.
+ *
+ * `value` on an event is overwritten with the latest reading on each update,
+ * so detectors track the worst one in `peakValue` with `worstValue`. Which
+ * direction is worse depends on the type: a low-pressure event is worst at
+ * its lowest reading and a high-current one at its highest.
+ */
+import { prisma } from '@/lib/prisma'
+import { dispatchEventNotifications, eventTitle } from '@/lib/notifications'
+import { formatDuration } from '@/lib/format'
+
+interface PeakSpec {
+  /** Which way is worse. `abs` is for signed deviations either side of zero. */
+  worst: 'max' | 'min' | 'abs'
+  unit: string
+  digits: number
+}
+
+/** Types without an entry (SENSOR_ERROR, SYSTEM_ERROR) have no meaningful peak. */
+const PEAK_SPECS: Record<string, PeakSpec | undefined> = {
+  HIGH_CURRENT: { worst: 'max', unit: ' A', digits: 1 },
+  LOW_PRESSURE: { worst: 'min', unit: ' PSI', digits: 1 },
+  LOW_TEMPERATURE: { worst: 'min', unit: '°F', digits: 1 },
+  HIGH_HUMIDITY: { worst: 'max', unit: '%', digits: 0 },
+  MISSING_DATA: { worst: 'max', unit: ' min', digits: 0 },
+  LONG_PUMP_RUN: { worst: 'max', unit: ' min', digits: 0 },
+  PRESSURE_DROP: { worst: 'max', unit: ' PSI/h', digits: 1 },
+  SHORT_CYCLING: { worst: 'max', unit: ' starts', digits: 0 },
+  DRY_RUN: { worst: 'max', unit: ' min', digits: 0 },
+  CURRENT_DRIFT: { worst: 'abs', unit: '%', digits: 1 },
+  TANK_DEGRADED: { worst: 'min', unit: '/100', digits: 0 },
+  HIGH_WATER_USAGE: { worst: 'max', unit: ' gal', digits: 0 },
+  FREEZE_RISK: { worst: 'min', unit: ' h to freezing', digits: 1 },
+}
+
+/**
+ * The worse of an event's previous worst and a new reading, for the event's
+ * type. Pass `existing.peakValue ?? existing.value` as `previous`. Types with
+ * no peak keep the latest reading.
+ *
+ * Pure: no I/O, exported for testing.
+ */
+export function worstValue(type: string, previous: number, next: number): number {
+  switch (PEAK_SPECS[type]?.worst) {
+    case 'max':
+      return Math.max(previous, next)
+    case 'min':
+      return Math.min(previous, next)
+    case 'abs':
+      return Math.abs(next) > Math.abs(previous) ? next : previous
+    default:
+      return next
+  }
+}
+
+export interface ResolvableEvent {
+  id: string
+  type: string
+  device: string
+  location: string
+  value: number
+  peakValue: number | null
+  threshold: number
+  startTime: Date
+}
+
+/**
+ * Body of the resolved notification, e.g. "Low Pressure Alert on
+ * well-pump-monitor cleared after 42m 10s (peak 18.2 PSI)".
+ *
+ * Pure: no I/O, exported for testing.
+ */
+export function describeResolution(event: ResolvableEvent, durationMs: number): string {
+  const spec = PEAK_SPECS[event.type]
+  const peak = event.peakValue ?? event.value
+  const peakText = spec ? ` (peak ${peak.toFixed(spec.digits)}${spec.unit})` : ''
+  return (
+    `${eventTitle(event.type)} on ${event.device} cleared after ` +
+    `${formatDuration(durationMs / 1000)}${peakText}`
+  )
+}
+
+/**
+ * Mark `event` resolved at `now` and notify the users who opted in. The
+ * duration defaults to `now - startTime`; the events route passes the one the
+ * device reported. Throws only if the update itself fails.
+ */
+export async function resolveEvent(
+  event: ResolvableEvent,
+  now: Date,
+  duration: bigint = BigInt(Math.max(0, now.getTime() - event.startTime.getTime())),
+): Promise<void> {
+  await prisma.event.update({
+    where: { id: event.id },
+    data: { active: false, timestamp: now, duration },
+  })
+
+  try {
+    await dispatchEventNotifications({
+      id: event.id,
+      type: event.type,
+      device: event.device,
+      location: event.location,
+      value: event.peakValue ?? event.value,
+      threshold: event.threshold,
+      description: describeResolution(event, Number(duration)),
+      resolved: true,
+    })
+  } catch (error) {
+    console.error(`[event-resolution] notify failed for ${event.type}:`, error)
+  }
+}
@@ -0,0 +1,265 @@
+/**
+ * Freeze-risk forecasting from the pump-house temperature trend.
+ *
+ * LOW_TEMPERATURE fires once `tempMin` reaches its threshold, which is often
+ * hours after the heat lamp or heater actually failed. A failed heat source
+ * shows up much earlier as a steady fall in temperature, so this detector
+ * projects that fall forward instead of waiting for it to arrive:
+ *
+ *   1. Take the last `windowMinutes` of readings (the default hour gives ~60
+ *      samples, enough for a stable slope without lagging the trend).
+ *   2. Require the window to end in a fresh row and cover at least half its
+ *      length, so a sparse or stale stream can't produce a forecast.
+ *   3. Fit a least-squares line to tempMin over time (the same fit leak
+ *      detection uses for pressure) to get the fall rate in °F per hour.
+ *   4. Project the latest reading down to freezing at that rate. When the
+ *      crossing is within `horizonHours`, raise FREEZE_RISK.
+ *
+ * Only readings below `ceilingF` are forecast: a warm pump house cooling
+ * quickly after sunset is normal and would otherwise project a freeze.
+ *
+ * A flat or rising trend never forecasts a crossing, so the event resolves as
+ * soon as heat is restored. Once the pump house reaches freezing there is
+ * nothing left to forecast and no new event is raised (LOW_TEMPERATURE covers
+ * it), but an active one stays open until the temperature is back above
+ * freezing, so it never reports "cleared" at the coldest moment.
+ */
+import { prisma } from '@/lib/prisma'
+import { dispatchEventNotifications } from '@/lib/notifications'
+import { resolveEvent, worstValue } from '@/lib/event-resolution'
+import { getScopedSettings, resolveNumericSetting } from '@/lib/device-settings'
+import { leastSquaresSlope } from '@/lib/leak-detection'
+import { formatDuration } from '@/lib/format'
+
+/**
+ * Defaults. Three hours is enough warning to get to the pump house and
+ * replace a bulb; an hour of readings smooths over sensor jitter.
+ */
+export const DEFAULT_FREEZE_RISK_HORIZON_HOURS = 3
+export const DEFAULT_FREEZE_RISK_WINDOW_MINUTES = 60
+/** Well below a heated pump house's normal range, above any plausible alarm. */
+export const DEFAULT_FREEZE_RISK_CEILING_F = 45
+
+export const FREEZE_RISK_HORIZON_KEY = 'freezeRiskHorizonHours'
+export const FREEZE_RISK_WINDOW_KEY = 'freezeRiskWindowMinutes'
+export const FREEZE_RISK_CEILING_KEY = 'freezeRiskCeilingF'
+
+/** Temperatures are stored in Fahrenheit (see temperature.ts). */
+export const FREEZING_POINT_F = 32
+
+/** Required freshness of the most recent row to consider the result actionable. */
+const STALE_LATEST_MS = 5 * 60 * 1000
+
+/** Fewest readings a window needs before its slope is trusted. */
+const MIN_POINTS = 10
+
+/** The window must span at least this fraction of `windowMinutes`. */
+const MIN_COVERAGE_FRACTION = 0.5
+
+const HOUR_MS = 60 * 60 * 1000
+
+export interface FreezeRiskThresholds {
+  /** Warn when freezing is projected within this many hours. 0 disables. */
+  horizonHours: number
+  /** Length of the trend window (minutes). */
+  windowMinutes: number
+  /** Only forecast while the latest reading is below this (°F). */
+  ceilingF: number
+}
+
+export interface DetectFreezeRiskRow {
+  startTime: Date
+  endTime: Date
+  tempMin: number
+}
+
+export interface FreezeRiskResult {
+  /** Rate the temperature is falling, °F/h. Always positive. */
+  fallRateFPerHour: number
+  /** tempMin of the latest row. */
+  currentF: number
+  /** Hours from the latest row until the projected crossing. */
+  hoursToFreezing: number
+  /** Projected crossing (epoch ms). */
+  crossingMs: number
+}
+
+/**
+ * Fit the temperature trend over the window ending at `now` and decide whether
+ * it reaches freezing within the horizon. Pure: no I/O, exported for testing.
+ */
+export function detectFreezeRisk(
+  rows: readonly DetectFreezeRiskRow[],
+  thresholds: FreezeRiskThresholds,
+  now: Date,
+): FreezeRiskResult | null {
+  if (thresholds.horizonHours <= 0 || thresholds.windowMinutes <= 0) return null
+
+  const windowStartMs = now.getTime() - thresholds.windowMinutes * 60 * 1000
+  const window = rows.filter((r) => r.startTime.getTime() >= windowStartMs)
+  if (window.length < MIN_POINTS) return null
+
+  const first = window[0]
+  const last = window[window.length - 1]
+  if (now.getTime() - last.endTime.getTime() > STALE_LATEST_MS) return null
+
+  const spanMinutes = (last.endTime.getTime() - first.startTime.getTime()) / 60000
+  if (spanMinutes < thresholds.windowMinutes * MIN_COVERAGE_FRACTION) return null
+
+  const currentF = last.tempMin
+  if (currentF <= FREEZING_POINT_F || currentF >= thresholds.ceilingF) return null
+
+  const slopeFPerMs = leastSquaresSlope(
+    window.map((r) => ({ x: r.startTime.getTime(), y: r.tempMin })),
+  )
+  // Slope is negative when the pump house is cooling; flip to a positive rate.
+  const fallRateFPerHour = -slopeFPerMs * HOUR_MS
+  if (fallRateFPerHour <= 0) return null
+
+  const hoursToFreezing = (currentF - FREEZING_POINT_F) / fallRateFPerHour
+  if (hoursToFreezing > thresholds.horizonHours) return null
+
+  return {
+    fallRateFPerHour,
+    currentF,
+    hoursToFreezing,
+    crossingMs: last.endTime.getTime() + hoursToFreezing * HOUR_MS,
+  }
+}
+
+/** Freeze-risk thresholds in effect for `device`. */
+export async function getFreezeRiskThresholds(
+  device?: string,
+): Promise<FreezeRiskThresholds> {
+  try {
+    const settings = await getScopedSettings(
+      [FREEZE_RISK_HORIZON_KEY, FREEZE_RISK_WINDOW_KEY, FREEZE_RISK_CEILING_KEY],
+      device,
+    )
+
+    const resolve = (key: string, fallback: number): number =>
+      resolveNumericSetting(settings, key, fallback)
+
+    return {
+      horizonHours: resolve(FREEZE_RISK_HORIZON_KEY, DEFAULT_FREEZE_RISK_HORIZON_HOURS),
+      windowMinutes: resolve(FREEZE_RISK_WINDOW_KEY, DEFAULT_FREEZE_RISK_WINDOW_MINUTES),
+      ceilingF: resolve(FREEZE_RISK_CEILING_KEY, DEFAULT_FREEZE_RISK_CEILING_F),
+    }
+  } catch (error) {
+    console.error('[freeze-risk] failed to read thresholds:', error)
+    return {
+      horizonHours: DEFAULT_FREEZE_RISK_HORIZON_HOURS,
+      windowMinutes: DEFAULT_FREEZE_RISK_WINDOW_MINUTES,
+      ceilingF: DEFAULT_FREEZE_RISK_CEILING_F,
+    }
+  }
+}
+
+/** "2026-01-15 04:35 UTC" — events are shared, so no per-user timezone. */
+function formatCrossing(ms: number): string {
+  return new Date(ms).toISOString().slice(0, 16).replace('T', ' ') + ' UTC'
+}
+
+/**
+ * Forecast the given device's temperature and reconcile against any existing
+ * active FREEZE_RISK event:
+ *  - Crossing forecast + no existing -> create + notify
+ *  - Crossing forecast + existing    -> update value/ETA silently
+ *  - At or below freezing + existing -> keep open, update silently
+ *  - No forecast + existing          -> resolve (heat restored / trend flat)
+ * Never throws.
+ */
+export async function checkAndRecordFreezeRisk(
+  device: string,
+  location: string,
+  now: Date = new Date(),
+): Promise<void> {
+  try {
+    const thresholds = await getFreezeRiskThresholds(device)
+    if (thresholds.horizonHours <= 0 || thresholds.windowMinutes <= 0) return
+
+    const since = new Date(now.getTime() - thresholds.windowMinutes * 60 * 1000)
+    const rows = await prisma.sensorData.findMany({
+      where: { device, timestamp: { gte: since } },
+      orderBy: { timestamp: 'asc' },
+      select: {
+        startTime: true,
+        endTime: true,
+        tempMin: true,
+      },
+    })
+
+    const result = detectFreezeRisk(rows, thresholds, now)
+    const latest = rows.length > 0 ? rows[rows.length - 1] : undefined
+    const existing = await prisma.event.findFirst({
+      where: { device, type: 'FREEZE_RISK', active: true },
+      orderBy: { timestamp: 'desc' },
+    })
+
+    if (result) {
+      const description =
+        `Pump house temperature falling ${result.fallRateFPerHour.toFixed(1)}°F/h ` +
+        `(now ${result.currentF.toFixed(1)}°F) — projected to reach ` +
+        `${FREEZING_POINT_F}°F around ${formatCrossing(result.crossingMs)} ` +
+        `(in ${formatDuration(result.hoursToFreezing * 3600)}); check the heat source`
+
+      if (existing) {
+        await prisma.event.update({
+          where: { id: existing.id },
+          data: {
+            timestamp: now,
+            value: result.hoursToFreezing,
+            peakValue: worstValue('FREEZE_RISK', existing.peakValue ?? existing.value, result.hoursToFreezing),
+            duration: BigInt(now.getTime() - existing.startTime.getTime()),
+            description,
+          },
+        })
+      } else {
+        const created = await prisma.event.create({
+          data: {
+            device,
+            location,
+            timestamp: now,
+            type: 'FREEZE_RISK',
+            value: result.hoursToFreezing,
+            threshold: thresholds.horizonHours,
+            startTime: now,
+            duration: BigInt(0),
+            active: true,
+            description,
+          },
+        })
+        try {
+          await dispatchEventNotifications({
+            id: created.id,
+            type: 'FREEZE_RISK',
+            device,
+            location,
+            value: result.hoursToFreezing,
+            threshold: thresholds.horizonHours,
+            description,
+          })
+        } catch (notifyError) {
+          console.error('[freeze-risk] notification dispatch failed:', notifyError)
+        }
+      }
+    } else if (existing && latest && latest.tempMin <= FREEZING_POINT_F) {
+      await prisma.event.update({
+        where: { id: existing.id },
+        data: {
+          timestamp: now,
+          value: 0,
+          peakValue: 0,
+          duration: BigInt(now.getTime() - existing.startTime.getTime()),
+          description:
+            `Pump house has reached freezing (now ${latest.tempMin.toFixed(1)}°F); ` +
+            'check the heat source',
+        },
+      })
+    } else if (existing) {
+      await resolveEvent(existing, now)
+    }
+  } catch (error) {
+    console.error('[freeze-risk] check failed:', error)
+  }
+}
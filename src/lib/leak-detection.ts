@@ -34,6 +34,8 @@
  */
 import { prisma } from '@/lib/prisma'
 import { dispatchEventNotifications } from '@/lib/notifications'
+import { resolveEvent, worstValue } from '@/lib/event-resolution'
+import { getScopedSettings, resolveNumericSetting } from '@/lib/device-settings'
 
 /**
  * Defaults. 2 PSI/h is well above the noise floor of a tight residential
@@ -104,9 +106,10 @@ export interface PressureDropResult {
 /**
  * Centred least-squares slope. Centring on the mean of x avoids the float
  * precision pitfalls of running the textbook formula on epoch-ms x-values.
- * Returns 0 when there isn't enough variance to fit a line.
+ * Returns 0 when there isn't enough variance to fit a line. Also used by the
+ * freeze-risk forecast.
  */
-function slope(points: ReadonlyArray<{ x: number; y: number }>): number {
+export function leastSquaresSlope(points: ReadonlyArray<{ x: number; y: number }>): number {
   const n = points.length
   if (n < 2) return 0
   let meanX = 0
@@ -169,7 +172,7 @@ export function detectContinuousPressureDrop(
     x: r.startTime.getTime(),
     y: r.pressMin,
   }))
-  const slopePsiPerMs = slope(points)
+  const slopePsiPerMs = leastSquaresSlope(points)
   // Slope is negative when pressure is dropping; flip to a positive rate.
   const dropRatePsiPerHour = -slopePsiPerMs * 3_600_000
 
@@ -216,7 +219,7 @@ function passesPlateauCheck(
   let consecutivePlateaus = 0
   for (const bucket of buckets) {
     if (bucket.length < 2) continue // not enough to fit; neither pass nor fail
-    const bucketSlope = slope(
+    const bucketSlope = leastSquaresSlope(
       bucket.map((r) => ({ x: r.startTime.getTime(), y: r.pressMin })),
     )
     const bucketRate = -bucketSlope * 3_600_000
@@ -256,31 +259,26 @@ function bucketByTime(
   return buckets
 }
 
-/**
- * Read the configurable thresholds from SystemSettings, falling back to the
- * defaults when missing or malformed.
- */
-export async function getPressureDropThresholds(): Promise<PressureDropThresholds> {
+/** Pressure-drop thresholds in effect for `device`. */
+export async function getPressureDropThresholds(
+  device?: string,
+): Promise<PressureDropThresholds> {
   try {
-    const rows = await prisma.systemSettings.findMany({
-      where: { key: { in: [PRESSURE_DROP_RATE_KEY, PRESSURE_DROP_SEGMENT_KEY] } },
-    })
-    const byKey = new Map(rows.map((r) => [r.key, r.value]))
+    const settings = await getScopedSettings(
+      [PRESSURE_DROP_RATE_KEY, PRESSURE_DROP_SEGMENT_KEY],
+      device,
+    )
 
-    const parse = (raw: string | undefined, fallback: number): number => {
-      if (raw === undefined) return fallback
-      const v = parseFloat(raw)
-      if (!Number.isFinite(v) || v < 0) return fallback
-      return v
-    }
+    const resolve = (key: string, fallback: number): number =>
+      resolveNumericSetting(settings, key, fallback)
 
     return {
-      maxDropRatePsiPerHour: parse(
-        byKey.get(PRESSURE_DROP_RATE_KEY),
+      maxDropRatePsiPerHour: resolve(
+        PRESSURE_DROP_RATE_KEY,
         DEFAULT_PRESSURE_DROP_RATE_PSI_PER_HOUR,
       ),
-      minSegmentMinutes: parse(
-        byKey.get(PRESSURE_DROP_SEGMENT_KEY),
+      minSegmentMinutes: resolve(
+        PRESSURE_DROP_SEGMENT_KEY,
         DEFAULT_PRESSURE_DROP_SEGMENT_MINUTES,
       ),
     }
@@ -307,7 +305,7 @@ export async function checkAndRecordPressureDrop(
   now: Date = new Date(),
 ): Promise<void> {
   try {
-    const thresholds = await getPressureDropThresholds()
+    const thresholds = await getPressureDropThresholds(device)
     if (
       thresholds.maxDropRatePsiPerHour <= 0 ||
       thresholds.minSegmentMinutes <= 0
@@ -352,12 +350,13 @@ export async function checkAndRecordPressureDrop(
           data: {
             timestamp: now,
             value: result.dropRatePsiPerHour,
+            peakValue: worstValue('PRESSURE_DROP', existing.peakValue ?? existing.value, result.dropRatePsiPerHour),
             duration: BigInt(now.getTime() - existing.startTime.getTime()),
             description,
           },
         })
       } else {
-        await prisma.event.create({
+        const created = await prisma.event.create({
           data: {
             device,
             location,
@@ -373,6 +372,7 @@ export async function checkAndRecordPressureDrop(
         })
         try {
           await dispatchEventNotifications({
+            id: created.id,
             type: 'PRESSURE_DROP',
             device,
             location,
@@ -389,10 +389,7 @@ export async function checkAndRecordPressureDrop(
       }
     } else if (existing) {
       // Condition cleared (pump cycled / rate fell back below threshold).
-      await prisma.event.update({
-        where: { id: existing.id },
-        data: { active: false, timestamp: now },
-      })
+      await resolveEvent(existing, now)
     }
   } catch (error) {
     console.error('[leak-detection] check failed:', error)
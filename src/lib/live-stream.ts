@@ -0,0 +1,82 @@
+/**
+ * Live updates for `GET /api/stream`.
+ *
+ * Ingestion publishes each stored sensor row, and notifications each event
+ * transition, to an in-process bus; every open stream subscribes to it and
+ * forwards the messages to the browser as Server-Sent Events. Nothing is
+ * buffered: a browser that is not connected catches up by polling.
+ *
+ * The bus lives on `globalThis`. Next.js bundles the route handlers and
+ * `src/instrumentation.ts` (which runs the MQTT subscriber) separately, and a
+ * row ingested over MQTT must reach streams opened through the routes.
+ */
+import { EventEmitter } from 'events'
+import type { SensorPayload } from '@/lib/payload-validation'
+import type { WebhookBody } from '@/lib/webhooks'
+
+/** A stored sensor row, as `GET /api/sensors` returns it. */
+export type LiveSensorRow = SensorPayload & { id: string }
+
+/** An event transition, timestamped when it was published. */
+export type LiveEventTransition = WebhookBody & { timestamp: Date }
+
+export type LiveMessage =
+  | { type: 'sensor'; data: LiveSensorRow }
+  | { type: 'event'; data: LiveEventTransition }
+
+export type LiveListener = (message: LiveMessage) => void
+
+const MESSAGE = 'message'
+
+const globalForLiveStream = globalThis as unknown as {
+  wellPumpLiveStream: EventEmitter | undefined
+}
+
+function bus(): EventEmitter {
+  if (!globalForLiveStream.wellPumpLiveStream) {
+    const emitter = new EventEmitter()
+    // One listener per open dashboard; don't warn past the default of 10.
+    emitter.setMaxListeners(0)
+    globalForLiveStream.wellPumpLiveStream = emitter
+  }
+  return globalForLiveStream.wellPumpLiveStream
+}
+
+/** Send a message to every open stream. Never throws. */
+export function publishLive(message: LiveMessage): void {
+  for (const listener of bus().listeners(MESSAGE) as LiveListener[]) {
+    try {
+      listener(message)
+    } catch (error) {
+      console.error('[live-stream] listener failed:', error)
+    }
+  }
+}
+
+/** Push freshly stored sensor rows to the open streams. */
+export function publishLiveSensorRows(rows: readonly LiveSensorRow[]): void {
+  for (const row of rows) publishLive({ type: 'sensor', data: row })
+}
+
+/** Push an event transition to the open streams. */
+export function publishLiveEvent(body: WebhookBody, now: Date = new Date()): void {
+  publishLive({ type: 'event', data: { ...body, timestamp: now } })
+}
+
+/** Receive every message published from now on. Returns the unsubscribe. */
+export function subscribeLive(listener: LiveListener): () => void {
+  bus().on(MESSAGE, listener)
+  return () => {
+    bus().off(MESSAGE, listener)
+  }
+}
+
+/**
+ * One message in the `text/event-stream` format: the message type as the SSE
+ * event name and its data as JSON.
+ *
+ * Pure: no I/O, exported for testing.
+ */
+export function formatServerSentEvent(message: LiveMessage): string {
+  return `event: ${message.type}\ndata: ${JSON.stringify(message.data)}\n\n`
+}
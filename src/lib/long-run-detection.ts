@@ -12,11 +12,20 @@
  * Detection lives here (called from /api/sensors after the row is saved) so
  * it's evaluated every minute on freshly-arrived data without spinning up a
  * separate cron tick.
+ *
+ * Both pump channels are checked against the same threshold, each with its own
+ * LONG_PUMP_RUN event (see `@/lib/pump-channels`), so a booster pump on
+ * channel 2 that never stops is reported under its own name.
  */
 import { prisma } from '@/lib/prisma'
 import { dispatchEventNotifications } from '@/lib/notifications'
+import { resolveEvent, worstValue } from '@/lib/event-resolution'
+import { getScopedSettings, resolveNumericSetting } from '@/lib/device-settings'
+import { channelDutyCycle } from '@/lib/stats'
+import { getChannelNames, PUMP_CHANNELS, type PumpChannel } from '@/lib/pump-channels'
+import type { SensorChannel } from '@/lib/sensor-sanity'
 
-/** Default threshold (minutes) — overridable via SystemSettings. */
+/** Default threshold (minutes) — overridable via SystemSettings, globally or per device. */
 export const DEFAULT_LONG_RUN_THRESHOLD_MINUTES = 60
 
 /** Settings key holding the admin-configured threshold (minutes, integer). */
@@ -49,7 +58,7 @@ export interface ActiveLongRun {
   runStartMs: number
   /** End of the latest on-sample (used to detect run termination). */
   lastOnEndMs: number
-  /** Sum of (dutyCycle1/100) × windowSeconds across the run. */
+  /** Sum of (dutyCycle/100) × windowSeconds across the run. */
   actualOnSeconds: number
 }
 
@@ -57,18 +66,22 @@ export interface DetectLongRunRow {
   startTime: Date
   endTime: Date
   dutyCycle1: number
+  /** Second pump channel; treated as 0 when absent. */
+  dutyCycle2?: number
 }
 
 /**
  * Walk a chronologically-ordered batch of recent sensor rows for one device
- * and return the currently-active long run (if any). Returns null when the
- * pump isn't currently running or when the most recent sample is stale.
+ * and return the currently-active long run (if any) on `channel`. Returns null
+ * when that pump isn't currently running or when the most recent sample is
+ * stale.
  *
  * Pure: no I/O, exported for testing.
  */
 export function detectActiveLongRun(
   rows: readonly DetectLongRunRow[],
   now: Date,
+  channel: PumpChannel = 1,
 ): ActiveLongRun | null {
   const mergeGapMs = MERGE_GAP_SECONDS * 1000
 
@@ -80,7 +93,8 @@ export function detectActiveLongRun(
     const startMs = row.startTime.getTime()
     const endMs = row.endTime.getTime()
     const windowSec = Math.max(0, (endMs - startMs) / 1000)
-    const isOn = row.dutyCycle1 > ON_DUTY_CYCLE
+    const dutyCycle = channelDutyCycle(row, channel)
+    const isOn = dutyCycle > ON_DUTY_CYCLE
 
     if (isOn) {
       const startsNewRun =
@@ -90,7 +104,7 @@ export function detectActiveLongRun(
         runStartMs = startMs
         actualOnSeconds = 0
       }
-      actualOnSeconds += (row.dutyCycle1 / 100) * windowSec
+      actualOnSeconds += (dutyCycle / 100) * windowSec
       lastOnEndMs = endMs
     } else if (
       runStartMs !== null &&
@@ -111,21 +125,22 @@ export function detectActiveLongRun(
 }
 
 /**
- * Read the admin-configured threshold from SystemSettings. Falls back to
- * DEFAULT_LONG_RUN_THRESHOLD_MINUTES when unset or invalid. A non-positive
- * stored value disables the check entirely (returns 0).
+ * Read the admin-configured threshold from SystemSettings, preferring the
+ * device's override when one is set. Falls back to
+ * DEFAULT_LONG_RUN_THRESHOLD_MINUTES when unset or invalid (see
+ * `resolveNumericSetting`), rounded down to whole minutes. 0 disables the
+ * check entirely.
  */
-export async function getLongRunThresholdMinutes(): Promise<number> {
+export async function getLongRunThresholdMinutes(device?: string): Promise<number> {
   try {
-    const setting = await prisma.systemSettings.findUnique({
-      where: { key: LONG_RUN_THRESHOLD_SETTING_KEY },
-    })
-    if (!setting) return DEFAULT_LONG_RUN_THRESHOLD_MINUTES
-    const parsed = parseInt(setting.value, 10)
-    if (!Number.isFinite(parsed) || parsed < 0) {
-      return DEFAULT_LONG_RUN_THRESHOLD_MINUTES
-    }
-    return parsed
+    const settings = await getScopedSettings([LONG_RUN_THRESHOLD_SETTING_KEY], device)
+    return Math.floor(
+      resolveNumericSetting(
+        settings,
+        LONG_RUN_THRESHOLD_SETTING_KEY,
+        DEFAULT_LONG_RUN_THRESHOLD_MINUTES,
+      ),
+    )
   } catch (error) {
     console.error(
       '[long-run] failed to read threshold setting; using default:',
@@ -136,12 +151,13 @@ export async function getLongRunThresholdMinutes(): Promise<number> {
 }
 
 /**
- * Run the long-run check for the given device and reconcile the result against
- * any existing active LONG_PUMP_RUN event:
+ * Run the long-run check for each pump channel of the given device and
+ * reconcile each result against that channel's active LONG_PUMP_RUN event:
  *  - Long run detected + no active event  -> create + notify (first detection)
  *  - Long run detected + existing event   -> update value/duration silently
  *  - Long run no longer detected + active -> resolve the event
  *  - Nothing detected + nothing active    -> no-op
+ * Channels whose current sensor is in `faulty` are skipped entirely.
  *
  * Never throws — sensor ingestion must not break because of an alerting bug.
  */
@@ -149,9 +165,10 @@ export async function checkAndRecordLongRun(
   device: string,
   location: string,
   now: Date = new Date(),
+  faulty: ReadonlySet<SensorChannel> = new Set(),
 ): Promise<void> {
   try {
-    const thresholdMinutes = await getLongRunThresholdMinutes()
+    const thresholdMinutes = await getLongRunThresholdMinutes(device)
     // 0 disables the feature entirely. Don't even touch existing events so an
     // admin who turned the feature off doesn't accidentally clear in-flight
     // alerts mid-incident.
@@ -164,74 +181,106 @@ export async function checkAndRecordLongRun(
     const rows = await prisma.sensorData.findMany({
       where: { device, timestamp: { gte: since } },
       orderBy: { timestamp: 'asc' },
-      select: { startTime: true, endTime: true, dutyCycle1: true },
+      select: { startTime: true, endTime: true, dutyCycle1: true, dutyCycle2: true },
     })
+    const names = await getChannelNames(device)
 
-    const active = detectActiveLongRun(rows, now)
-    const existingEvent = await prisma.event.findFirst({
-      where: { device, type: 'LONG_PUMP_RUN', active: true },
-      orderBy: { timestamp: 'desc' },
-    })
+    for (const channel of PUMP_CHANNELS) {
+      if (faulty.has(channel === 2 ? 'current2' : 'current1')) continue
+      await reconcileChannel({
+        device,
+        location,
+        channel,
+        name: names[channel],
+        active: detectActiveLongRun(rows, now, channel),
+        thresholdMinutes,
+        now,
+      })
+    }
+  } catch (error) {
+    console.error('[long-run] check failed:', error)
+  }
+}
 
-    const runMinutes = active ? active.actualOnSeconds / 60 : 0
-    const thresholdExceeded = active !== null && runMinutes >= thresholdMinutes
-
-    if (thresholdExceeded && active) {
-      const runStart = new Date(active.runStartMs)
-      const duration = BigInt(now.getTime() - active.runStartMs)
-      const description =
-        `Pump has been running for ${Math.round(runMinutes)} minutes ` +
-        `(threshold: ${thresholdMinutes} min)`
-
-      if (existingEvent) {
-        await prisma.event.update({
-          where: { id: existingEvent.id },
-          data: {
-            timestamp: now,
-            value: runMinutes,
-            duration,
-            description,
-          },
-        })
-      } else {
-        await prisma.event.create({
-          data: {
-            device,
-            location,
-            timestamp: now,
-            type: 'LONG_PUMP_RUN',
-            value: runMinutes,
-            threshold: thresholdMinutes,
-            startTime: runStart,
-            duration,
-            active: true,
-            description,
-          },
-        })
-        try {
-          await dispatchEventNotifications({
-            type: 'LONG_PUMP_RUN',
-            device,
-            location,
-            value: runMinutes,
-            threshold: thresholdMinutes,
-            description,
-          })
-        } catch (notifyError) {
-          console.error(
-            '[long-run] notification dispatch failed:',
-            notifyError,
-          )
-        }
-      }
-    } else if (existingEvent && !active) {
-      // Pump stopped — clear the active alert.
+interface ReconcileChannelOptions {
+  device: string
+  location: string
+  channel: PumpChannel
+  /** Display name of the channel, used in the description. */
+  name: string
+  active: ActiveLongRun | null
+  thresholdMinutes: number
+  now: Date
+}
+
+/** Create, update or resolve one channel's LONG_PUMP_RUN event. */
+async function reconcileChannel(opts: ReconcileChannelOptions): Promise<void> {
+  const { device, location, channel, name, active, thresholdMinutes, now } = opts
+  const existingEvent = await prisma.event.findFirst({
+    where: { device, type: 'LONG_PUMP_RUN', channel, active: true },
+    orderBy: { timestamp: 'desc' },
+  })
+
+  const runMinutes = active ? active.actualOnSeconds / 60 : 0
+  const thresholdExceeded = active !== null && runMinutes >= thresholdMinutes
+
+  if (thresholdExceeded && active) {
+    const runStart = new Date(active.runStartMs)
+    const duration = BigInt(now.getTime() - active.runStartMs)
+    const description =
+      `${name} has been running for ${Math.round(runMinutes)} minutes ` +
+      `(threshold: ${thresholdMinutes} min)`
+
+    if (existingEvent) {
       await prisma.event.update({
         where: { id: existingEvent.id },
-        data: { active: false, timestamp: now },
+        data: {
+          timestamp: now,
+          value: runMinutes,
+          peakValue: worstValue(
+            'LONG_PUMP_RUN',
+            existingEvent.peakValue ?? existingEvent.value,
+            runMinutes,
+          ),
+          duration,
+          description,
+        },
+      })
+    } else {
+      const created = await prisma.event.create({
+        data: {
+          device,
+          location,
+          timestamp: now,
+          type: 'LONG_PUMP_RUN',
+          channel,
+          value: runMinutes,
+          threshold: thresholdMinutes,
+          startTime: runStart,
+          duration,
+          active: true,
+          description,
+        },
       })
+      try {
+        await dispatchEventNotifications({
+          id: created.id,
+          type: 'LONG_PUMP_RUN',
+          device,
+          location,
+          value: runMinutes,
+          threshold: thresholdMinutes,
+          description,
+        })
+      } catch (notifyError) {
+        console.error(
+          '[long-run] notification dispatch failed:',
+          notifyError,
+        )
+      }
     }
-  } catch (error) {
-    console.error('[long-run] check failed:', error)
+  } else if (existingEvent && !active) {
+    // Pump stopped — clear the active alert.
+    await resolveEvent(existingEvent, now)
   }
 }
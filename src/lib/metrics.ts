@@ -0,0 +1,197 @@
+/**
+ * Prometheus metrics for `GET /api/metrics`.
+ *
+ * Counters and histograms are kept in memory and count from process start;
+ * Prometheus' `rate()` and `increase()` handle the reset on a restart. The
+ * reading gauges and seconds-since-last-data are read from the database on
+ * each scrape, so they are right even for devices that stopped reporting
+ * before the process started.
+ *
+ * The registry lives on `globalThis`. Next.js bundles the route handlers and
+ * `src/instrumentation.ts` (which runs the MQTT subscriber) separately, and
+ * both must count into the same metrics.
+ */
+import { Counter, Gauge, Histogram, Registry } from 'prom-client'
+import { prisma } from '@/lib/prisma'
+import type { SensorPayload } from '@/lib/payload-validation'
+
+/** Matches the detectors: any measurable duty cycle means the pump ran. */
+const PUMP_ON_DUTY_CYCLE = 0
+
+/** What an ingestion-duration sample measured. */
+export type IngestKind = 'sensors' | 'events'
+
+function createMetrics() {
+  const registry = new Registry()
+  const registers = [registry]
+
+  const reading = (name: string, help: string, labelNames: string[] = ['device']) =>
+    new Gauge({ name, help, labelNames, registers })
+
+  return {
+    registry,
+    pressure: reading('wellpump_pressure_psi', 'Average pressure of the latest reading'),
+    temperature: reading(
+      'wellpump_temperature_fahrenheit',
+      'Average pump house temperature of the latest reading'
+    ),
+    humidity: reading('wellpump_humidity_percent', 'Average humidity of the latest reading'),
+    current: reading(
+      'wellpump_current_amps',
+      'RMS current of the latest reading, per channel',
+      ['device', 'channel']
+    ),
+    dutyCycle: reading(
+      'wellpump_duty_cycle',
+      'Duty cycle of the latest reading as reported by the device, per channel',
+      ['device', 'channel']
+    ),
+    sinceLastData: reading(
+      'wellpump_seconds_since_last_data',
+      'Seconds since the device last posted anything'
+    ),
+    rowsIngested: new Counter({
+      name: 'wellpump_sensor_rows_ingested_total',
+      help: 'Sensor rows stored, duplicates excluded',
+      labelNames: ['device'],
+      registers,
+    }),
+    pumpStarts: new Counter({
+      name: 'wellpump_pump_starts_total',
+      help: 'Pump starts seen in ingested readings (duty cycle going from zero to above zero)',
+      labelNames: ['device'],
+      registers,
+    }),
+    events: new Counter({
+      name: 'wellpump_events_total',
+      help: 'Alert events raised, by type',
+      labelNames: ['type'],
+      registers,
+    }),
+    notifications: new Counter({
+      name: 'wellpump_notifications_total',
+      help: 'Notification delivery attempts, by channel and outcome (sent, retrying, failed)',
+      labelNames: ['channel', 'outcome'],
+      registers,
+    }),
+    ingestDuration: new Histogram({
+      name: 'wellpump_ingest_duration_seconds',
+      help: 'Time to validate, store and run detection for one device post',
+      labelNames: ['kind'],
+      buckets: [0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10],
+      registers,
+    }),
+    dataDelay: new Histogram({
+      name: 'wellpump_sensor_data_delay_seconds',
+      help: 'Time from the end of a reading window to the row being stored',
+      buckets: [1, 5, 15, 30, 60, 120, 300, 900, 3600, 21600, 86400],
+      registers,
+    }),
+    /** Last pump state seen per device, to count starts across posts. */
+    pumpState: new Map<string, { on: boolean; at: number }>(),
+  }
+}
+
+type Metrics = ReturnType<typeof createMetrics>
+
+const globalForMetrics = globalThis as unknown as {
+  wellPumpMetrics: Metrics | undefined
+}
+
+function metrics(): Metrics {
+  globalForMetrics.wellPumpMetrics ??= createMetrics()
+  return globalForMetrics.wellPumpMetrics
+}
+
+/** Content type of `renderMetrics` output. */
+export function metricsContentType(): string {
+  return metrics().registry.contentType
+}
+
+/**
+ * Count freshly stored sensor rows: rows per device, pump starts and how late
+ * each row arrived. The first row per device after a restart only sets the
+ * pump state, since what came before it is unknown. Never throws.
+ */
+export function recordSensorRows(rows: readonly SensorPayload[], now: Date = new Date()): void {
+  try {
+    const m = metrics()
+    const ordered = [...rows].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+    for (const row of ordered) {
+      m.rowsIngested.inc({ device: row.device })
+      m.dataDelay.observe(Math.max(0, (now.getTime() - row.endTime.getTime()) / 1000))
+
+      const at = row.timestamp.getTime()
+      const on = row.dutyCycle1 > PUMP_ON_DUTY_CYCLE
+      const previous = m.pumpState.get(row.device)
+      // A replayed row older than the last one seen says nothing new.
+      if (previous && at <= previous.at) continue
+      if (previous && !previous.on && on) m.pumpStarts.inc({ device: row.device })
+      m.pumpState.set(row.device, { on, at })
+    }
+  } catch (error) {
+    console.error('[metrics] could not record sensor rows:', error)
+  }
+}
+
+/** Count a newly raised alert event. */
+export function recordEventRaised(type: string): void {
+  metrics().events.inc({ type })
+}
+
+/** Count one notification delivery attempt and its outcome. */
+export function recordNotification(channel: string, outcome: string): void {
+  metrics().notifications.inc({ channel, outcome })
+}
+
+/** Run one ingestion and record how long it took, whether or not it threw. */
+export async function timeIngestion<T>(kind: IngestKind, ingest: () => Promise<T>): Promise<T> {
+  const end = metrics().ingestDuration.startTimer({ kind })
+  try {
+    return await ingest()
+  } finally {
+    end()
+  }
+}
+
+/**
+ * Refresh the gauges from the database and render every metric in the
+ * Prometheus text format. Throws on database errors.
+ */
+export async function renderMetrics(now: Date = new Date()): Promise<string> {
+  const m = metrics()
+  const devices = await prisma.device.findMany({
+    select: { device: true, lastSeenAt: true },
+    orderBy: { device: 'asc' },
+  })
+  const latest = await Promise.all(
+    devices.map(({ device }) =>
+      prisma.sensorData.findFirst({ where: { device }, orderBy: { timestamp: 'desc' } })
+    )
+  )
+
+  // Start over so devices that were removed drop out.
+  const gauges = [m.pressure, m.temperature, m.humidity, m.current, m.dutyCycle, m.sinceLastData]
+  for (const gauge of gauges) gauge.reset()
+  devices.forEach(({ device, lastSeenAt }, index) => {
+    if (lastSeenAt) {
+      m.sinceLastData.set({ device }, Math.max(0, (now.getTime() - lastSeenAt.getTime()) / 1000))
+    }
+    const row = latest[index]
+    if (!row) return
+    m.pressure.set({ device }, row.pressAvg)
+    m.temperature.set({ device }, row.tempAvg)
+    m.humidity.set({ device }, row.humAvg)
+    m.current.set({ device, channel: '1' }, row.current1RMS)
+    m.current.set({ device, channel: '2' }, row.current2RMS)
+    m.dutyCycle.set({ device, channel: '1' }, row.dutyCycle1)
+    m.dutyCycle.set({ device, channel: '2' }, row.dutyCycle2)
+  })
+
+  return m.registry.metrics()
+}
+
+/** Drop every recorded value. For tests. */
+export function resetMetrics(): void {
+  globalForMetrics.wellPumpMetrics = undefined
+}
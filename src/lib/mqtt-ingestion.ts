@@ -0,0 +1,173 @@
+/**
+ * MQTT ingestion: an alternative to HTTP POST for the ESP32.
+ *
+ * A TLS HTTPS POST every minute is heavy for the device. With "Accept device
+ * posts over MQTT" on (Settings → System → MQTT), the server subscribes to:
+ *
+ *  - `<prefix>/ingest/sensors`: the body of `POST /api/sensors`, a single row
+ *    or a replayed batch
+ *  - `<prefix>/ingest/events`: the body of `POST /api/events`
+ *
+ * Each message is a JSON envelope:
+ *
+ *     { "token": "<device token>", "data": <POST body>,
+ *       "firmwareVersion": "1.4.2", "replyTo": "<prefix>/ingest/reply/pump-1" }
+ *
+ * The token is checked like the `Authorization` header and needs the same
+ * `sensors` or `events` permission. `data` then goes through the same
+ * validation, storage and detection as the HTTP routes (`ingestSensorData`,
+ * `ingestEvent`), so both transports behave identically. When `replyTo` is a
+ * topic under the prefix, the HTTP status and response body are published
+ * there, so a device replaying its buffer can drop exactly the rows that were
+ * accepted. `firmwareVersion` and `replyTo` are optional.
+ *
+ * The subscriber is started once from `src/instrumentation.ts`; restart the
+ * server after changing the broker settings. It keeps a persistent session at
+ * QoS 1, so messages a device publishes at QoS 1 while the server is down are
+ * delivered once it is back.
+ */
+import mqtt, { type MqttClient } from 'mqtt'
+import { authenticateDeviceToken, hasPermission } from '@/lib/auth-middleware'
+import { deviceMetadataFromMessage } from '@/lib/devices'
+import { ingestEvent } from '@/lib/event-ingestion'
+import { connectOptions, loadMqttConfig, type MqttConfig } from '@/lib/mqtt'
+import { ingestSensorData, type IngestResult } from '@/lib/sensor-ingestion'
+
+/** Fixed so the broker keeps the session, and queued messages, across restarts. */
+const INGEST_CLIENT_ID = 'well-pump-monitor-ingest'
+
+/** Longest reply topic accepted from a device. */
+const MAX_REPLY_TOPIC_LENGTH = 256
+
+/** What each ingest topic carries; also the permission it needs. */
+type IngestKind = 'sensors' | 'events'
+
+/** The topic a device publishes `kind` posts to. */
+export function ingestTopic(config: MqttConfig, kind: IngestKind): string {
+  return `${config.topicPrefix}/ingest/${kind}`
+}
+
+export interface IngestMessageResult {
+  result: IngestResult
+  /** Where to publish the result, when the device asked for one. */
+  replyTo: string | null
+}
+
+/** `value` when it is a topic under the prefix without wildcards. */
+function replyTopic(config: MqttConfig, value: unknown): string | null {
+  if (typeof value !== 'string' || value.length > MAX_REPLY_TOPIC_LENGTH) return null
+  if (!value.startsWith(`${config.topicPrefix}/`) || /[+#]/.test(value)) return null
+  return value
+}
+
+/**
+ * Authenticate and ingest one message from an ingest topic. Never throws: a
+ * database error becomes a 500 result, exactly as the HTTP route reports it.
+ */
+export async function handleIngestMessage(
+  config: MqttConfig,
+  topic: string,
+  payload: Buffer,
+): Promise<IngestMessageResult> {
+  const kind = (['sensors', 'events'] as const).find((k) => ingestTopic(config, k) === topic)
+  if (!kind) {
+    return {
+      result: { status: 404, body: { error: `Not an ingest topic: ${topic}` } },
+      replyTo: null,
+    }
+  }
+
+  let envelope: unknown
+  try {
+    envelope = JSON.parse(payload.toString('utf8'))
+  } catch {
+    return { result: { status: 400, body: { error: 'Message must be JSON' } }, replyTo: null }
+  }
+  if (typeof envelope !== 'object' || envelope === null || Array.isArray(envelope)) {
+    return {
+      result: { status: 400, body: { error: 'Message must be an object with token and data' } },
+      replyTo: null,
+    }
+  }
+  const message = envelope as Record<string, unknown>
+  const replyTo = replyTopic(config, message.replyTo)
+
+  const auth = typeof message.token === 'string' && message.token
+    ? await authenticateDeviceToken(message.token)
+    : null
+  if (!auth || !hasPermission(auth, kind)) {
+    return { result: { status: 401, body: { error: 'Unauthorized' } }, replyTo }
+  }
+
+  try {
+    const metadata = deviceMetadataFromMessage(message.firmwareVersion)
+    const result = kind === 'sensors'
+      ? await ingestSensorData(message.data, metadata)
+      : await ingestEvent(message.data, metadata)
+    return { result, replyTo }
+  } catch (error) {
+    console.error(`[mqtt] error ingesting ${kind}:`, error)
+    return { result: { status: 500, body: { error: 'Internal server error' } }, replyTo }
+  }
+}
+
+let ingestClient: MqttClient | null = null
+
+/**
+ * Subscribe to the ingest topics when MQTT ingestion is enabled. Returns
+ * whether the subscriber was started; never throws.
+ */
+export async function startMqttIngestion(): Promise<boolean> {
+  try {
+    const config = await loadMqttConfig()
+    if (!config?.ingest || ingestClient) return false
+
+    const topics = [ingestTopic(config, 'sensors'), ingestTopic(config, 'events')]
+    const client = mqtt.connect(config.brokerUrl, {
+      ...connectOptions(config),
+      clientId: INGEST_CLIENT_ID,
+      clean: false,
+      // Subscribed on every connect below.
+      resubscribe: false,
+    })
+
+    client.on('connect', () => {
+      client.subscribe(topics, { qos: 1 }, (error) => {
+        if (error) {
+          console.error(`[mqtt] subscribe to ${topics.join(', ')} failed: ${error.message}`)
+        } else {
+          console.log(`[mqtt] ingesting device posts from ${topics.join(', ')}`)
+        }
+      })
+    })
+    client.on('error', (error) => {
+      console.error(`[mqtt] ${config.brokerUrl}: ${error.message}`)
+    })
+    client.on('message', (topic, payload) => {
+      void handleIngestMessage(config, topic, payload).then(({ result, replyTo }) => {
+        if (result.status >= 400) {
+          console.warn(`[mqtt] ${topic} rejected with ${result.status}: ${String(result.body.error)}`)
+        }
+        if (!replyTo) return
+        const reply = JSON.stringify({ status: result.status, ...result.body })
+        client.publish(replyTo, reply, { qos: 1 }, (error) => {
+          if (error) console.error(`[mqtt] reply to ${replyTo} failed: ${error.message}`)
+        })
+      })
+    })
+
+    ingestClient = client
+    return true
+  } catch (error) {
+    console.error(
+      `[mqtt] could not start ingestion: ${error instanceof Error ? error.message : String(error)}`
+    )
+    return false
+  }
+}
+
+/** Disconnect the subscriber. For tests and shutdown. */
+export function stopMqttIngestion(): void {
+  ingestClient?.end(true)
+  ingestClient = null
+}
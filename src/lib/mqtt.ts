@@ -0,0 +1,332 @@
+/**
+ * MQTT publishing.
+ *
+ * When enabled in `SystemSettings` (Settings → System → MQTT), every accepted
+ * sensor row and every event transition is published to a broker so home
+ * automation can follow the pump without polling the API:
+ *
+ *  - `<prefix>/<device>/state`: the latest reading as JSON, retained
+ *  - `<prefix>/<device>/event/<type>`: the event's latest transition, retained,
+ *    in the same shape as a webhook body (see `src/lib/webhooks.ts`)
+ *
+ * With Home Assistant discovery on, retained config messages under
+ * `<discovery prefix>/…/config` make pressure, temperature, humidity, the
+ * pump currents and the pump-on state show up as entities of one device.
+ *
+ * Publishing is best effort and fire-and-forget: it never throws, never waits
+ * for the broker, and drops messages while the broker is unreachable, so
+ * ingestion is never held up by MQTT.
+ */
+import mqtt, { type IClientOptions, type MqttClient } from 'mqtt'
+import { prisma } from '@/lib/prisma'
+import type { SensorPayload } from '@/lib/payload-validation'
+import type { WebhookBody } from '@/lib/webhooks'
+
+/** SystemSettings keys read by this module. */
+export const MQTT_SETTING_KEYS = [
+  'mqttEnabled',
+  'mqttBrokerUrl',
+  'mqttUsername',
+  'mqttPassword',
+  'mqttTopicPrefix',
+  'mqttDiscoveryEnabled',
+  'mqttDiscoveryPrefix',
+  'mqttIngestEnabled',
+] as const
+
+export const DEFAULT_TOPIC_PREFIX = 'wellpump'
+export const DEFAULT_DISCOVERY_PREFIX = 'homeassistant'
+
+/** Matches the detectors: any measurable duty cycle means the pump ran. */
+const PUMP_ON_DUTY_CYCLE = 0
+
+const RECONNECT_PERIOD_MS = 10 * 1000
+const CONNECT_TIMEOUT_MS = 5 * 1000
+
+export interface MqttConfig {
+  brokerUrl: string
+  /** Publish readings and event transitions. */
+  publish: boolean
+  /** Accept device posts over MQTT (see `src/lib/mqtt-ingestion.ts`). */
+  ingest: boolean
+  username?: string
+  password?: string
+  topicPrefix: string
+  discovery: boolean
+  discoveryPrefix: string
+}
+
+export interface MqttMessage {
+  topic: string
+  payload: string
+}
+
+/**
+ * The MQTT config from raw SystemSettings values, or null when no broker is
+ * set. Blank prefixes fall back to their defaults.
+ *
+ * Pure: no I/O, exported for testing.
+ */
+export function parseMqttConfig(settings: Map<string, string>): MqttConfig | null {
+  const get = (key: string) => settings.get(key)?.trim() ?? ''
+  const brokerUrl = get('mqttBrokerUrl')
+  if (!brokerUrl) return null
+
+  const topicPrefix = get('mqttTopicPrefix').replace(/\/+$/, '') || DEFAULT_TOPIC_PREFIX
+  const discoveryPrefix =
+    get('mqttDiscoveryPrefix').replace(/\/+$/, '') || DEFAULT_DISCOVERY_PREFIX
+  return {
+    brokerUrl,
+    publish: get('mqttEnabled') === 'true',
+    ingest: get('mqttIngestEnabled') === 'true',
+    ...(get('mqttUsername') ? { username: get('mqttUsername') } : {}),
+    ...(settings.get('mqttPassword') ? { password: settings.get('mqttPassword') } : {}),
+    topicPrefix,
+    discovery: get('mqttDiscoveryEnabled') === 'true',
+    discoveryPrefix,
+  }
+}
+
+/** A device name made safe for one topic level: no wildcards or separators. */
+function topicSegment(value: string): string {
+  return value.replace(/[+#/]/g, '_')
+}
+
+/** Topic carrying a device's latest reading. */
+export function stateTopic(config: MqttConfig, device: string): string {
+  return `${config.topicPrefix}/${topicSegment(device)}/state`
+}
+
+/** Topic carrying the latest transition of a device's events of one type. */
+export function eventTopic(config: MqttConfig, device: string, type: string): string {
+  return `${config.topicPrefix}/${topicSegment(device)}/event/${topicSegment(type)}`
+}
+
+/**
+ * The state message for a sensor row: every stored field plus `pumpOn`.
+ *
+ * Pure: no I/O, exported for testing.
+ */
+export function sensorStatePayload(row: SensorPayload): string {
+  return JSON.stringify({ ...row, pumpOn: row.dutyCycle1 > PUMP_ON_DUTY_CYCLE })
+}
+
+/** The Home Assistant entities announced per device. */
+const DISCOVERY_ENTITIES = [
+  {
+    component: 'sensor',
+    key: 'pressure',
+    name: 'Pressure',
+    field: 'pressAvg',
+    unit: 'psi',
+    deviceClass: 'pressure',
+  },
+  {
+    component: 'sensor',
+    key: 'temperature',
+    name: 'Temperature',
+    field: 'tempAvg',
+    unit: '°F',
+    deviceClass: 'temperature',
+  },
+  {
+    component: 'sensor',
+    key: 'humidity',
+    name: 'Humidity',
+    field: 'humAvg',
+    unit: '%',
+    deviceClass: 'humidity',
+  },
+  {
+    component: 'sensor',
+    key: 'current1',
+    name: 'Pump current',
+    field: 'current1RMS',
+    unit: 'A',
+    deviceClass: 'current',
+  },
+  {
+    component: 'sensor',
+    key: 'current2',
+    name: 'Current 2',
+    field: 'current2RMS',
+    unit: 'A',
+    deviceClass: 'current',
+  },
+] as const
+
+/**
+ * Retained Home Assistant discovery configs for one device's entities.
+ *
+ * Pure: no I/O, exported for testing.
+ */
+export function discoveryMessages(config: MqttConfig, device: string): MqttMessage[] {
+  const objectId = `wellpump_${device.replace(/[^a-zA-Z0-9_-]/g, '_')}`
+  const common = {
+    state_topic: stateTopic(config, device),
+    device: {
+      identifiers: [objectId],
+      name: device,
+      manufacturer: 'Well Pump Monitor',
+    },
+  }
+
+  const sensors = DISCOVERY_ENTITIES.map((entity) => ({
+    topic: `${config.discoveryPrefix}/${entity.component}/${objectId}_${entity.key}/config`,
+    payload: JSON.stringify({
+      ...common,
+      name: entity.name,
+      unique_id: `${objectId}_${entity.key}`,
+      value_template: `{{ value_json.${entity.field} }}`,
+      unit_of_measurement: entity.unit,
+      device_class: entity.deviceClass,
+      state_class: 'measurement',
+    }),
+  }))
+
+  const pump = {
+    topic: `${config.discoveryPrefix}/binary_sensor/${objectId}_pump/config`,
+    payload: JSON.stringify({
+      ...common,
+      name: 'Pump',
+      unique_id: `${objectId}_pump`,
+      value_template: "{{ 'ON' if value_json.pumpOn else 'OFF' }}",
+      device_class: 'running',
+    }),
+  }
+
+  return [...sensors, pump]
+}
+
+/** Credentials and reconnect timing shared by the publisher and subscriber. */
+export function connectOptions(config: MqttConfig): IClientOptions {
+  return {
+    ...(config.username ? { username: config.username } : {}),
+    ...(config.password ? { password: config.password } : {}),
+    reconnectPeriod: RECONNECT_PERIOD_MS,
+    connectTimeout: CONNECT_TIMEOUT_MS,
+  }
+}
+
+interface Connection {
+  /** Identifies the config the client was opened with. */
+  key: string
+  client: MqttClient
+  /** Devices whose discovery configs went out on the current session. */
+  announced: Set<string>
+}
+
+let connection: Connection | null = null
+
+/**
+ * The client for `config`, opened on first use and replaced when the broker
+ * or credentials change. The client reconnects by itself after an outage.
+ */
+function getClient(config: MqttConfig): Connection {
+  const key = JSON.stringify([config.brokerUrl, config.username, config.password])
+  if (connection?.key === key) return connection
+  closeConnection()
+
+  const client = mqtt.connect(config.brokerUrl, {
+    ...connectOptions(config),
+    // Drop rather than queue while disconnected; a stale reading is useless.
+    queueQoSZero: false,
+  })
+  const current: Connection = { key, client, announced: new Set() }
+
+  client.on('connect', () => {
+    console.log(`[mqtt] connected to ${config.brokerUrl}`)
+    // A new session may be a restarted broker that lost retained configs.
+    current.announced.clear()
+  })
+  client.on('error', (error) => {
+    console.error(`[mqtt] ${config.brokerUrl}: ${error.message}`)
+  })
+
+  connection = current
+  return current
+}
+
+function closeConnection(): void {
+  if (!connection) return
+  connection.client.end(true)
+  connection = null
+}
+
+/** Load the MQTT config from SystemSettings. Throws on database errors. */
+export async function loadMqttConfig(): Promise<MqttConfig | null> {
+  const rows = await prisma.systemSettings.findMany({
+    where: { key: { in: [...MQTT_SETTING_KEYS] } },
+  })
+  return parseMqttConfig(new Map(rows.map((row) => [row.key, row.value])))
+}
+
+/** The config when publishing is on; closes the client when it's off. */
+async function loadPublishConfig(): Promise<MqttConfig | null> {
+  const config = await loadMqttConfig()
+  if (config?.publish) return config
+  closeConnection()
+  return null
+}
+
+function publish(client: MqttClient, message: MqttMessage): void {
+  client.publish(message.topic, message.payload, { qos: 0, retain: true }, (error) => {
+    if (error) console.error(`[mqtt] publish to ${message.topic} failed: ${error.message}`)
+  })
+}
+
+/**
+ * Publish accepted sensor rows to each device's state topic, announcing the
+ * device to Home Assistant first when discovery is on. Rows are published in
+ * order, so a replayed backlog leaves the newest reading retained. Never
+ * throws; a disconnected broker drops the messages.
+ */
+export async function publishSensorReadings(rows: SensorPayload[]): Promise<void> {
+  try {
+    if (rows.length === 0) return
+    const config = await loadPublishConfig()
+    if (!config) return
+    const { client, announced } = getClient(config)
+    if (!client.connected) return
+
+    for (const row of rows) {
+      if (config.discovery && !announced.has(row.device)) {
+        discoveryMessages(config, row.device).forEach((message) => publish(client, message))
+        announced.add(row.device)
+      }
+      publish(client, { topic: stateTopic(config, row.device), payload: sensorStatePayload(row) })
+    }
+  } catch (error) {
+    console.error(
+      `[mqtt] sensor publish error: ${error instanceof Error ? error.message : String(error)}`
+    )
+  }
+}
+
+/**
+ * Publish an event transition to `<prefix>/<device>/event/<type>`. Events
+ * without a device have no topic and are skipped. Never throws.
+ */
+export async function publishEventTransition(body: WebhookBody): Promise<void> {
+  try {
+    if (!body.event.device) return
+    const config = await loadPublishConfig()
+    if (!config) return
+    const { client } = getClient(config)
+    if (!client.connected) return
+
+    publish(client, {
+      topic: eventTopic(config, body.event.device, body.event.type),
+      payload: JSON.stringify(body),
+    })
+  } catch (error) {
+    console.error(
+      `[mqtt] event publish error: ${error instanceof Error ? error.message : String(error)}`
+    )
+  }
+}
+
+/** Disconnect from the broker. For tests and shutdown. */
+export function closeMqtt(): void {
+  closeConnection()
+}
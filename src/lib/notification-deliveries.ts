@@ -0,0 +1,106 @@
+/**
+ * Persisted notification delivery log.
+ *
+ * `dispatchNotifications` records one `NotificationDelivery` row per channel
+ * result so failures can be inspected per event (Settings → Deliveries, and
+ * `/api/notifications/deliveries`). A failure the provider may recover from
+ * (rate limit, server error, network error; see `ChannelResult.retryable`) is
+ * left in status "retrying" and sent again by `retryNotificationDeliveries`
+ * after an exponentially growing delay: 1, 2, 4, then 8 minutes. After
+ * `MAX_DELIVERY_ATTEMPTS` attempts it is marked "failed" for good.
+ *
+ * This module only shapes and writes rows; it has no senders so that
+ * `notifications.ts` can import it without an import cycle.
+ */
+import { prisma } from '@/lib/prisma'
+import type { Prisma } from '@prisma/client'
+import { recordNotification } from '@/lib/metrics'
+import type { ChannelResult, NotificationPayload } from '@/lib/notifications'
+
+export type DeliveryStatus = 'sent' | 'retrying' | 'failed'
+
+/** Attempts in total, the first send included. */
+export const MAX_DELIVERY_ATTEMPTS = 5
+
+const RETRY_BASE_MS = 60 * 1000
+
+/** Delay before retry number `attempts` (1 = the first retry). */
+export function retryDelayMs(attempts: number): number {
+  return RETRY_BASE_MS * 2 ** Math.max(0, attempts - 1)
+}
+
+/** Rate limits and server errors are worth retrying; other 4xx are not. */
+export function isRetryableStatus(status: number | undefined): boolean {
+  return status === undefined || status === 429 || status >= 500
+}
+
+export interface DeliveryState {
+  status: DeliveryStatus
+  attempts: number
+  nextRetryAt: Date | null
+  requestId: string | null
+  error: string | null
+}
+
+/**
+ * Row state after attempt number `attempts` ended with `result`.
+ *
+ * Pure: no I/O, exported for testing.
+ */
+export function deliveryState(result: ChannelResult, attempts: number, now: Date): DeliveryState {
+  const base = {
+    attempts,
+    requestId: result.requestId ?? null,
+    error: result.success ? null : (result.error ?? 'unknown error'),
+  }
+  if (result.success) return { ...base, status: 'sent', nextRetryAt: null }
+  if (result.retryable && attempts < MAX_DELIVERY_ATTEMPTS) {
+    return {
+      ...base,
+      status: 'retrying',
+      nextRetryAt: new Date(now.getTime() + retryDelayMs(attempts)),
+    }
+  }
+  return { ...base, status: 'failed', nextRetryAt: null }
+}
+
+/**
+ * User id from a "user:<id>" recipient; null for the env destination and
+ * webhooks.
+ */
+export function recipientUserId(recipient: string): string | null {
+  return recipient.startsWith('user:') ? recipient.slice('user:'.length) : null
+}
+
+/**
+ * Write one row per channel result of a dispatch. Never throws: a broken log
+ * must not break alerting.
+ */
+export async function recordDeliveries(
+  results: readonly ChannelResult[],
+  payload: NotificationPayload,
+  eventId: string | undefined,
+  now: Date,
+): Promise<void> {
+  if (results.length === 0) return
+  const states = results.map((result) => deliveryState(result, 1, now))
+  results.forEach((result, i) => recordNotification(result.channel, states[i].status))
+  try {
+    await prisma.notificationDelivery.createMany({
+      data: results.map((result, i) => ({
+        eventId: eventId ?? null,
+        eventType: String(payload.eventType),
+        recipient: result.recipient,
+        userId: recipientUserId(result.recipient),
+        channel: result.channel,
+        payload: payload as unknown as Prisma.InputJsonValue,
+        ...states[i],
+      })),
+    })
+  } catch (error) {
+    console.error(
+      `[notifications] could not record deliveries: ` +
+        `${error instanceof Error ? error.message : String(error)}`,
+    )
+  }
+}
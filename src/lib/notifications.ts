@@ -1,8 +1,8 @@
 /**
  * Centralised notification dispatch.
  *
- * This module is the single place that actually *sends* notifications (web-push
- * and Pushover). Previously the Pushover code lived inline inside the
+ * This module is the single place that actually *sends* notifications (web-push,
+ * Pushover, email and outbound webhooks). Previously the Pushover code lived inline inside the
  * `/api/notifications/send` route and — critically — nothing ever called that
  * route, so notifications never went out. The dispatch logic now lives here so
  * it can be triggered directly from the event-ingestion path (see
@@ -25,6 +25,24 @@
 
 import webpush from 'web-push'
 import { prisma } from '@/lib/prisma'
+import { shouldHoldForQuietHours, type QuietHoursSettings } from '@/lib/quiet-hours'
+import {
+  deliveryState,
+  isRetryableStatus,
+  recordDeliveries,
+} from '@/lib/notification-deliveries'
+import { isEmailConfigured, sendEmail } from '@/lib/email'
+import { renderAlertEmail } from '@/lib/email-templates'
+import { publishEventTransition } from '@/lib/mqtt'
+import { recordEventRaised, recordNotification } from '@/lib/metrics'
+import { publishLiveEvent } from '@/lib/live-stream'
+import {
+  WEBHOOK_TRANSITIONS,
+  buildWebhookBody,
+  sendEventWebhooks,
+  sendWebhook,
+  type WebhookTransition,
+} from '@/lib/webhooks'
 
 // ---------------------------------------------------------------------------
 // Types
@@ -40,6 +58,13 @@ export type NotificationEventType =
   | 'MISSING_DATA'
   | 'LONG_PUMP_RUN'
   | 'PRESSURE_DROP'
+  | 'SHORT_CYCLING'
+  | 'DRY_RUN'
+  | 'CURRENT_DRIFT'
+  | 'TANK_DEGRADED'
+  | 'HIGH_WATER_USAGE'
+  | 'HIGH_HUMIDITY'
+  | 'FREEZE_RISK'
 
 export interface NotificationPayload {
   /** Event type used to honour each user's per-type alert preferences. */
@@ -48,6 +73,40 @@ export interface NotificationPayload {
   body: string
   /** Arbitrary structured data forwarded to the web-push client. */
   data?: Record<string, unknown>
+  /**
+   * Pushover priority, overriding the per-type default. Escalations use 1
+   * (high) or 2 (emergency); emergency requires `retrySeconds`/`expireSeconds`.
+   */
+  priority?: number
+  retrySeconds?: number
+  expireSeconds?: number
+  /**
+   * The alert has cleared. Goes only to users who listed the type in
+   * `resolvedAlertTypes`, never to the standalone env destination.
+   */
+  resolved?: boolean
+}
+
+export interface DispatchOptions {
+  /**
+   * Send only to these users, ignoring their per-type preferences and the env
+   * destination. Used to escalate to a secondary set of users.
+   */
+  userIds?: readonly string[]
+  /** Time checked against users' quiet hours. Defaults to the current time. */
+  now?: Date
+  /**
+   * Send even to users in their quiet hours instead of holding it for their
+   * digest. Used for escalation steps, which exist to wake someone up.
+   */
+  bypassQuietHours?: boolean
+  /** Event the notification is about, recorded on each delivery. */
+  eventId?: string
+  /**
+   * The change of the event's state this notification reports. When set, the
+   * outbound webhooks listening to the type are sent it too.
+   */
+  transition?: WebhookTransition
 }
 
 export interface PushoverCredentials {
@@ -56,13 +115,24 @@ export interface PushoverCredentials {
 }
 
 export interface ChannelResult {
-  channel: 'pushover' | 'webpush'
-  /** Stable identifier for the recipient (user id, or "env" for env creds). */
+  channel: 'pushover' | 'webpush' | 'email' | 'webhook'
+  /**
+   * Stable identifier for the recipient ("user:<id>", "env" for env creds, or
+   * "webhook:<id>").
+   */
   recipient: string
   success: boolean
   error?: string
-  /** Pushover request id when available — useful for support/debugging. */
+  /**
+   * Pushover request id or SMTP message id when available — useful for
+   * support/debugging.
+   */
   requestId?: string
+  /**
+   * The failure may clear on its own (rate limit, server or network error),
+   * so the delivery is worth retrying.
+   */
+  retryable?: boolean
 }
 
 export interface DispatchSummary {
@@ -70,6 +140,8 @@ export interface DispatchSummary {
   attempted: number
   succeeded: number
   failed: number
+  /** Users the alert was held back from by their quiet hours. */
+  queued: number
   results: ChannelResult[]
 }
 
@@ -91,11 +163,35 @@ const ALERT_PREFERENCE_FIELD: Record<string, string | undefined> = {
   MISSING_DATA: 'missingDataAlert',
   LONG_PUMP_RUN: 'longRunAlert',
   PRESSURE_DROP: 'pressureDropAlert',
+  SHORT_CYCLING: 'shortCyclingAlert',
+  DRY_RUN: 'dryRunAlert',
+  CURRENT_DRIFT: 'currentDriftAlert',
+  TANK_DEGRADED: 'tankHealthAlert',
+  HIGH_WATER_USAGE: 'waterUsageAlert',
+  HIGH_HUMIDITY: 'highHumidityAlert',
+  FREEZE_RISK: 'freezeRiskAlert',
   // SYSTEM_ERROR intentionally absent -> always notify.
 }
 
-/** Higher-priority event types get Pushover priority 1 (bypasses quiet hours). */
-const HIGH_PRIORITY_EVENTS = new Set(['SENSOR_ERROR', 'SYSTEM_ERROR'])
+/**
+ * Higher-priority event types get Pushover priority 1 (bypasses the quiet hours
+ * set in the Pushover app; this app's own quiet hours are separate).
+ * DRY_RUN is included because a pump running dry is destroyed within minutes.
+ */
+const HIGH_PRIORITY_EVENTS = new Set(['SENSOR_ERROR', 'SYSTEM_ERROR', 'DRY_RUN'])
+
+/** Deliveries retried per tick, so a long outage can't stall the cron. */
+const RETRY_BATCH_SIZE = 50
+
+/**
+ * How long a retry tick holds a claimed delivery before another tick may take
+ * it, should the first one die mid-send.
+ */
+const RETRY_LEASE_MS = 5 * 60 * 1000
+
+/** Pushover's limits for emergency (priority 2) retry and expire, in seconds. */
+const PUSHOVER_MIN_RETRY_SECONDS = 30
+const PUSHOVER_MAX_EXPIRE_SECONDS = 10800
 
 /**
  * Read Pushover credentials from the environment, if both are present and
@@ -136,11 +232,13 @@ function ensureVapidConfigured(): boolean {
 export function validateNotificationConfig(): {
   webPush: boolean
   pushoverEnv: boolean
+  email: boolean
   warnings: string[]
 } {
   const warnings: string[] = []
   const webPush = isWebPushConfigured()
   const pushoverEnv = getEnvPushoverCredentials() !== null
+  const email = isEmailConfigured()
 
   if (!webPush) {
     warnings.push(
@@ -155,14 +253,18 @@ export function validateNotificationConfig(): {
       'Pushover env partially configured: set BOTH PUSHOVER_TOKEN and PUSHOVER_USER (or neither).'
     )
   }
+  // SMTP_HOST without SMTP_FROM (or the reverse) leaves email off.
+  if (!email && Boolean(process.env.SMTP_HOST?.trim() || process.env.SMTP_FROM?.trim())) {
+    warnings.push('Email disabled: set BOTH SMTP_HOST and SMTP_FROM.')
+  }
 
   console.log(
     `[notifications] config: web-push=${webPush ? 'on' : 'off'}, ` +
-      `pushover-env=${pushoverEnv ? 'on' : 'off'}`
+      `pushover-env=${pushoverEnv ? 'on' : 'off'}, email=${email ? 'on' : 'off'}`
   )
   for (const w of warnings) console.warn(`[notifications] ${w}`)
 
-  return { webPush, pushoverEnv, warnings }
+  return { webPush, pushoverEnv, email, warnings }
 }
 
 // ---------------------------------------------------------------------------
@@ -181,7 +283,9 @@ export async function sendPushover(
   payload: NotificationPayload,
   recipient = 'env'
 ): Promise<ChannelResult> {
-  const priority = HIGH_PRIORITY_EVENTS.has(String(payload.eventType)) ? 1 : 0
+  const priority =
+    payload.priority ??
+    (!payload.resolved && HIGH_PRIORITY_EVENTS.has(String(payload.eventType)) ? 1 : 0)
 
   const params = new URLSearchParams({
     token: credentials.token,
@@ -191,6 +295,17 @@ export async function sendPushover(
     message: payload.body || payload.title || 'Well pump alert',
     priority: String(priority),
   })
+  if (priority === 2) {
+    // Emergency messages are rejected without both; clamp to the API limits.
+    params.set(
+      'retry',
+      String(Math.max(PUSHOVER_MIN_RETRY_SECONDS, payload.retrySeconds ?? 60))
+    )
+    params.set(
+      'expire',
+      String(Math.min(PUSHOVER_MAX_EXPIRE_SECONDS, payload.expireSeconds ?? 3600))
+    )
+  }
 
   const baseUrl = process.env.NEXTAUTH_URL?.replace(/\/$/, '')
   if (baseUrl) {
@@ -240,6 +355,7 @@ export async function sendPushover(
       success: false,
       error: errorMsg,
       requestId: json.request,
+      retryable: isRetryableStatus(response.status),
     }
   } catch (error) {
     const errorMsg = error instanceof Error ? error.message : String(error)
@@ -247,7 +363,7 @@ export async function sendPushover(
       `[notifications] pushover network error recipient=${recipient} ` +
         `event=${payload.eventType}: ${errorMsg}`
     )
-    return { channel: 'pushover', recipient, success: false, error: errorMsg }
+    return { channel: 'pushover', recipient, success: false, error: errorMsg, retryable: true }
   }
 }
 
@@ -266,7 +382,31 @@ type SettingsRow = {
   pushoverEnabled: boolean
   pushoverToken: string | null
   pushoverUser: string | null
-} & Record<string, unknown>
+} & Partial<QuietHoursSettings> &
+  Record<string, unknown>
+
+/**
+ * True when the row's quiet hours hold back `eventType` at `now`. A null `now`
+ * means the dispatch bypasses quiet hours.
+ */
+function isHeld(
+  row: Partial<QuietHoursSettings>,
+  eventType: string,
+  now: Date | null
+): boolean {
+  if (!now || !row.quietHoursEnabled) return false
+  return shouldHoldForQuietHours(
+    {
+      quietHoursEnabled: true,
+      quietHoursStart: row.quietHoursStart ?? '',
+      quietHoursEnd: row.quietHoursEnd ?? '',
+      quietHoursBreakthrough: row.quietHoursBreakthrough ?? [],
+      summaryReportTimezone: row.summaryReportTimezone ?? 'UTC',
+    },
+    eventType,
+    now
+  )
+}
 
 /**
  * Build the de-duplicated list of Pushover recipients for an event type:
@@ -275,16 +415,28 @@ type SettingsRow = {
  *  - plus the env-level credentials as a standalone recipient when configured,
  *    so a deployment that only set env vars still gets alerts.
  *
+ * With `direct` (sending to named users) preferences are ignored and only
+ * users' own creds count: the env destination belongs to someone else.
+ *
+ * Users in their quiet hours are left out and returned as `held`. A held user
+ * who relies on the env creds holds back the env destination too, unless a
+ * user who isn't held also relies on it.
+ *
  * De-duplication is by `token:user` so the same destination is never messaged
  * twice for one event.
  */
 function resolvePushoverRecipients(
   settingsRows: SettingsRow[],
   envCreds: PushoverCredentials | null,
-  eventType: string
-): PushoverRecipient[] {
+  eventType: string,
+  now: Date | null,
+  direct = false,
+  resolved = false
+): { recipients: PushoverRecipient[]; held: string[] } {
   const seen = new Set<string>()
   const recipients: PushoverRecipient[] = []
+  const held: string[] = []
+  let envHeld = false
 
   const add = (creds: PushoverCredentials | null, recipient: string) => {
     if (!creds) return
@@ -296,22 +448,39 @@ function resolvePushoverRecipients(
 
   for (const row of settingsRows) {
     if (!row.pushoverEnabled) continue
-    if (!isAlertEnabledForType(row, eventType)) continue
-    const creds =
-      row.pushoverToken && row.pushoverUser
-        ? { token: row.pushoverToken, user: row.pushoverUser }
-        : envCreds
+    if (!direct && !isAlertEnabledForType(row, eventType, resolved)) continue
+    const ownCreds = Boolean(row.pushoverToken && row.pushoverUser)
+    const creds = ownCreds
+      ? { token: row.pushoverToken as string, user: row.pushoverUser as string }
+      : direct ? null : envCreds
+    if (creds && isHeld(row, eventType, now)) {
+      held.push(row.userId)
+      if (!ownCreds) envHeld = true
+      continue
+    }
     add(creds, `user:${row.userId}`)
   }
 
-  // Always include the env destination when configured.
-  add(envCreds, 'env')
+  // Always include the env destination when configured. It can't opt in to
+  // resolved notifications, so it only gets them through a user above.
+  if (!direct && !resolved && !envHeld) add(envCreds, 'env')
 
-  return recipients
+  return { recipients, held }
 }
 
-/** Honour a user's per-type alert preference (default allow if column absent). */
-function isAlertEnabledForType(row: Record<string, unknown>, eventType: string): boolean {
+/**
+ * Honour a user's per-type alert preference (default allow if column absent).
+ * Resolved notifications are opt-in through `resolvedAlertTypes` instead.
+ */
+function isAlertEnabledForType(
+  row: Record<string, unknown>,
+  eventType: string,
+  resolved = false
+): boolean {
+  if (resolved) {
+    const types = row.resolvedAlertTypes
+    return Array.isArray(types) && types.includes(eventType)
+  }
   const field = ALERT_PREFERENCE_FIELD[eventType]
   if (!field) return true // no dedicated preference -> always allow
   // Default to true when the column is undefined to avoid silently dropping.
@@ -322,73 +491,146 @@ function isAlertEnabledForType(row: Record<string, unknown>, eventType: string):
 // Web-push
 // ---------------------------------------------------------------------------
 
+type PushSubscriptionRow = {
+  id: string
+  userId: string
+  pushEndpoint: string | null
+  pushKeys: unknown
+}
+
+/** Send one web-push message, disabling the subscription if it has expired. */
+async function sendWebPush(
+  s: PushSubscriptionRow,
+  payload: NotificationPayload
+): Promise<ChannelResult | null> {
+  if (!s.pushEndpoint || !s.pushKeys) return null
+  const subscription = {
+    endpoint: s.pushEndpoint,
+    keys: s.pushKeys as { p256dh: string; auth: string },
+  }
+  try {
+    await webpush.sendNotification(
+      subscription,
+      JSON.stringify({
+        title: payload.title,
+        body: payload.body,
+        icon: '/icons/icon-192x192.png',
+        badge: '/icons/icon-72x72.png',
+        data: { ...payload.data, url: '/alerts' },
+      })
+    )
+    console.log(`[notifications] webpush sent ok recipient=user:${s.userId}`)
+    return { channel: 'webpush', recipient: `user:${s.userId}`, success: true }
+  } catch (error) {
+    const statusCode = (error as { statusCode?: number }).statusCode
+    const errorMsg = error instanceof Error ? error.message : String(error)
+    console.error(
+      `[notifications] webpush FAILED recipient=user:${s.userId} ` +
+        `status=${statusCode ?? 'n/a'}: ${errorMsg}`
+    )
+    // Expired/invalid subscription -> disable so we stop retrying it.
+    if (statusCode === 404 || statusCode === 410) {
+      try {
+        await prisma.notificationSettings.update({
+          where: { id: s.id },
+          data: { pushEnabled: false, pushEndpoint: null, pushKeys: undefined },
+        })
+      } catch {
+        /* best-effort cleanup */
+      }
+    }
+    return {
+      channel: 'webpush',
+      recipient: `user:${s.userId}`,
+      success: false,
+      error: errorMsg,
+      retryable: isRetryableStatus(statusCode),
+    }
+  }
+}
+
+/**
+ * Send to every opted-in web-push subscription, leaving out users in their
+ * quiet hours; those are returned as `held`.
+ */
 async function sendWebPushNotifications(
   payload: NotificationPayload,
-  eventType: string
-): Promise<ChannelResult[]> {
-  if (!ensureVapidConfigured()) return []
+  eventType: string,
+  now: Date | null,
+  userIds?: readonly string[]
+): Promise<{ results: ChannelResult[]; held: string[] }> {
+  if (!ensureVapidConfigured()) return { results: [], held: [] }
 
   const settings = await prisma.notificationSettings.findMany({
     where: {
       pushEnabled: true,
       pushEndpoint: { not: null },
-      ...alertTypeWhere(eventType),
+      ...(userIds
+        ? { userId: { in: [...userIds] } }
+        : alertTypeWhere(eventType, payload.resolved)),
     },
   })
 
+  const held: string[] = []
   const results = await Promise.all(
-    settings.map(async (s): Promise<ChannelResult | null> => {
-      if (!s.pushEndpoint || !s.pushKeys) return null
-      const subscription = {
-        endpoint: s.pushEndpoint,
-        keys: s.pushKeys as { p256dh: string; auth: string },
+    settings.map((s) => {
+      if (isHeld(s, eventType, now)) {
+        held.push(s.userId)
+        return null
       }
-      try {
-        await webpush.sendNotification(
-          subscription,
-          JSON.stringify({
-            title: payload.title,
-            body: payload.body,
-            icon: '/icons/icon-192x192.png',
-            badge: '/icons/icon-72x72.png',
-            data: { ...payload.data, url: '/alerts' },
-          })
-        )
-        console.log(`[notifications] webpush sent ok recipient=user:${s.userId}`)
-        return { channel: 'webpush', recipient: `user:${s.userId}`, success: true }
-      } catch (error) {
-        const statusCode = (error as { statusCode?: number }).statusCode
-        const errorMsg = error instanceof Error ? error.message : String(error)
-        console.error(
-          `[notifications] webpush FAILED recipient=user:${s.userId} ` +
-            `status=${statusCode ?? 'n/a'}: ${errorMsg}`
-        )
-        // Expired/invalid subscription -> disable so we stop retrying it.
-        if (statusCode === 404 || statusCode === 410) {
-          try {
-            await prisma.notificationSettings.update({
-              where: { id: s.id },
-              data: { pushEnabled: false, pushEndpoint: null, pushKeys: undefined },
-            })
-          } catch {
-            /* best-effort cleanup */
-          }
-        }
-        return {
-          channel: 'webpush',
-          recipient: `user:${s.userId}`,
-          success: false,
-          error: errorMsg,
-        }
+      return sendWebPush(s, payload)
+    })
+  )
+
+  return { results: results.filter((r): r is ChannelResult => r !== null), held }
+}
+
+// ---------------------------------------------------------------------------
+// Email
+// ---------------------------------------------------------------------------
+
+/**
+ * Email every opted-in user with an address on their account, leaving out
+ * users in their quiet hours; those are returned as `held`.
+ */
+async function sendEmailNotifications(
+  payload: NotificationPayload,
+  eventType: string,
+  now: Date | null,
+  userIds?: readonly string[]
+): Promise<{ results: ChannelResult[]; held: string[] }> {
+  if (!isEmailConfigured()) return { results: [], held: [] }
+
+  const settings = await prisma.notificationSettings.findMany({
+    where: {
+      emailEnabled: true,
+      user: { email: { not: null } },
+      ...(userIds
+        ? { userId: { in: [...userIds] } }
+        : alertTypeWhere(eventType, payload.resolved)),
+    },
+    include: { user: { select: { email: true } } },
+  })
+
+  const message = renderAlertEmail(payload)
+  const held: string[] = []
+  const results = await Promise.all(
+    settings.map((s) => {
+      if (!s.user.email) return null
+      if (isHeld(s, eventType, now)) {
+        held.push(s.userId)
+        return null
       }
+      return sendEmail(s.user.email, message, `user:${s.userId}`)
     })
   )
 
-  return results.filter((r): r is ChannelResult => r !== null)
+  return { results: results.filter((r): r is ChannelResult => r !== null), held }
 }
 
 /** Build the Prisma `where` fragment honouring a per-type alert preference. */
-function alertTypeWhere(eventType: string): Record<string, boolean> {
+function alertTypeWhere(eventType: string, resolved = false): Record<string, unknown> {
+  if (resolved) return { resolvedAlertTypes: { has: eventType } }
   const field = ALERT_PREFERENCE_FIELD[eventType]
   return field ? { [field]: true } : {}
 }
@@ -403,10 +645,15 @@ function alertTypeWhere(eventType: string): Record<string, boolean> {
  * caller (event ingestion) is never broken by a notification failure.
  */
 export async function dispatchNotifications(
-  payload: NotificationPayload
+  payload: NotificationPayload,
+  options: DispatchOptions = {}
 ): Promise<DispatchSummary> {
   const eventType = String(payload.eventType)
+  const { userIds, eventId, transition, now = new Date(), bypassQuietHours } = options
+  // Quiet hours are checked at this time; null skips the check.
+  const quietHoursAt = bypassQuietHours ? null : now
   const results: ChannelResult[] = []
+  const held = new Set<string>()
 
   // --- Pushover ---
   try {
@@ -414,7 +661,10 @@ export async function dispatchNotifications(
     let settingsRows: SettingsRow[] = []
     try {
       settingsRows = (await prisma.notificationSettings.findMany({
-        where: { pushoverEnabled: true },
+        where: {
+          pushoverEnabled: true,
+          ...(userIds ? { userId: { in: [...userIds] } } : {}),
+        },
       })) as unknown as SettingsRow[]
     } catch (error) {
       // DB unavailable / model missing (e.g. in unit tests): still honour env.
@@ -424,7 +674,15 @@ export async function dispatchNotifications(
       )
     }
 
-    const recipients = resolvePushoverRecipients(settingsRows, envCreds, eventType)
+    const { recipients, held: heldPushover } = resolvePushoverRecipients(
+      settingsRows,
+      envCreds,
+      eventType,
+      quietHoursAt,
+      userIds !== undefined,
+      payload.resolved
+    )
+    heldPushover.forEach((id) => held.add(id))
     if (recipients.length === 0 && !envCreds) {
       console.log(
         `[notifications] no Pushover recipients for event=${eventType} ` +
@@ -444,8 +702,9 @@ export async function dispatchNotifications(
 
   // --- Web-push ---
   try {
-    const webPushResults = await sendWebPushNotifications(payload, eventType)
-    results.push(...webPushResults)
+    const webPush = await sendWebPushNotifications(payload, eventType, quietHoursAt, userIds)
+    results.push(...webPush.results)
+    webPush.held.forEach((id) => held.add(id))
   } catch (error) {
     console.error(
       `[notifications] webpush dispatch error: ` +
@@ -453,6 +712,51 @@ export async function dispatchNotifications(
     )
   }
 
+  // --- Email ---
+  try {
+    const email = await sendEmailNotifications(payload, eventType, quietHoursAt, userIds)
+    results.push(...email.results)
+    email.held.forEach((id) => held.add(id))
+  } catch (error) {
+    console.error(
+      `[notifications] email dispatch error: ` +
+        `${error instanceof Error ? error.message : String(error)}`
+    )
+  }
+
+  // --- Webhooks ---
+  if (transition) {
+    try {
+      results.push(...(await sendEventWebhooks(payload, eventId ?? null, transition, now)))
+    } catch (error) {
+      console.error(
+        `[notifications] webhook dispatch error: ` +
+          `${error instanceof Error ? error.message : String(error)}`
+      )
+    }
+  }
+
+  // --- Quiet hours: queue for the digest ---
+  if (held.size > 0) {
+    try {
+      await prisma.queuedNotification.createMany({
+        data: [...held].map((userId) => ({
+          userId,
+          eventType,
+          title: payload.title,
+          body: payload.body,
+        })),
+      })
+    } catch (error) {
+      console.error(
+        `[notifications] could not queue for quiet hours: ` +
+          `${error instanceof Error ? error.message : String(error)}`
+      )
+    }
+  }
+
+  await recordDeliveries(results, payload, eventId, now)
+
   const succeeded = results.filter((r) => r.success).length
   const failed = results.length - succeeded
   const summary: DispatchSummary = {
@@ -460,22 +764,61 @@ export async function dispatchNotifications(
     attempted: results.length,
     succeeded,
     failed,
+    queued: held.size,
     results,
   }
   console.log(
     `[notifications] dispatch complete event=${eventType} ` +
-      `attempted=${summary.attempted} ok=${succeeded} failed=${failed}`
+      `attempted=${summary.attempted} ok=${succeeded} failed=${failed} queued=${held.size}`
   )
   return summary
 }
 
+/**
+ * Send straight to one user's own channels: Pushover (their creds, else the
+ * env creds), web-push and email. Skips preferences and quiet hours; used to
+ * deliver the quiet-hours digest. Email needs `user.email` loaded. Never throws.
+ */
+export async function sendToUser(
+  settings: SettingsRow &
+    PushSubscriptionRow & {
+      pushEnabled: boolean
+      emailEnabled?: boolean
+      user?: { email: string | null }
+    },
+  payload: NotificationPayload
+): Promise<ChannelResult[]> {
+  const results: ChannelResult[] = []
+  const creds =
+    settings.pushoverToken && settings.pushoverUser
+      ? { token: settings.pushoverToken, user: settings.pushoverUser }
+      : getEnvPushoverCredentials()
+  if (settings.pushoverEnabled && creds) {
+    results.push(await sendPushover(creds, payload, `user:${settings.userId}`))
+  }
+  if (settings.pushEnabled && ensureVapidConfigured()) {
+    const result = await sendWebPush(settings, payload)
+    if (result) results.push(result)
+  }
+  if (settings.emailEnabled && settings.user?.email && isEmailConfigured()) {
+    results.push(
+      await sendEmail(settings.user.email, renderAlertEmail(payload), `user:${settings.userId}`)
+    )
+  }
+  return results
+}
+
 export interface DispatchableEvent {
+  /** Id of the stored event, recorded on each delivery. */
+  id?: string
   type: NotificationEventType | string
   device: string
   location?: string
   value?: number
   threshold?: number
   description?: string
+  /** The event has cleared; see `NotificationPayload.resolved`. */
+  resolved?: boolean
 }
 
 /** Human-friendly default title per event type. */
@@ -488,24 +831,41 @@ const EVENT_TITLES: Record<string, string> = {
   MISSING_DATA: 'Missing Data Alert',
   LONG_PUMP_RUN: 'Pump Running Too Long',
   PRESSURE_DROP: 'Possible Leak / Open Fixture',
+  SHORT_CYCLING: 'Pump Short Cycling',
+  DRY_RUN: 'Pump Running Dry',
+  CURRENT_DRIFT: 'Pump Current Drift',
+  TANK_DEGRADED: 'Pressure Tank Degraded',
+  HIGH_WATER_USAGE: 'Water Usage Over Budget',
+  HIGH_HUMIDITY: 'High Pump House Humidity',
+  FREEZE_RISK: 'Freeze Risk Forecast',
 }
 
-/**
- * Build a payload from an event and dispatch it. Called by the event-ingestion
- * route when a new alert condition is detected. Never throws.
- */
-export async function dispatchEventNotifications(
-  event: DispatchableEvent
-): Promise<DispatchSummary> {
+/** Default notification title for an event type. */
+export function eventTitle(type: string): string {
+  return EVENT_TITLES[type] || 'Well Pump Alert'
+}
+
+const TRANSITION_TITLE_PREFIX: Record<WebhookTransition, string> = {
+  created: '',
+  updated: 'Updated: ',
+  resolved: 'Resolved: ',
+  acknowledged: 'Acknowledged: ',
+}
+
+/** The notification payload for a change of an event's state. */
+function eventPayload(
+  event: DispatchableEvent,
+  transition: WebhookTransition
+): NotificationPayload {
   const type = String(event.type)
-  const title = EVENT_TITLES[type] || 'Well Pump Alert'
+  const title = `${TRANSITION_TITLE_PREFIX[transition]}${eventTitle(type)}`
   const locationLabel = event.location ? ` at ${event.location}` : ''
   const body =
     event.description ||
     `${title}${locationLabel} on ${event.device}` +
       (event.value !== undefined ? ` (value: ${event.value})` : '')
 
-  return dispatchNotifications({
+  return {
     eventType: type,
     title,
     body,
@@ -515,6 +875,159 @@ export async function dispatchEventNotifications(
       location: event.location,
       value: event.value,
       threshold: event.threshold,
+      transition,
+      ...(event.resolved ? { resolved: true } : {}),
     },
+    ...(event.resolved ? { resolved: true } : {}),
+  }
+}
+
+/**
+ * Build a payload from an event and dispatch it. Called by the event-ingestion
+ * route when a new alert condition is detected, and with `resolved` when one
+ * clears (see `src/lib/event-resolution.ts`). Webhooks are sent it as the
+ * `created` or `resolved` transition, and it is published to MQTT without
+ * waiting and to open dashboards. Never throws.
+ */
+export async function dispatchEventNotifications(
+  event: DispatchableEvent
+): Promise<DispatchSummary> {
+  const transition = event.resolved ? 'resolved' : 'created'
+  const payload = eventPayload(event, transition)
+  if (transition === 'created') recordEventRaised(String(event.type))
+  const body = buildWebhookBody(payload, event.id ?? null, transition)
+  void publishEventTransition(body)
+  publishLiveEvent(body)
+  return dispatchNotifications(payload, {
+    ...(event.id ? { eventId: event.id } : {}),
+    transition,
   })
 }
+
+/**
+ * Tell the outbound webhooks about a change of an event's state that users
+ * aren't notified of: new readings for an active event, or an acknowledgement.
+ * Deliveries are logged and retried like any other; the transition is also
+ * published to MQTT and to open dashboards. Never throws.
+ */
+export async function dispatchEventWebhooks(
+  event: DispatchableEvent,
+  transition: WebhookTransition,
+  now: Date = new Date()
+): Promise<ChannelResult[]> {
+  const payload = eventPayload(event, transition)
+  const body = buildWebhookBody(payload, event.id ?? null, transition)
+  void publishEventTransition(body)
+  publishLiveEvent(body)
+  try {
+    const results = await sendEventWebhooks(payload, event.id ?? null, transition, now)
+    await recordDeliveries(results, payload, event.id, now)
+    return results
+  } catch (error) {
+    console.error(
+      `[notifications] webhook dispatch error: ` +
+        `${error instanceof Error ? error.message : String(error)}`
+    )
+    return []
+  }
+}
+
+/**
+ * Send again every delivery whose retry is due (see
+ * `src/lib/notification-deliveries.ts`). Each row is claimed before sending so
+ * overlapping ticks can't send it twice. Runs on a one-minute cron tick.
+ * Returns how many deliveries were retried; never throws.
+ */
+export async function retryNotificationDeliveries(now: Date = new Date()): Promise<number> {
+  let retried = 0
+  try {
+    const due = await prisma.notificationDelivery.findMany({
+      where: { status: 'retrying', nextRetryAt: { lte: now } },
+      orderBy: { nextRetryAt: 'asc' },
+      take: RETRY_BATCH_SIZE,
+    })
+
+    for (const delivery of due) {
+      const { count } = await prisma.notificationDelivery.updateMany({
+        where: { id: delivery.id, status: 'retrying', nextRetryAt: delivery.nextRetryAt },
+        data: { nextRetryAt: new Date(now.getTime() + RETRY_LEASE_MS) },
+      })
+      if (count === 0) continue
+
+      try {
+        const payload = delivery.payload as unknown as NotificationPayload
+        const result = await resendDelivery(delivery, payload)
+        const state = deliveryState(result, delivery.attempts + 1, now)
+        recordNotification(result.channel, state.status)
+        await prisma.notificationDelivery.update({
+          where: { id: delivery.id },
+          data: state,
+        })
+        retried++
+      } catch (error) {
+        console.error(`[notifications] retry of delivery ${delivery.id} failed:`, error)
+      }
+    }
+  } catch (error) {
+    console.error('[notifications] delivery retry sweep failed:', error)
+  }
+  return retried
+}
+
+/**
+ * Send a logged delivery's payload to its recipient again, looking the
+ * destination up afresh: creds or a subscription may have changed since.
+ */
+async function resendDelivery(
+  delivery: { recipient: string; userId: string | null; channel: string; eventId: string | null },
+  payload: NotificationPayload
+): Promise<ChannelResult> {
+  const gone: ChannelResult = {
+    channel:
+      delivery.channel === 'webpush' ||
+      delivery.channel === 'email' ||
+      delivery.channel === 'webhook'
+        ? delivery.channel
+        : 'pushover',
+    recipient: delivery.recipient,
+    success: false,
+    error: 'recipient is no longer configured',
+  }
+
+  if (delivery.channel === 'webhook') {
+    const webhook = await prisma.webhook.findUnique({
+      where: { id: delivery.recipient.slice('webhook:'.length) },
+    })
+    const transition = WEBHOOK_TRANSITIONS.find((t) => t === payload.data?.transition)
+    if (!webhook?.enabled || !transition) return gone
+    return sendWebhook(webhook, buildWebhookBody(payload, delivery.eventId, transition))
+  }
+  const settings = delivery.userId
+    ? await prisma.notificationSettings.findUnique({
+        where: { userId: delivery.userId },
+        include: { user: { select: { email: true } } },
+      })
+    : null
+
+  if (delivery.channel === 'email') {
+    const address = settings?.user?.email
+    if (!settings?.emailEnabled || !address || !isEmailConfigured()) return gone
+    return sendEmail(address, renderAlertEmail(payload), delivery.recipient)
+  }
+
+  if (delivery.channel === 'webpush') {
+    if (!settings?.pushEnabled || !ensureVapidConfigured()) return gone
+    return (await sendWebPush(settings, payload)) ?? gone
+  }
+
+  if (delivery.recipient === 'env') {
+    const creds = getEnvPushoverCredentials()
+    return creds ? sendPushover(creds, payload, 'env') : gone
+  }
+  if (!settings?.pushoverEnabled) return gone
+  const creds =
+    settings.pushoverToken && settings.pushoverUser
+      ? { token: settings.pushoverToken, user: settings.pushoverUser }
+      : getEnvPushoverCredentials()
+  return creds ? sendPushover(creds, payload, delivery.recipient) : gone
+}
@@ -0,0 +1,307 @@
+/**
+ * Typed validation for the two device ingestion payloads (`POST /api/sensors`
+ * and `POST /api/events`).
+ *
+ * The routes used to check only that required keys existed and then spread
+ * the raw JSON straight into `prisma.*.create`. A string reading, a `null`, an
+ * unknown extra key or a negative sample count then surfaced as an opaque 500
+ * from Prisma. Validation here runs BEFORE any database work and collects
+ * every problem in one pass, so a firmware developer sees the full list of bad
+ * fields in a single 400 instead of fixing them one round-trip at a time.
+ *
+ * Bounds are deliberately the "physically impossible" limits, not the
+ * "implausible for a pump house" ones: a disconnected probe reading -196 °F is
+ * a real sensor fault the server should store and alert on, not a malformed
+ * payload to bounce. Only values that cannot be a measurement at all (below
+ * absolute zero, a duty cycle over 100%, a window that ends before it starts)
+ * are rejected.
+ *
+ * Unknown keys are stripped, never forwarded to Prisma.
+ */
+import { EventType } from '@prisma/client'
+
+export interface FieldError {
+  field: string
+  message: string
+}
+
+export type ValidationResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; errors: FieldError[] }
+
+/**
+ * Guard against device clock errors. A row whose ESP32-supplied timestamp is
+ * far in the future poisons "latest" queries (ORDER BY timestamp DESC would
+ * permanently surface the bogus row). Reject anything more than five minutes
+ * ahead of server time so the device can retry once its clock is corrected.
+ */
+export const FUTURE_TOLERANCE_MS = 5 * 60 * 1000
+
+/** Longest accepted `device` / `location` string. */
+const MAX_LABEL_LENGTH = 100
+
+/** Longest accepted event `description`. */
+const MAX_DESCRIPTION_LENGTH = 1000
+
+interface NumericRule {
+  min: number
+  max: number
+  integer?: boolean
+}
+
+/** Absolute zero in °F — the ESP32 stores temperatures in Fahrenheit. */
+const TEMPERATURE: NumericRule = { min: -459.67, max: 1000 }
+const HUMIDITY: NumericRule = { min: 0, max: 100 }
+/** Gauge PSI: a full vacuum reads -14.7. */
+const PRESSURE: NumericRule = { min: -14.7, max: 1000 }
+const CURRENT: NumericRule = { min: 0, max: 1000 }
+const DUTY_CYCLE: NumericRule = { min: 0, max: 100 }
+
+/** Numeric SensorData columns and the range each must fall in (inclusive). */
+const SENSOR_NUMERIC_FIELDS = {
+  sampleCount: { min: 0, max: Number.MAX_SAFE_INTEGER, integer: true },
+  tempMin: TEMPERATURE,
+  tempMax: TEMPERATURE,
+  tempAvg: TEMPERATURE,
+  humMin: HUMIDITY,
+  humMax: HUMIDITY,
+  humAvg: HUMIDITY,
+  pressMin: PRESSURE,
+  pressMax: PRESSURE,
+  pressAvg: PRESSURE,
+  current1Min: CURRENT,
+  current1Max: CURRENT,
+  current1Avg: CURRENT,
+  current1RMS: CURRENT,
+  dutyCycle1: DUTY_CYCLE,
+  current2Min: CURRENT,
+  current2Max: CURRENT,
+  current2Avg: CURRENT,
+  current2RMS: CURRENT,
+  dutyCycle2: DUTY_CYCLE,
+} as const satisfies Record<string, NumericRule>
+
+type SensorNumericField = keyof typeof SENSOR_NUMERIC_FIELDS
+
+/** A validated sensor row, containing exactly the SensorData input columns. */
+export type SensorPayload = {
+  device: string
+  location: string
+  timestamp: Date
+  startTime: Date
+  endTime: Date
+} & Record<SensorNumericField, number>
+
+/** ESP32 numeric event codes mapped to our enum. */
+export const DEVICE_EVENT_TYPES: Record<number, EventType> = {
+  1: EventType.HIGH_CURRENT,
+  2: EventType.LOW_PRESSURE,
+  3: EventType.LOW_TEMPERATURE,
+  4: EventType.SENSOR_ERROR,
+  5: EventType.SYSTEM_ERROR,
+}
+
+/** A validated device event. */
+export interface EventPayload {
+  device: string
+  location: string
+  timestamp: Date
+  startTime: Date
+  type: EventType
+  value: number
+  threshold: number
+  /** Milliseconds the condition has been active. */
+  duration: bigint
+  active: boolean
+  description: string
+}
+
+/** Join field errors into the single `error` string the routes return. */
+export function formatValidationErrors(errors: readonly FieldError[]): string {
+  return errors.map((e) => e.message).join('; ')
+}
+
+/**
+ * Small accumulator so each check reads as one line and every failure is
+ * collected rather than returned early.
+ */
+function fieldReader(raw: Record<string, unknown>) {
+  const errors: FieldError[] = []
+
+  const fail = (field: string, message: string): void => {
+    errors.push({ field, message })
+  }
+
+  const has = (field: string): boolean => {
+    if (field in raw) return true
+    fail(field, `Missing required field: ${field}`)
+    return false
+  }
+
+  const label = (field: string, maxLength = MAX_LABEL_LENGTH): string => {
+    if (!has(field)) return ''
+    const value = raw[field]
+    if (typeof value !== 'string' || value.trim() === '') {
+      fail(field, `${field} must be a non-empty string`)
+      return ''
+    }
+    if (value.length > maxLength) {
+      fail(field, `${field} must be at most ${maxLength} characters`)
+    }
+    return value
+  }
+
+  const number = (field: string, rule?: NumericRule): number => {
+    if (!has(field)) return NaN
+    const value = raw[field]
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      fail(field, `${field} must be a finite number`)
+      return NaN
+    }
+    if (rule?.integer && !Number.isInteger(value)) {
+      fail(field, `${field} must be an integer`)
+    } else if (rule && (value < rule.min || value > rule.max)) {
+      fail(field, `${field} must be between ${rule.min} and ${rule.max}`)
+    }
+    return value
+  }
+
+  /** Epoch-ms timestamp, sent by the ESP32 as a digit string or a number. */
+  const epochMs = (field: string, nowMs: number): Date => {
+    if (!has(field)) return new Date(NaN)
+    const value = raw[field]
+    const ms =
+      typeof value === 'number'
+        ? value
+        : typeof value === 'string' && /^\d+$/.test(value.trim())
+          ? Number(value)
+          : NaN
+    if (!Number.isSafeInteger(ms) || ms < 0) {
+      fail(field, `${field} must be epoch milliseconds`)
+      return new Date(NaN)
+    }
+    if (ms > nowMs + FUTURE_TOLERANCE_MS) {
+      fail(
+        field,
+        `${field} is too far in the future — check the device clock (NTP / RTC).`,
+      )
+    }
+    return new Date(ms)
+  }
+
+  return { errors, fail, has, label, number, epochMs }
+}
+
+function asRecord(raw: unknown): Record<string, unknown> | null {
+  return typeof raw === 'object' && raw !== null && !Array.isArray(raw)
+    ? (raw as Record<string, unknown>)
+    : null
+}
+
+/** Validate one `/api/sensors` row. */
+export function validateSensorPayload(
+  raw: unknown,
+  nowMs: number = Date.now(),
+): ValidationResult<SensorPayload> {
+  const record = asRecord(raw)
+  if (!record) {
+    return { ok: false, errors: [{ field: '', message: 'Row must be a JSON object' }] }
+  }
+  const r = fieldReader(record)
+
+  const device = r.label('device')
+  const location = r.label('location')
+  const timestamp = r.epochMs('timestamp', nowMs)
+  const startTime = r.epochMs('startTime', nowMs)
+  const endTime = r.epochMs('endTime', nowMs)
+  if (startTime.getTime() > endTime.getTime()) {
+    r.fail('startTime', 'startTime must not be after endTime')
+  }
+
+  const numbers = {} as Record<SensorNumericField, number>
+  for (const field of Object.keys(SENSOR_NUMERIC_FIELDS) as SensorNumericField[]) {
+    numbers[field] = r.number(field, SENSOR_NUMERIC_FIELDS[field])
+  }
+
+  if (r.errors.length > 0) return { ok: false, errors: r.errors }
+  return {
+    ok: true,
+    value: { device, location, timestamp, startTime, endTime, ...numbers },
+  }
+}
+
+/** Validate one `/api/events` payload. */
+export function validateEventPayload(
+  raw: unknown,
+  nowMs: number = Date.now(),
+): ValidationResult<EventPayload> {
+  const record = asRecord(raw)
+  if (!record) {
+    return { ok: false, errors: [{ field: '', message: 'Event must be a JSON object' }] }
+  }
+  const r = fieldReader(record)
+
+  const device = r.label('device')
+  const location = r.label('location')
+  const timestamp = r.epochMs('timestamp', nowMs)
+  const startTime = r.epochMs('startTime', nowMs)
+  if (startTime.getTime() > timestamp.getTime()) {
+    r.fail('startTime', 'startTime must not be after timestamp')
+  }
+
+  let type: EventType = EventType.SYSTEM_ERROR
+  if (r.has('type')) {
+    // Own integer keys only: `"constructor"` must not find Object's.
+    const code = record.type
+    const mapped = Number.isInteger(code) && Object.hasOwn(DEVICE_EVENT_TYPES, code as number)
+      ? DEVICE_EVENT_TYPES[code as number]
+      : undefined
+    if (mapped) type = mapped
+    else r.fail('type', `Invalid event type: ${record.type}`)
+  }
+
+  const value = r.number('value')
+  const threshold = r.number('threshold')
+
+  let duration = BigInt(0)
+  const durationMs = r.number('duration', {
+    min: 0,
+    max: Number.MAX_SAFE_INTEGER,
+    integer: true,
+  })
+  if (Number.isSafeInteger(durationMs) && durationMs >= 0) duration = BigInt(durationMs)
+
+  let active = false
+  if (r.has('active')) {
+    if (typeof record.active === 'boolean') active = record.active
+    else r.fail('active', 'active must be a boolean')
+  }
+
+  let description = ''
+  if (r.has('description')) {
+    if (typeof record.description !== 'string') {
+      r.fail('description', 'description must be a string')
+    } else if (record.description.length > MAX_DESCRIPTION_LENGTH) {
+      r.fail('description', `description must be at most ${MAX_DESCRIPTION_LENGTH} characters`)
+    } else {
+      description = record.description
+    }
+  }
+
+  if (r.errors.length > 0) return { ok: false, errors: r.errors }
+  return {
+    ok: true,
+    value: {
+      device,
+      location,
+      timestamp,
+      startTime,
+      type,
+      value,
+      threshold,
+      duration,
+      active,
+      description,
+    },
+  }
+}
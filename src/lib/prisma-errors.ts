@@ -0,0 +1,13 @@
+/**
+ * Helpers for recognising Prisma errors, shared by every module that writes
+ * through `@/lib/prisma`. Kept apart from the client so tests that mock it
+ * still get the real checks.
+ */
+
+/**
+ * True when a Prisma write failed on a unique constraint, i.e. the row (or
+ * the claim it stands for) already exists.
+ */
+export function isUniqueViolation(error: unknown): boolean {
+  return (error as { code?: string } | null)?.code === 'P2002'
+}
@@ -0,0 +1,66 @@
+/**
+ * The monitor's two pump circuits.
+ *
+ * Every SensorData row carries two current/duty-cycle channels: `current1*` /
+ * `dutyCycle1` and `current2*` / `dutyCycle2`. Channel 1 is the well pump that
+ * the pressure-based features (low pressure, dry run, tank health, water
+ * usage) describe. Channel 2 is whatever else is wired to the second clamp —
+ * typically a booster pump or a water softener — and is monitored as a load
+ * in its own right: runs, runtime, long runs and high current.
+ *
+ * Each channel has a display name stored in SystemSettings (globally or per
+ * device, like the detector thresholds), so alerts and the UI can say
+ * "Booster pump" instead of "Current 2".
+ */
+import { getScopedSettings } from '@/lib/device-settings'
+
+export type PumpChannel = 1 | 2
+
+export const PUMP_CHANNELS: readonly PumpChannel[] = [1, 2]
+
+export const DEFAULT_CHANNEL_NAMES: Readonly<Record<PumpChannel, string>> = {
+  1: 'Pump 1',
+  2: 'Pump 2',
+}
+
+/** SystemSettings keys holding each channel's display name. */
+export const CHANNEL_NAME_KEYS: Readonly<Record<PumpChannel, string>> = {
+  1: 'pumpChannel1Name',
+  2: 'pumpChannel2Name',
+}
+
+export type ChannelNames = Record<PumpChannel, string>
+
+/**
+ * Parse a `channel` query parameter. Absent means channel 1; anything other
+ * than `1` or `2` returns `null` so the caller can answer 400.
+ */
+export function parseChannel(raw: string | null): PumpChannel | null {
+  if (raw === null || raw === '') return 1
+  if (raw === '1') return 1
+  if (raw === '2') return 2
+  return null
+}
+
+/**
+ * Read the channel names from SystemSettings, preferring the device's own when
+ * set. Blank values fall through to the global name and then the default.
+ */
+export async function getChannelNames(device?: string): Promise<ChannelNames> {
+  try {
+    const keys = PUMP_CHANNELS.map((channel) => CHANNEL_NAME_KEYS[channel])
+    const { global, override } = await getScopedSettings(keys, device)
+    const resolve = (channel: PumpChannel): string => {
+      const key = CHANNEL_NAME_KEYS[channel]
+      return (
+        override.get(key)?.trim() ||
+        global.get(key)?.trim() ||
+        DEFAULT_CHANNEL_NAMES[channel]
+      )
+    }
+    return { 1: resolve(1), 2: resolve(2) }
+  } catch (error) {
+    console.error('[pump-channels] failed to read channel names:', error)
+    return { ...DEFAULT_CHANNEL_NAMES }
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * Per-user quiet hours.
+ *
+ * A user can set a daily window, in their `summaryReportTimezone`, during
+ * which alerts are held back instead of sent. Event types in the user's
+ * breakthrough list are still sent immediately. Held-back alerts are queued
+ * by `dispatchNotifications` and delivered as one digest when the window ends
+ * (see `src/lib/digest.ts`).
+ *
+ * Everything here is pure so that `notifications.ts` can import it without
+ * an import cycle.
+ */
+
+export interface QuietHoursSettings {
+  quietHoursEnabled: boolean
+  quietHoursStart: string
+  quietHoursEnd: string
+  quietHoursBreakthrough: readonly string[]
+  summaryReportTimezone: string
+}
+
+const TIME_OF_DAY = /^([01]\d|2[0-3]):([0-5]\d)$/
+
+/** True for a 24-hour "HH:MM" time such as "07:00" or "22:30". */
+export function isValidTimeOfDay(value: unknown): value is string {
+  return typeof value === 'string' && TIME_OF_DAY.test(value)
+}
+
+/** Minutes since midnight for an "HH:MM" time, or null if malformed. */
+export function parseTimeOfDay(value: string): number | null {
+  const match = TIME_OF_DAY.exec(value)
+  if (!match) return null
+  return Number(match[1]) * 60 + Number(match[2])
+}
+
+/**
+ * Minutes since local midnight of `date` in the given IANA timezone. An
+ * unknown timezone falls back to UTC, like the summary-report scheduler.
+ */
+export function minuteOfDayInTimezone(date: Date, timeZone: string): number {
+  let parts: Intl.DateTimeFormatPart[]
+  try {
+    parts = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hour: 'numeric',
+      minute: 'numeric',
+      hourCycle: 'h23',
+    }).formatToParts(date)
+  } catch {
+    return date.getUTCHours() * 60 + date.getUTCMinutes()
+  }
+  const hour = Number(parts.find((p) => p.type === 'hour')?.value ?? 0) % 24
+  const minute = Number(parts.find((p) => p.type === 'minute')?.value ?? 0)
+  return hour * 60 + minute
+}
+
+/**
+ * True when `now` falls inside the user's quiet window. The start is
+ * inclusive and the end exclusive; an end before the start wraps past
+ * midnight, and equal or malformed times mean no window at all.
+ */
+export function isInQuietHours(settings: QuietHoursSettings, now: Date): boolean {
+  if (!settings.quietHoursEnabled) return false
+  const start = parseTimeOfDay(settings.quietHoursStart)
+  const end = parseTimeOfDay(settings.quietHoursEnd)
+  if (start === null || end === null || start === end) return false
+
+  const minute = minuteOfDayInTimezone(now, settings.summaryReportTimezone)
+  return start < end
+    ? minute >= start && minute < end
+    : minute >= start || minute < end
+}
+
+/**
+ * True when an alert of `eventType` should be held back for this user at
+ * `now`: they are in quiet hours and the type isn't allowed to break through.
+ */
+export function shouldHoldForQuietHours(
+  settings: QuietHoursSettings,
+  eventType: string,
+  now: Date,
+): boolean {
+  return (
+    isInQuietHours(settings, now) &&
+    !settings.quietHoursBreakthrough.includes(eventType)
+  )
+}
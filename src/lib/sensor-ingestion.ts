@@ -0,0 +1,374 @@
+/**
+ * Shared SensorData ingestion pipeline for `POST /api/sensors` and the MQTT
+ * subscriber (see `src/lib/mqtt-ingestion.ts`).
+ *
+ * The ESP32 normally posts one row per minute, but when the pump house loses
+ * Wi-Fi it buffers rows locally and replays them once the link is back. The
+ * route accepts either a single row or an array of rows; both shapes go
+ * through the same per-row validation (`validateSensorPayload`), and both
+ * finish with the same server-side detection pass here.
+ *
+ * Detection for a replayed batch runs ONCE per device over the whole window,
+ * in chronological order, rather than once per row. Long-run and leak
+ * detection re-read the persisted stream anyway, so evaluating them at the
+ * newest row sees the full backlog; threshold detection walks the window in
+ * memory (see `checkSensorThresholdWindow`). Either way an hour-long replay
+ * produces at most one create/update per condition and one notification,
+ * not sixty.
+ */
+import { prisma } from '@/lib/prisma'
+import { isUniqueViolation } from '@/lib/prisma-errors'
+import {
+  formatValidationErrors,
+  validateSensorPayload,
+  type FieldError,
+  type SensorPayload,
+} from '@/lib/payload-validation'
+import { recordDeviceActivity, type DeviceMetadata } from '@/lib/devices'
+import { publishSensorReadings } from '@/lib/mqtt'
+import { recordSensorRows, timeIngestion } from '@/lib/metrics'
+import { publishLiveSensorRows, type LiveSensorRow } from '@/lib/live-stream'
+import { checkAndRecordLongRun } from '@/lib/long-run-detection'
+import { checkAndRecordDryRun } from '@/lib/dry-run-detection'
+import { checkSensorThresholdWindow } from '@/lib/threshold-detection'
+import { checkAndRecordPressureDrop } from '@/lib/leak-detection'
+import { checkAndRecordShortCycling } from '@/lib/short-cycle-detection'
+import { checkAndRecordFreezeRisk } from '@/lib/freeze-risk'
+import { checkAndRecordSensorFaults } from '@/lib/sensor-sanity'
+
+/**
+ * Outcome of ingesting one device message, independent of the transport. The
+ * HTTP routes send `body` with `status`; the MQTT subscriber logs the status
+ * and can echo both back to the device.
+ */
+export interface IngestResult {
+  status: number
+  body: Record<string, unknown>
+}
+
+/**
+ * Largest batch accepted in one request: a full day of 1-minute rows. Larger
+ * backlogs are expected to be split by the firmware.
+ */
+export const MAX_BATCH_ROWS = 1440
+
+/** De-duplication key for a row: one sampling window per device. */
+export function sensorRowKey(row: { device: string; startTime: Date }): string {
+  return `${row.device}|${row.startTime.getTime()}`
+}
+
+/**
+ * Run server-side condition detection for freshly-saved rows. Rows are grouped
+ * by device and each device's group is evaluated once, in chronological order,
+ * with the newest row's timestamp as "now". A device whose newest stored row
+ * is later than the group (a backlog replayed after live rows resumed) is
+ * skipped: its state was already evaluated at that later time, and running
+ * the detectors at the backlog's "now" would resolve or raise events against
+ * stale readings. Sensor sanity runs first, and a
+ * detector is skipped (or, for the multi-sensor ones, told to skip a channel)
+ * while a sensor it reads from is faulty. Every detector is guarded so an
+ * alerting bug can never cause ingestion (the device's only way to persist
+ * data) to 502.
+ */
+export async function runSensorDetection(
+  rows: readonly SensorPayload[],
+): Promise<void> {
+  const byDevice = new Map<string, SensorPayload[]>()
+  for (const row of rows) {
+    const group = byDevice.get(row.device)
+    if (group) group.push(row)
+    else byDevice.set(row.device, [row])
+  }
+
+  for (const [device, group] of byDevice) {
+    const ordered = [...group].sort(
+      (a, b) => a.timestamp.getTime() - b.timestamp.getTime(),
+    )
+    const latest = ordered[ordered.length - 1]
+
+    try {
+      const newer = await prisma.sensorData.findFirst({
+        where: { device, timestamp: { gt: latest.timestamp } },
+        select: { id: true },
+      })
+      if (newer) continue
+    } catch (newerError) {
+      console.error('Error checking for newer rows:', newerError)
+    }
+
+    // Never throws; reports nothing faulty if the check itself fails.
+    const faulty = await checkAndRecordSensorFaults(device, latest.location, latest.timestamp)
+
+    try {
+      await checkSensorThresholdWindow(
+        device,
+        latest.location,
+        ordered.map((r) => ({
+          current1RMS: r.current1RMS,
+          current2RMS: r.current2RMS,
+          pressMin: r.pressMin,
+          tempMin: r.tempMin,
+          humAvg: r.humAvg,
+          timestamp: r.timestamp,
+        })),
+        faulty,
+      )
+    } catch (thresholdError) {
+      console.error('Error in threshold detection:', thresholdError)
+    }
+
+    try {
+      await checkAndRecordLongRun(device, latest.location, latest.timestamp, faulty)
+    } catch (longRunError) {
+      console.error('Error in long-run detection:', longRunError)
+    }
+
+    if (!faulty.has('pressure') && !faulty.has('current1')) {
+      try {
+        await checkAndRecordDryRun(device, latest.location, latest.timestamp)
+      } catch (dryRunError) {
+        console.error('Error in dry-run detection:', dryRunError)
+      }
+    }
+
+    if (!faulty.has('pressure')) {
+      try {
+        await checkAndRecordPressureDrop(device, latest.location, latest.timestamp)
+      } catch (leakError) {
+        console.error('Error in leak detection:', leakError)
+      }
+    }
+
+    if (!faulty.has('current1')) {
+      try {
+        await checkAndRecordShortCycling(device, latest.location, latest.timestamp)
+      } catch (shortCycleError) {
+        console.error('Error in short-cycle detection:', shortCycleError)
+      }
+    }
+
+    if (!faulty.has('temperature')) {
+      try {
+        await checkAndRecordFreezeRisk(device, latest.location, latest.timestamp)
+      } catch (freezeRiskError) {
+        console.error('Error in freeze-risk detection:', freezeRiskError)
+      }
+    }
+  }
+}
+
+/**
+ * Validate, store and run detection for a sensor post: a single row, or an
+ * array of rows replayed from the device's buffer. Throws on database errors
+ * other than a duplicate window; callers report those as a server error.
+ */
+export function ingestSensorData(
+  data: unknown,
+  metadata: DeviceMetadata,
+): Promise<IngestResult> {
+  return timeIngestion('sensors', () => ingestSensorPost(data, metadata))
+}
+
+async function ingestSensorPost(
+  data: unknown,
+  metadata: DeviceMetadata,
+): Promise<IngestResult> {
+  // A JSON array is a buffered backlog replayed by the device after an
+  // outage; anything else is the normal one-row-per-minute post.
+  if (Array.isArray(data)) {
+    return ingestBatch(data, metadata)
+  }
+
+  // Typed validation: every bad field is reported at once, and unknown keys
+  // are stripped before anything reaches Prisma.
+  const parsed = validateSensorPayload(data)
+  if (!parsed.ok) {
+    return {
+      status: 400,
+      body: { error: formatValidationErrors(parsed.errors), errors: parsed.errors },
+    }
+  }
+
+  // Any well-formed post — a retry included — means the device is alive.
+  await recordDeviceActivity([parsed.value], metadata)
+
+  // Save to database. The (device, startTime) unique constraint makes a
+  // retried post a no-op: the original row wins and its id is returned so
+  // the device can treat the retry as delivered.
+  let result: { id: string }
+  try {
+    result = await prisma.sensorData.create({
+      data: parsed.value
+    })
+  } catch (createError) {
+    if (!isUniqueViolation(createError)) throw createError
+    const original = await findStoredWindow(parsed.value)
+    return {
+      status: 200,
+      body: {
+        success: true,
+        id: original?.id,
+        duplicate: true,
+        message: 'Sensor data already recorded'
+      },
+    }
+  }
+
+  // Publish to MQTT without waiting; a slow broker must not hold the device.
+  void publishSensorReadings([parsed.value])
+  recordSensorRows([parsed.value])
+  publishLiveSensorRows([{ ...parsed.value, id: result.id }])
+
+  // Server-side condition detection runs against the freshly-saved row.
+  // Each detector is guarded inside runSensorDetection.
+  await runSensorDetection([parsed.value])
+
+  return {
+    status: 201,
+    body: {
+      success: true,
+      id: result.id,
+      message: 'Sensor data saved successfully'
+    },
+  }
+}
+
+/** Look up the stored row occupying a (device, startTime) window. */
+function findStoredWindow(row: SensorPayload) {
+  return prisma.sensorData.findUnique({
+    where: { device_startTime: { device: row.device, startTime: row.startTime } },
+    select: { id: true },
+  })
+}
+
+interface BatchRowResult {
+  index: number
+  success: boolean
+  id?: string
+  /** True when the row was already stored (or repeated in the same batch). */
+  duplicate?: boolean
+  error?: string
+  /** Per-field validation failures when the row was rejected as malformed. */
+  errors?: FieldError[]
+}
+
+/**
+ * Persist a replayed batch of rows. Every row is validated independently and
+ * reported on in `results` (same order as the request) so the device can drop
+ * exactly the rows that were accepted from its buffer and keep the rest.
+ *
+ * Duplicates — rows whose (device, startTime) window is already stored, or
+ * that repeat an earlier row in the same batch — are rejected without being
+ * written and reported as `duplicate: true` with the original id where known.
+ * They count as successes so a retried replay is idempotent.
+ *
+ * Every device with at least one valid row is marked as seen in the registry.
+ * Detection runs once over the newly-stored rows after all writes complete.
+ */
+async function ingestBatch(
+  items: unknown[],
+  metadata: DeviceMetadata,
+): Promise<IngestResult> {
+  if (items.length === 0) {
+    return { status: 400, body: { error: 'Batch must contain at least one row' } }
+  }
+  if (items.length > MAX_BATCH_ROWS) {
+    return {
+      status: 400,
+      body: { error: `Batch too large: at most ${MAX_BATCH_ROWS} rows per request` },
+    }
+  }
+
+  const nowMs = Date.now()
+  const results: BatchRowResult[] = new Array(items.length)
+  const candidates: Array<{ index: number; row: SensorPayload }> = []
+  items.forEach((item, index) => {
+    const parsed = validateSensorPayload(item, nowMs)
+    if (parsed.ok) {
+      candidates.push({ index, row: parsed.value })
+    } else {
+      results[index] = {
+        index,
+        success: false,
+        error: formatValidationErrors(parsed.errors),
+        errors: parsed.errors,
+      }
+    }
+  })
+
+  await recordDeviceActivity(candidates.map((c) => c.row), metadata)
+
+  // Look up every candidate window that is already stored in one query.
+  const existingIds = new Map<string, string>()
+  if (candidates.length > 0) {
+    const startTimesByDevice = new Map<string, Date[]>()
+    for (const { row } of candidates) {
+      const list = startTimesByDevice.get(row.device)
+      if (list) list.push(row.startTime)
+      else startTimesByDevice.set(row.device, [row.startTime])
+    }
+    const existing = await prisma.sensorData.findMany({
+      where: {
+        OR: [...startTimesByDevice].map(([device, startTimes]) => ({
+          device,
+          startTime: { in: startTimes },
+        })),
+      },
+      select: { id: true, device: true, startTime: true },
+    })
+    for (const row of existing) existingIds.set(sensorRowKey(row), row.id)
+  }
+
+  const stored: SensorPayload[] = []
+  const storedRows: LiveSensorRow[] = []
+  for (const { index, row } of candidates) {
+    const key = sensorRowKey(row)
+    const existingId = existingIds.get(key)
+    if (existingId !== undefined) {
+      results[index] = { index, success: true, id: existingId, duplicate: true }
+      continue
+    }
+    try {
+      const created = await prisma.sensorData.create({ data: row })
+      existingIds.set(key, created.id)
+      stored.push(row)
+      storedRows.push({ ...row, id: created.id })
+      results[index] = { index, success: true, id: created.id }
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        // Stored by a concurrent request between the lookup and the insert.
+        const original = await findStoredWindow(row)
+        if (original) existingIds.set(key, original.id)
+        results[index] = { index, success: true, id: original?.id, duplicate: true }
+        continue
+      }
+      console.error(`Error saving batched sensor row ${index}:`, error)
+      results[index] = { index, success: false, error: 'Failed to save row' }
+    }
+  }
+
+  if (stored.length > 0) {
+    void publishSensorReadings(stored)
+    recordSensorRows(stored)
+    publishLiveSensorRows(storedRows)
+    await runSensorDetection(stored)
+  }
+
+  const failed = results.filter((r) => !r.success).length
+  const duplicates = results.filter((r) => r.duplicate).length
+  const created = stored.length
+
+  return {
+    // 207 when some rows were rejected; 201 when anything new was stored;
+    // 200 for a pure replay where every row was already present.
+    status: failed > 0 ? 207 : created > 0 ? 201 : 200,
+    body: {
+      success: failed === 0,
+      created,
+      duplicates,
+      failed,
+      results,
+      message: `Batch processed: ${created} saved, ${duplicates} duplicate, ${failed} failed`
+    },
+  }
+}
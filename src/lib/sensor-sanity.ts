@@ -0,0 +1,495 @@
+/**
+ * Server-side sensor fault detection.
+ *
+ * SENSOR_ERROR used to arrive only when the ESP32 reported it, and the
+ * firmware only notices a probe that stops answering altogether. A transducer
+ * stuck on one value, a disconnected thermistor reading -196 °F or a row whose
+ * min is above its max all sail through ingestion (payload validation only
+ * rejects values that cannot be a measurement at all) and then drive every
+ * other detector with nonsense.
+ *
+ * Each sensor channel is checked on ingestion for:
+ *   - out of range     any reading outside the plausible bounds for a pump
+ *                      house (tighter than the validation limits)
+ *   - inconsistent     min > avg or avg > max within one row
+ *   - implausible step the average jumping further between consecutive rows
+ *                      than the physical quantity can move in a minute
+ *   - flatline         the channel reporting exactly one value for
+ *                      `sensorFlatlineHours` (12 by default), unless that
+ *                      value is a physical limit the reading saturates at
+ *
+ * The row-level checks look at the last RECENT_FAULT_MINUTES of rows, so a
+ * single bad reading holds the fault for a short while instead of flapping
+ * on the next good row. Currents are exempt from the flatline and step checks:
+ * an idle pump reads 0 A for hours and a starting one jumps straight to its
+ * inrush current. Humidity is exempt from the flatline check at 0 and 100%:
+ * a damp pump house can sit at saturation for days.
+ *
+ * Each faulty channel gets its own active SENSOR_ERROR event, keyed by the
+ * Event `sensor` column, so a device-reported SENSOR_ERROR (sensor null) and
+ * several server-raised ones never overwrite each other. Ingestion runs this
+ * check first and the other detectors skip any channel it reports faulty (see
+ * `runSensorDetection`).
+ */
+import { prisma } from '@/lib/prisma'
+import { dispatchEventNotifications } from '@/lib/notifications'
+import { resolveEvent } from '@/lib/event-resolution'
+import { getScopedSettings, resolveNumericSetting } from '@/lib/device-settings'
+import { getChannelNames, type ChannelNames } from '@/lib/pump-channels'
+
+export type SensorChannel = 'temperature' | 'humidity' | 'pressure' | 'current1' | 'current2'
+
+export const SENSOR_CHANNELS: readonly SensorChannel[] = [
+  'temperature',
+  'humidity',
+  'pressure',
+  'current1',
+  'current2',
+]
+
+/** Default flatline time. A live probe always shows some jitter within hours. */
+export const DEFAULT_SENSOR_FLATLINE_HOURS = 12
+
+export const SENSOR_FLATLINE_KEY = 'sensorFlatlineHours'
+
+/** Rows this recent are checked for range, consistency and step faults. */
+const RECENT_FAULT_MINUTES = 15
+
+/** Consecutive rows further apart than this are not compared for steps. */
+const STEP_MAX_GAP_MS = 5 * 60 * 1000
+
+/** Spread (in the channel's unit) still counted as "one value" for a flatline. */
+const FLATLINE_TOLERANCE = 1e-6
+
+/** Rounding slack allowed between a row's min, avg and max. */
+const CONSISTENCY_TOLERANCE = 0.01
+
+/** The flatline window may start this much after its nominal start. */
+const FLATLINE_COVERAGE_SLACK_MS = 15 * 60 * 1000
+
+type SensorValueField =
+  | 'tempMin' | 'tempAvg' | 'tempMax'
+  | 'humMin' | 'humAvg' | 'humMax'
+  | 'pressMin' | 'pressAvg' | 'pressMax'
+  | 'current1Min' | 'current1Avg' | 'current1Max'
+  | 'current2Min' | 'current2Avg' | 'current2Max'
+
+interface SensorSpec {
+  min: SensorValueField
+  avg: SensorValueField
+  max: SensorValueField
+  /** Plausible range for a pump house, inclusive. */
+  bounds: { min: number; max: number }
+  /** Largest believable change in the average between consecutive rows. */
+  maxStep: number | null
+  flatline: boolean
+  /** Physical limits a live sensor can read for hours; no flatline there. */
+  saturatesAt: readonly number[]
+  unit: string
+}
+
+/**
+ * Per-channel columns and limits. Temperatures are Fahrenheit (see
+ * temperature.ts); -40 °F to 150 °F covers an unheated shed in a cold snap and
+ * one in full sun. Pressure allows a little negative zero offset and twice the
+ * highest residential switch setting.
+ */
+const SENSOR_SPECS: Record<SensorChannel, SensorSpec> = {
+  temperature: {
+    min: 'tempMin',
+    avg: 'tempAvg',
+    max: 'tempMax',
+    bounds: { min: -40, max: 150 },
+    maxStep: 20,
+    flatline: true,
+    saturatesAt: [],
+    unit: '°F',
+  },
+  humidity: {
+    min: 'humMin',
+    avg: 'humAvg',
+    max: 'humMax',
+    bounds: { min: 0, max: 100 },
+    maxStep: 50,
+    flatline: true,
+    saturatesAt: [0, 100],
+    unit: '%',
+  },
+  pressure: {
+    min: 'pressMin',
+    avg: 'pressAvg',
+    max: 'pressMax',
+    bounds: { min: -5, max: 200 },
+    maxStep: 60,
+    flatline: true,
+    saturatesAt: [],
+    unit: ' PSI',
+  },
+  current1: {
+    min: 'current1Min',
+    avg: 'current1Avg',
+    max: 'current1Max',
+    bounds: { min: 0, max: 60 },
+    maxStep: null,
+    flatline: false,
+    saturatesAt: [],
+    unit: ' A',
+  },
+  current2: {
+    min: 'current2Min',
+    avg: 'current2Avg',
+    max: 'current2Max',
+    bounds: { min: 0, max: 60 },
+    maxStep: null,
+    flatline: false,
+    saturatesAt: [],
+    unit: ' A',
+  },
+}
+
+export type SensorSanityRow = {
+  startTime: Date
+  endTime: Date
+} & Record<SensorValueField, number>
+
+/**
+ * Per-channel extremes over the flatline window, as returned by one
+ * `aggregate` query rather than hours of rows.
+ */
+export interface FlatlineSummary {
+  /** Start of the earliest row in the window. */
+  firstStartTime: Date
+  low: Record<SensorChannel, number>
+  high: Record<SensorChannel, number>
+}
+
+export type SensorFaultKind = 'out_of_range' | 'inconsistent' | 'step' | 'flatline'
+
+export interface SensorFault {
+  kind: SensorFaultKind
+  /** The offending reading, the row min, the step size or the stuck value. */
+  value: number
+  /** The bound it broke, the row max, the step limit or the flatline hours. */
+  threshold: number
+  /** When the fault was first seen in the evaluated rows. */
+  since: Date
+  /** Row average, for `inconsistent` faults. */
+  avg?: number
+  /** Previous average, for `step` faults. */
+  from?: number
+}
+
+function outOfRange(row: SensorSanityRow, spec: SensorSpec): SensorFault | null {
+  for (const field of [spec.min, spec.avg, spec.max]) {
+    const v = row[field]
+    const { min, max } = spec.bounds
+    if (v < min) return { kind: 'out_of_range', value: v, threshold: min, since: row.startTime }
+    if (v > max) return { kind: 'out_of_range', value: v, threshold: max, since: row.startTime }
+  }
+  return null
+}
+
+function inconsistent(row: SensorSanityRow, spec: SensorSpec): SensorFault | null {
+  const min = row[spec.min]
+  const avg = row[spec.avg]
+  const max = row[spec.max]
+  if (min > avg + CONSISTENCY_TOLERANCE || avg > max + CONSISTENCY_TOLERANCE) {
+    return { kind: 'inconsistent', value: min, threshold: max, avg, since: row.startTime }
+  }
+  return null
+}
+
+/**
+ * Decide which sensor channels are faulty at `now`. `rows` must be ordered
+ * oldest first and may start before the recent window (the row just before
+ * it is used for the first step comparison). `flatline` is null when the
+ * flatline check is off or there is nothing to summarise. When a channel has
+ * several faults, range beats consistency beats step beats flatline.
+ *
+ * Pure: no I/O, exported for testing.
+ */
+export function detectSensorFaults(
+  rows: readonly SensorSanityRow[],
+  flatline: FlatlineSummary | null,
+  flatlineHours: number,
+  now: Date,
+): Map<SensorChannel, SensorFault> {
+  const faults = new Map<SensorChannel, SensorFault>()
+  const recentFromMs = now.getTime() - RECENT_FAULT_MINUTES * 60 * 1000
+  const firstRecent = rows.findIndex((r) => r.endTime.getTime() > recentFromMs)
+  const recent = firstRecent === -1 ? [] : rows.slice(firstRecent)
+
+  for (const channel of SENSOR_CHANNELS) {
+    const spec = SENSOR_SPECS[channel]
+    let fault: SensorFault | null = null
+
+    for (const row of recent) {
+      fault = outOfRange(row, spec)
+      if (fault) break
+    }
+    if (!fault) {
+      for (const row of recent) {
+        fault = inconsistent(row, spec)
+        if (fault) break
+      }
+    }
+    if (!fault && spec.maxStep !== null && firstRecent !== -1) {
+      for (let i = Math.max(1, firstRecent); i < rows.length; i++) {
+        const prev = rows[i - 1]
+        const row = rows[i]
+        if (row.startTime.getTime() - prev.endTime.getTime() > STEP_MAX_GAP_MS) continue
+        const step = Math.abs(row[spec.avg] - prev[spec.avg])
+        if (step > spec.maxStep) {
+          fault = {
+            kind: 'step',
+            value: step,
+            threshold: spec.maxStep,
+            from: prev[spec.avg],
+            since: row.startTime,
+          }
+          break
+        }
+      }
+    }
+    if (!fault && spec.flatline && flatline && flatlineHours > 0) {
+      const windowStartMs = now.getTime() - flatlineHours * 60 * 60 * 1000
+      const covered =
+        flatline.firstStartTime.getTime() <= windowStartMs + FLATLINE_COVERAGE_SLACK_MS
+      const stuck = flatline.high[channel] - flatline.low[channel] <= FLATLINE_TOLERANCE
+      const saturated = spec.saturatesAt.some(
+        (limit) => Math.abs(flatline.low[channel] - limit) <= FLATLINE_TOLERANCE,
+      )
+      if (covered && stuck && !saturated) {
+        fault = {
+          kind: 'flatline',
+          value: flatline.low[channel],
+          threshold: flatlineHours,
+          since: flatline.firstStartTime,
+        }
+      }
+    }
+
+    if (fault) faults.set(channel, fault)
+  }
+  return faults
+}
+
+function sensorLabel(channel: SensorChannel, names: ChannelNames): string {
+  switch (channel) {
+    case 'temperature':
+      return 'Temperature sensor'
+    case 'humidity':
+      return 'Humidity sensor'
+    case 'pressure':
+      return 'Pressure transducer'
+    case 'current1':
+      return `${names[1]} current sensor`
+    case 'current2':
+      return `${names[2]} current sensor`
+  }
+}
+
+/** Human description of one fault, e.g. for the event and its notification. */
+export function describeSensorFault(
+  channel: SensorChannel,
+  fault: SensorFault,
+  names: ChannelNames,
+): string {
+  const label = sensorLabel(channel, names)
+  const unit = SENSOR_SPECS[channel].unit
+  const fmt = (v: number) => `${v.toFixed(1)}${unit}`
+  switch (fault.kind) {
+    case 'out_of_range': {
+      const { min, max } = SENSOR_SPECS[channel].bounds
+      return (
+        `${label} reading ${fmt(fault.value)} is outside the plausible range ` +
+        `${fmt(min)} to ${fmt(max)} — check the probe and its wiring`
+      )
+    }
+    case 'inconsistent':
+      return (
+        `${label} reported min ${fmt(fault.value)}, avg ${fmt(fault.avg!)}, ` +
+        `max ${fmt(fault.threshold)} — the readings contradict each other`
+      )
+    case 'step':
+      return (
+        `${label} jumped ${fmt(fault.value)} between readings (from ${fmt(fault.from!)}; ` +
+        `limit ${fmt(fault.threshold)}) — likely a loose connection`
+      )
+    case 'flatline':
+      return (
+        `${label} stuck at ${fmt(fault.value)} for ${fault.threshold} h or more — ` +
+        `check the sensor and its wiring`
+      )
+  }
+}
+
+/**
+ * Read the flatline time from SystemSettings, preferring the device's override
+ * when set. Falls back to the default when unset or malformed; 0 disables the
+ * flatline check.
+ */
+export async function getSensorFlatlineHours(device?: string): Promise<number> {
+  try {
+    const settings = await getScopedSettings([SENSOR_FLATLINE_KEY], device)
+    return resolveNumericSetting(settings, SENSOR_FLATLINE_KEY, DEFAULT_SENSOR_FLATLINE_HOURS)
+  } catch (error) {
+    console.error('[sensor-sanity] failed to read thresholds:', error)
+    return DEFAULT_SENSOR_FLATLINE_HOURS
+  }
+}
+
+/** Summarise each channel's extremes over the flatline window in one query. */
+async function loadFlatlineSummary(
+  device: string,
+  since: Date,
+  now: Date,
+): Promise<FlatlineSummary | null> {
+  const agg = await prisma.sensorData.aggregate({
+    where: { device, timestamp: { gte: since, lte: now } },
+    _min: {
+      startTime: true,
+      tempMin: true,
+      humMin: true,
+      pressMin: true,
+      current1Min: true,
+      current2Min: true,
+    },
+    _max: { tempMax: true, humMax: true, pressMax: true, current1Max: true, current2Max: true },
+  })
+  const { _min: low, _max: high } = agg
+  if (!low.startTime) return null
+  return {
+    firstStartTime: low.startTime,
+    low: {
+      temperature: low.tempMin ?? 0,
+      humidity: low.humMin ?? 0,
+      pressure: low.pressMin ?? 0,
+      current1: low.current1Min ?? 0,
+      current2: low.current2Min ?? 0,
+    },
+    high: {
+      temperature: high.tempMax ?? 0,
+      humidity: high.humMax ?? 0,
+      pressure: high.pressMax ?? 0,
+      current1: high.current1Max ?? 0,
+      current2: high.current2Max ?? 0,
+    },
+  }
+}
+
+/**
+ * Check every sensor channel of the given device and reconcile each against
+ * its own active SENSOR_ERROR event:
+ *  - Fault + no existing -> create + notify
+ *  - Fault + existing    -> update value/description silently
+ *  - No fault + existing -> resolve
+ * Returns the channels that are faulty afterwards so ingestion can skip them.
+ * Never throws; on error nothing is reported faulty.
+ */
+export async function checkAndRecordSensorFaults(
+  device: string,
+  location: string,
+  now: Date = new Date(),
+): Promise<Set<SensorChannel>> {
+  const faulty = new Set<SensorChannel>()
+  try {
+    const flatlineHours = await getSensorFlatlineHours(device)
+    // One row before the recent window, for the first step comparison.
+    const recentSince = new Date(now.getTime() - (RECENT_FAULT_MINUTES + 5) * 60 * 1000)
+    const rows = await prisma.sensorData.findMany({
+      where: { device, timestamp: { gte: recentSince, lte: now } },
+      orderBy: { timestamp: 'asc' },
+      select: {
+        startTime: true,
+        endTime: true,
+        tempMin: true,
+        tempAvg: true,
+        tempMax: true,
+        humMin: true,
+        humAvg: true,
+        humMax: true,
+        pressMin: true,
+        pressAvg: true,
+        pressMax: true,
+        current1Min: true,
+        current1Avg: true,
+        current1Max: true,
+        current2Min: true,
+        current2Avg: true,
+        current2Max: true,
+      },
+    })
+    const flatline =
+      flatlineHours > 0
+        ? await loadFlatlineSummary(
+            device,
+            new Date(now.getTime() - flatlineHours * 60 * 60 * 1000),
+            now,
+          )
+        : null
+
+    const faults = detectSensorFaults(rows, flatline, flatlineHours, now)
+    const names = await getChannelNames(device)
+    const existingEvents = await prisma.event.findMany({
+      where: { device, type: 'SENSOR_ERROR', active: true, sensor: { not: null } },
+      orderBy: { timestamp: 'desc' },
+    })
+
+    for (const channel of SENSOR_CHANNELS) {
+      const fault = faults.get(channel)
+      const existing = existingEvents.find((e) => e.sensor === channel)
+
+      if (fault) {
+        faulty.add(channel)
+        const description = describeSensorFault(channel, fault, names)
+        if (existing) {
+          await prisma.event.update({
+            where: { id: existing.id },
+            data: {
+              timestamp: now,
+              value: fault.value,
+              threshold: fault.threshold,
+              duration: BigInt(now.getTime() - existing.startTime.getTime()),
+              description,
+            },
+          })
+        } else {
+          const created = await prisma.event.create({
+            data: {
+              device,
+              location,
+              timestamp: now,
+              type: 'SENSOR_ERROR',
+              sensor: channel,
+              value: fault.value,
+              threshold: fault.threshold,
+              startTime: fault.since,
+              duration: BigInt(Math.max(0, now.getTime() - fault.since.getTime())),
+              active: true,
+              description,
+            },
+          })
+          try {
+            await dispatchEventNotifications({
+              id: created.id,
+              type: 'SENSOR_ERROR',
+              device,
+              location,
+              value: fault.value,
+              threshold: fault.threshold,
+              description,
+            })
+          } catch (notifyError) {
+            console.error('[sensor-sanity] notification dispatch failed:', notifyError)
+          }
+        }
+      } else if (existing) {
+        await resolveEvent(existing, now)
+      }
+    }
+  } catch (error) {
+    console.error('[sensor-sanity] check failed:', error)
+  }
+  return faulty
+}
@@ -0,0 +1,227 @@
+/**
+ * Server-side detection of a short-cycling pump.
+ *
+ * A healthy pressure system lets the pump run for a minute or more and then
+ * rest while the tank's air charge supplies water. When the bladder fails or
+ * the tank is waterlogged there is no drawdown volume left, so the pump starts
+ * every few minutes and stops again almost immediately. Nothing about a single
+ * sample looks wrong — current, pressure and runtime all stay in range — but
+ * the start count climbs and each run gets shorter, and the constant restarts
+ * wear out the motor and pressure switch.
+ *
+ * Runs are counted with {@link computeStatsFromRows} over a rolling window, so
+ * "starts" and "average run length" mean exactly what the stats page reports
+ * for the same period. The run-merge gap that collapses single-minute sampling
+ * dropouts also limits resolution: cycles closer together than the gap plus one
+ * sample merge into a single run, which the long-run detector picks up instead.
+ *
+ * Like the long-run check, this is called from /api/sensors after the rows are
+ * saved, so it is re-evaluated whenever fresh data arrives.
+ */
+import { prisma } from '@/lib/prisma'
+import { dispatchEventNotifications } from '@/lib/notifications'
+import { resolveEvent, worstValue } from '@/lib/event-resolution'
+import { getScopedSettings, resolveNumericSetting } from '@/lib/device-settings'
+import {
+  computeStatsFromRows,
+  DEFAULT_STATS_THRESHOLDS,
+  type StatsRow,
+} from '@/lib/stats'
+
+/**
+ * Defaults. 12 starts in an hour is a start every 5 minutes — more than any
+ * normal household draw produces — and a 60-second average run is the usual
+ * minimum recommended run time for a submersible motor. Both must be breached,
+ * so a busy hour of long irrigation runs doesn't alert.
+ */
+export const DEFAULT_SHORT_CYCLE_WINDOW_MINUTES = 60
+export const DEFAULT_SHORT_CYCLE_MIN_STARTS = 12
+export const DEFAULT_SHORT_CYCLE_MAX_AVG_RUN_SECONDS = 60
+
+export const SHORT_CYCLE_WINDOW_KEY = 'shortCycleWindowMinutes'
+export const SHORT_CYCLE_MIN_STARTS_KEY = 'shortCycleMinStarts'
+export const SHORT_CYCLE_MAX_AVG_RUN_KEY = 'shortCycleMaxAvgRunSeconds'
+
+/** Required freshness of the most recent row to consider the result actionable. */
+const STALE_LATEST_MS = 5 * 60 * 1000
+
+export interface ShortCycleThresholds {
+  /** Length of the rolling window starts are counted over (minutes). 0 disables. */
+  windowMinutes: number
+  /** Start count within the window at or above which to fire. 0 disables. */
+  minStarts: number
+  /** Average run length (seconds) at or below which runs count as short. */
+  maxAverageRunSeconds: number
+}
+
+export interface ShortCycleResult {
+  /** Pump starts within the window. */
+  starts: number
+  /** Mean run length over the window, in seconds of actual pump-on time. */
+  averageRunSeconds: number
+  /** Start of the earliest row considered, in epoch ms. */
+  windowStartMs: number
+}
+
+/**
+ * Count pump starts and the average run length across the rows inside the
+ * rolling window ending at `now`, and return them when both thresholds are
+ * breached. A run already in progress at the window's edge counts as a start.
+ * Returns null when the window is empty or the latest row is stale.
+ *
+ * Pure: no I/O, exported for testing.
+ */
+export function detectShortCycling(
+  rows: readonly StatsRow[],
+  thresholds: ShortCycleThresholds,
+  now: Date,
+): ShortCycleResult | null {
+  if (thresholds.windowMinutes <= 0 || thresholds.minStarts <= 0) return null
+
+  const windowStartMs = now.getTime() - thresholds.windowMinutes * 60 * 1000
+  const windowRows = rows.filter(
+    (row) => new Date(row.startTime).getTime() >= windowStartMs,
+  )
+  if (windowRows.length === 0) return null
+
+  const latestEndMs = Math.max(
+    ...windowRows.map((row) => new Date(row.endTime).getTime()),
+  )
+  if (now.getTime() - latestEndMs > STALE_LATEST_MS) return null
+
+  const stats = computeStatsFromRows(windowRows, DEFAULT_STATS_THRESHOLDS)
+  if (stats.pumpRunCount < thresholds.minStarts) return null
+  if (stats.averagePumpRunSeconds > thresholds.maxAverageRunSeconds) return null
+
+  return {
+    starts: stats.pumpRunCount,
+    averageRunSeconds: stats.averagePumpRunSeconds,
+    windowStartMs: Math.min(
+      ...windowRows.map((row) => new Date(row.startTime).getTime()),
+    ),
+  }
+}
+
+/** Short-cycling thresholds in effect for `device`. */
+export async function getShortCycleThresholds(
+  device?: string,
+): Promise<ShortCycleThresholds> {
+  try {
+    const settings = await getScopedSettings(
+      [SHORT_CYCLE_WINDOW_KEY, SHORT_CYCLE_MIN_STARTS_KEY, SHORT_CYCLE_MAX_AVG_RUN_KEY],
+      device,
+    )
+
+    const resolve = (key: string, fallback: number): number =>
+      resolveNumericSetting(settings, key, fallback)
+
+    return {
+      windowMinutes: resolve(SHORT_CYCLE_WINDOW_KEY, DEFAULT_SHORT_CYCLE_WINDOW_MINUTES),
+      minStarts: resolve(SHORT_CYCLE_MIN_STARTS_KEY, DEFAULT_SHORT_CYCLE_MIN_STARTS),
+      maxAverageRunSeconds: resolve(
+        SHORT_CYCLE_MAX_AVG_RUN_KEY,
+        DEFAULT_SHORT_CYCLE_MAX_AVG_RUN_SECONDS,
+      ),
+    }
+  } catch (error) {
+    console.error('[short-cycle] failed to read thresholds:', error)
+    return {
+      windowMinutes: DEFAULT_SHORT_CYCLE_WINDOW_MINUTES,
+      minStarts: DEFAULT_SHORT_CYCLE_MIN_STARTS,
+      maxAverageRunSeconds: DEFAULT_SHORT_CYCLE_MAX_AVG_RUN_SECONDS,
+    }
+  }
+}
+
+/**
+ * Run the short-cycling check for the given device and reconcile against any
+ * existing active SHORT_CYCLING event:
+ *  - Cycling detected + no existing -> create + notify
+ *  - Cycling detected + existing    -> update value/duration silently
+ *  - No cycling + existing          -> resolve (starts fell back below threshold)
+ * Never throws.
+ */
+export async function checkAndRecordShortCycling(
+  device: string,
+  location: string,
+  now: Date = new Date(),
+): Promise<void> {
+  try {
+    const thresholds = await getShortCycleThresholds(device)
+    // 0 disables the check; leave any in-flight alert alone, as long-run does.
+    if (thresholds.windowMinutes <= 0 || thresholds.minStarts <= 0) return
+
+    const since = new Date(now.getTime() - thresholds.windowMinutes * 60 * 1000)
+    const rows = await prisma.sensorData.findMany({
+      where: { device, startTime: { gte: since } },
+      orderBy: { timestamp: 'asc' },
+      select: {
+        timestamp: true,
+        startTime: true,
+        endTime: true,
+        dutyCycle1: true,
+        pressMin: true,
+      },
+    })
+
+    const result = detectShortCycling(rows, thresholds, now)
+    const existing = await prisma.event.findFirst({
+      where: { device, type: 'SHORT_CYCLING', active: true },
+      orderBy: { timestamp: 'desc' },
+    })
+
+    if (result) {
+      const description =
+        `Pump started ${result.starts} times in ${thresholds.windowMinutes} min ` +
+        `with an average run of ${Math.round(result.averageRunSeconds)}s ` +
+        `(threshold: ${thresholds.minStarts} starts) — ` +
+        `possible waterlogged tank or failed bladder`
+
+      if (existing) {
+        await prisma.event.update({
+          where: { id: existing.id },
+          data: {
+            timestamp: now,
+            value: result.starts,
+            peakValue: worstValue('SHORT_CYCLING', existing.peakValue ?? existing.value, result.starts),
+            duration: BigInt(now.getTime() - existing.startTime.getTime()),
+            description,
+          },
+        })
+      } else {
+        const startTime = new Date(result.windowStartMs)
+        const created = await prisma.event.create({
+          data: {
+            device,
+            location,
+            timestamp: now,
+            type: 'SHORT_CYCLING',
+            value: result.starts,
+            threshold: thresholds.minStarts,
+            startTime,
+            duration: BigInt(now.getTime() - startTime.getTime()),
+            active: true,
+            description,
+          },
+        })
+        try {
+          await dispatchEventNotifications({
+            id: created.id,
+            type: 'SHORT_CYCLING',
+            device,
+            location,
+            value: result.starts,
+            threshold: thresholds.minStarts,
+            description,
+          })
+        } catch (notifyError) {
+          console.error('[short-cycle] notification dispatch failed:', notifyError)
+        }
+      }
+    } else if (existing) {
+      await resolveEvent(existing, now)
+    }
+  } catch (error) {
+    console.error('[short-cycle] check failed:', error)
+  }
+}
@@ -32,7 +32,13 @@
  * exhaustively unit-tested against representative datasets, and the SQL in the
  * route is kept in lock-step with it. {@link buildAggregatedStats} is shared by
  * both paths so the response shape is computed in exactly one place.
+ *
+ * The same derivation applies to the second pump circuit (`dutyCycle2`, see
+ * `@/lib/pump-channels`): pass `channel` 2 and runs and runtime come from that
+ * channel's duty cycle instead. Low pressure is a property of the system, not
+ * of a channel, and is counted the same either way.
  */
+import type { PumpChannel } from '@/lib/pump-channels'
 
 export interface StatsThresholds {
   /**
@@ -87,8 +93,15 @@ export interface StatsRow {
    * as classified by the ESP32. Drives both run detection and runtime accrual.
    */
   dutyCycle1: number
+  /** Same as `dutyCycle1` for the second pump circuit; treated as 0 when absent. */
+  dutyCycle2?: number
   /** Minimum pressure observed in the window (PSI). */
   pressMin: number
+  /**
+   * Average pressure in the window (PSI). Looks up the delivery rate on a
+   * {@link FlowModel} curve; `pressMin` is used when absent.
+   */
+  pressAvg?: number
   /**
    * Optional device id. When present, transitions are detected PER DEVICE so a
    * mix of devices in one dataset does not produce phantom edges.
@@ -104,6 +117,10 @@ export interface RawStatTotals {
   lowPressureDurationSeconds: number
   /** Number of raw rows considered (useful for sanity-checking coverage). */
   sampleCount: number
+  /** Estimated gallons pumped; `null`/absent when no flow model is configured. */
+  pumpedGallons?: number | null
+  /** Length of the summarised range in seconds; drives the usage rates. */
+  rangeSeconds?: number
 }
 
 /** Full stats payload returned by the endpoint. */
@@ -114,9 +131,37 @@ export interface AggregatedStats extends RawStatTotals {
   averagePumpRunSeconds: number
   /** Mean low-pressure spell length in seconds (0 when there were none). */
   averageLowPressureSeconds: number
+  /**
+   * Estimated water delivered, from pump runtime and the configured flow
+   * model. This and the fields below are `null` when no flow is configured;
+   * the rates are also `null` when the range length is unknown.
+   */
+  estimatedGallons: number | null
+  averageGallonsPerRun: number | null
+  gallonsPerHour: number | null
+  gallonsPerDay: number | null
+  gallonsPerWeek: number | null
+}
+
+/** One point of a pump datasheet's delivery curve. */
+export interface FlowCurvePoint {
+  psi: number
+  gpm: number
 }
 
+/**
+ * How fast the pump delivers water while running: a single rated GPM, or the
+ * GPM-vs-pressure curve from its datasheet (delivery falls as head rises).
+ */
+export type FlowModel =
+  | { type: 'fixed'; gpm: number }
+  | { type: 'curve'; points: readonly FlowCurvePoint[] }
+
+/** Flow model of each device, for stats spanning devices with their own pumps. */
+export type DeviceFlowModels = ReadonlyMap<string, FlowModel | null>
+
 const MS_PER_SECOND = 1000
+const SECONDS_PER_HOUR = 3600
 
 function toMillis(value: Date | string | number): number {
   if (value instanceof Date) return value.getTime()
@@ -149,7 +194,13 @@ export function buildAggregatedStats(totals: RawStatTotals): AggregatedStats {
     lowPressureEventCount,
     lowPressureDurationSeconds,
     sampleCount,
+    rangeSeconds,
   } = totals
+  const gallons = totals.pumpedGallons ?? null
+  const gallonsPer = (seconds: number): number | null =>
+    gallons !== null && rangeSeconds && rangeSeconds > 0
+      ? round((gallons / rangeSeconds) * seconds, 1)
+      : null
 
   return {
     pumpRunCount,
@@ -165,14 +216,67 @@ export function buildAggregatedStats(totals: RawStatTotals): AggregatedStats {
       lowPressureEventCount > 0
         ? round(lowPressureDurationSeconds / lowPressureEventCount)
         : 0,
+    estimatedGallons: gallons === null ? null : round(gallons, 1),
+    averageGallonsPerRun:
+      gallons === null ? null : pumpRunCount > 0 ? round(gallons / pumpRunCount, 1) : 0,
+    gallonsPerHour: gallonsPer(SECONDS_PER_HOUR),
+    gallonsPerDay: gallonsPer(24 * SECONDS_PER_HOUR),
+    gallonsPerWeek: gallonsPer(7 * 24 * SECONDS_PER_HOUR),
   }
 }
 
+/**
+ * Parse a flow curve written as comma-separated `psi:gpm` pairs, e.g.
+ * `"30:12, 40:10.5, 50:8"`. Returns the points sorted by pressure, or `null`
+ * when the text is malformed or has fewer than two points.
+ */
+export function parseFlowCurve(raw: string): FlowCurvePoint[] | null {
+  const points: FlowCurvePoint[] = []
+  for (const part of raw.split(',')) {
+    if (!part.trim()) continue
+    const [psiText, gpmText, ...rest] = part.split(':')
+    const psi = Number(psiText?.trim())
+    const gpm = Number(gpmText?.trim())
+    if (rest.length > 0 || !gpmText?.trim()) return null
+    if (!Number.isFinite(psi) || !Number.isFinite(gpm) || psi < 0 || gpm < 0) return null
+    points.push({ psi, gpm })
+  }
+  if (points.length < 2) return null
+  return points.sort((a, b) => a.psi - b.psi)
+}
+
+/**
+ * Delivery rate (GPM) at `psi`. Curves are interpolated linearly between
+ * points and held flat beyond either end.
+ */
+export function flowRateAt(model: FlowModel, psi: number): number {
+  if (model.type === 'fixed') return model.gpm
+  const { points } = model
+  if (psi <= points[0].psi) return points[0].gpm
+  for (let i = 1; i < points.length; i++) {
+    const hi = points[i]
+    if (psi <= hi.psi) {
+      const lo = points[i - 1]
+      const span = hi.psi - lo.psi
+      return span > 0 ? lo.gpm + ((psi - lo.psi) / span) * (hi.gpm - lo.gpm) : hi.gpm
+    }
+  }
+  return points[points.length - 1].gpm
+}
+
 /** Chronological sort key for a row (prefers `timestamp`, falls back to `startTime`). */
 function orderKey(row: StatsRow): number {
   return toMillis(row.timestamp ?? row.startTime)
 }
 
+/** The row's duty cycle (0..100) on the given pump channel. */
+export function channelDutyCycle(
+  row: Pick<StatsRow, 'dutyCycle1' | 'dutyCycle2'>,
+  channel: PumpChannel,
+): number {
+  return channel === 2 ? (row.dutyCycle2 ?? 0) : row.dutyCycle1
+}
+
 /**
  * Reference implementation of the stats derivation, operating on in-memory rows.
  *
@@ -193,12 +297,22 @@ function orderKey(row: StatsRow): number {
  * the 0..100 percentage to a 0..1 fraction. Low-pressure duration still accrues
  * the full window span of every low row.
  *
+ * With a `flow` model, each on-row's runtime is also converted to gallons at
+ * the row's pressure, and the range (earliest start to latest end) drives the
+ * per-hour/day/week usage rates. Given per-device models, each device's rows
+ * use its own; gallons stay `null` only when no device has one.
+ *
+ * `channel` picks which duty cycle drives runs and runtime; the default is the
+ * well pump on channel 1.
+ *
  * This mirrors the SQL executed by `/api/stats` exactly. It is used directly by
  * the test-suite and is safe to call from server code as a fallback.
  */
 export function computeStatsFromRows(
   rows: readonly StatsRow[],
   thresholds: StatsThresholds = DEFAULT_STATS_THRESHOLDS,
+  flow: FlowModel | DeviceFlowModels | null = null,
+  channel: PumpChannel = 1,
 ): AggregatedStats {
   const { dutyCycleThreshold, pressureThreshold, runMergeGapSeconds } = thresholds
   const mergeGapMs = Math.max(0, runMergeGapSeconds) * MS_PER_SECOND
@@ -211,6 +325,13 @@ export function computeStatsFromRows(
     sampleCount: rows.length,
   }
 
+  const flowFor = (device: string): FlowModel | null =>
+    flow instanceof Map ? (flow.get(device) ?? null) : (flow as FlowModel | null)
+  const hasFlow = flow instanceof Map ? [...flow.values()].some(Boolean) : flow !== null
+  let pumpedGallons = 0
+  let firstStartMs = Infinity
+  let lastEndMs = -Infinity
+
   // Group by device so transitions are detected independently per device.
   const groups = new Map<string, StatsRow[]>()
   for (const row of rows) {
@@ -220,7 +341,8 @@ export function computeStatsFromRows(
     else groups.set(key, [row])
   }
 
-  for (const group of groups.values()) {
+  for (const [key, group] of groups) {
+    const groupFlow = flowFor(key)
     const ordered = [...group].sort((a, b) => orderKey(a) - orderKey(b))
 
     let prevLowPress = false
@@ -230,16 +352,24 @@ export function computeStatsFromRows(
     let lastOnEndMs: number | null = null
 
     for (const row of ordered) {
-      const pumpOn = row.dutyCycle1 > dutyCycleThreshold
+      const dutyCycle = channelDutyCycle(row, channel)
+      const pumpOn = dutyCycle > dutyCycleThreshold
       const lowPress = row.pressMin <= pressureThreshold
       const seconds = windowSeconds(row)
+      firstStartMs = Math.min(firstStartMs, toMillis(row.startTime))
+      lastEndMs = Math.max(lastEndMs, toMillis(row.endTime))
 
       if (pumpOn) {
         const rowStartMs = toMillis(row.startTime)
         if (lastOnEndMs === null || rowStartMs - lastOnEndMs > mergeGapMs) {
           totals.pumpRunCount += 1
         }
-        totals.pumpDurationSeconds += (row.dutyCycle1 / 100) * seconds
+        const onSeconds = (dutyCycle / 100) * seconds
+        totals.pumpDurationSeconds += onSeconds
+        if (groupFlow) {
+          pumpedGallons +=
+            (flowRateAt(groupFlow, row.pressAvg ?? row.pressMin) * onSeconds) / 60
+        }
         lastOnEndMs = toMillis(row.endTime)
       }
 
@@ -252,5 +382,88 @@ export function computeStatsFromRows(
     }
   }
 
+  totals.pumpedGallons = hasFlow ? pumpedGallons : null
+  totals.rangeSeconds =
+    lastEndMs > firstStartMs ? (lastEndMs - firstStartMs) / MS_PER_SECOND : 0
   return buildAggregatedStats(totals)
 }
+
+/** A {@link StatsRow} that also carries the window's peak pressure. */
+export interface PumpCycleRow extends StatsRow {
+  /** Maximum pressure observed in the window (PSI). */
+  pressMax: number
+}
+
+/** One pump run, as delimited by {@link computeStatsFromRows}. */
+export interface PumpCycle {
+  device?: string
+  /** Start of the run's first on-row, in epoch ms. */
+  startMs: number
+  /** End of the run's last on-row, in epoch ms. */
+  endMs: number
+  /** Actual seconds the pump ran, accrued as in {@link computeStatsFromRows}. */
+  runSeconds: number
+  /** `pressMin` of the first on-row: the pressure the pump switched on at. */
+  cutInPsi: number
+  /** `pressMax` of the last on-row: the pressure the pump switched off at. */
+  cutOutPsi: number
+  /** (cutOutPsi − cutInPsi) per minute of actual run time; 0 for an empty run. */
+  risePsiPerMinute: number
+}
+
+/**
+ * Split rows into individual pump runs using exactly the on/merge rules of
+ * {@link computeStatsFromRows}, so the cycles returned here are the runs that
+ * `pumpRunCount` counts. Returned in chronological order per device, devices in
+ * order of first appearance. Only on-rows matter, so callers may pass just
+ * those.
+ */
+export function computePumpCycles(
+  rows: readonly PumpCycleRow[],
+  thresholds: StatsThresholds = DEFAULT_STATS_THRESHOLDS,
+): PumpCycle[] {
+  const { dutyCycleThreshold, runMergeGapSeconds } = thresholds
+  const mergeGapMs = Math.max(0, runMergeGapSeconds) * MS_PER_SECOND
+
+  const groups = new Map<string, PumpCycleRow[]>()
+  for (const row of rows) {
+    const key = row.device ?? '__default__'
+    const group = groups.get(key)
+    if (group) group.push(row)
+    else groups.set(key, [row])
+  }
+
+  const cycles: PumpCycle[] = []
+  for (const group of groups.values()) {
+    const ordered = [...group].sort((a, b) => orderKey(a) - orderKey(b))
+    let current: PumpCycle | null = null
+
+    for (const row of ordered) {
+      if (!(row.dutyCycle1 > dutyCycleThreshold)) continue
+      const rowStartMs = toMillis(row.startTime)
+      if (current === null || rowStartMs - current.endMs > mergeGapMs) {
+        current = {
+          device: row.device,
+          startMs: rowStartMs,
+          endMs: rowStartMs,
+          runSeconds: 0,
+          cutInPsi: row.pressMin,
+          cutOutPsi: row.pressMax,
+          risePsiPerMinute: 0,
+        }
+        cycles.push(current)
+      }
+      current.runSeconds += (row.dutyCycle1 / 100) * windowSeconds(row)
+      current.endMs = toMillis(row.endTime)
+      current.cutOutPsi = row.pressMax
+    }
+  }
+
+  for (const cycle of cycles) {
+    cycle.risePsiPerMinute =
+      cycle.runSeconds > 0
+        ? round(((cycle.cutOutPsi - cycle.cutInPsi) / cycle.runSeconds) * 60)
+        : 0
+  }
+  return cycles
+}
@@ -3,7 +3,8 @@
  *
  * Each user can opt in (via NotificationSettings) to receive a digest of pump
  * activity over the previous day or week, delivered to their Pushover account
- * at a configurable local hour. An hourly cron job invokes
+ * at a configurable local hour, and also by email when they have email
+ * notifications on. An hourly cron job invokes
  * {@link runDueSummaryReports}; per-user opt-in, the chosen hour-in-timezone,
  * and a `summaryReportLastSentAt` idempotency guard keep deliveries to one per
  * window even if the cron fires multiple times.
@@ -26,12 +27,16 @@ import {
   type ChannelResult,
   type PushoverCredentials,
 } from '@/lib/notifications'
+import { isEmailConfigured, sendEmail } from '@/lib/email'
+import { renderAlertEmail } from '@/lib/email-templates'
 import {
   DEFAULT_TEMPERATURE_UNIT,
   formatTemperature,
   toTemperatureUnit,
   type TemperatureUnit,
 } from '@/lib/temperature'
+import { getTankHealthScores } from '@/lib/tank-health'
+import { getFlowModels } from '@/lib/water-usage'
 
 export type SummaryReportPeriod = 'day' | 'week'
 
@@ -52,6 +57,12 @@ export interface SummaryReportPayload {
    */
   tempMinF: number | null
   tempMaxF: number | null
+  /**
+   * Pressure-tank health score (0..100) of each device over the tracked weeks
+   * up to `end`. Devices without enough runs to judge are left out, and the
+   * line is dropped when none has a score.
+   */
+  tankHealthScores: Array<{ device: string; score: number }>
   /** Title and body as they'll appear in the Pushover notification. */
   title: string
   body: string
@@ -64,6 +75,8 @@ export interface SummaryReportSendResult {
   /** Set when delivery was skipped (e.g. no Pushover creds for this user). */
   skippedReason?: string
   channel?: ChannelResult
+  /** Set when the report was also emailed. */
+  email?: ChannelResult
 }
 
 const MS_PER_HOUR = 60 * 60 * 1000
@@ -84,6 +97,8 @@ export async function buildSummaryReport(
   options: {
     thresholds?: StatsThresholds
     temperatureUnit?: TemperatureUnit
+    /** Scores already computed for this tick, shared across recipients. */
+    tankHealthScores?: SummaryReportPayload['tankHealthScores']
   } = {},
 ): Promise<SummaryReportPayload> {
   const thresholds = options.thresholds ?? DEFAULT_STATS_THRESHOLDS
@@ -101,6 +116,7 @@ export async function buildSummaryReport(
       endTime: true,
       dutyCycle1: true,
       pressMin: true,
+      pressAvg: true,
       tempMin: true,
       tempMax: true,
       device: true,
@@ -108,14 +124,51 @@ export async function buildSummaryReport(
     orderBy: { timestamp: 'asc' },
   })
 
-  const stats = computeStatsFromRows(rows, thresholds)
+  // Each device at its own flow rate, so a per-device override counts.
+  const flow = await getFlowModels(rows.map((row) => row.device))
+  const stats = computeStatsFromRows(rows, thresholds, flow)
   const activeAlerts = await prisma.event.count({ where: { active: true } })
   const { tempMinF, tempMaxF } = aggregateTemperatures(rows)
+  const tankHealthScores = options.tankHealthScores ?? (await loadTankHealthScores(end))
 
   const title = period === 'week' ? 'Weekly well-pump summary' : 'Daily well-pump summary'
-  const body = formatSummaryBody(period, stats, activeAlerts, tempMinF, tempMaxF, temperatureUnit)
+  const body = formatSummaryBody(
+    period,
+    stats,
+    activeAlerts,
+    tempMinF,
+    tempMaxF,
+    tankHealthScores,
+    temperatureUnit,
+  )
 
-  return { period, start, end, stats, activeAlerts, tempMinF, tempMaxF, title, body }
+  return {
+    period,
+    start,
+    end,
+    stats,
+    activeAlerts,
+    tempMinF,
+    tempMaxF,
+    tankHealthScores,
+    title,
+    body,
+  }
+}
+
+/**
+ * Tank scores as of `now`, or none when they can't be computed: a failed score
+ * drops the line rather than the whole report.
+ */
+async function loadTankHealthScores(
+  now: Date,
+): Promise<SummaryReportPayload['tankHealthScores']> {
+  try {
+    return await getTankHealthScores(now)
+  } catch (error) {
+    console.error('[summary-report] failed to score tank health:', error)
+    return []
+  }
 }
 
 /**
@@ -142,7 +195,8 @@ function aggregateTemperatures(
 
 /**
  * Look up a user's settings and dispatch a summary report to their Pushover
- * destination. Returns a structured result whether it actually sent or was
+ * destination and, with email on, their account's email address. It counts as
+ * delivered when either channel succeeds. Returns a structured result whether it actually sent or was
  * skipped (e.g. no creds, disabled). Does NOT update `summaryReportLastSentAt`
  * — see {@link runDueSummaryReports} for the scheduler path that bookkeeps.
  *
@@ -151,10 +205,15 @@ function aggregateTemperatures(
  */
 export async function sendSummaryReportFor(
   userId: string,
-  options: { period?: SummaryReportPeriod; now?: Date } = {},
+  options: {
+    period?: SummaryReportPeriod
+    now?: Date
+    tankHealthScores?: SummaryReportPayload['tankHealthScores']
+  } = {},
 ): Promise<SummaryReportSendResult> {
   const settings = await prisma.notificationSettings.findUnique({
     where: { userId },
+    include: { user: { select: { email: true } } },
   })
   if (!settings) {
     return { userId, period: options.period ?? 'day', delivered: false, skippedReason: 'no settings' }
@@ -162,23 +221,41 @@ export async function sendSummaryReportFor(
 
   const period: SummaryReportPeriod = options.period ?? toPeriod(settings.summaryReportPeriod)
   const credentials = resolveUserPushoverCreds(settings)
-  if (!credentials) {
-    return { userId, period, delivered: false, skippedReason: 'no Pushover credentials' }
+  const emailAddress =
+    settings.emailEnabled && isEmailConfigured() ? settings.user?.email ?? null : null
+  if (!credentials && !emailAddress) {
+    return {
+      userId,
+      period,
+      delivered: false,
+      skippedReason: 'no Pushover credentials or email address',
+    }
   }
 
   const temperatureUnit = toTemperatureUnit(settings.temperatureUnit)
-  const report = await buildSummaryReport(period, options.now, { temperatureUnit })
-  const result = await sendPushover(
-    credentials,
-    {
-      eventType: period === 'week' ? 'WEEKLY_SUMMARY' : 'DAILY_SUMMARY',
-      title: report.title,
-      body: report.body,
-    },
-    `user:${userId}`,
-  )
+  const report = await buildSummaryReport(period, options.now, {
+    temperatureUnit,
+    tankHealthScores: options.tankHealthScores,
+  })
+  const payload = {
+    eventType: period === 'week' ? 'WEEKLY_SUMMARY' : 'DAILY_SUMMARY',
+    title: report.title,
+    body: report.body,
+  }
+  const result = credentials
+    ? await sendPushover(credentials, payload, `user:${userId}`)
+    : undefined
+  const email = emailAddress
+    ? await sendEmail(emailAddress, renderAlertEmail(payload), `user:${userId}`)
+    : undefined
 
-  return { userId, period, delivered: result.success, channel: result }
+  return {
+    userId,
+    period,
+    delivered: Boolean(result?.success || email?.success),
+    ...(result ? { channel: result } : {}),
+    ...(email ? { email } : {}),
+  }
 }
 
 /**
@@ -195,6 +272,9 @@ export async function runDueSummaryReports(
   })
 
   const results: SummaryReportSendResult[] = []
+  // Scoring scans weeks of rows per device, so do it once for the tick and
+  // only when someone is actually due.
+  let tankHealthScores: SummaryReportPayload['tankHealthScores'] | undefined
   for (const settings of candidates) {
     const period = toPeriod(settings.summaryReportPeriod)
     const tz = isValidTimezone(settings.summaryReportTimezone)
@@ -216,7 +296,8 @@ export async function runDueSummaryReports(
       if (gap < minGap) continue
     }
 
-    const result = await sendSummaryReportFor(settings.userId, { period, now })
+    tankHealthScores ??= await loadTankHealthScores(now)
+    const result = await sendSummaryReportFor(settings.userId, { period, now, tankHealthScores })
     results.push(result)
 
     // Only mark as sent when delivery actually succeeded — a failed attempt
@@ -243,6 +324,7 @@ function formatSummaryBody(
   activeAlerts: number,
   tempMinF: number | null,
   tempMaxF: number | null,
+  tankHealthScores: Array<{ device: string; score: number }>,
   temperatureUnit: TemperatureUnit,
 ): string {
   const range = period === 'week' ? 'Last 7 days' : 'Last 24 hours'
@@ -260,6 +342,13 @@ function formatSummaryBody(
     `• Low-pressure events: ${stats.lowPressureEventCount}${avgLowStr}`,
     `• Low-pressure time: ${formatDuration(stats.lowPressureDurationSeconds)}`,
   ]
+  // Only when a pump flow rate is configured; a weekly report adds the
+  // average day so it reads in the same units as the daily one.
+  if (stats.estimatedGallons !== null) {
+    const perDay =
+      period === 'week' ? ` (avg ${Math.round(stats.estimatedGallons / 7)} gal/day)` : ''
+    lines.push(`• Water used: ~${Math.round(stats.estimatedGallons)} gal${perDay}`)
+  }
   // Drop the temperature line entirely when the window had no readings rather
   // than printing a confusing "n/a" alongside real numbers.
   if (tempMinF !== null && tempMaxF !== null) {
@@ -267,6 +356,11 @@ function formatSummaryBody(
       `• Temperature: ${formatTemperature(tempMinF, temperatureUnit)} – ${formatTemperature(tempMaxF, temperatureUnit)}`,
     )
   }
+  // Name the device only when there is more than one tank to tell apart.
+  for (const { device, score } of tankHealthScores) {
+    const label = tankHealthScores.length > 1 ? ` (${device})` : ''
+    lines.push(`• Tank health${label}: ${score}/100`)
+  }
   lines.push(`• Active alerts: ${activeAlerts}`)
   return lines.join('\n')
 }
@@ -0,0 +1,319 @@
+/**
+ * Pressure-tank health estimated from how fast each pump run builds pressure.
+ *
+ * A pressure tank stores water against a charge of air. While the charge is
+ * right, the pump fills the tank's drawdown volume on each run, so pressure
+ * climbs from cut-in to cut-out over a minute or more. As the tank loses
+ * pre-charge or becomes waterlogged there is less and less room for water, and
+ * the same climb happens in seconds — the pump short-cycles long before
+ * anything else looks wrong. The PSI gained per minute of run time is
+ * therefore a direct, per-pump measure of how much working volume is left.
+ *
+ * Each run is taken from {@link computePumpCycles} (the runs the stats page
+ * counts). Runs that did not build pressure — a pump keeping up with heavy
+ * demand — say nothing about the tank and are skipped. The rest are bucketed
+ * into 7-day weeks ending now, and each week's median rise rate is compared
+ * with the best (lowest) week in the lookback:
+ *
+ *   score = 100 × best weekly rate / latest weekly rate   (capped to 0..100)
+ *
+ * so 100 means "as good as this tank has been recently" and 50 means runs now
+ * build pressure twice as fast, i.e. about half the working volume. The score
+ * is relative to the pump's own history because rise rate depends on pump
+ * output and tank size, which vary from system to system.
+ *
+ * An optional TANK_DEGRADED alert fires when the score falls below a
+ * configured value; it is evaluated once a day.
+ */
+import { prisma } from '@/lib/prisma'
+import { dispatchEventNotifications } from '@/lib/notifications'
+import { resolveEvent, worstValue } from '@/lib/event-resolution'
+import { getScopedSettings, resolveNumericSetting } from '@/lib/device-settings'
+import {
+  computePumpCycles,
+  DEFAULT_STATS_THRESHOLDS,
+  type PumpCycle,
+} from '@/lib/stats'
+
+/** Default lookback, in weeks. Two months spans several seasons of usage. */
+export const DEFAULT_TANK_HEALTH_WEEKS = 8
+/** Default alert score; 0 leaves the alert off until an admin opts in. */
+export const DEFAULT_TANK_HEALTH_ALERT_SCORE = 0
+
+export const TANK_HEALTH_WEEKS_KEY = 'tankHealthWeeks'
+export const TANK_HEALTH_ALERT_SCORE_KEY = 'tankHealthAlertScore'
+
+/** Runs that raised pressure by less than this (PSI) are ignored. */
+const MIN_CYCLE_RISE_PSI = 5
+
+/** A week needs this many qualifying runs before its median is used. */
+const MIN_CYCLES_PER_WEEK = 5
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000
+
+export interface TankHealthThresholds {
+  /** Weeks of history to track. */
+  weeks: number
+  /** Alert when the score drops below this. 0 disables the alert. */
+  alertScore: number
+}
+
+/** Medians over one 7-day bucket; `null` when the week had no qualifying runs. */
+export interface TankHealthWeek {
+  /** Inclusive start of the bucket. */
+  weekStart: string
+  cycleCount: number
+  medianRunSeconds: number | null
+  medianCutInPsi: number | null
+  medianCutOutPsi: number | null
+  medianRisePsiPerMinute: number | null
+}
+
+export interface TankHealthReport {
+  /** 0..100, or null until there are enough runs to judge. */
+  score: number | null
+  /** Best (lowest) weekly median rise rate in the lookback. */
+  referenceRisePsiPerMinute: number | null
+  /** Median rise rate of the most recent week with enough runs. */
+  currentRisePsiPerMinute: number | null
+  /** One entry per week, oldest first. */
+  weeks: TankHealthWeek[]
+}
+
+function median(values: readonly number[]): number | null {
+  if (values.length === 0) return null
+  const sorted = [...values].sort((a, b) => a - b)
+  const mid = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 1 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2
+}
+
+/**
+ * Bucket pump runs into `weeks` 7-day weeks ending at `now` and score the tank.
+ * Runs outside the lookback are ignored.
+ *
+ * Pure: no I/O, exported for testing.
+ */
+export function summarizeTankHealth(
+  cycles: readonly PumpCycle[],
+  weeks: number,
+  now: Date,
+): TankHealthReport {
+  const count = Math.max(1, Math.floor(weeks))
+  const firstStartMs = now.getTime() - count * WEEK_MS
+  const buckets: PumpCycle[][] = Array.from({ length: count }, () => [])
+
+  for (const cycle of cycles) {
+    if (cycle.cutOutPsi - cycle.cutInPsi < MIN_CYCLE_RISE_PSI) continue
+    if (cycle.runSeconds <= 0) continue
+    const index = Math.floor((cycle.startMs - firstStartMs) / WEEK_MS)
+    if (index < 0 || index >= count) continue
+    buckets[index].push(cycle)
+  }
+
+  const summaries: TankHealthWeek[] = buckets.map((bucket, i) => ({
+    weekStart: new Date(firstStartMs + i * WEEK_MS).toISOString(),
+    cycleCount: bucket.length,
+    medianRunSeconds: median(bucket.map((c) => c.runSeconds)),
+    medianCutInPsi: median(bucket.map((c) => c.cutInPsi)),
+    medianCutOutPsi: median(bucket.map((c) => c.cutOutPsi)),
+    medianRisePsiPerMinute: median(bucket.map((c) => c.risePsiPerMinute)),
+  }))
+
+  const qualifying = summaries
+    .filter((w) => w.cycleCount >= MIN_CYCLES_PER_WEEK)
+    .map((w) => w.medianRisePsiPerMinute!)
+  if (qualifying.length === 0) {
+    return {
+      score: null,
+      referenceRisePsiPerMinute: null,
+      currentRisePsiPerMinute: null,
+      weeks: summaries,
+    }
+  }
+
+  const reference = Math.min(...qualifying)
+  const current = qualifying[qualifying.length - 1]
+  const score = Math.max(0, Math.min(100, Math.round((100 * reference) / current)))
+  return {
+    score,
+    referenceRisePsiPerMinute: reference,
+    currentRisePsiPerMinute: current,
+    weeks: summaries,
+  }
+}
+
+/** Tank-health thresholds in effect for `device`. */
+export async function getTankHealthThresholds(
+  device?: string,
+): Promise<TankHealthThresholds> {
+  try {
+    const settings = await getScopedSettings(
+      [TANK_HEALTH_WEEKS_KEY, TANK_HEALTH_ALERT_SCORE_KEY],
+      device,
+    )
+
+    const resolve = (key: string, fallback: number): number =>
+      resolveNumericSetting(settings, key, fallback)
+
+    return {
+      weeks: resolve(TANK_HEALTH_WEEKS_KEY, DEFAULT_TANK_HEALTH_WEEKS) || DEFAULT_TANK_HEALTH_WEEKS,
+      alertScore: resolve(TANK_HEALTH_ALERT_SCORE_KEY, DEFAULT_TANK_HEALTH_ALERT_SCORE),
+    }
+  } catch (error) {
+    console.error('[tank-health] failed to read thresholds:', error)
+    return {
+      weeks: DEFAULT_TANK_HEALTH_WEEKS,
+      alertScore: DEFAULT_TANK_HEALTH_ALERT_SCORE,
+    }
+  }
+}
+
+/**
+ * Load the device's pump-on rows for the lookback and score its tank. Scans
+ * weeks of rows, so callers run it on demand or on a schedule rather than on
+ * every stats request. Throws on database errors.
+ */
+export async function getTankHealth(
+  device: string,
+  now: Date = new Date(),
+  thresholds?: TankHealthThresholds,
+): Promise<TankHealthReport> {
+  const { weeks } = thresholds ?? (await getTankHealthThresholds(device))
+  const since = new Date(now.getTime() - weeks * WEEK_MS)
+
+  const rows = await prisma.sensorData.findMany({
+    where: {
+      device,
+      timestamp: { gte: since, lte: now },
+      dutyCycle1: { gt: DEFAULT_STATS_THRESHOLDS.dutyCycleThreshold },
+    },
+    orderBy: { timestamp: 'asc' },
+    select: {
+      device: true,
+      timestamp: true,
+      startTime: true,
+      endTime: true,
+      dutyCycle1: true,
+      pressMin: true,
+      pressMax: true,
+    },
+  })
+
+  return summarizeTankHealth(computePumpCycles(rows), weeks, now)
+}
+
+/**
+ * Score of each registered device that has reported, by device name. Devices
+ * without enough runs to judge are left out. Throws on database errors.
+ */
+export async function getTankHealthScores(
+  now: Date = new Date(),
+): Promise<Array<{ device: string; score: number }>> {
+  const devices = await prisma.device.findMany({
+    where: { lastSeenAt: { not: null } },
+    orderBy: { device: 'asc' },
+    select: { device: true },
+  })
+  const scores = []
+  for (const { device } of devices) {
+    const { score } = await getTankHealth(device, now)
+    if (score !== null) scores.push({ device, score })
+  }
+  return scores
+}
+
+/**
+ * Score the tank for the given device and reconcile against any existing
+ * active TANK_DEGRADED event:
+ *  - Score below threshold + no existing -> create + notify
+ *  - Score below threshold + existing    -> update value/duration silently
+ *  - Score recovered + existing          -> resolve
+ *  - Not enough runs to score            -> leave any event as it is
+ * Never throws.
+ */
+export async function checkAndRecordTankHealth(
+  device: string,
+  location: string,
+  now: Date = new Date(),
+): Promise<void> {
+  try {
+    const thresholds = await getTankHealthThresholds(device)
+    if (thresholds.alertScore <= 0) return
+
+    const report = await getTankHealth(device, now, thresholds)
+    if (report.score === null) return
+
+    const existing = await prisma.event.findFirst({
+      where: { device, type: 'TANK_DEGRADED', active: true },
+      orderBy: { timestamp: 'desc' },
+    })
+
+    if (report.score < thresholds.alertScore) {
+      const description =
+        `Pressure tank health ${report.score}/100 (threshold: ${thresholds.alertScore}) — ` +
+        `runs now build ${report.currentRisePsiPerMinute!.toFixed(1)} PSI/min vs ` +
+        `${report.referenceRisePsiPerMinute!.toFixed(1)} PSI/min at best; ` +
+        `check tank pre-charge or for waterlogging`
+
+      if (existing) {
+        await prisma.event.update({
+          where: { id: existing.id },
+          data: {
+            timestamp: now,
+            value: report.score,
+            peakValue: worstValue('TANK_DEGRADED', existing.peakValue ?? existing.value, report.score),
+            duration: BigInt(now.getTime() - existing.startTime.getTime()),
+            description,
+          },
+        })
+      } else {
+        const created = await prisma.event.create({
+          data: {
+            device,
+            location,
+            timestamp: now,
+            type: 'TANK_DEGRADED',
+            value: report.score,
+            threshold: thresholds.alertScore,
+            startTime: now,
+            duration: BigInt(0),
+            active: true,
+            description,
+          },
+        })
+        try {
+          await dispatchEventNotifications({
+            id: created.id,
+            type: 'TANK_DEGRADED',
+            device,
+            location,
+            value: report.score,
+            threshold: thresholds.alertScore,
+            description,
+          })
+        } catch (notifyError) {
+          console.error('[tank-health] notification dispatch failed:', notifyError)
+        }
+      }
+    } else if (existing) {
+      await resolveEvent(existing, now)
+    }
+  } catch (error) {
+    console.error('[tank-health] check failed:', error)
+  }
+}
+
+/** Daily sweep over every registered device that has reported. Never throws. */
+export async function checkTankHealth(now: Date = new Date()): Promise<void> {
+  try {
+    const devices = await prisma.device.findMany({
+      where: { lastSeenAt: { not: null } },
+      select: { device: true, location: true },
+    })
+    for (const { device, location } of devices) {
+      await checkAndRecordTankHealth(device, location ?? '', now)
+    }
+  } catch (error) {
+    console.error('[tank-health] sweep failed:', error)
+  }
+}
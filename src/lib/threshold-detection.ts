@@ -1,6 +1,6 @@
 /**
  * Server-side detection of threshold-based alert conditions
- * (HIGH_CURRENT, LOW_PRESSURE, LOW_TEMPERATURE, MISSING_DATA).
+ * (HIGH_CURRENT, LOW_PRESSURE, LOW_TEMPERATURE, HIGH_HUMIDITY, MISSING_DATA).
  *
  * The ESP32 ships with hardcoded trigger thresholds and emits events when its
  * own values are crossed. That is fine for default behaviour, but the admin
@@ -15,43 +15,87 @@
  * description/value column rather than duplicate active alerts.
  *
  * Conditions vs. notifications:
- *   - Threshold values live here: GLOBAL system settings (one pump, one truth).
+ *   - Threshold values live here: global system settings, optionally
+ *     overridden per device (a house pump and a barn pump rarely share a
+ *     motor or a pressure switch).
  *   - Per-user opt-in to *receive* each type lives on NotificationSettings and
  *     is honoured by the existing dispatcher in `notifications.ts`.
  */
 import { prisma } from '@/lib/prisma'
 import { dispatchEventNotifications } from '@/lib/notifications'
+import { resolveEvent, worstValue } from '@/lib/event-resolution'
+import { getScopedSettings } from '@/lib/device-settings'
+import { getChannelNames, PUMP_CHANNELS, type PumpChannel } from '@/lib/pump-channels'
+import type { SensorChannel } from '@/lib/sensor-sanity'
 import type { EventType } from '@prisma/client'
 
 /**
  * Default thresholds — seeded from the ESP32's known values and the canonical
  * stats thresholds so existing alert behaviour is preserved on first install.
- *  - HIGH_CURRENT: 7.2 A RMS (README example)
+ *  - HIGH_CURRENT: 7.2 A RMS (README example), for each pump channel
  *  - LOW_PRESSURE: 30 PSI (DEFAULT_STATS_THRESHOLDS.pressureThreshold,
  *    standard residential cut-in)
  *  - LOW_TEMPERATURE: 35 °F (above freezing, typical pump-house freeze warning)
+ *  - HIGH_HUMIDITY: 90 % sustained for 30 min. A pump house is often damp, so
+ *    only a long spike — condensation on cold pipes, or a leak spraying
+ *    inside — is worth an alert. A threshold of 0 disables the check.
  *  - MISSING_DATA: 10 min (sensor stream cadence is ~1 min)
+ *
+ * Hysteresis and debounce default to "off" (a zero-width band, one row, zero
+ * minutes), which reproduces the original trigger-on-one-row /
+ * clear-on-one-row behaviour:
+ *  - *Hysteresis* is the band beyond the trigger value a reading must clear
+ *    before an active event resolves, e.g. LOW_PRESSURE triggering at 30 PSI
+ *    with a 3 PSI band clears only above 33 PSI.
+ *  - *Debounce* requires the trailing run of rows meeting the trigger (or
+ *    clear) condition to be at least N rows long AND span at least X minutes
+ *    (first to newest row) before the event is created (or resolved). It
+ *    applies to HIGH_CURRENT, LOW_PRESSURE, LOW_TEMPERATURE and HIGH_HUMIDITY
+ *    alike; HIGH_HUMIDITY's own sustain time raises its trigger minutes.
  */
 export const DEFAULT_THRESHOLDS = {
   highCurrentAmps: 7.2,
+  highCurrent2Amps: 7.2,
   lowPressurePsi: 30,
   lowTemperatureF: 35,
+  highHumidityPct: 90,
+  highHumiditySustainMinutes: 30,
   missingDataMinutes: 10,
+  highCurrentHysteresisAmps: 0,
+  lowPressureHysteresisPsi: 0,
+  lowTemperatureHysteresisF: 0,
+  triggerDebounceRows: 1,
+  triggerDebounceMinutes: 0,
+  clearDebounceRows: 1,
+  clearDebounceMinutes: 0,
 } as const
 
 /** SystemSettings keys used to persist the configurable thresholds. */
 export const THRESHOLD_KEYS = {
   highCurrentAmps: 'highCurrentThresholdAmps',
+  highCurrent2Amps: 'highCurrent2ThresholdAmps',
   lowPressurePsi: 'lowPressureThresholdPsi',
   lowTemperatureF: 'lowTemperatureThresholdF',
+  highHumidityPct: 'highHumidityThresholdPct',
+  highHumiditySustainMinutes: 'highHumiditySustainMinutes',
   missingDataMinutes: 'missingDataTimeoutMinutes',
+  highCurrentHysteresisAmps: 'highCurrentHysteresisAmps',
+  lowPressureHysteresisPsi: 'lowPressureHysteresisPsi',
+  lowTemperatureHysteresisF: 'lowTemperatureHysteresisF',
+  triggerDebounceRows: 'thresholdTriggerDebounceRows',
+  triggerDebounceMinutes: 'thresholdTriggerDebounceMinutes',
+  clearDebounceRows: 'thresholdClearDebounceRows',
+  clearDebounceMinutes: 'thresholdClearDebounceMinutes',
 } as const
 
-export interface Thresholds {
-  highCurrentAmps: number
-  lowPressurePsi: number
-  lowTemperatureF: number
-  missingDataMinutes: number
+export type Thresholds = { -readonly [K in keyof typeof THRESHOLD_KEYS]: number }
+
+/** Debounce requirement for one transition (trigger or clear). */
+export interface DebounceRule {
+  /** Minimum number of consecutive rows; values below 1 mean 1. */
+  rows: number
+  /** Minimum minutes from the first to the newest row of the run. */
+  minutes: number
 }
 
 /**
@@ -70,31 +114,26 @@ export function parseThreshold(
   return value
 }
 
-/** Load all configurable thresholds in a single round-trip. */
-export async function getThresholds(): Promise<Thresholds> {
+/**
+ * Load all configurable thresholds in a single round-trip. With a `device`,
+ * that device's overrides (see `device-settings.ts`) take precedence over the
+ * global values; an unset or malformed override inherits the global value.
+ */
+export async function getThresholds(device?: string): Promise<Thresholds> {
   try {
-    const rows = await prisma.systemSettings.findMany({
-      where: { key: { in: Object.values(THRESHOLD_KEYS) } },
-    })
-    const byKey = new Map(rows.map((r) => [r.key, r.value]))
-    return {
-      highCurrentAmps: parseThreshold(
-        byKey.get(THRESHOLD_KEYS.highCurrentAmps),
-        DEFAULT_THRESHOLDS.highCurrentAmps,
-      ),
-      lowPressurePsi: parseThreshold(
-        byKey.get(THRESHOLD_KEYS.lowPressurePsi),
-        DEFAULT_THRESHOLDS.lowPressurePsi,
-      ),
-      lowTemperatureF: parseThreshold(
-        byKey.get(THRESHOLD_KEYS.lowTemperatureF),
-        DEFAULT_THRESHOLDS.lowTemperatureF,
-      ),
-      missingDataMinutes: parseThreshold(
-        byKey.get(THRESHOLD_KEYS.missingDataMinutes),
-        DEFAULT_THRESHOLDS.missingDataMinutes,
-      ),
+    const { global, override } = await getScopedSettings(
+      Object.values(THRESHOLD_KEYS),
+      device,
+    )
+    const thresholds = { ...DEFAULT_THRESHOLDS } as Thresholds
+    for (const field of Object.keys(THRESHOLD_KEYS) as (keyof Thresholds)[]) {
+      const key = THRESHOLD_KEYS[field]
+      thresholds[field] = parseThreshold(
+        override.get(key),
+        parseThreshold(global.get(key), DEFAULT_THRESHOLDS[field]),
+      )
     }
+    return thresholds
   } catch (error) {
     console.error('[threshold-detection] failed to read settings:', error)
     return { ...DEFAULT_THRESHOLDS }
@@ -106,6 +145,153 @@ interface SensorRowForDetection {
   current2RMS: number
   pressMin: number
   tempMin: number
+  humAvg: number
+}
+
+/** A detection row plus the time it was sampled, for window evaluation. */
+export interface TimedSensorRow extends SensorRowForDetection {
+  timestamp: Date
+}
+
+/** Final state of one condition after walking a window of rows. */
+export interface ConditionWindowState {
+  /** Whether the condition holds on the newest row. */
+  active: boolean
+  /** Measured value on the newest row. */
+  value: number
+  /**
+   * Timestamp of the first row in the trailing active streak — i.e. when the
+   * condition most recently started holding. `null` when inactive.
+   */
+  since: Date | null
+  /** Number of rows in the trailing active streak (0 when inactive). */
+  streakRows: number
+}
+
+/**
+ * Walk chronologically-ordered rows and report where one condition ended up.
+ * Only the newest row decides `active`/`value`; `since` tracks the start of
+ * the unbroken active streak leading up to it so a replayed backlog records
+ * the real onset rather than the replay time.
+ *
+ * Pure: no I/O, exported for testing.
+ */
+export function evaluateConditionWindow(
+  rows: readonly TimedSensorRow[],
+  measure: (row: TimedSensorRow) => number,
+  isActive: (value: number) => boolean,
+): ConditionWindowState {
+  let since: Date | null = null
+  let active = false
+  let value = 0
+  let streakRows = 0
+  for (const row of rows) {
+    value = measure(row)
+    active = isActive(value)
+    if (!active) {
+      since = null
+      streakRows = 0
+    } else {
+      if (since === null) since = row.timestamp
+      streakRows += 1
+    }
+  }
+  return { active, value, since, streakRows }
+}
+
+/**
+ * True when a window's trailing active streak is long enough, in both rows
+ * and elapsed minutes, to satisfy `rule`. `now` is the newest row's time.
+ *
+ * Pure: no I/O, exported for testing.
+ */
+export function isStreakSustained(
+  state: ConditionWindowState,
+  rule: DebounceRule,
+  now: Date,
+): boolean {
+  if (!state.active || state.since === null) return false
+  if (state.streakRows < Math.max(1, rule.rows)) return false
+  return now.getTime() - state.since.getTime() >= rule.minutes * 60 * 1000
+}
+
+/** Trigger/clear decision for one threshold condition over a window. */
+export interface ThresholdDecision {
+  /** Trigger condition is sustained: create (or keep) the event. */
+  triggered: boolean
+  /** Clear condition is sustained: resolve an active event. */
+  cleared: boolean
+  /** Measured value on the newest row. */
+  value: number
+  /** Onset of the trailing trigger streak, for a new event's startTime. */
+  since: Date | null
+}
+
+/**
+ * Apply hysteresis and debounce to one condition. `isTriggered` is the raw
+ * threshold test; `isCleared` is the (stricter) test past the hysteresis band.
+ * A reading inside the band is neither, so an active event stays active and
+ * an inactive one stays inactive.
+ *
+ * Pure: no I/O, exported for testing.
+ */
+export function decideThresholdCondition(
+  rows: readonly TimedSensorRow[],
+  measure: (row: TimedSensorRow) => number,
+  isTriggered: (value: number) => boolean,
+  isCleared: (value: number) => boolean,
+  trigger: DebounceRule,
+  clear: DebounceRule,
+): ThresholdDecision {
+  const triggerState = evaluateConditionWindow(rows, measure, isTriggered)
+  const clearState = evaluateConditionWindow(rows, measure, isCleared)
+  const now = rows.length > 0 ? rows[rows.length - 1].timestamp : new Date(0)
+  return {
+    triggered: isStreakSustained(triggerState, trigger, now),
+    cleared: isStreakSustained(clearState, clear, now),
+    value: triggerState.value,
+    since: triggerState.since,
+  }
+}
+
+/**
+ * Minutes of history to load ahead of the evaluated rows so a debounce streak
+ * can span earlier posts. Assumes at most two minutes between rows (the
+ * nominal cadence is one).
+ */
+const HISTORY_MINUTES_PER_ROW = 2
+
+/** Rows older than `before` that a debounce streak may need. */
+async function loadDebounceHistory(
+  device: string,
+  before: Date,
+  thresholds: Thresholds,
+): Promise<TimedSensorRow[]> {
+  const rows = Math.max(thresholds.triggerDebounceRows, thresholds.clearDebounceRows)
+  const minutes = Math.max(
+    thresholds.triggerDebounceMinutes,
+    thresholds.clearDebounceMinutes,
+    thresholds.highHumidityPct > 0 ? thresholds.highHumiditySustainMinutes : 0,
+  )
+  // Defaults (one row, zero minutes) need nothing beyond the new rows.
+  if (rows <= 1 && minutes <= 0) return []
+
+  const lookbackMs = (minutes + rows * HISTORY_MINUTES_PER_ROW) * 60 * 1000
+  return prisma.sensorData.findMany({
+    where: {
+      device,
+      timestamp: { gte: new Date(before.getTime() - lookbackMs), lt: before },
+    },
+    orderBy: { timestamp: 'asc' },
+    select: {
+      current1RMS: true,
+      current2RMS: true,
+      pressMin: true,
+      tempMin: true,
+      humAvg: true,
+      timestamp: true,
+    },
+  })
 }
 
 /**
@@ -118,97 +304,195 @@ export async function checkSensorThresholds(
   location: string,
   row: SensorRowForDetection,
   now: Date = new Date(),
+): Promise<void> {
+  await checkSensorThresholdWindow(device, location, [{ ...row, timestamp: now }])
+}
+
+/**
+ * Window form of {@link checkSensorThresholds}, used when a device replays a
+ * buffered backlog in one batch. Rows are ordered chronologically and each
+ * condition is reconciled ONCE against its state at the newest row, with the
+ * event start backdated to the onset of the trailing active streak. A single
+ * row behaves exactly like the per-row check. When debounce is configured,
+ * recently stored rows are prepended so a streak can span several posts.
+ * Conditions read from a sensor in `faulty` are skipped, leaving any active
+ * event as it is until the sensor recovers.
+ */
+export async function checkSensorThresholdWindow(
+  device: string,
+  location: string,
+  rows: readonly TimedSensorRow[],
+  faulty: ReadonlySet<SensorChannel> = new Set(),
 ): Promise<void> {
   try {
-    const thresholds = await getThresholds()
+    if (rows.length === 0) return
+    const ordered = [...rows].sort(
+      (a, b) => a.timestamp.getTime() - b.timestamp.getTime(),
+    )
+    const now = ordered[ordered.length - 1].timestamp
+    const thresholds = await getThresholds(device)
 
-    // HIGH_CURRENT — peak RMS across either pump branch.
-    const peakRms = Math.max(row.current1RMS, row.current2RMS)
-    await reconcileCondition({
-      device,
-      location,
-      type: 'HIGH_CURRENT',
-      active: peakRms > thresholds.highCurrentAmps,
-      value: peakRms,
-      threshold: thresholds.highCurrentAmps,
-      describe: (v, t) =>
-        `Pump RMS current ${v.toFixed(2)} A exceeds threshold ${t.toFixed(2)} A`,
-      now,
-    })
+    // Earlier stored rows extend the window so a debounce streak can span
+    // several posts; the newly-posted rows always win over their stored copy.
+    const history = await loadDebounceHistory(device, ordered[0].timestamp, thresholds)
+    const window = [...history, ...ordered]
+    const trigger: DebounceRule = {
+      rows: thresholds.triggerDebounceRows,
+      minutes: thresholds.triggerDebounceMinutes,
+    }
+    const clear: DebounceRule = {
+      rows: thresholds.clearDebounceRows,
+      minutes: thresholds.clearDebounceMinutes,
+    }
+
+    // HIGH_CURRENT — each pump channel against its own threshold, with its
+    // own event. The hysteresis band is shared.
+    const names = await getChannelNames(device)
+    for (const channel of PUMP_CHANNELS) {
+      if (faulty.has(channel === 2 ? 'current2' : 'current1')) continue
+      const limit = channel === 2 ? thresholds.highCurrent2Amps : thresholds.highCurrentAmps
+      const highCurrent = decideThresholdCondition(
+        window,
+        (r) => (channel === 2 ? r.current2RMS : r.current1RMS),
+        (v) => v > limit,
+        (v) => v < limit - thresholds.highCurrentHysteresisAmps,
+        trigger,
+        clear,
+      )
+      await reconcileCondition({
+        device,
+        location,
+        type: 'HIGH_CURRENT',
+        channel,
+        active: highCurrent.triggered,
+        cleared: highCurrent.cleared,
+        value: highCurrent.value,
+        threshold: limit,
+        describe: (v, t) =>
+          `${names[channel]} RMS current ${v.toFixed(2)} A exceeds threshold ${t.toFixed(2)} A`,
+        now,
+        since: highCurrent.since,
+      })
+    }
 
     // LOW_PRESSURE — uses pressMin so a transient dip within a window still trips.
-    await reconcileCondition({
-      device,
-      location,
-      type: 'LOW_PRESSURE',
-      active: row.pressMin <= thresholds.lowPressurePsi,
-      value: row.pressMin,
-      threshold: thresholds.lowPressurePsi,
-      describe: (v, t) =>
-        `Pressure ${v.toFixed(1)} PSI at or below threshold ${t.toFixed(1)} PSI`,
-      now,
-    })
+    if (!faulty.has('pressure')) {
+      const lowPressure = decideThresholdCondition(
+        window,
+        (r) => r.pressMin,
+        (v) => v <= thresholds.lowPressurePsi,
+        (v) => v > thresholds.lowPressurePsi + thresholds.lowPressureHysteresisPsi,
+        trigger,
+        clear,
+      )
+      await reconcileCondition({
+        device,
+        location,
+        type: 'LOW_PRESSURE',
+        active: lowPressure.triggered,
+        cleared: lowPressure.cleared,
+        value: lowPressure.value,
+        threshold: thresholds.lowPressurePsi,
+        describe: (v, t) =>
+          `Pressure ${v.toFixed(1)} PSI at or below threshold ${t.toFixed(1)} PSI`,
+        now,
+        since: lowPressure.since,
+      })
+    }
 
     // LOW_TEMPERATURE — sensor stores Fahrenheit; threshold is Fahrenheit too.
-    await reconcileCondition({
-      device,
-      location,
-      type: 'LOW_TEMPERATURE',
-      active: row.tempMin <= thresholds.lowTemperatureF,
-      value: row.tempMin,
-      threshold: thresholds.lowTemperatureF,
-      describe: (v, t) =>
-        `Temperature ${v.toFixed(1)}°F at or below threshold ${t.toFixed(1)}°F`,
-      now,
-    })
+    if (!faulty.has('temperature')) {
+      const lowTemperature = decideThresholdCondition(
+        window,
+        (r) => r.tempMin,
+        (v) => v <= thresholds.lowTemperatureF,
+        (v) => v > thresholds.lowTemperatureF + thresholds.lowTemperatureHysteresisF,
+        trigger,
+        clear,
+      )
+      await reconcileCondition({
+        device,
+        location,
+        type: 'LOW_TEMPERATURE',
+        active: lowTemperature.triggered,
+        cleared: lowTemperature.cleared,
+        value: lowTemperature.value,
+        threshold: thresholds.lowTemperatureF,
+        describe: (v, t) =>
+          `Temperature ${v.toFixed(1)}°F at or below threshold ${t.toFixed(1)}°F`,
+        now,
+        since: lowTemperature.since,
+      })
+    }
+
+    // HIGH_HUMIDITY — average humidity, so a single damp sample doesn't count;
+    // must hold for the sustain time (or the trigger debounce, if longer).
+    if (thresholds.highHumidityPct > 0 && !faulty.has('humidity')) {
+      const highHumidity = decideThresholdCondition(
+        window,
+        (r) => r.humAvg,
+        (v) => v > thresholds.highHumidityPct,
+        (v) => v <= thresholds.highHumidityPct,
+        {
+          rows: trigger.rows,
+          minutes: Math.max(trigger.minutes, thresholds.highHumiditySustainMinutes),
+        },
+        clear,
+      )
+      await reconcileCondition({
+        device,
+        location,
+        type: 'HIGH_HUMIDITY',
+        active: highHumidity.triggered,
+        cleared: highHumidity.cleared,
+        value: highHumidity.value,
+        threshold: thresholds.highHumidityPct,
+        describe: (v, t) =>
+          `Pump house humidity ${v.toFixed(0)}% above threshold ${t.toFixed(0)}% ` +
+          `for ${thresholds.highHumiditySustainMinutes} min or more — check for ` +
+          `condensation or a leak`,
+        now,
+        since: highHumidity.since,
+      })
+    }
   } catch (error) {
     console.error('[threshold-detection] checkSensorThresholds failed:', error)
   }
 }
 
+/**
+ * Devices silent for longer than this are taken as decommissioned and no
+ * longer checked for MISSING_DATA; an open event stays as it was.
+ */
+const MISSING_DATA_LOOKBACK_MS = 24 * 60 * 60 * 1000
+
 /**
  * MISSING_DATA detection runs on a separate cron tick (not on sensor ingest —
- * the whole point is that no data has arrived). Walks every device seen in
- * the last 24 hours and fires/resolves a single active event per device based
- * on how stale its most recent row is.
+ * the whole point is that no data has arrived). Walks every device in the
+ * registry heard from in the last 24 hours and fires/resolves a single active
+ * event per device based on how long ago the server last heard from it, using
+ * that device's effective timeout. Older devices are skipped so a retired unit
+ * doesn't alert forever; deleting it from the registry also stops it.
  */
 export async function checkMissingData(now: Date = new Date()): Promise<void> {
   try {
-    const thresholds = await getThresholds()
-    const timeoutMs = thresholds.missingDataMinutes * 60 * 1000
-    if (timeoutMs <= 0) return // 0 disables.
-
-    // Devices that have been heard from recently (avoid alerting forever on a
-    // decommissioned device whose last row is months old).
-    const recent = await prisma.sensorData.findMany({
-      where: {
-        timestamp: { gte: new Date(now.getTime() - 24 * 60 * 60 * 1000) },
-      },
-      select: { device: true, location: true, timestamp: true },
-      orderBy: { timestamp: 'desc' },
+    const devices = await prisma.device.findMany({
+      where: { lastSeenAt: { gte: new Date(now.getTime() - MISSING_DATA_LOOKBACK_MS) } },
+      select: { device: true, location: true, lastSeenAt: true },
     })
 
-    // Keep only the most recent row per device.
-    const latestByDevice = new Map<
-      string,
-      { location: string; timestamp: Date }
-    >()
-    for (const row of recent) {
-      if (!latestByDevice.has(row.device)) {
-        latestByDevice.set(row.device, {
-          location: row.location,
-          timestamp: row.timestamp,
-        })
-      }
-    }
+    for (const { device, location, lastSeenAt } of devices) {
+      if (!lastSeenAt) continue
+      const thresholds = await getThresholds(device)
+      const timeoutMs = thresholds.missingDataMinutes * 60 * 1000
+      if (timeoutMs <= 0) continue // 0 disables (globally or for this device).
 
-    for (const [device, { location, timestamp }] of latestByDevice) {
-      const ageMs = now.getTime() - timestamp.getTime()
+      const ageMs = now.getTime() - lastSeenAt.getTime()
       const ageMinutes = ageMs / 60000
       const active = ageMs > timeoutMs
       await reconcileCondition({
         device,
-        location,
+        location: location ?? '',
         type: 'MISSING_DATA',
         active,
         value: ageMinutes,
@@ -228,26 +512,44 @@ interface ReconcileOptions {
   device: string
   location: string
   type: EventType
+  /** Pump channel for per-channel types; other types leave it unset (1). */
+  channel?: PumpChannel
+  /** Whether the condition holds (creates the event if none is active). */
   active: boolean
+  /**
+   * Whether an already-active event may resolve. Defaults to `!active`; the
+   * hysteresis-aware checks pass a stricter test so a reading inside the band
+   * keeps the event open.
+   */
+  cleared?: boolean
   value: number
   threshold: number
   describe: (value: number, threshold: number) => string
   now: Date
+  /** Onset of the condition for a new event; defaults to `now`. */
+  since?: Date | null
 }
 
 /**
  * Create-or-update the active event for a (device, type) pair when the
- * condition is active; resolve the active event when the condition clears.
- * Only dispatches notifications on initial detection (create path) so a
- * lingering condition doesn't spam the user every minute.
+ * condition is active; resolve the active event once the condition clears.
+ * Only dispatches notifications on initial detection (create path) and on
+ * resolution, so a lingering condition doesn't spam the user every minute.
  */
 async function reconcileCondition(opts: ReconcileOptions): Promise<void> {
   const existing = await prisma.event.findFirst({
-    where: { device: opts.device, type: opts.type, active: true },
+    where: {
+      device: opts.device,
+      type: opts.type,
+      ...(opts.channel ? { channel: opts.channel } : {}),
+      active: true,
+    },
     orderBy: { timestamp: 'desc' },
   })
 
-  if (opts.active) {
+  const holds = existing ? !(opts.cleared ?? !opts.active) : opts.active
+
+  if (holds) {
     const description = opts.describe(opts.value, opts.threshold)
     if (existing) {
       const duration = BigInt(opts.now.getTime() - existing.startTime.getTime())
@@ -256,20 +558,27 @@ async function reconcileCondition(opts: ReconcileOptions): Promise<void> {
         data: {
           timestamp: opts.now,
           value: opts.value,
+          peakValue: worstValue(
+            opts.type,
+            existing.peakValue ?? existing.value,
+            opts.value,
+          ),
           threshold: opts.threshold,
           duration,
           description,
         },
       })
     } else {
-      await prisma.event.create({
+      const startTime = opts.since ?? opts.now
+      const created = await prisma.event.create({
         data: {
           device: opts.device,
           location: opts.location,
           type: opts.type,
+          ...(opts.channel ? { channel: opts.channel } : {}),
           timestamp: opts.now,
-          startTime: opts.now,
-          duration: BigInt(0),
+          startTime,
+          duration: BigInt(opts.now.getTime() - startTime.getTime()),
           active: true,
           value: opts.value,
           threshold: opts.threshold,
@@ -278,6 +587,7 @@ async function reconcileCondition(opts: ReconcileOptions): Promise<void> {
       })
       try {
         await dispatchEventNotifications({
+          id: created.id,
           type: opts.type,
           device: opts.device,
           location: opts.location,
@@ -293,9 +603,6 @@ async function reconcileCondition(opts: ReconcileOptions): Promise<void> {
       }
     }
   } else if (existing) {
-    await prisma.event.update({
-      where: { id: existing.id },
-      data: { active: false, timestamp: opts.now },
-    })
+    await resolveEvent(existing, opts.now)
   }
 }
@@ -0,0 +1,207 @@
+/**
+ * Water usage estimated from pump runtime.
+ *
+ * The monitor has no flow meter, but a pump delivers a known flow while it
+ * runs: either a single rated GPM, or — more accurately — the GPM-vs-pressure
+ * curve from its datasheet. Multiplying each minute's actual run time by the
+ * flow at that minute's pressure gives the water delivered, which is what
+ * `computeStatsFromRows` and `/api/stats` report as `estimatedGallons`.
+ *
+ * The flow model is configured in SystemSettings (globally or per device):
+ *   - `pumpFlowCurve`  comma-separated `psi:gpm` pairs, e.g. "30:12,50:8"
+ *   - `pumpFlowGpm`    a fixed GPM, used when no curve is set
+ * A device's own settings win over the global ones; within each scope the
+ * curve wins over the fixed rate. With neither set, volumes are `null`.
+ *
+ * An optional HIGH_WATER_USAGE alert fires when the estimated usage over the
+ * last 24 hours exceeds `dailyWaterBudgetGallons`. It is evaluated hourly.
+ */
+import { prisma } from '@/lib/prisma'
+import { dispatchEventNotifications } from '@/lib/notifications'
+import { resolveEvent, worstValue } from '@/lib/event-resolution'
+import { getScopedSettings, resolveNumericSetting } from '@/lib/device-settings'
+import {
+  computeStatsFromRows,
+  DEFAULT_STATS_THRESHOLDS,
+  parseFlowCurve,
+  type DeviceFlowModels,
+  type FlowModel,
+} from '@/lib/stats'
+
+export const PUMP_FLOW_GPM_KEY = 'pumpFlowGpm'
+export const PUMP_FLOW_CURVE_KEY = 'pumpFlowCurve'
+export const WATER_BUDGET_KEY = 'dailyWaterBudgetGallons'
+
+/** Budget default; 0 leaves the alert off until an admin sets one. */
+export const DEFAULT_DAILY_WATER_BUDGET_GALLONS = 0
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Build a flow model from one scope's raw values, or null when that scope
+ * configures none (or only malformed / non-positive values).
+ */
+function flowModelFrom(
+  curve: string | undefined,
+  gpm: string | undefined,
+): FlowModel | null {
+  const points = curve ? parseFlowCurve(curve) : null
+  if (points) return { type: 'curve', points }
+  const rate = gpm === undefined ? NaN : parseFloat(gpm)
+  if (Number.isFinite(rate) && rate > 0) return { type: 'fixed', gpm: rate }
+  return null
+}
+
+/**
+ * Resolve the flow model for `device` (or the global one without a device).
+ * Returns null when none is configured or the settings can't be read.
+ */
+export async function getFlowModel(device?: string): Promise<FlowModel | null> {
+  try {
+    const { global, override } = await getScopedSettings(
+      [PUMP_FLOW_CURVE_KEY, PUMP_FLOW_GPM_KEY],
+      device,
+    )
+    return (
+      flowModelFrom(override.get(PUMP_FLOW_CURVE_KEY), override.get(PUMP_FLOW_GPM_KEY)) ??
+      flowModelFrom(global.get(PUMP_FLOW_CURVE_KEY), global.get(PUMP_FLOW_GPM_KEY))
+    )
+  } catch (error) {
+    console.error('[water-usage] failed to read flow settings:', error)
+    return null
+  }
+}
+
+/**
+ * Resolve the flow model of each device, for totals spanning several devices:
+ * a device with its own override must not be counted at the global rate.
+ */
+export async function getFlowModels(devices: Iterable<string>): Promise<DeviceFlowModels> {
+  const flows = new Map<string, FlowModel | null>()
+  for (const device of devices) {
+    if (!flows.has(device)) flows.set(device, await getFlowModel(device))
+  }
+  return flows
+}
+
+/**
+ * Read the daily budget from SystemSettings, preferring the device's override
+ * when set. Falls back to the default (disabled) when unset or malformed.
+ */
+export async function getDailyWaterBudget(device?: string): Promise<number> {
+  try {
+    const settings = await getScopedSettings([WATER_BUDGET_KEY], device)
+    return resolveNumericSetting(settings, WATER_BUDGET_KEY, DEFAULT_DAILY_WATER_BUDGET_GALLONS)
+  } catch (error) {
+    console.error('[water-usage] failed to read budget:', error)
+    return DEFAULT_DAILY_WATER_BUDGET_GALLONS
+  }
+}
+
+/**
+ * Compare the device's estimated usage over the last 24 hours with its budget
+ * and reconcile against any existing active HIGH_WATER_USAGE event:
+ *  - Over budget + no existing -> create + notify
+ *  - Over budget + existing    -> update value/duration silently
+ *  - Under budget + existing   -> resolve
+ * Does nothing when no budget or no flow model is configured. Never throws.
+ */
+export async function checkAndRecordWaterBudget(
+  device: string,
+  location: string,
+  now: Date = new Date(),
+): Promise<void> {
+  try {
+    const budget = await getDailyWaterBudget(device)
+    if (budget <= 0) return
+    const flow = await getFlowModel(device)
+    if (!flow) return
+
+    const since = new Date(now.getTime() - DAY_MS)
+    const rows = await prisma.sensorData.findMany({
+      where: { device, timestamp: { gte: since, lte: now } },
+      orderBy: { timestamp: 'asc' },
+      select: {
+        timestamp: true,
+        startTime: true,
+        endTime: true,
+        dutyCycle1: true,
+        pressMin: true,
+        pressAvg: true,
+      },
+    })
+
+    const gallons =
+      computeStatsFromRows(rows, DEFAULT_STATS_THRESHOLDS, flow).estimatedGallons ?? 0
+    const existing = await prisma.event.findFirst({
+      where: { device, type: 'HIGH_WATER_USAGE', active: true },
+      orderBy: { timestamp: 'desc' },
+    })
+
+    if (gallons > budget) {
+      const description =
+        `Estimated ${Math.round(gallons)} gal used in the last 24 hours ` +
+        `(budget: ${Math.round(budget)} gal)`
+
+      if (existing) {
+        await prisma.event.update({
+          where: { id: existing.id },
+          data: {
+            timestamp: now,
+            value: gallons,
+            peakValue: worstValue('HIGH_WATER_USAGE', existing.peakValue ?? existing.value, gallons),
+            duration: BigInt(now.getTime() - existing.startTime.getTime()),
+            description,
+          },
+        })
+      } else {
+        const created = await prisma.event.create({
+          data: {
+            device,
+            location,
+            timestamp: now,
+            type: 'HIGH_WATER_USAGE',
+            value: gallons,
+            threshold: budget,
+            startTime: since,
+            duration: BigInt(DAY_MS),
+            active: true,
+            description,
+          },
+        })
+        try {
+          await dispatchEventNotifications({
+            id: created.id,
+            type: 'HIGH_WATER_USAGE',
+            device,
+            location,
+            value: gallons,
+            threshold: budget,
+            description,
+          })
+        } catch (notifyError) {
+          console.error('[water-usage] notification dispatch failed:', notifyError)
+        }
+      }
+    } else if (existing) {
+      await resolveEvent(existing, now)
+    }
+  } catch (error) {
+    console.error('[water-usage] budget check failed:', error)
+  }
+}
+
+/** Hourly sweep over every registered device that has reported. Never throws. */
+export async function checkWaterBudget(now: Date = new Date()): Promise<void> {
+  try {
+    const devices = await prisma.device.findMany({
+      where: { lastSeenAt: { not: null } },
+      select: { device: true, location: true },
+    })
+    for (const { device, location } of devices) {
+      await checkAndRecordWaterBudget(device, location ?? '', now)
+    }
+  } catch (error) {
+    console.error('[water-usage] sweep failed:', error)
+  }
+}
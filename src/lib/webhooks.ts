@@ -0,0 +1,258 @@
+/**
+ * Outbound webhooks.
+ *
+ * Admins register webhooks (Settings → Webhooks) to route alerts into other
+ * systems such as Home Assistant or a chat bot. Each one gets a JSON POST
+ * whenever an event of a type it listens to changes state:
+ *
+ *  - `created`: the alert was raised
+ *  - `updated`: the device reported new readings for the active alert
+ *  - `resolved`: the alert cleared, or was resolved by hand
+ *  - `acknowledged`: a user acknowledged it
+ *
+ * The body is signed with the webhook's secret: `X-Webhook-Signature` is
+ * `sha256=` followed by the hex HMAC-SHA256 of `<X-Webhook-Timestamp>.<body>`,
+ * so receivers can check both origin and freshness. Deliveries go through the
+ * notification delivery log like every other channel and are retried the same
+ * way (see `src/lib/notification-deliveries.ts`).
+ */
+import { createHmac, randomBytes } from 'crypto'
+import { prisma } from '@/lib/prisma'
+import { EventType } from '@prisma/client'
+import { isRetryableStatus } from '@/lib/notification-deliveries'
+import type { FieldError, ValidationResult } from '@/lib/payload-validation'
+import type { ChannelResult, NotificationPayload } from '@/lib/notifications'
+
+export const WEBHOOK_TRANSITIONS = ['created', 'updated', 'resolved', 'acknowledged'] as const
+export type WebhookTransition = (typeof WEBHOOK_TRANSITIONS)[number]
+
+/** Receivers that don't answer within this long count as a network error. */
+const WEBHOOK_TIMEOUT_MS = 10 * 1000
+
+const MAX_NAME_LENGTH = 100
+const MIN_SECRET_LENGTH = 16
+
+export interface WebhookTarget {
+  id: string
+  url: string
+  secret: string
+}
+
+/** JSON body of a webhook POST. `event` mirrors `DispatchableEvent`. */
+export interface WebhookBody {
+  transition: WebhookTransition
+  /** Set only on the test send from the admin UI. */
+  test?: true
+  event: {
+    id: string | null
+    type: string
+    device: string | null
+    location: string | null
+    value: number | null
+    threshold: number | null
+    description: string
+    resolved: boolean
+  }
+}
+
+/** Delivery-log recipient for a webhook. */
+export function webhookRecipient(webhookId: string): string {
+  return `webhook:${webhookId}`
+}
+
+/**
+ * The webhook body for a notification. Reads the event details from
+ * `payload.data` as built by `dispatchEventNotifications`, so a logged
+ * delivery can be rebuilt for a retry.
+ *
+ * Pure: no I/O, exported for testing.
+ */
+export function buildWebhookBody(
+  payload: NotificationPayload,
+  eventId: string | null,
+  transition: WebhookTransition,
+): WebhookBody {
+  const data = payload.data ?? {}
+  const string = (value: unknown) => (typeof value === 'string' ? value : null)
+  const number = (value: unknown) => (typeof value === 'number' ? value : null)
+  return {
+    transition,
+    event: {
+      id: eventId,
+      type: String(payload.eventType),
+      device: string(data.device),
+      location: string(data.location),
+      value: number(data.value),
+      threshold: number(data.threshold),
+      description: payload.body,
+      resolved: Boolean(payload.resolved),
+    },
+  }
+}
+
+/**
+ * Hex HMAC-SHA256 of `<timestamp>.<body>` with the webhook's secret.
+ *
+ * Pure: no I/O, exported for testing.
+ */
+export function signWebhookBody(body: string, secret: string, timestamp: number): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')
+}
+
+/** A new random signing secret. */
+export function generateWebhookSecret(): string {
+  return randomBytes(32).toString('hex')
+}
+
+/**
+ * POST `body` to one webhook. Never throws; any 2xx counts as delivered.
+ * Rate limits, server errors and timeouts are retryable.
+ */
+export async function sendWebhook(
+  webhook: WebhookTarget,
+  body: WebhookBody,
+  now: Date = new Date(),
+): Promise<ChannelResult> {
+  const recipient = webhookRecipient(webhook.id)
+  const json = JSON.stringify(body)
+  const timestamp = Math.floor(now.getTime() / 1000)
+
+  try {
+    const response = await fetch(webhook.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'well-pump-monitor-webhook',
+        'X-Webhook-Event': body.transition,
+        'X-Webhook-Timestamp': String(timestamp),
+        'X-Webhook-Signature': `sha256=${signWebhookBody(json, webhook.secret, timestamp)}`,
+      },
+      body: json,
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    })
+
+    if (response.ok) {
+      console.log(
+        `[notifications] webhook sent ok recipient=${recipient} ` +
+          `event=${body.event.type} transition=${body.transition} status=${response.status}`
+      )
+      return { channel: 'webhook', recipient, success: true }
+    }
+
+    const errorMsg = `HTTP ${response.status} ${response.statusText}`.trim()
+    console.error(
+      `[notifications] webhook FAILED recipient=${recipient} ` +
+        `event=${body.event.type} transition=${body.transition}: ${errorMsg}`
+    )
+    return {
+      channel: 'webhook',
+      recipient,
+      success: false,
+      error: errorMsg,
+      retryable: isRetryableStatus(response.status),
+    }
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error)
+    console.error(`[notifications] webhook FAILED recipient=${recipient}: ${errorMsg}`)
+    return { channel: 'webhook', recipient, success: false, error: errorMsg, retryable: true }
+  }
+}
+
+/**
+ * Send a notification to every enabled webhook listening to its type.
+ * `payload.eventType` must be an event type; anything else matches only the
+ * webhooks that listen to every type.
+ */
+export async function sendEventWebhooks(
+  payload: NotificationPayload,
+  eventId: string | null,
+  transition: WebhookTransition,
+  now: Date = new Date(),
+): Promise<ChannelResult[]> {
+  const eventType = String(payload.eventType)
+  const webhooks = await prisma.webhook.findMany({
+    where: {
+      enabled: true,
+      OR: [
+        { eventTypes: { isEmpty: true } },
+        ...(Object.hasOwn(EventType, eventType)
+          ? [{ eventTypes: { has: eventType as EventType } }]
+          : []),
+      ],
+    },
+  })
+  if (webhooks.length === 0) return []
+
+  const body = buildWebhookBody(payload, eventId, transition)
+  return Promise.all(webhooks.map((webhook) => sendWebhook(webhook, body, now)))
+}
+
+export interface WebhookInput {
+  name: string
+  url: string
+  /** Omitted on update to keep the current secret. */
+  secret?: string
+  eventTypes: EventType[]
+  enabled: boolean
+}
+
+/**
+ * Validate a webhook submitted by the admin UI, collecting every problem in
+ * one pass like the other admin validators.
+ */
+export function validateWebhook(raw: unknown): ValidationResult<WebhookInput> {
+  const record =
+    typeof raw === 'object' && raw !== null && !Array.isArray(raw)
+      ? (raw as Record<string, unknown>)
+      : null
+  if (!record) {
+    return { ok: false, errors: [{ field: '', message: 'Webhook must be a JSON object' }] }
+  }
+  const errors: FieldError[] = []
+  const fail = (field: string, message: string) => errors.push({ field, message })
+
+  const name = typeof record.name === 'string' ? record.name.trim() : ''
+  if (!name || name.length > MAX_NAME_LENGTH) {
+    fail('name', `name must be 1 to ${MAX_NAME_LENGTH} characters`)
+  }
+
+  let url = ''
+  try {
+    const parsed = new URL(String(record.url))
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') throw new Error()
+    url = parsed.toString()
+  } catch {
+    fail('url', 'url must be an http or https URL')
+  }
+
+  const secret = record.secret
+  if (
+    secret !== undefined &&
+    secret !== '' &&
+    (typeof secret !== 'string' || secret.length < MIN_SECRET_LENGTH)
+  ) {
+    fail('secret', `secret must be at least ${MIN_SECRET_LENGTH} characters`)
+  }
+
+  const types = record.eventTypes ?? []
+  const eventTypes =
+    Array.isArray(types) && types.every((t) => typeof t === 'string' && Object.hasOwn(EventType, t))
+      ? [...new Set(types as EventType[])]
+      : null
+  if (!eventTypes) fail('eventTypes', 'eventTypes must be a list of event types')
+
+  const enabled = record.enabled ?? true
+  if (typeof enabled !== 'boolean') fail('enabled', 'enabled must be a boolean')
+
+  if (errors.length > 0) return { ok: false, errors }
+  return {
+    ok: true,
+    value: {
+      name,
+      url,
+      ...(typeof secret === 'string' && secret ? { secret } : {}),
+      eventTypes: eventTypes!,
+      enabled: enabled as boolean,
+    },
+  }
+}